@@ -10,6 +10,13 @@ import PlayerProfile from "@/pages/PlayerProfile";
 import PerformanceAssessment from "@/pages/PerformanceAssessment";
 import VideoRecording from "@/pages/VideoRecording";
 import SessionRecording from "@/pages/SessionRecording";
+import VideoComparison from "@/pages/VideoComparison";
+import ReferenceLibrary from "@/pages/ReferenceLibrary";
+import DrillLibrary from "@/pages/DrillLibrary";
+import BatchList from "@/pages/BatchList";
+import BatchDetail from "@/pages/BatchDetail";
+import Schedule from "@/pages/Schedule";
+import SessionAttendance from "@/pages/SessionAttendance";
 
 function Router() {
   return (
@@ -18,7 +25,14 @@ function Router() {
       <Route path="/players/:id" component={PlayerProfile} />
       <Route path="/players/:id/assessment" component={PerformanceAssessment} />
       <Route path="/players/:id/record" component={VideoRecording} />
+      <Route path="/batches" component={BatchList} />
+      <Route path="/batches/:id" component={BatchDetail} />
       <Route path="/record" component={SessionRecording} />
+      <Route path="/schedule" component={Schedule} />
+      <Route path="/sessions/:id/attendance" component={SessionAttendance} />
+      <Route path="/compare" component={VideoComparison} />
+      <Route path="/references" component={ReferenceLibrary} />
+      <Route path="/drills" component={DrillLibrary} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatCounts, formatPercentage, isLowAttendance } from "@/lib/attendance";
+import type { BatchAttendanceReport as BatchAttendanceReportData } from "@shared/schema";
+
+// Default range: the last four weeks or so
+const DEFAULT_DAYS = 30;
+
+// Attendance per player and per session for the batch between two dates
+const BatchAttendanceReport = ({ batchId }: { batchId: string }) => {
+  const [from, setFrom] = useState(format(subDays(new Date(), DEFAULT_DAYS), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const reportUrl = `/api/batches/${batchId}/attendance`;
+  const params = new URLSearchParams({ from, to }).toString();
+  const { data: report, error } = useQuery<BatchAttendanceReportData>({
+    queryKey: [reportUrl, params],
+    queryFn: async () => {
+      const response = await fetch(`${reportUrl}?${params}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.details?.join(", ") || body?.error || `Failed to load attendance: ${response.status}`);
+      }
+      return response.json();
+    },
+    enabled: !!from && !!to,
+  });
+
+  const percentageClass = (summary: BatchAttendanceReportData["summary"]) =>
+    isLowAttendance(summary) ? "text-red-600 font-medium" : "";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle>Attendance</CardTitle>
+        <div className="flex items-center gap-2 text-sm">
+          <Label htmlFor="attendance-from">From</Label>
+          <Input id="attendance-from" type="date" className="w-40" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <Label htmlFor="attendance-to">to</Label>
+          <Input id="attendance-to" type="date" className="w-40" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-red-600">{error.message}</p>
+        ) : !report ? (
+          <p className="text-gray-500">Loading attendance...</p>
+        ) : report.sessions.length === 0 ? (
+          <p className="text-gray-500">No sessions in this range.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-neutral-600">
+              <span className={`text-lg font-bold mr-2 ${percentageClass(report.summary)}`}>{formatPercentage(report.summary)}</span>
+              over {report.sessions.length} sessions · {formatCounts(report.summary)}
+            </p>
+            <div className="grid md:grid-cols-2 gap-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-neutral-500 border-b">
+                    <th className="py-2">Player</th>
+                    <th className="py-2">Attended</th>
+                    <th className="py-2 text-right">%</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.players.map(({ player, summary }) => (
+                    <tr key={player.id} className="border-b last:border-0">
+                      <td className="py-1">
+                        <Link href={`/players/${player.id}`} className="hover:underline">{player.name}</Link>
+                      </td>
+                      <td className="py-1 text-neutral-600">
+                        {summary.present + summary.late} of {summary.present + summary.late + summary.absent}
+                        {summary.excused > 0 ? ` (${summary.excused} excused)` : ""}
+                      </td>
+                      <td className={`py-1 text-right ${percentageClass(summary)}`}>{formatPercentage(summary)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-neutral-500 border-b">
+                    <th className="py-2">Session</th>
+                    <th className="py-2">Attended</th>
+                    <th className="py-2 text-right">%</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.sessions.map(session => (
+                    <tr key={session.id} className="border-b last:border-0">
+                      <td className="py-1">
+                        <Link href={`/sessions/${session.id}/attendance`} className="hover:underline">
+                          {format(new Date(`${session.date}T00:00:00`), "MMM d")} {session.start_time ?? ""}
+                        </Link>
+                        <span className="text-neutral-500 ml-1">{session.name}</span>
+                      </td>
+                      <td className="py-1 text-neutral-600">
+                        {session.summary.present + session.summary.late} of {session.summary.present + session.summary.late + session.summary.absent}
+                      </td>
+                      <td className={`py-1 text-right ${percentageClass(session.summary)}`}>{formatPercentage(session.summary)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BatchAttendanceReport;
@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { BATCH_LEVELS, WEEKDAYS } from "@shared/schema";
+import type { Batch, BatchTimetableSlot, RubricTemplate } from "@shared/schema";
+
+const NONE = "none";
+
+interface BatchFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batch?: Batch; // edits this batch, creates a new one when left out
+}
+
+// Create / edit dialog for a batch. Coaches are entered comma separated.
+const BatchForm = ({ open, onOpenChange, batch }: BatchFormProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [ageGroup, setAgeGroup] = useState("");
+  const [level, setLevel] = useState(NONE);
+  const [coaches, setCoaches] = useState("");
+  const [rubricId, setRubricId] = useState(NONE);
+  const [capacity, setCapacity] = useState("");
+  const [timetable, setTimetable] = useState<BatchTimetableSlot[]>([]);
+
+  const { data: rubrics = [] } = useQuery<RubricTemplate[]>({
+    queryKey: ["/api/rubrics"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setName(batch?.name ?? "");
+    setAgeGroup(batch?.age_group ?? "");
+    setLevel(batch?.level ?? NONE);
+    setCoaches(batch?.coaches.join(", ") ?? "");
+    setRubricId(batch?.rubric_id ?? NONE);
+    setCapacity(batch?.capacity ? String(batch.capacity) : "");
+    setTimetable(batch?.timetable ?? []);
+  }, [open, batch]);
+
+  const updateSlot = (index: number, changes: Partial<BatchTimetableSlot>) => {
+    setTimetable(slots => slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  };
+
+  const saveBatch = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: name.trim(),
+        age_group: ageGroup.trim() || null,
+        level: level === NONE ? null : level,
+        coaches: coaches.split(",").map(coach => coach.trim()).filter(Boolean),
+        rubric_id: rubricId === NONE ? null : rubricId,
+        capacity: capacity ? Number(capacity) : null,
+        timetable,
+      };
+      const response = await fetch(batch ? `/api/batches/${batch.id}` : "/api/batches", {
+        method: batch ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.details?.join(", ") || error?.error || `Failed to save batch: ${response.status}`);
+      }
+      return response.json() as Promise<Batch>;
+    },
+    onSuccess: (saved) => {
+      toast({ title: batch ? "Batch updated" : "Batch created", description: saved.name });
+      queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/batches/${saved.id}`] });
+      if (batch && batch.name !== saved.name) {
+        queryClient.invalidateQueries({ queryKey: ["players"] });
+      }
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save batch", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{batch ? "Edit Batch" : "New Batch"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="batch-name">Name</Label>
+            <Input id="batch-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. U15 Evening" />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="batch-age-group">Age Group</Label>
+              <Input id="batch-age-group" value={ageGroup} onChange={(e) => setAgeGroup(e.target.value)} placeholder="e.g. U15" />
+            </div>
+            <div>
+              <Label>Level</Label>
+              <Select value={level} onValueChange={setLevel}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Any level</SelectItem>
+                  {BATCH_LEVELS.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="batch-capacity">Capacity</Label>
+              <Input
+                id="batch-capacity"
+                type="number"
+                min={1}
+                value={capacity}
+                onChange={(e) => setCapacity(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="batch-coaches">Coaches</Label>
+            <Input id="batch-coaches" value={coaches} onChange={(e) => setCoaches(e.target.value)} placeholder="Comma separated names" />
+          </div>
+          <div>
+            <Label>Assessment Rubric</Label>
+            <Select value={rubricId} onValueChange={setRubricId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Usual rubric for each player</SelectItem>
+                {rubrics.map(rubric => (
+                  <SelectItem key={rubric.id} value={rubric.id}>{rubric.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <div className="flex items-center justify-between">
+              <Label>Timetable</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setTimetable(slots => [...slots, { day: "Monday", start: "16:00", end: "18:00" }])}
+              >
+                Add Slot
+              </Button>
+            </div>
+            {timetable.length === 0 ? (
+              <p className="text-sm text-neutral-500 mt-1">No weekly slots yet.</p>
+            ) : (
+              <div className="space-y-2 mt-2">
+                {timetable.map((slot, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select value={slot.day} onValueChange={(day) => updateSlot(index, { day: day as BatchTimetableSlot["day"] })}>
+                      <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAYS.map(day => (
+                          <SelectItem key={day} value={day}>{day}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input type="time" className="w-28" value={slot.start} onChange={(e) => updateSlot(index, { start: e.target.value })} />
+                    <span className="text-sm text-neutral-500">to</span>
+                    <Input type="time" className="w-28" value={slot.end} onChange={(e) => updateSlot(index, { end: e.target.value })} />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setTimetable(slots => slots.filter((_, i) => i !== index))}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!name.trim() || saveBatch.isPending} onClick={() => saveBatch.mutate()}>
+            {saveBatch.isPending ? "Saving..." : batch ? "Save Changes" : "Create Batch"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BatchForm;
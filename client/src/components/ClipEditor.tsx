@@ -0,0 +1,221 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { VIDEO_TAG_LABELS, videoTagOptions } from "@/lib/videoTags";
+import { formatTimestamp, isVideoProcessing } from "@/lib/videoProcessing";
+import type { ClipSegment, Player, Video, VideoTagField, VideoTags } from "@shared/schema";
+
+// Tags picked per segment; the rest can be set on each clip afterwards
+const CLIP_TAG_FIELDS: VideoTagField[] = ["shot_type", "ball_speed", "bat_connect"];
+
+const PROCESSING_POLL_MS = 5000;
+
+interface ClipEditorProps {
+  sessionId: string;
+  // The session recording, as returned when its upload completed
+  sourceUrl: string;
+  players: Player[];
+}
+
+// Marks in/out points on a session recording, assigns each segment to a player with
+// tags, and has the server cut the segments into that player's videos
+const ClipEditor = ({ sessionId, sourceUrl, players }: ClipEditorProps) => {
+  const { toast } = useToast();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  // Playback stops here when previewing a segment
+  const stopAtRef = useRef<number | null>(null);
+
+  const [inPoint, setInPoint] = useState<number | null>(null);
+  const [outPoint, setOutPoint] = useState<number | null>(null);
+  const [playerId, setPlayerId] = useState("");
+  const [title, setTitle] = useState("");
+  const [tags, setTags] = useState<VideoTags>({});
+  const [segments, setSegments] = useState<ClipSegment[]>([]);
+
+  const clipsUrl = `/api/sessions/${sessionId}/clips`;
+  const { data: clips = [] } = useQuery<Video[]>({
+    queryKey: [clipsUrl],
+    refetchInterval: (query) => query.state.data?.some(isVideoProcessing) ? PROCESSING_POLL_MS : false,
+  });
+
+  const playerName = (id: string | null) => players.find(player => player.id === id)?.name ?? "Unknown player";
+  const currentTime = () => videoRef.current?.currentTime ?? 0;
+
+  const playSegment = (start: number, end: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = start;
+    stopAtRef.current = end;
+    video.play();
+  };
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (video && stopAtRef.current !== null && video.currentTime >= stopAtRef.current) {
+      video.pause();
+      stopAtRef.current = null;
+    }
+  };
+
+  const addSegment = () => {
+    if (inPoint === null || outPoint === null || outPoint <= inPoint) {
+      toast({
+        title: "Mark the segment first",
+        description: "Set an in point and a later out point on the recording.",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (!playerId) {
+      toast({ title: "Choose a player", description: "Every clip belongs to a player.", variant: "destructive" });
+      return;
+    }
+
+    setSegments([...segments, { player_id: playerId, start: inPoint, end: outPoint, title: title.trim() || undefined, ...tags }]);
+    setInPoint(null);
+    setOutPoint(null);
+    setTitle("");
+  };
+
+  const createClips = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", clipsUrl, { source_url: sourceUrl, clips: segments });
+      return response.json() as Promise<Video[]>;
+    },
+    onSuccess: (created) => {
+      toast({
+        title: "Clips queued",
+        description: `${created.length} clip(s) are being cut. They appear in each player's video library when ready.`,
+      });
+      setSegments([]);
+      queryClient.invalidateQueries({ queryKey: [clipsUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create clips", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <video
+        ref={videoRef}
+        src={sourceUrl}
+        className="w-full max-h-[420px] bg-black rounded-md"
+        controls
+        onTimeUpdate={handleTimeUpdate}
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => setInPoint(currentTime())}>
+          Set In {inPoint !== null && `(${formatTimestamp(inPoint)})`}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setOutPoint(currentTime())}>
+          Set Out {outPoint !== null && `(${formatTimestamp(outPoint)})`}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={inPoint === null || outPoint === null || outPoint <= inPoint}
+          onClick={() => playSegment(inPoint!, outPoint!)}
+        >
+          Preview Segment
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+        <div>
+          <Label>Player</Label>
+          <Select value={playerId} onValueChange={setPlayerId}>
+            <SelectTrigger><SelectValue placeholder="Select player" /></SelectTrigger>
+            <SelectContent>
+              {players.map(player => (
+                <SelectItem key={player.id} value={player.id}>{player.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {CLIP_TAG_FIELDS.map(field => (
+          <div key={field}>
+            <Label>{VIDEO_TAG_LABELS[field]}</Label>
+            <Select
+              value={tags[field] ?? ""}
+              onValueChange={(value) => setTags({ ...tags, [field]: value })}
+            >
+              <SelectTrigger><SelectValue placeholder={`Select ${VIDEO_TAG_LABELS[field].toLowerCase()}`} /></SelectTrigger>
+              <SelectContent>
+                {videoTagOptions(field).map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+        <div>
+          <Label htmlFor="clip-title">Title (optional)</Label>
+          <Input id="clip-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Cover drive, 2nd over" />
+        </div>
+      </div>
+
+      <Button variant="secondary" onClick={addSegment}>Add Segment</Button>
+
+      {segments.length > 0 && (
+        <div className="border border-neutral-200 rounded-md divide-y">
+          {segments.map((segment, index) => (
+            <div key={index} className="flex items-center justify-between p-2 text-sm">
+              <button className="text-left hover:underline" onClick={() => playSegment(segment.start, segment.end)}>
+                <span className="font-medium">{playerName(segment.player_id)}</span>
+                <span className="text-neutral-500 ml-2">
+                  {formatTimestamp(segment.start)} - {formatTimestamp(segment.end)}
+                </span>
+                {segment.shot_type && (
+                  <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-1 rounded">{segment.shot_type}</span>
+                )}
+                {segment.title && <span className="ml-2 text-neutral-600">{segment.title}</span>}
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-red-600"
+                onClick={() => setSegments(segments.filter((_, i) => i !== index))}
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button
+        className="w-full"
+        disabled={segments.length === 0 || createClips.isPending}
+        onClick={() => createClips.mutate()}
+      >
+        {createClips.isPending ? "Submitting..." : `Create ${segments.length} Clip${segments.length === 1 ? "" : "s"}`}
+      </Button>
+
+      {clips.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Clips from this session</h4>
+          <div className="space-y-1 text-sm">
+            {clips.map(clip => (
+              <div key={clip.id} className="flex justify-between">
+                <span>{clip.title} <span className="text-neutral-500">- {playerName(clip.player_id)}</span></span>
+                <span className={clip.processing_status === "failed" ? "text-red-600" : "text-neutral-500"}>
+                  {isVideoProcessing(clip) ? "Processing..." : clip.processing_status === "failed" ? "Failed" : "Ready"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClipEditor;
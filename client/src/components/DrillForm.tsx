@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { getCoachName } from "@/lib/coach";
+import { criterionOptions, refreshPractice } from "@/lib/drills";
+import { sendSchedule, splitList } from "@/lib/schedule";
+import type { Drill, RubricTemplate, Video } from "@shared/schema";
+
+const NO_VIDEO = "none";
+
+interface DrillFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  drill?: Drill; // edits this drill, creates a new one when left out
+}
+
+// A drill in the library. Its target criteria are what assessment suggestions match on.
+const DrillForm = ({ open, onOpenChange, drill }: DrillFormProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [criteria, setCriteria] = useState<string[]>([]);
+  const [equipment, setEquipment] = useState("");
+  const [duration, setDuration] = useState("");
+  const [videoId, setVideoId] = useState(NO_VIDEO);
+
+  const { data: rubrics = [] } = useQuery<RubricTemplate[]>({ queryKey: ["/api/rubrics"], enabled: open });
+  const { data: references = [] } = useQuery<Video[]>({ queryKey: ["/api/references"], enabled: open });
+  const options = criterionOptions(rubrics);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(drill?.name ?? "");
+    setDescription(drill?.description ?? "");
+    setCriteria(drill?.target_criteria ?? []);
+    setEquipment(drill?.equipment.join(", ") ?? "");
+    setDuration(drill?.duration_minutes ? String(drill.duration_minutes) : "");
+    setVideoId(drill?.video_id ?? NO_VIDEO);
+  }, [open, drill]);
+
+  const saveDrill = useMutation({
+    mutationFn: () =>
+      sendSchedule<Drill>(drill ? "PUT" : "POST", drill ? `/api/drills/${drill.id}` : "/api/drills", {
+        name: name.trim(),
+        description: description.trim() || null,
+        target_criteria: criteria,
+        equipment: splitList(equipment),
+        duration_minutes: duration ? Number(duration) : null,
+        video_id: videoId === NO_VIDEO ? null : videoId,
+        ...(drill ? {} : { created_by: getCoachName() }),
+      }),
+    onSuccess: (saved) => {
+      toast({ title: drill ? "Drill updated" : "Drill added", description: saved.name });
+      refreshPractice();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save drill", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{drill ? "Edit Drill" : "New Drill"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <Label htmlFor="drill-name">Name</Label>
+              <Input id="drill-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Front-foot stride to cones" />
+            </div>
+            <div>
+              <Label htmlFor="drill-duration">Minutes</Label>
+              <Input id="drill-duration" type="number" min={1} value={duration} onChange={(e) => setDuration(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="drill-description">Description</Label>
+            <Textarea id="drill-description" rows={3} value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div>
+            <Label>Works on</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              className="justify-start flex-wrap mt-1"
+              value={criteria}
+              onValueChange={setCriteria}
+            >
+              {options.map(option => (
+                <ToggleGroupItem key={option.key} value={option.key} size="sm">{option.name}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="drill-equipment">Equipment</Label>
+              <Input id="drill-equipment" value={equipment} onChange={(e) => setEquipment(e.target.value)} placeholder="e.g. cones, tennis balls" />
+            </div>
+            <div>
+              <Label>Demo video</Label>
+              <Select value={videoId} onValueChange={setVideoId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_VIDEO}>None</SelectItem>
+                  {references.map(video => (
+                    <SelectItem key={video.id} value={video.id}>{video.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!name.trim() || saveDrill.isPending} onClick={() => saveDrill.mutate()}>
+            {saveDrill.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DrillForm;
@@ -29,6 +29,16 @@ const Header = () => {
                 <span className="hidden md:inline">Players</span>
               </Link>
             </li>
+            <li className={location.startsWith("/batches") ? "border-b-2 border-secondary py-2" : "py-2"}>
+              <Link href="/batches" className="flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-layers mr-1">
+                  <path d="m12.83 2.18a2 2 0 0 0-1.66 0L2.6 6.08a1 1 0 0 0 0 1.83l8.58 3.91a2 2 0 0 0 1.66 0l8.58-3.9a1 1 0 0 0 0-1.83Z"></path>
+                  <path d="m22 17.65-9.17 4.16a2 2 0 0 1-1.66 0L2 17.65"></path>
+                  <path d="m22 12.65-9.17 4.16a2 2 0 0 1-1.66 0L2 12.65"></path>
+                </svg>
+                <span className="hidden md:inline">Batches</span>
+              </Link>
+            </li>
             <li className={location.startsWith("/record") ? "border-b-2 border-secondary py-2" : "py-2"}>
               <Link href="/record" className="flex items-center">
                 <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-video mr-1">
@@ -38,8 +48,31 @@ const Header = () => {
                 <span className="hidden md:inline">Record Session</span>
               </Link>
             </li>
-            <li className="py-2">
-              <a href="#" className="flex items-center">
+            <li className={location.startsWith("/references") ? "border-b-2 border-secondary py-2" : "py-2"}>
+              <Link href="/references" className="flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-library mr-1">
+                  <path d="m16 6 4 14"></path>
+                  <path d="M12 6v14"></path>
+                  <path d="M8 8v12"></path>
+                  <path d="M4 4v16"></path>
+                </svg>
+                <span className="hidden md:inline">Technique Library</span>
+              </Link>
+            </li>
+            <li className={location.startsWith("/drills") ? "border-b-2 border-secondary py-2" : "py-2"}>
+              <Link href="/drills" className="flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-list-checks mr-1">
+                  <path d="m3 17 2 2 4-4"></path>
+                  <path d="m3 7 2 2 4-4"></path>
+                  <path d="M13 6h8"></path>
+                  <path d="M13 12h8"></path>
+                  <path d="M13 18h8"></path>
+                </svg>
+                <span className="hidden md:inline">Drills</span>
+              </Link>
+            </li>
+            <li className={location.startsWith("/schedule") ? "border-b-2 border-secondary py-2" : "py-2"}>
+              <Link href="/schedule" className="flex items-center">
                 <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-calendar mr-1">
                   <path d="M8 2v4"></path>
                   <path d="M16 2v4"></path>
@@ -47,7 +80,7 @@ const Header = () => {
                   <path d="M3 10h18"></path>
                 </svg>
                 <span className="hidden md:inline">Schedule</span>
-              </a>
+              </Link>
             </li>
             <li className="py-2">
               <a href="#" className="flex items-center">
@@ -1,28 +1,164 @@
 import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getCoachName } from "@/lib/coach";
+import type { Note, NoteType } from "@shared/schema";
 
-interface Note {
-  date: string;
-  author: string;
-  content: string;
-}
+const NOTE_TYPE_BADGES: Record<NoteType, { label: string; className: string }> = {
+  profile: { label: "Profile Note", className: "bg-blue-100 text-blue-700" },
+  assessment: { label: "Session Assessment", className: "bg-amber-100 text-amber-700" },
+  video: { label: "Video Note", className: "bg-purple-100 text-purple-700" },
+};
+
+const formatNoteDate = (date?: string) => (date ? format(new Date(date), "MMMM d, yyyy") : "");
+
+const invalidateNotes = (playerId: string) =>
+  queryClient.invalidateQueries({ queryKey: [`/api/players/${playerId}/notes`] });
+
+// A single note. The author can edit or delete it; earlier versions are listed under "edited".
+export const NoteItem = ({ note }: { note: Note }) => {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [body, setBody] = useState(note.body);
+  const author = getCoachName();
+  const isAuthor = note.author === author;
+  const badge = NOTE_TYPE_BADGES[note.type] ?? NOTE_TYPE_BADGES.profile;
+  const noteUrl = `/api/players/${note.player_id}/notes/${note.id}`;
+
+  const updateNote = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", noteUrl, { author, body: body.trim() });
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsEditing(false);
+      invalidateNotes(note.player_id);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update note", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteNote = useMutation({
+    mutationFn: () => apiRequest("DELETE", `${noteUrl}?author=${encodeURIComponent(author)}`),
+    onSuccess: () => invalidateNotes(note.player_id),
+    onError: (error) => {
+      toast({ title: "Failed to delete note", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const history = note.history ?? [];
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-primary">{note.author}</span>
+          <span className={`text-xs px-2 py-0.5 rounded-full ${badge.className}`}>{badge.label}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-neutral-500">{formatNoteDate(note.created_at)}</span>
+          {isAuthor && !isEditing && (
+            <>
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => { setBody(note.body); setIsEditing(true); }}>
+                Edit
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-red-600"
+                disabled={deleteNote.isPending}
+                onClick={() => deleteNote.mutate()}
+              >
+                Delete
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea className="h-24" value={body} onChange={(e) => setBody(e.target.value)} />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>Cancel</Button>
+            <Button size="sm" disabled={!body.trim() || updateNote.isPending} onClick={() => updateNote.mutate()}>
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm whitespace-pre-line">{note.body}</p>
+      )}
+
+      {history.length > 0 && (
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <button className="text-xs text-neutral-500 hover:underline mt-1">
+              Edited {formatNoteDate(note.updated_at)} · {history.length} earlier {history.length === 1 ? "version" : "versions"}
+            </button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <div className="space-y-2 mt-2 pl-3 border-l-2 border-neutral-200">
+              {[...history].reverse().map((revision, index) => (
+                <div key={index}>
+                  <p className="text-xs text-neutral-400">Replaced {formatNoteDate(revision.edited_at)}</p>
+                  <p className="text-xs text-neutral-600 whitespace-pre-line">{revision.body}</p>
+                </div>
+              ))}
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+};
 
 interface NotesListProps {
   title: string;
+  playerId: string;
   notes: Note[];
-  count?: number;
+  // New notes written here are attached to this assessment or video
+  assessmentId?: string;
+  videoId?: string;
 }
 
-const NotesList = ({ title, notes, count }: NotesListProps) => {
+const NotesList = ({ title, playerId, notes, assessmentId, videoId }: NotesListProps) => {
+  const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
+  const [newNote, setNewNote] = useState("");
+
+  const createNote = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/players/${playerId}/notes`, {
+        author: getCoachName(),
+        body: newNote.trim(),
+        assessment_id: assessmentId,
+        video_id: videoId,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewNote("");
+      invalidateNotes(playerId);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add note", description: error.message, variant: "destructive" });
+    }
+  });
 
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
-        <Button 
-          variant="ghost" 
+        <Button
+          variant="ghost"
           className="p-2 rounded-full hover:bg-neutral-100 relative"
           title="View Notes"
         >
@@ -34,9 +170,9 @@ const NotesList = ({ title, notes, count }: NotesListProps) => {
             <path d="M8 11h.01"></path>
             <path d="M8 16h.01"></path>
           </svg>
-          {count && count > 0 && (
+          {notes.length > 0 && (
             <Badge variant="secondary" className="absolute -top-1 -right-1 w-5 h-5 flex items-center justify-center p-0">
-              {count}
+              {notes.length}
             </Badge>
           )}
         </Button>
@@ -46,13 +182,28 @@ const NotesList = ({ title, notes, count }: NotesListProps) => {
           <DialogTitle>{title}</DialogTitle>
         </DialogHeader>
         <div className="space-y-4 mt-4">
-          {notes.map((note, index) => (
-            <div key={index} className="border-l-4 border-primary pl-3 py-1">
-              <p className="text-sm text-neutral-300">{note.date} - {note.author}</p>
-              <p>{note.content}</p>
+          {notes.length === 0 && (
+            <p className="text-sm text-neutral-500 italic">No notes yet</p>
+          )}
+          {notes.map(note => (
+            <div key={note.id} className="border-l-4 border-primary pl-3 py-1">
+              <NoteItem note={note} />
             </div>
           ))}
         </div>
+        <div className="space-y-2 mt-4">
+          <Textarea
+            className="h-24"
+            placeholder="Add a note..."
+            value={newNote}
+            onChange={(e) => setNewNote(e.target.value)}
+          />
+          <div className="flex justify-end">
+            <Button disabled={!newNote.trim() || createNote.isPending} onClick={() => createNote.mutate()}>
+              Add Note
+            </Button>
+          </div>
+        </div>
       </DialogContent>
     </Dialog>
   );
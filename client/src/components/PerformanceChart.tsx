@@ -11,7 +11,9 @@ import {
 } from "recharts";
 import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import type { PerformanceMetric, PerformanceAssessment } from "@shared/schema";
+import { assessmentWeekStart } from "@/lib/utils";
+import { criterionColor } from "@/lib/rubric";
+import type { Assessment, FullAssessment, RubricTemplate } from "@shared/schema";
 
 interface WeeklyData {
   name: string;
@@ -20,159 +22,48 @@ interface WeeklyData {
 }
 
 interface PerformanceChartProps {
-  assessments: PerformanceAssessment[];
-  metrics: PerformanceMetric[];
+  assessments: FullAssessment[];
+  rubric: RubricTemplate;
   className?: string;
 }
 
-// Colors for different metrics (using distinct colors for better visualization)
-const metricColors = {
-  "reaction_time": "#8884d8", // Purple
-  "bat_connect": "#82ca9d",   // Green
-  "bat_swing": "#ffc658",     // Yellow
-  "foot_movement": "#ff8042", // Orange 
-  "cover_drive": "#0088fe",   // Blue
-  "pull_shot": "#00C49F",     // Teal
-  "straight_drive": "#ff5252", // Red
-  "defensive_block": "#9c27b0" // Violet
-};
-
-const metricNames: Record<string, string> = {
-  "reaction_time": "Reaction Time",
-  "bat_connect": "Bat Connect",
-  "bat_swing": "Bat Swing",
-  "foot_movement": "Foot Movement",
-  "cover_drive": "Cover Drive",
-  "pull_shot": "Pull Shot", 
-  "straight_drive": "Straight Drive",
-  "defensive_block": "Defensive Block"
-};
+// One line per rubric criterion: general criteria come from problem areas,
+// shot criteria from the shot's overall metric
+const criterionRatings = (assessment: FullAssessment, key: string): number[] => [
+  ...assessment.problem_areas.filter(area => area.area_type === key).map(area => area.rating),
+  ...assessment.metrics.filter(metric => metric.metric_type === key).map(metric => metric.rating)
+].filter(rating => rating > 0);
 
-const PerformanceChart = ({ assessments, metrics, className }: PerformanceChartProps) => {
+const PerformanceChart = ({ assessments, rubric, className }: PerformanceChartProps) => {
   // Transform the data for the chart
   const chartData = useMemo(() => {
-    // Process authentic assessment data based on weekly averages
-    const weeklyData: WeeklyData[] = [];
-    
     // Sort assessments by date (oldest first)
     const sortedAssessments = [...assessments].sort(
-      (a, b) => new Date(a.weekStart).getTime() - new Date(b.weekStart).getTime()
+      (a: Assessment, b: Assessment) => new Date(assessmentWeekStart(a)).getTime() - new Date(assessmentWeekStart(b)).getTime()
     );
     
-    // Create data points for each assessment week
-    sortedAssessments.forEach((assessment, index) => {
-      const week = format(new Date(assessment.weekStart), "MMM d");
+    // Create data points for each assessment week, averaging the ratings for each criterion
+    return sortedAssessments.map((assessment, index) => {
       const dataPoint: WeeklyData = {
         name: `Week ${index + 1}`,
-        week
+        week: format(new Date(assessmentWeekStart(assessment)), "MMM d")
       };
-      
-      // Group metrics by type (cover_drive, bat_connect, etc.)
-      const metricsByType: Record<string, number[]> = {};
-      
-      // Use assessment metrics data
-      metrics
-        .filter(metric => metric.assessmentId === assessment.id)
-        .forEach(metric => {
-          // Initialize array for this metric type if not exists
-          if (!metricsByType[metric.metricType]) {
-            metricsByType[metric.metricType] = [];
-          }
-          
-          // Add the star rating (1-5) to the array
-          metricsByType[metric.metricType].push(metric.rating);
-        });
-      
-      // Calculate average star rating for each metric type
-      Object.entries(metricsByType).forEach(([metricType, ratings]) => {
+
+      rubric.criteria.forEach(criterion => {
+        const ratings = criterionRatings(assessment, criterion.key);
         if (ratings.length > 0) {
-          // Calculate average (sum of all ratings divided by count)
-          const sum = ratings.reduce((acc, rating) => acc + rating, 0);
-          const average = sum / ratings.length;
-          
-          // Add to data point with 1 decimal precision
-          dataPoint[metricType] = Math.round(average * 10) / 10;
-        } else {
-          // If no ratings for this metric type, use a default value
-          dataPoint[metricType] = 1;
+          const average = ratings.reduce((acc, rating) => acc + rating, 0) / ratings.length;
+          dataPoint[criterion.key] = Math.round(average * 10) / 10;
         }
       });
-      
-      // For demonstration purposes, we'll generate distinct trend patterns for different metric types
-      // to better visualize the progression of various cricket skills over time
-      Object.entries(metricNames).forEach(([metricType, metricName]) => {
-        // If we don't already have data for this metric (from real assessments)
-        if (!dataPoint[metricType]) {
-          // Create unique starting points and progression patterns for different skills
-          // This ensures we'll have multiple visible trend lines with different patterns
-          
-          let baseValue: number;
-          let growthPattern: number;
-          
-          // Assign different progression patterns based on metric type
-          switch(metricType) {
-            case 'reaction_time':
-              // Starts low, improves steadily
-              baseValue = 1.5;
-              growthPattern = 0.4 * index;
-              break;
-            case 'bat_connect':
-              // Starts medium, improves quickly then plateaus
-              baseValue = 2.5;
-              growthPattern = Math.min(2.0, 0.6 * index);
-              break;
-            case 'bat_swing':
-              // Starts medium-high, slight improvement
-              baseValue = 3.0;
-              growthPattern = Math.min(1.5, 0.3 * index);
-              break;
-            case 'foot_movement':
-              // Starts medium-low, moderate improvement
-              baseValue = 2.0;
-              growthPattern = Math.min(2.5, 0.5 * index);
-              break;
-            case 'cover_drive':
-              // Starts medium, shows consistent improvement
-              baseValue = 2.2;
-              growthPattern = Math.min(2.3, 0.4 * index);
-              break;
-            case 'pull_shot':
-              // Starts high, minor improvement
-              baseValue = 3.5;
-              growthPattern = Math.min(1.2, 0.2 * index);
-              break;
-            case 'straight_drive':
-              // Starts low, significant improvement
-              baseValue = 1.8;
-              growthPattern = Math.min(2.7, 0.6 * index);
-              break;
-            case 'defensive_block':
-              // Starts medium-high, minor improvement
-              baseValue = 3.2;
-              growthPattern = Math.min(1.3, 0.25 * index);
-              break;
-            default:
-              // Default pattern for other metrics
-              baseValue = 2.0;
-              growthPattern = 0.4 * index;
-          }
-          
-          // Add some randomness to make the chart look more natural
-          const randomFactor = 0.9 + (Math.random() * 0.2);
-          
-          // Calculate the estimated rating with 1 decimal precision
-          const estimatedRating = Math.round((baseValue + growthPattern) * randomFactor * 10) / 10;
-          
-          // Ensure we stay within 1-5 star range
-          dataPoint[metricType] = Math.max(1, Math.min(5, estimatedRating));
-        }
-      });
-      
-      weeklyData.push(dataPoint);
+
+      return dataPoint;
     });
-    
-    return weeklyData;
-  }, [assessments, metrics, metricNames]);
+  }, [assessments, rubric]);
+
+  // Only criteria that have been rated at least once get a line
+  const chartedCriteria = rubric.criteria.filter(criterion => chartData.some(point => point[criterion.key] !== undefined));
+  const maxRating = Math.max(1, ...rubric.criteria.map(criterion => criterion.scale.max));
 
   if (chartData.length < 2) {
     return (
@@ -209,8 +100,8 @@ const PerformanceChart = ({ assessments, metrics, className }: PerformanceChartP
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis dataKey="week" />
             <YAxis 
-              domain={[1, 5]} 
-              ticks={[1, 2, 3, 4, 5]} 
+              domain={[1, maxRating]} 
+              ticks={Array.from({ length: maxRating }, (_, i) => i + 1)} 
               label={{ value: 'Star Rating', angle: -90, position: 'insideLeft' }} 
             />
             <Tooltip 
@@ -218,13 +109,13 @@ const PerformanceChart = ({ assessments, metrics, className }: PerformanceChartP
               labelFormatter={(label) => `Week of ${label}`}
             />
             <Legend />
-            {Object.entries(metricNames).map(([key, name]) => (
+            {chartedCriteria.map(criterion => (
               <Line
-                key={key}
+                key={criterion.key}
                 type="monotone"
-                dataKey={key}
-                name={name}
-                stroke={metricColors[key as keyof typeof metricColors]}
+                dataKey={criterion.key}
+                name={criterion.name}
+                stroke={criterionColor(rubric, criterion.key)}
                 activeDot={{ r: 8 }}
                 connectNulls
               />
@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from "react";
+import type { RefObject } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { usePlaybackShortcuts } from "@/hooks/use-playback-shortcuts";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getCoachName } from "@/lib/coach";
+import { formatTimestamp } from "@/lib/videoProcessing";
+import { DEFAULT_FPS, PLAYBACK_RATES, frameAt, nextPlaybackRate, stepFrame } from "@/lib/playback";
+import type { Video, VideoBookmark } from "@shared/schema";
+
+const SHORTCUTS = "Space play/pause · , . step a frame · [ ] slower/faster · A B set loop · L loop on/off";
+
+interface PlaybackControlsProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  // When set, the probed frame rate is used and loops can be saved as bookmarks
+  videoId?: string;
+}
+
+// Slow motion, frame stepping and A-B looping for the <video> in VideoPlayer, with
+// keyboard shortcuts while the player is open
+const PlaybackControls = ({ videoRef, videoId }: PlaybackControlsProps) => {
+  const { toast } = useToast();
+  const author = getCoachName();
+  const bookmarksUrl = `/api/videos/${videoId}/bookmarks`;
+
+  const [rate, setRate] = useState(1);
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [loopEnd, setLoopEnd] = useState<number | null>(null);
+  const [looping, setLooping] = useState(false);
+  const [bookmarkName, setBookmarkName] = useState("");
+  const [frame, setFrame] = useState(0);
+
+  const { data: video } = useQuery<Video>({ queryKey: [`/api/videos/${videoId}`], enabled: !!videoId });
+  const { data: bookmarks = [] } = useQuery<VideoBookmark[]>({ queryKey: [bookmarksUrl], enabled: !!videoId });
+  const fps = video?.fps || DEFAULT_FPS;
+
+  const hasLoop = loopStart !== null && loopEnd !== null && loopEnd > loopStart;
+
+  // Loops are checked every animation frame; timeupdate fires too rarely to loop
+  // a short swing cleanly
+  const loopRef = useRef({ looping, loopStart, loopEnd });
+  loopRef.current = { looping: looping && hasLoop, loopStart, loopEnd };
+
+  useEffect(() => {
+    let handle: number;
+    const tick = () => {
+      const element = videoRef.current;
+      const { looping, loopStart, loopEnd } = loopRef.current;
+      if (element && looping && !element.paused && element.currentTime >= loopEnd!) {
+        element.currentTime = loopStart!;
+      }
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [videoRef]);
+
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element) return;
+    const updateFrame = () => setFrame(frameAt(element.currentTime, fps));
+    element.addEventListener("timeupdate", updateFrame);
+    element.addEventListener("seeked", updateFrame);
+    return () => {
+      element.removeEventListener("timeupdate", updateFrame);
+      element.removeEventListener("seeked", updateFrame);
+    };
+  }, [videoRef, fps]);
+
+  const changeRate = (next: number) => {
+    setRate(next);
+    if (videoRef.current) {
+      videoRef.current.playbackRate = next;
+    }
+  };
+
+  const step = (direction: 1 | -1) => {
+    if (videoRef.current) {
+      stepFrame(videoRef.current, fps, direction);
+    }
+  };
+
+  const markLoop = (point: "start" | "end") => {
+    const time = videoRef.current?.currentTime ?? 0;
+    if (point === "start") {
+      setLoopStart(time);
+      if (loopEnd !== null && loopEnd <= time) setLoopEnd(null);
+    } else {
+      setLoopEnd(time);
+      if (loopStart !== null && loopStart >= time) setLoopStart(null);
+    }
+  };
+
+  const playRegion = (start: number, end: number) => {
+    setLoopStart(start);
+    setLoopEnd(end);
+    setLooping(true);
+    const element = videoRef.current;
+    if (element) {
+      element.currentTime = start;
+      element.play();
+    }
+  };
+
+  const clearLoop = () => {
+    setLoopStart(null);
+    setLoopEnd(null);
+    setLooping(false);
+  };
+
+  usePlaybackShortcuts({
+    " ": () => {
+      const element = videoRef.current;
+      if (element) element.paused ? element.play() : element.pause();
+    },
+    ",": () => step(-1),
+    ".": () => step(1),
+    "[": () => changeRate(nextPlaybackRate(rate, -1)),
+    "]": () => changeRate(nextPlaybackRate(rate, 1)),
+    a: () => markLoop("start"),
+    b: () => markLoop("end"),
+    l: () => setLooping(!looping),
+  });
+
+  const saveBookmark = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", bookmarksUrl, {
+        author,
+        name: bookmarkName.trim(),
+        start: loopStart,
+        end: loopEnd,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setBookmarkName("");
+      queryClient.invalidateQueries({ queryKey: [bookmarksUrl] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save bookmark", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteBookmark = useMutation({
+    mutationFn: (bookmark: VideoBookmark) =>
+      apiRequest("DELETE", `${bookmarksUrl}/${bookmark.id}?author=${encodeURIComponent(author)}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [bookmarksUrl] }),
+    onError: (error) => {
+      toast({ title: "Failed to delete bookmark", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={String(rate)} onValueChange={(value) => changeRate(Number(value))}>
+          <SelectTrigger className="w-24 h-8"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_RATES.map(option => (
+              <SelectItem key={option} value={String(option)}>{option}×</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" title="Previous frame (,)" onClick={() => step(-1)}>‹ Frame</Button>
+        <Button variant="outline" size="sm" title="Next frame (.)" onClick={() => step(1)}>Frame ›</Button>
+        <span className="text-xs font-mono text-neutral-500">#{frame} @ {fps} fps</span>
+
+        <span className="mx-1 h-5 w-px bg-neutral-200" />
+
+        <Button variant="outline" size="sm" title="Loop start (A)" onClick={() => markLoop("start")}>
+          A {loopStart !== null && formatTimestamp(loopStart)}
+        </Button>
+        <Button variant="outline" size="sm" title="Loop end (B)" onClick={() => markLoop("end")}>
+          B {loopEnd !== null && formatTimestamp(loopEnd)}
+        </Button>
+        <Button
+          size="sm"
+          variant={looping && hasLoop ? "default" : "outline"}
+          title="Loop on/off (L)"
+          disabled={!hasLoop}
+          onClick={() => setLooping(!looping)}
+        >
+          Loop
+        </Button>
+        {(loopStart !== null || loopEnd !== null) && (
+          <Button variant="ghost" size="sm" onClick={clearLoop}>Clear</Button>
+        )}
+      </div>
+
+      {videoId && hasLoop && (
+        <div className="flex gap-2">
+          <Input
+            className="h-8 max-w-xs"
+            placeholder="Bookmark name, e.g. Front foot stride"
+            value={bookmarkName}
+            onChange={(e) => setBookmarkName(e.target.value)}
+          />
+          <Button
+            size="sm"
+            disabled={!bookmarkName.trim() || saveBookmark.isPending}
+            onClick={() => saveBookmark.mutate()}
+          >
+            Save Loop
+          </Button>
+        </div>
+      )}
+
+      {bookmarks.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {bookmarks.map(bookmark => (
+            <span key={bookmark.id} className="inline-flex items-center gap-1 rounded bg-neutral-100 px-2 py-1">
+              <button className="hover:underline" onClick={() => playRegion(bookmark.start, bookmark.end)}>
+                {bookmark.name}
+                <span className="ml-1 font-mono text-neutral-500">
+                  {formatTimestamp(bookmark.start)}-{formatTimestamp(bookmark.end)}
+                </span>
+              </button>
+              {bookmark.author === author && (
+                <button
+                  aria-label="Delete bookmark"
+                  className="text-red-600 ml-1"
+                  disabled={deleteBookmark.isPending}
+                  onClick={() => deleteBookmark.mutate(bookmark)}
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <p className="text-[11px] text-neutral-400">{SHORTCUTS}</p>
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,59 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ATTENDANCE_COLORS, ATTENDANCE_LABELS, formatCounts, formatPercentage, isLowAttendance } from "@/lib/attendance";
+import type { PlayerAttendance as PlayerAttendanceData } from "@shared/schema";
+
+// Sessions listed under the percentage
+const RECENT_SESSIONS = 8;
+
+interface PlayerAttendanceProps {
+  playerId: string;
+  className?: string;
+}
+
+// Attendance percentage over all recorded sessions, with the latest few
+const PlayerAttendance = ({ playerId, className }: PlayerAttendanceProps) => {
+  const { data: attendance } = useQuery<PlayerAttendanceData>({ queryKey: [`/api/players/${playerId}/attendance`] });
+
+  if (!attendance || attendance.records.length === 0) {
+    return null;
+  }
+
+  const { summary } = attendance;
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-baseline justify-between space-y-0">
+        <CardTitle>Attendance</CardTitle>
+        <div className="text-right">
+          <span className={`text-2xl font-bold ${isLowAttendance(summary) ? "text-red-600" : "text-primary"}`}>
+            {formatPercentage(summary)}
+          </span>
+          <p className="text-xs text-neutral-500">{formatCounts(summary)}</p>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-1 text-sm">
+          {attendance.records.slice(0, RECENT_SESSIONS).map(record => (
+            <li key={record.id} className="flex items-center justify-between gap-2">
+              <span className="truncate">
+                <Link href={`/sessions/${record.session.id}/attendance`} className="hover:underline">{record.session.name}</Link>
+                <span className="text-neutral-500 ml-1">{format(new Date(`${record.session.date}T00:00:00`), "MMM d")}</span>
+              </span>
+              <span
+                className={`rounded px-2 py-0.5 text-xs ${ATTENDANCE_COLORS[record.status]}`}
+                title={record.reason ?? undefined}
+              >
+                {ATTENDANCE_LABELS[record.status]}
+                {record.status === "late" && record.arrival_time ? ` ${record.arrival_time}` : ""}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlayerAttendance;
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import PracticePlanForm from "@/components/PracticePlanForm";
+import { useToast } from "@/hooks/use-toast";
+import { getCoachName } from "@/lib/coach";
+import { formatPlanDates, refreshPractice } from "@/lib/drills";
+import { sendSchedule } from "@/lib/schedule";
+import type { DrillCompletion, DrillSuggestion, PracticePlanProgress } from "@shared/schema";
+
+interface PlayerPracticePlanProps {
+  playerId: string;
+  latestAssessmentId?: string;
+  className?: string;
+}
+
+// The player's running practice plans, ticked off drill by drill, and drills for
+// what their latest assessment rated low
+const PlayerPracticePlan = ({ playerId, latestAssessmentId, className }: PlayerPracticePlanProps) => {
+  const { toast } = useToast();
+  const [isPlanOpen, setIsPlanOpen] = useState(false);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: plans = [] } = useQuery<PracticePlanProgress[]>({
+    queryKey: [`/api/players/${playerId}/practice-plans?active=true`],
+  });
+  const { data: suggestions = [] } = useQuery<DrillSuggestion[]>({
+    queryKey: [`/api/assessments/${latestAssessmentId}/drill-suggestions`],
+    enabled: !!latestAssessmentId,
+  });
+
+  const suggestedIds = Array.from(new Set(suggestions.flatMap(suggestion => suggestion.drills.map(drill => drill.id))));
+
+  const markDone = useMutation({
+    mutationFn: ({ planId, drillId }: { planId: string; drillId: string }) =>
+      sendSchedule<DrillCompletion>("POST", `/api/practice-plans/${planId}/completions`, {
+        drill_id: drillId,
+        player_id: playerId,
+        recorded_by: getCoachName(),
+      }),
+    onSuccess: () => refreshPractice(),
+    onError: (error) => {
+      toast({ title: "Failed to record drill", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const undoDone = useMutation({
+    mutationFn: (completion: DrillCompletion) =>
+      sendSchedule<void>("DELETE", `/api/practice-plans/${completion.plan_id}/completions/${completion.id}`),
+    onSuccess: () => refreshPractice(),
+    onError: (error) => {
+      toast({ title: "Failed to undo drill", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (plans.length === 0 && suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Practice Plan</CardTitle>
+        {suggestedIds.length > 0 && (
+          <Button variant="outline" size="sm" onClick={() => setIsPlanOpen(true)}>Create Plan from Suggestions</Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {plans.map(({ plan, items, done, target, percentage }) => (
+          <div key={plan.id}>
+            <div className="flex items-baseline justify-between gap-2">
+              <p className="font-medium">
+                {plan.name}
+                <span className="text-sm font-normal text-neutral-500 ml-2">{formatPlanDates(plan)}</span>
+              </p>
+              <span className="text-sm text-neutral-500">{done}/{target} ({percentage}%)</span>
+            </div>
+            <Progress value={percentage} className="h-2 my-2" />
+            <ul className="space-y-1 text-sm">
+              {items.map(item => {
+                const doneToday = item.completions.find(completion => completion.completed_on === today);
+                return (
+                  <li key={item.drill_id} className="flex items-center justify-between gap-2">
+                    <span className="truncate" title={item.notes ?? undefined}>
+                      {item.drill?.name ?? "Deleted drill"}
+                      <span className="text-neutral-500 ml-1">{item.done}/{item.target}</span>
+                    </span>
+                    {doneToday ? (
+                      <Button variant="ghost" size="sm" disabled={undoDone.isPending} onClick={() => undoDone.mutate(doneToday)}>
+                        Undo
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={markDone.isPending}
+                        onClick={() => markDone.mutate({ planId: plan.id, drillId: item.drill_id })}
+                      >
+                        Done Today
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+
+        {suggestions.length > 0 && (
+          <div>
+            <p className="text-sm font-medium mb-1">Suggested from the latest assessment</p>
+            <ul className="space-y-1 text-sm">
+              {suggestions.map(suggestion => (
+                <li key={suggestion.criterion}>
+                  <span className="text-neutral-500">{suggestion.name} ({suggestion.rating}):</span>{" "}
+                  {suggestion.drills.map(drill => drill.name).join(", ")}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      <PracticePlanForm open={isPlanOpen} onOpenChange={setIsPlanOpen} playerId={playerId} drillIds={suggestedIds} />
+    </Card>
+  );
+};
+
+export default PlayerPracticePlan;
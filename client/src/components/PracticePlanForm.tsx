@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { getCoachName } from "@/lib/coach";
+import { refreshPractice } from "@/lib/drills";
+import { sendSchedule } from "@/lib/schedule";
+import type { Batch, Drill, Player, PracticePlan } from "@shared/schema";
+
+// New plans run four weeks from today
+const DEFAULT_PLAN_DAYS = 27;
+
+type Assignee = "player" | "batch";
+
+interface ItemDraft {
+  drill_id: string;
+  target: string;
+  notes: string;
+}
+
+interface PracticePlanFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan?: PracticePlan; // edits this plan, creates a new one when left out
+  playerId?: string; // new plans: assign to this player
+  drillIds?: string[]; // new plans: start with these drills
+}
+
+// Practice plan for a player or a whole batch: drills, how many times to do each,
+// and the dates the plan runs between
+const PracticePlanForm = ({ open, onOpenChange, plan, playerId, drillIds }: PracticePlanFormProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [assignee, setAssignee] = useState<Assignee>("player");
+  const [assigneeId, setAssigneeId] = useState("");
+  const [startsOn, setStartsOn] = useState("");
+  const [endsOn, setEndsOn] = useState("");
+  const [items, setItems] = useState<ItemDraft[]>([]);
+  const [notes, setNotes] = useState("");
+
+  const { data: drills = [] } = useQuery<Drill[]>({ queryKey: ["/api/drills"], enabled: open });
+  const { data: players = [] } = useQuery<Player[]>({ queryKey: ["/api/players"], enabled: open });
+  const { data: batches = [] } = useQuery<Batch[]>({ queryKey: ["/api/batches"], enabled: open });
+
+  useEffect(() => {
+    if (!open) return;
+    const today = new Date();
+    setName(plan?.name ?? "");
+    setAssignee(plan?.batch_id ? "batch" : "player");
+    setAssigneeId(plan?.player_id ?? plan?.batch_id ?? playerId ?? "");
+    setStartsOn(plan?.starts_on ?? format(today, "yyyy-MM-dd"));
+    setEndsOn(plan?.ends_on ?? format(addDays(today, DEFAULT_PLAN_DAYS), "yyyy-MM-dd"));
+    setItems(plan
+      ? plan.items.map(item => ({ drill_id: item.drill_id, target: String(item.target), notes: item.notes ?? "" }))
+      : (drillIds ?? []).map(drill_id => ({ drill_id, target: "1", notes: "" })));
+    setNotes(plan?.notes ?? "");
+  }, [open, plan, playerId, drillIds]);
+
+  const drillName = (id: string) => drills.find(drill => drill.id === id)?.name ?? "Unknown drill";
+  const addable = drills.filter(drill => !items.some(item => item.drill_id === drill.id));
+
+  const setItem = (index: number, changes: Partial<ItemDraft>) =>
+    setItems(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  const savePlan = useMutation({
+    mutationFn: () =>
+      sendSchedule<PracticePlan>(plan ? "PUT" : "POST", plan ? `/api/practice-plans/${plan.id}` : "/api/practice-plans", {
+        name: name.trim(),
+        player_id: assignee === "player" ? assigneeId : null,
+        batch_id: assignee === "batch" ? assigneeId : null,
+        starts_on: startsOn,
+        ends_on: endsOn,
+        items: items.map(item => ({ drill_id: item.drill_id, target: Number(item.target) || 1, notes: item.notes.trim() || null })),
+        notes: notes.trim() || null,
+        ...(plan ? {} : { created_by: getCoachName() }),
+      }),
+    onSuccess: (saved) => {
+      toast({ title: plan ? "Practice plan updated" : "Practice plan added", description: saved.name });
+      refreshPractice();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save practice plan", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{plan ? "Edit Practice Plan" : "New Practice Plan"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="plan-name">Name</Label>
+            <Input id="plan-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Front-foot work, October" />
+          </div>
+          <div className="grid grid-cols-[auto_1fr] items-end gap-3">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={assignee}
+              onValueChange={(value) => {
+                if (!value) return;
+                setAssignee(value as Assignee);
+                setAssigneeId("");
+              }}
+            >
+              <ToggleGroupItem value="player">Player</ToggleGroupItem>
+              <ToggleGroupItem value="batch">Batch</ToggleGroupItem>
+            </ToggleGroup>
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger><SelectValue placeholder={assignee === "player" ? "Select player" : "Select batch"} /></SelectTrigger>
+              <SelectContent>
+                {(assignee === "player" ? players : batches).map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="plan-starts-on">From</Label>
+              <Input id="plan-starts-on" type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="plan-ends-on">Until</Label>
+              <Input id="plan-ends-on" type="date" value={endsOn} onChange={(e) => setEndsOn(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Label>Drills</Label>
+            {items.length === 0 ? (
+              <p className="text-sm text-neutral-500 mt-1">No drills yet.</p>
+            ) : (
+              <div className="space-y-2 mt-1">
+                {items.map((item, index) => (
+                  <div key={item.drill_id} className="grid grid-cols-[1fr_5rem_1fr_auto] items-center gap-2">
+                    <span className="text-sm font-medium truncate">{drillName(item.drill_id)}</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="h-8"
+                      title="Times to do it during the plan"
+                      value={item.target}
+                      onChange={(e) => setItem(index, { target: e.target.value })}
+                    />
+                    <Input className="h-8" value={item.notes} onChange={(e) => setItem(index, { notes: e.target.value })} placeholder="Notes" />
+                    <Button variant="ghost" size="sm" onClick={() => setItems(current => current.filter((_, i) => i !== index))}>
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <Select value="" onValueChange={(drill_id) => setItems(current => [...current, { drill_id, target: "1", notes: "" }])}>
+              <SelectTrigger className="w-64 mt-2"><SelectValue placeholder="Add a drill..." /></SelectTrigger>
+              <SelectContent>
+                {addable.map(drill => (
+                  <SelectItem key={drill.id} value={drill.id}>{drill.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="plan-notes">Notes</Label>
+            <Textarea id="plan-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            disabled={!name.trim() || !assigneeId || !startsOn || !endsOn || items.length === 0 || savePlan.isPending}
+            onClick={() => savePlan.mutate()}
+          >
+            {savePlan.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PracticePlanForm;
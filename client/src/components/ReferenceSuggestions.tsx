@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import type { Video } from "@shared/schema";
+
+interface ReferenceSuggestionsProps {
+  videoId: string;
+}
+
+// Model clips of the same shot type, for the player's batting hand, each opening
+// the comparison view against the video being watched
+const ReferenceSuggestions = ({ videoId }: ReferenceSuggestionsProps) => {
+  const { data: references = [] } = useQuery<Video[]>({ queryKey: [`/api/videos/${videoId}/references`] });
+
+  if (references.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3">
+      <h4 className="text-sm font-medium mb-2">Reference technique</h4>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {references.map(reference => (
+          <Link
+            key={reference.id}
+            href={`/compare?a=${videoId}&b=${reference.id}`}
+            className="flex-shrink-0 w-36 rounded border border-neutral-200 overflow-hidden hover:border-primary"
+          >
+            {reference.thumbnail_url ? (
+              <img src={reference.thumbnail_url} alt={reference.title} className="w-full aspect-video object-cover" />
+            ) : (
+              <div className="w-full aspect-video bg-neutral-200" />
+            )}
+            <div className="p-1 text-xs">
+              <p className="truncate font-medium">{reference.title}</p>
+              <p className="text-neutral-500">{reference.handedness ?? "Either hand"} · Compare</p>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceSuggestions;
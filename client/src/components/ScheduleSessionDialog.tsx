@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { refreshSchedule, sendSchedule, splitList, updateEntry } from "@/lib/schedule";
+import type { Batch, ScheduleEntry, Session } from "@shared/schema";
+
+const NO_BATCH = "none";
+
+interface ScheduleSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry?: ScheduleEntry; // the session or occurrence to change; a new one-off session when left out
+  defaultDate?: string;
+}
+
+// Adds a one-off session, or reschedules, moves or cancels one on the calendar.
+// Occurrences of a recurring session keep their date and batch.
+const ScheduleSessionDialog = ({ open, onOpenChange, entry, defaultDate }: ScheduleSessionDialogProps) => {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [name, setName] = useState("");
+  const [date, setDate] = useState("");
+  const [batchId, setBatchId] = useState(NO_BATCH);
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [venue, setVenue] = useState("");
+  const [net, setNet] = useState("");
+  const [coaches, setCoaches] = useState("");
+  const [cancelReason, setCancelReason] = useState("");
+
+  const { data: batches = [] } = useQuery<Batch[]>({ queryKey: ["/api/batches"], enabled: open });
+  const isOccurrence = !!entry?.template_id;
+  const isCancelled = entry?.status === "cancelled";
+
+  useEffect(() => {
+    if (!open) return;
+    setName(entry?.name ?? "");
+    setDate(entry?.date ?? defaultDate ?? "");
+    setBatchId(entry?.batch_id ?? NO_BATCH);
+    setStartTime(entry?.start_time ?? "");
+    setEndTime(entry?.end_time ?? "");
+    setVenue(entry?.venue ?? "");
+    setNet(entry?.net ?? "");
+    setCoaches("");
+    setCancelReason(entry?.cancel_reason ?? "");
+  }, [open, entry, defaultDate]);
+
+  const onSaved = (title: string) => {
+    toast({ title });
+    refreshSchedule();
+    onOpenChange(false);
+  };
+  const onFailed = (error: Error) => {
+    toast({ title: "Failed to update the schedule", description: error.message, variant: "destructive" });
+  };
+
+  const details = () => ({
+    name: name.trim(),
+    start_time: startTime || null,
+    end_time: endTime || null,
+    venue: venue.trim() || null,
+    net: net.trim() || null,
+    ...(coaches.trim() ? { coaches: splitList(coaches) } : {}),
+  });
+
+  const saveSession = useMutation({
+    mutationFn: () => {
+      if (entry) {
+        return updateEntry(entry, isOccurrence ? details() : { ...details(), date, batch_id: batchId === NO_BATCH ? null : batchId });
+      }
+      return sendSchedule<Session>("POST", "/api/sessions", {
+        ...details(),
+        date,
+        batch_id: batchId === NO_BATCH ? null : batchId,
+      });
+    },
+    onSuccess: () => onSaved(entry ? "Session updated" : "Session added"),
+    onError: onFailed,
+  });
+
+  const setStatus = useMutation({
+    mutationFn: (status: Session["status"]) =>
+      updateEntry(entry!, status === "cancelled" ? { status, cancel_reason: cancelReason.trim() || null } : { status }),
+    onSuccess: (session) => onSaved(session.status === "cancelled" ? "Session cancelled" : "Session restored"),
+    onError: onFailed,
+  });
+
+  // An occurrence of a recurring session is saved as a session first, so the
+  // attendance has something to belong to
+  const takeAttendance = useMutation({
+    mutationFn: async () => (entry!.session_id ? entry!.session_id : (await updateEntry(entry!, {})).id),
+    onSuccess: (sessionId) => {
+      refreshSchedule();
+      setLocation(`/sessions/${sessionId}/attendance`);
+    },
+    onError: onFailed,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{entry ? (isOccurrence ? "Recurring Session" : "Session") : "New One-off Session"}</DialogTitle>
+        </DialogHeader>
+        {isCancelled && (
+          <p className="text-sm text-red-600">
+            Cancelled{entry?.cancel_reason ? `: ${entry.cancel_reason}` : ""}
+          </p>
+        )}
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="session-name">Name</Label>
+            <Input id="session-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Fielding drills" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="session-date">Date</Label>
+              <Input id="session-date" type="date" value={date} disabled={isOccurrence} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>Batch</Label>
+              <Select value={batchId} onValueChange={setBatchId} disabled={isOccurrence}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_BATCH}>No batch</SelectItem>
+                  {batches.map(batch => (
+                    <SelectItem key={batch.id} value={batch.id}>{batch.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="session-start">Starts</Label>
+              <Input id="session-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="session-end">Ends</Label>
+              <Input id="session-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="session-venue">Venue</Label>
+              <Input id="session-venue" value={venue} onChange={(e) => setVenue(e.target.value)} placeholder="e.g. Main Ground" />
+            </div>
+            <div>
+              <Label htmlFor="session-net">Net / Pitch</Label>
+              <Input id="session-net" value={net} onChange={(e) => setNet(e.target.value)} placeholder="Whole venue" />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="session-coaches">Coaches</Label>
+            <Input
+              id="session-coaches"
+              value={coaches}
+              onChange={(e) => setCoaches(e.target.value)}
+              placeholder={entry?.coaches.length ? entry.coaches.join(", ") : "The batch's coaches"}
+            />
+          </div>
+          {entry && !isCancelled && (
+            <div>
+              <Label htmlFor="session-cancel-reason">Reason for cancelling (optional)</Label>
+              <Input id="session-cancel-reason" value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} placeholder="e.g. Rain" />
+            </div>
+          )}
+        </div>
+        <DialogFooter className="gap-2">
+          {entry && !isCancelled && (
+            <Button variant="outline" disabled={takeAttendance.isPending} onClick={() => takeAttendance.mutate()}>
+              Take Attendance
+            </Button>
+          )}
+          {entry && (
+            isCancelled ? (
+              <Button variant="outline" disabled={setStatus.isPending} onClick={() => setStatus.mutate("scheduled")}>
+                Restore Session
+              </Button>
+            ) : (
+              <Button variant="destructive" disabled={setStatus.isPending} onClick={() => setStatus.mutate("cancelled")}>
+                Cancel Session
+              </Button>
+            )
+          )}
+          <Button disabled={!name.trim() || !date || saveSession.isPending} onClick={() => saveSession.mutate()}>
+            {saveSession.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleSessionDialog;
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { refreshSchedule, sendSchedule, splitList } from "@/lib/schedule";
+import { WEEKDAYS } from "@shared/schema";
+import type { Batch, ScheduleTemplate, Weekday } from "@shared/schema";
+
+interface ScheduleTemplateFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template?: ScheduleTemplate; // edits this template, creates a new one when left out
+}
+
+// Recurring session for a batch. Picking a batch fills in the days and times from
+// its timetable, which can then be changed.
+const ScheduleTemplateForm = ({ open, onOpenChange, template }: ScheduleTemplateFormProps) => {
+  const { toast } = useToast();
+  const [batchId, setBatchId] = useState("");
+  const [name, setName] = useState("");
+  const [days, setDays] = useState<Weekday[]>([]);
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [venue, setVenue] = useState("");
+  const [net, setNet] = useState("");
+  const [coaches, setCoaches] = useState("");
+  const [startsOn, setStartsOn] = useState("");
+  const [endsOn, setEndsOn] = useState("");
+
+  const { data: batches = [] } = useQuery<Batch[]>({ queryKey: ["/api/batches"], enabled: open });
+
+  useEffect(() => {
+    if (!open) return;
+    setBatchId(template?.batch_id ?? "");
+    setName(template?.name ?? "");
+    setDays(template?.days ?? []);
+    setStartTime(template?.start_time ?? "");
+    setEndTime(template?.end_time ?? "");
+    setVenue(template?.venue ?? "");
+    setNet(template?.net ?? "");
+    setCoaches(template?.coaches.join(", ") ?? "");
+    setStartsOn(template?.starts_on ?? format(new Date(), "yyyy-MM-dd"));
+    setEndsOn(template?.ends_on ?? "");
+  }, [open, template]);
+
+  const chooseBatch = (id: string) => {
+    setBatchId(id);
+    const batch = batches.find(item => item.id === id);
+    if (!batch || template) return;
+    if (!name.trim()) setName(`${batch.name} Training`);
+    // Slots at the first slot's time become the template's days
+    const [first] = batch.timetable;
+    if (first) {
+      setDays(batch.timetable.filter(slot => slot.start === first.start && slot.end === first.end).map(slot => slot.day));
+      setStartTime(first.start);
+      setEndTime(first.end);
+    }
+  };
+
+  const saveTemplate = useMutation({
+    mutationFn: () =>
+      sendSchedule<ScheduleTemplate>(template ? "PUT" : "POST", template ? `/api/schedule/templates/${template.id}` : "/api/schedule/templates", {
+        batch_id: batchId,
+        name: name.trim(),
+        days,
+        start_time: startTime,
+        end_time: endTime,
+        venue: venue.trim() || null,
+        net: net.trim() || null,
+        coaches: splitList(coaches),
+        starts_on: startsOn,
+        ends_on: endsOn || null,
+      }),
+    onSuccess: (saved) => {
+      toast({ title: template ? "Recurring session updated" : "Recurring session added", description: saved.name });
+      refreshSchedule();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save recurring session", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Recurring Session" : "New Recurring Session"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Batch</Label>
+              <Select value={batchId} onValueChange={chooseBatch}>
+                <SelectTrigger><SelectValue placeholder="Select batch" /></SelectTrigger>
+                <SelectContent>
+                  {batches.map(batch => (
+                    <SelectItem key={batch.id} value={batch.id}>{batch.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="template-name">Name</Label>
+              <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Morning Nets" />
+            </div>
+          </div>
+          <div>
+            <Label>Days</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              className="justify-start flex-wrap mt-1"
+              value={days}
+              onValueChange={(value) => setDays(WEEKDAYS.filter(day => value.includes(day)))}
+            >
+              {WEEKDAYS.map(day => (
+                <ToggleGroupItem key={day} value={day} size="sm">{day.slice(0, 3)}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="template-start">Starts</Label>
+              <Input id="template-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="template-end">Ends</Label>
+              <Input id="template-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="template-venue">Venue</Label>
+              <Input id="template-venue" value={venue} onChange={(e) => setVenue(e.target.value)} placeholder="e.g. Main Ground" />
+            </div>
+            <div>
+              <Label htmlFor="template-net">Net / Pitch</Label>
+              <Input id="template-net" value={net} onChange={(e) => setNet(e.target.value)} placeholder="Whole venue" />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="template-coaches">Coaches</Label>
+            <Input id="template-coaches" value={coaches} onChange={(e) => setCoaches(e.target.value)} placeholder="The batch's coaches" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="template-starts-on">From</Label>
+              <Input id="template-starts-on" type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="template-ends-on">Until (optional)</Label>
+              <Input id="template-ends-on" type="date" value={endsOn} onChange={(e) => setEndsOn(e.target.value)} />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            disabled={!batchId || !name.trim() || days.length === 0 || !startTime || !endTime || !startsOn || saveTemplate.isPending}
+            onClick={() => saveTemplate.mutate()}
+          >
+            {saveTemplate.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleTemplateForm;
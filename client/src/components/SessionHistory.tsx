@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import VideoPlayer from "@/components/VideoPlayer";
+import type { Session, SessionRecording } from "@shared/schema";
+
+export interface RecordingSelection {
+  sessionId: string;
+  title: string;
+  fileUrl: string;
+}
+
+interface SessionHistoryProps {
+  // Opens a recording in the clip editor
+  onCutClips: (selection: RecordingSelection) => void;
+}
+
+// Past sessions, newest first, each playing its latest recording or a chosen one
+const SessionHistory = ({ onCutClips }: SessionHistoryProps) => {
+  const { data: allSessions = [], isLoading } = useQuery<Session[]>({
+    queryKey: ['/api/sessions'],
+  });
+  // Cancelled sessions on the schedule never took place
+  const sessions = allSessions.filter(session => session.status !== 'cancelled');
+
+  if (isLoading) {
+    return <p className="text-sm text-neutral-500">Loading sessions...</p>;
+  }
+
+  if (sessions.length === 0) {
+    return <p className="text-sm text-neutral-500">No sessions recorded yet.</p>;
+  }
+
+  return (
+    <div className="flex overflow-x-auto pb-4 space-x-4">
+      {sessions.map(session => (
+        <SessionCard key={session.id} session={session} onCutClips={onCutClips} />
+      ))}
+    </div>
+  );
+};
+
+const SessionCard = ({ session, onCutClips }: { session: Session } & SessionHistoryProps) => {
+  const recordingsUrl = `/api/sessions/${session.id}/recordings`;
+  const { data: recordings = [] } = useQuery<SessionRecording[]>({ queryKey: [recordingsUrl] });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const shown = recordings.find(recording => recording.id === selectedId) ?? recordings[0];
+
+  return (
+    <div className="flex-shrink-0 w-96">
+      <Card className="overflow-hidden h-full">
+        <div className="aspect-video">
+          {shown ? (
+            <VideoPlayer
+              key={shown.id}
+              videoUrl={shown.file_url}
+              title={shown.title}
+              duration={shown.duration}
+              className="w-full h-full"
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center bg-neutral-100 text-sm text-neutral-500">
+              No recording uploaded
+            </div>
+          )}
+        </div>
+        <CardContent className="p-3">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="font-bold truncate">{session.name}</h4>
+            <Link href={`/sessions/${session.id}/attendance`} className="text-xs text-primary hover:underline">Attendance</Link>
+          </div>
+          <p className="text-sm text-neutral-600">
+            Recorded on {format(new Date(`${session.date}T00:00:00`), "MMMM d, yyyy")}
+            {session.duration_minutes ? ` · ${session.duration_minutes} min` : ""}
+          </p>
+          {session.participants && session.participants.length > 0 && (
+            <p className="text-xs text-neutral-500 mt-1 truncate" title={session.participants.join(", ")}>
+              {session.participants.length} players: {session.participants.join(", ")}
+            </p>
+          )}
+          {session.focus_areas && session.focus_areas.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-1">
+              {session.focus_areas.map(area => (
+                <span key={area} className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">
+                  {area}
+                </span>
+              ))}
+            </div>
+          )}
+          {recordings.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {recordings.map(recording => (
+                <div key={recording.id} className="flex items-center justify-between text-xs">
+                  <button
+                    className={`truncate text-left hover:underline ${recording.id === shown?.id ? "font-semibold" : ""}`}
+                    onClick={() => setSelectedId(recording.id)}
+                  >
+                    {recording.title}
+                    <span className="ml-1 text-neutral-500">{format(new Date(recording.created_at), "HH:mm")}</span>
+                  </button>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => onCutClips({ sessionId: session.id, title: recording.title, fileUrl: recording.file_url })}
+                  >
+                    Cut Clips
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 
 interface StarRatingProps {
   initialRating?: number;
@@ -18,6 +18,11 @@ const StarRating = ({
   const [rating, setRating] = useState(initialRating);
   const [hover, setHover] = useState(0);
 
+  // Follow the parent when it replaces the rating, e.g. when a draft is restored
+  useEffect(() => {
+    setRating(initialRating);
+  }, [initialRating]);
+
   const handleClick = (starIndex: number) => {
     if (readOnly) return;
     const newRating = starIndex + 1;
@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ReactNode, RefObject } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getCoachName } from "@/lib/coach";
+import { formatTimestamp } from "@/lib/videoProcessing";
+import { DRAWING_COLORS, drawShapes, exportStill, frameRect, toFramePoint, visibleDrawings } from "@/lib/telestration";
+import { DRAWING_TOOLS } from "@shared/schema";
+import type { Drawing, DrawingShape, DrawingTool } from "@shared/schema";
+
+const TOOL_LABELS: Record<DrawingTool, string> = {
+  pen: "Pen",
+  line: "Line",
+  arrow: "Arrow",
+  angle: "Angle",
+  circle: "Circle",
+};
+
+interface TelestrationProps {
+  videoId: string;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  // Used to name exported stills
+  title: string;
+  // The <video> element the canvas is laid over
+  children: ReactNode;
+}
+
+// Overlay canvas for drawing on a paused frame. Saved drawings are replayed when
+// playback reaches their timestamp, and any frame can be exported with its drawings.
+const Telestration = ({ videoId, videoRef, title, children }: TelestrationProps) => {
+  const { toast } = useToast();
+  const author = getCoachName();
+  const drawingsUrl = `/api/videos/${videoId}/drawings`;
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  // Frame being drawn on, null when not drawing
+  const [drawingAt, setDrawingAt] = useState<number | null>(null);
+  const [tool, setTool] = useState<DrawingTool>("pen");
+  const [color, setColor] = useState(DRAWING_COLORS[0]);
+  const [shapes, setShapes] = useState<DrawingShape[]>([]);
+  // The shape under the pointer; an angle stays here between placing its arms
+  const [activeShape, setActiveShape] = useState<DrawingShape | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const { data: drawings = [] } = useQuery<Drawing[]>({ queryKey: [drawingsUrl] });
+
+  // Shapes on screen: the draft while drawing, otherwise whatever playback has reached
+  const shownShapes = useMemo(() => drawingAt !== null
+    ? [...shapes, ...(activeShape ? [activeShape] : [])]
+    : visibleDrawings(drawings, currentTime).flatMap(drawing => drawing.shapes),
+  [drawingAt, shapes, activeShape, drawings, currentTime]);
+
+  const render = () => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+
+    // Match the canvas to the element's size so strokes stay sharp
+    canvas.width = video.clientWidth;
+    canvas.height = video.clientHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawShapes(ctx, shownShapes, frameRect(video, canvas.width, canvas.height));
+  };
+  // Video events outlive renders, so they redraw through a ref to the latest shapes
+  const renderRef = useRef(render);
+  renderRef.current = render;
+
+  useEffect(render, [shownShapes]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const updateTime = () => setCurrentTime(video.currentTime);
+    const redraw = () => renderRef.current();
+    video.addEventListener("timeupdate", updateTime);
+    video.addEventListener("seeked", updateTime);
+    video.addEventListener("loadedmetadata", redraw);
+    const observer = new ResizeObserver(redraw);
+    observer.observe(video);
+    return () => {
+      video.removeEventListener("timeupdate", updateTime);
+      video.removeEventListener("seeked", updateTime);
+      video.removeEventListener("loadedmetadata", redraw);
+      observer.disconnect();
+    };
+  }, [videoRef]);
+
+  const pointAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const bounds = canvas.getBoundingClientRect();
+    const rect = frameRect(videoRef.current!, canvas.width, canvas.height);
+    return toFramePoint(rect, event.clientX - bounds.left, event.clientY - bounds.top);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = pointAt(event);
+    // Second click of an angle places the end of its other arm
+    if (activeShape?.tool === "angle" && activeShape.points.length === 3) {
+      setShapes([...shapes, activeShape]);
+      setActiveShape(null);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setActiveShape({ tool, color, points: [point, point] });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!activeShape) return;
+    const point = pointAt(event);
+    const points = activeShape.points;
+    if (activeShape.tool === "pen") {
+      if (event.buttons) setActiveShape({ ...activeShape, points: [...points, point] });
+    } else if (activeShape.tool === "angle" && !event.buttons) {
+      // First arm placed; the second follows the pointer until the next click
+      setActiveShape({ ...activeShape, points: [points[0], points[1], point] });
+    } else if (event.buttons) {
+      setActiveShape({ ...activeShape, points: [points[0], point] });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!activeShape) return;
+    const [start, end] = [activeShape.points[0], activeShape.points[activeShape.points.length - 1]];
+    // A click without a drag draws nothing
+    if (start.x === end.x && start.y === end.y) {
+      setActiveShape(null);
+    } else if (activeShape.tool === "angle") {
+      if (activeShape.points.length === 2) {
+        setActiveShape({ ...activeShape, points: [...activeShape.points, end] });
+      }
+    } else {
+      setShapes([...shapes, activeShape]);
+      setActiveShape(null);
+    }
+  };
+
+  const startDrawing = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    setDrawingAt(video.currentTime);
+  };
+
+  const stopDrawing = () => {
+    setDrawingAt(null);
+    setShapes([]);
+    setActiveShape(null);
+  };
+
+  const saveDrawing = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", drawingsUrl, { author, timestamp: drawingAt, shapes });
+      return response.json();
+    },
+    onSuccess: () => {
+      stopDrawing();
+      queryClient.invalidateQueries({ queryKey: [drawingsUrl] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save drawing", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteDrawing = useMutation({
+    mutationFn: (drawing: Drawing) =>
+      apiRequest("DELETE", `${drawingsUrl}/${drawing.id}?author=${encodeURIComponent(author)}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [drawingsUrl] }),
+    onError: (error) => {
+      toast({ title: "Failed to delete drawing", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const handleExport = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    try {
+      const blob = await exportStill(video, shownShapes);
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(blob);
+      link.download = `${title} @ ${formatTimestamp(video.currentTime)}.png`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      toast({ title: "Failed to export frame", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const seek = (seconds: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = seconds;
+    }
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        {children}
+        <canvas
+          ref={canvasRef}
+          className={`absolute inset-0 w-full h-full ${drawingAt !== null ? "cursor-crosshair touch-none" : "pointer-events-none"}`}
+          onPointerDown={drawingAt !== null ? handlePointerDown : undefined}
+          onPointerMove={drawingAt !== null ? handlePointerMove : undefined}
+          onPointerUp={drawingAt !== null ? handlePointerUp : undefined}
+        />
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        {drawingAt === null ? (
+          <>
+            <Button variant="outline" size="sm" onClick={startDrawing}>Draw on Frame</Button>
+            <Button variant="ghost" size="sm" onClick={handleExport}>Export Still</Button>
+          </>
+        ) : (
+          <>
+            <span className="text-sm font-medium mr-1">Drawing at {formatTimestamp(drawingAt)}</span>
+            {DRAWING_TOOLS.map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={tool === option ? "default" : "outline"}
+                onClick={() => { setTool(option); setActiveShape(null); }}
+              >
+                {TOOL_LABELS[option]}
+              </Button>
+            ))}
+            {DRAWING_COLORS.map(option => (
+              <button
+                key={option}
+                aria-label={`Colour ${option}`}
+                className={`h-6 w-6 rounded-full border ${color === option ? "ring-2 ring-primary ring-offset-1" : "border-neutral-300"}`}
+                style={{ backgroundColor: option }}
+                onClick={() => setColor(option)}
+              />
+            ))}
+            <Button variant="ghost" size="sm" disabled={shapes.length === 0} onClick={() => setShapes(shapes.slice(0, -1))}>
+              Undo
+            </Button>
+            <Button variant="ghost" size="sm" disabled={shapes.length === 0} onClick={() => setShapes([])}>
+              Clear
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleExport}>Export Still</Button>
+            <Button size="sm" disabled={shapes.length === 0 || saveDrawing.isPending} onClick={() => saveDrawing.mutate()}>
+              {saveDrawing.isPending ? "Saving..." : "Save Drawing"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={stopDrawing}>Cancel</Button>
+          </>
+        )}
+      </div>
+
+      {drawings.length > 0 && drawingAt === null && (
+        <div className="mt-2 flex flex-wrap gap-2 text-xs">
+          {drawings.map(drawing => (
+            <span key={drawing.id} className="inline-flex items-center gap-1 rounded bg-neutral-100 px-2 py-1">
+              <button className="font-mono text-primary" onClick={() => seek(drawing.timestamp)}>
+                {formatTimestamp(drawing.timestamp)}
+              </button>
+              <span className="text-neutral-500">{drawing.author}</span>
+              {drawing.author === author && (
+                <button
+                  aria-label="Delete drawing"
+                  className="text-red-600 ml-1"
+                  disabled={deleteDrawing.isPending}
+                  onClick={() => deleteDrawing.mutate(drawing)}
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Telestration;
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import type { RefObject } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getCoachName } from "@/lib/coach";
+import { formatTimestamp } from "@/lib/videoProcessing";
+import type { Annotation, RubricTemplate, Video } from "@shared/schema";
+
+const NO_CRITERION = "none";
+
+interface VideoAnnotationsProps {
+  videoId: string;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  // Length of the loaded video in seconds, once known; markers are placed against it
+  duration: number | null;
+}
+
+// Criteria and sub-criteria of a rubric, e.g. Cover Drive and Head Stability
+function criterionOptions(rubric: RubricTemplate | undefined): { key: string; name: string }[] {
+  const options = new Map<string, string>();
+  for (const criterion of rubric?.criteria ?? []) {
+    options.set(criterion.key, criterion.name);
+    for (const sub of criterion.sub_criteria ?? []) {
+      options.set(sub.key, sub.name);
+    }
+  }
+  return Array.from(options, ([key, name]) => ({ key, name }));
+}
+
+// Timeline markers and a list of timestamped coach comments under a video. Clicking
+// a marker or comment seeks to it; new comments are pinned to the current frame.
+const VideoAnnotations = ({ videoId, videoRef, duration }: VideoAnnotationsProps) => {
+  const { toast } = useToast();
+  const author = getCoachName();
+  const annotationsUrl = `/api/videos/${videoId}/annotations`;
+
+  // The moment being annotated, captured when the coach starts writing
+  const [draftTime, setDraftTime] = useState<number | null>(null);
+  const [text, setText] = useState("");
+  const [criterion, setCriterion] = useState(NO_CRITERION);
+  const [span, setSpan] = useState("");
+
+  const { data: annotations = [] } = useQuery<Annotation[]>({ queryKey: [annotationsUrl] });
+  const { data: video } = useQuery<Video>({ queryKey: [`/api/videos/${videoId}`] });
+  // Reference clips have no player and are annotated against the default rubric
+  const { data: rubric } = useQuery<RubricTemplate>({
+    queryKey: [video?.player_id ? `/api/players/${video.player_id}/rubric` : "/api/rubrics/default"],
+    enabled: !!video,
+  });
+  const criteria = criterionOptions(rubric);
+  const criterionLabel = (key: string) => criteria.find(option => option.key === key)?.name ?? key;
+
+  const seek = (seconds: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = seconds;
+    }
+  };
+
+  const startAnnotation = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    setDraftTime(video.currentTime);
+  };
+
+  const resetDraft = () => {
+    setDraftTime(null);
+    setText("");
+    setCriterion(NO_CRITERION);
+    setSpan("");
+  };
+
+  const addAnnotation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", annotationsUrl, {
+        author,
+        timestamp: draftTime,
+        duration: span ? parseFloat(span) : null,
+        text: text.trim(),
+        criterion: criterion === NO_CRITERION ? null : criterion,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      resetDraft();
+      queryClient.invalidateQueries({ queryKey: [annotationsUrl] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add annotation", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteAnnotation = useMutation({
+    mutationFn: (annotation: Annotation) =>
+      apiRequest("DELETE", `${annotationsUrl}/${annotation.id}?author=${encodeURIComponent(author)}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [annotationsUrl] }),
+    onError: (error) => {
+      toast({ title: "Failed to delete annotation", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="mt-3 space-y-3">
+      {/* Markers along the length of the video */}
+      <div className="relative h-3 bg-neutral-200 rounded">
+        {duration ? annotations.map(annotation => (
+          <button
+            key={annotation.id}
+            title={`${formatTimestamp(annotation.timestamp)} - ${annotation.text}`}
+            className="absolute top-0 h-3 min-w-[6px] rounded bg-amber-500 hover:bg-amber-600"
+            style={{
+              left: `${Math.min(annotation.timestamp / duration, 1) * 100}%`,
+              width: annotation.duration ? `${Math.min(annotation.duration / duration, 1) * 100}%` : undefined,
+            }}
+            onClick={() => seek(annotation.timestamp)}
+          />
+        )) : null}
+      </div>
+
+      {draftTime === null ? (
+        <Button variant="outline" size="sm" onClick={startAnnotation}>
+          Annotate This Moment
+        </Button>
+      ) : (
+        <div className="border border-neutral-200 rounded-md p-3 space-y-2">
+          <p className="text-sm font-medium">Annotation at {formatTimestamp(draftTime)}</p>
+          <Input
+            autoFocus
+            placeholder="e.g. Head falls to the off side"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <div className="flex flex-wrap gap-2">
+            <Select value={criterion} onValueChange={setCriterion}>
+              <SelectTrigger className="w-56"><SelectValue placeholder="Criterion" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CRITERION}>No criterion</SelectItem>
+                {criteria.map(option => (
+                  <SelectItem key={option.key} value={option.key}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-40"
+              type="number"
+              min="0"
+              step="0.1"
+              placeholder="Lasts (seconds)"
+              value={span}
+              onChange={(e) => setSpan(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" disabled={!text.trim() || addAnnotation.isPending} onClick={() => addAnnotation.mutate()}>
+              {addAnnotation.isPending ? "Saving..." : "Add Annotation"}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={resetDraft}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {annotations.length > 0 && (
+        <div className="max-h-40 overflow-y-auto divide-y border border-neutral-200 rounded-md">
+          {annotations.map(annotation => (
+            <div key={annotation.id} className="flex items-start justify-between gap-2 p-2 text-sm">
+              <button className="text-left" onClick={() => seek(annotation.timestamp)}>
+                <span className="font-mono text-primary mr-2">{formatTimestamp(annotation.timestamp)}</span>
+                {annotation.text}
+                {annotation.criterion && (
+                  <span className="ml-2 text-xs bg-amber-100 text-amber-800 px-1 rounded">{criterionLabel(annotation.criterion)}</span>
+                )}
+                <span className="block text-xs text-neutral-500">{annotation.author}</span>
+              </button>
+              {annotation.author === author && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-red-600"
+                  disabled={deleteAnnotation.isPending}
+                  onClick={() => deleteAnnotation.mutate(annotation)}
+                >
+                  Delete
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoAnnotations;
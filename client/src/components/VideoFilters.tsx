@@ -0,0 +1,38 @@
+import { Label } from "@/components/ui/label";
+import { VIDEO_TAG_LABELS, videoTagOptions } from "@/lib/videoTags";
+import type { VideoFacets, VideoTagField } from "@shared/schema";
+import type { VideoFilterValues } from "@/hooks/use-video-search";
+
+interface VideoFiltersProps {
+  fields: VideoTagField[];
+  value: VideoFilterValues;
+  onChange: (value: VideoFilterValues) => void;
+  // Counts from the last search; each option shows how many videos it would match
+  facets?: VideoFacets;
+}
+
+// One select per tag field, "All" clears the field's filter
+const VideoFilters = ({ fields, value, onChange, facets }: VideoFiltersProps) => (
+  <>
+    {fields.map(field => (
+      <div key={field} className="mb-2">
+        <Label htmlFor={`filter-${field}`} className="block mb-1 text-xs">{VIDEO_TAG_LABELS[field]}</Label>
+        <select
+          id={`filter-${field}`}
+          className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
+          value={value[field] ?? "All"}
+          onChange={(e) => onChange({ ...value, [field]: e.target.value === "All" ? undefined : e.target.value })}
+        >
+          <option value="All">All</option>
+          {videoTagOptions(field).map(option => (
+            <option key={option} value={option}>
+              {facets ? `${option} (${facets[field]?.[option] ?? 0})` : option}
+            </option>
+          ))}
+        </select>
+      </div>
+    ))}
+  </>
+);
+
+export default VideoFilters;
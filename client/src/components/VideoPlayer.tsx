@@ -1,93 +1,97 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useRef } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-
-interface VideoTag {
-  shotType: string;
-  ballSpeed: string;
-  reactionTime: string;
-  batConnect: string;
-  batSwing: string;
-}
+import VideoAnnotations from "@/components/VideoAnnotations";
+import Telestration from "@/components/Telestration";
+import PlaybackControls from "@/components/PlaybackControls";
+import ReferenceSuggestions from "@/components/ReferenceSuggestions";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { VIDEO_TAG_LABELS, videoTagOptions } from "@/lib/videoTags";
+import { formatDuration, isVideoProcessing } from "@/lib/videoProcessing";
+import { VIDEO_SPRITE_FRAMES, VIDEO_TAG_FIELDS } from "@shared/schema";
+import type { Video, VideoProcessingStatus, VideoTagField, VideoTags } from "@shared/schema";
 
 interface VideoPlayerProps {
   videoUrl: string;
   title: string;
-  thumbnail?: string;
+  thumbnail?: string | null;
+  // Strip of VIDEO_SPRITE_FRAMES frames shown while hovering over the thumbnail
+  sprite?: string | null;
+  // Shown over the thumbnail: length in seconds and media pipeline progress
+  duration?: number | null;
+  processingStatus?: VideoProcessingStatus | null;
   className?: string;
   triggerClassName?: string;
-  onTagsUpdate?: (tags: VideoTag) => void;
-  initialTags?: Partial<VideoTag>;
+  // When set, saved tags are written to the video with PATCH /api/videos/:id
+  videoId?: string;
+  onTagsUpdate?: (tags: VideoTags) => void;
+  initialTags?: VideoTags;
 }
 
 const VideoPlayer = ({ 
   videoUrl, 
   title, 
   thumbnail, 
+  sprite,
+  duration,
+  processingStatus,
   className, 
   triggerClassName,
+  videoId,
   onTagsUpdate,
   initialTags = {}
 }: VideoPlayerProps) => {
+  const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
-  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(thumbnail || null);
+  const [scrubFrame, setScrubFrame] = useState<number | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
   const [showTagDialog, setShowTagDialog] = useState(false);
-  const [tags, setTags] = useState<Partial<VideoTag>>({
-    shotType: initialTags.shotType || '',
-    ballSpeed: initialTags.ballSpeed || '',
-    reactionTime: initialTags.reactionTime || '',
-    batConnect: initialTags.batConnect || '',
-    batSwing: initialTags.batSwing || ''
-  });
+  const [tags, setTags] = useState<VideoTags>(initialTags);
+  const [isSavingTags, setIsSavingTags] = useState(false);
 
   const isLocalVideo = (url: string) => {
     return url.endsWith('.mp4') || url.endsWith('.webm') || url.endsWith('.ogg');
   };
 
-  useEffect(() => {
-    // Simply use a generic cricket shot image for thumbnails
-    if (!thumbnail) {
-      // Set color-coded thumbnails instead of trying to generate them
-      // Map for thumbnail background colors based on video content
-      const fileName = videoUrl.split('/').pop() || '';
-      
-      // Determine color based on filename
-      let bgColor = '%23cccccc'; // Default gray
-      
-      if (fileName === 'Video 1.mp4') {
-        bgColor = '%233b82f6'; // blue-500
-      } else if (fileName === 'Video 2.mp4') {
-        bgColor = '%2322c55e'; // green-500
-      } else if (fileName === 'Video 3.mp4') {
-        bgColor = '%23eab308'; // yellow-500
-      } else if (fileName === 'Video 4.mp4') {
-        bgColor = '%23ef4444'; // red-500
-      }
-      
-      setThumbnailUrl(`data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" width="300" height="150" viewBox="0 0 300 150"><rect width="300" height="150" fill="${bgColor}"/><text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-family="Arial" font-size="24" fill="white">Cricket Training</text></svg>`);
-    }
-  }, [videoUrl, thumbnail]);
+  const youTubeId = (url: string) => {
+    const match = url.match(/^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/);
+    return match && match[2].length === 11 ? match[2] : null;
+  };
+
+  // Saved videos play through the streaming endpoint, which supports seeking with Range requests
+  const isYouTube = youTubeId(videoUrl) !== null;
+  const playbackUrl = videoId && !isYouTube ? `/api/videos/${videoId}/stream` : videoUrl;
+
+  // Hovering over the thumbnail scrubs through the sprite strip, one frame per slice of its width
+  const handleScrub = (event: React.MouseEvent<HTMLElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const frame = Math.floor(((event.clientX - rect.left) / rect.width) * VIDEO_SPRITE_FRAMES);
+    setScrubFrame(Math.min(Math.max(frame, 0), VIDEO_SPRITE_FRAMES - 1));
+  };
 
   const getVideoPlayer = () => {
-    if (isLocalVideo(videoUrl)) {
-      return (
+    if (!isYouTube && (videoId || isLocalVideo(videoUrl))) {
+      const video = (
         <video 
           ref={videoRef}
-          src={videoUrl}
-          className={`w-full max-h-[500px] ${className}`}
+          src={playbackUrl}
+          className={`block w-full max-h-[500px] ${className}`}
           controls
           autoPlay
+          onLoadedMetadata={(e) => setMediaDuration(isFinite(e.currentTarget.duration) ? e.currentTarget.duration : duration ?? null)}
         />
       );
+      // Saved videos can be drawn on; drawings are stored against the video
+      return videoId
+        ? <Telestration videoId={videoId} videoRef={videoRef} title={title}>{video}</Telestration>
+        : video;
     } else {
       // Handle YouTube URLs
-      const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
-      const match = videoUrl.match(regExp);
-      
-      const embedUrl = match && match[2].length === 11
-        ? `https://www.youtube.com/embed/${match[2]}?autoplay=1`
+      const embedUrl = isYouTube
+        ? `https://www.youtube.com/embed/${youTubeId(videoUrl)}?autoplay=1`
         : videoUrl;
         
       return (
@@ -103,33 +107,42 @@ const VideoPlayer = ({
   };
 
   // Function to handle saving tags
-  const handleSaveTags = () => {
-    // Only trigger update if callback is provided and all tags are filled
-    if (onTagsUpdate && 
-        tags.shotType && 
-        tags.ballSpeed && 
-        tags.reactionTime && 
-        tags.batConnect && 
-        tags.batSwing) {
-      onTagsUpdate(tags as VideoTag);
+  const handleSaveTags = async () => {
+    if (videoId) {
+      setIsSavingTags(true);
+      try {
+        // Every tag is sent, unset ones as null, so the stored video matches the form
+        const updates = Object.fromEntries(VIDEO_TAG_FIELDS.map(field => [field, tags[field] || null]));
+        const response = await apiRequest("PATCH", `/api/videos/${videoId}`, updates);
+        const video: Video = await response.json();
+        queryClient.invalidateQueries({ queryKey: [video.player_id ? `/api/players/${video.player_id}/videos` : "/api/references"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+        toast({
+          title: "Video Tags Updated",
+          description: "The tags for this video have been updated successfully."
+        });
+      } catch (error) {
+        toast({
+          title: "Failed to update tags",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+        return;
+      } finally {
+        setIsSavingTags(false);
+      }
     }
+    onTagsUpdate?.(tags);
     setShowTagDialog(false);
   };
 
-  const handleTagChange = (value: string, field: keyof VideoTag) => {
+  const handleTagChange = (value: string, field: VideoTagField) => {
     setTags({
       ...tags,
       [field]: value
     });
   };
 
-  // Tag selection options
-  const shotTypes = ['Cover Drive', 'Pull Shot', 'Off Drive', 'Straight Drive', 'Cut Shot', 'Sweep Shot', 'Defensive Block', 'Miscellaneous'];
-  const ballSpeeds = ['Fast', 'Medium', 'Slow'];
-  const reactionTimes = ['Fast', 'Avg', 'Slow'];
-  const batConnectOptions = ['Good', 'Avg', 'Poor'];
-  const batSwingOptions = ['Good', 'Avg', 'Poor'];
-
   return (
     <>
       <Dialog>
@@ -138,14 +151,27 @@ const VideoPlayer = ({
             variant="ghost" 
             className={`p-1 text-primary hover:text-primary-dark focus:ring-0 ${triggerClassName}`}
             onClick={() => setIsOpen(true)}
+            onMouseMove={sprite ? handleScrub : undefined}
+            onMouseLeave={() => setScrubFrame(null)}
           >
-            {thumbnailUrl ? (
+            {thumbnail ? (
               <div className="relative w-full h-full overflow-hidden aspect-video">
-                <img 
-                  src={thumbnailUrl} 
-                  alt={title} 
-                  className="w-full h-full object-cover rounded"
-                />
+                {sprite && scrubFrame !== null ? (
+                  <div
+                    className="w-full h-full rounded bg-no-repeat"
+                    style={{
+                      backgroundImage: `url("${sprite}")`,
+                      backgroundSize: `${VIDEO_SPRITE_FRAMES * 100}% 100%`,
+                      backgroundPosition: `${(scrubFrame / (VIDEO_SPRITE_FRAMES - 1)) * 100}% 0`,
+                    }}
+                  />
+                ) : (
+                  <img 
+                    src={thumbnail} 
+                    alt={title} 
+                    className="w-full h-full object-cover rounded"
+                  />
+                )}
                 <div className="absolute inset-0 flex items-center justify-center bg-black/20 hover:bg-black/30 transition-colors">
                   <svg xmlns="http://www.w3.org/2000/svg" width="60" height="60" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="drop-shadow-lg">
                     <circle cx="12" cy="12" r="10"></circle>
@@ -161,6 +187,15 @@ const VideoPlayer = ({
                 </svg>
               </div>
             )}
+            {isVideoProcessing({ processing_status: processingStatus }) && (
+              <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/70 text-white text-[10px]">Processing...</span>
+            )}
+            {processingStatus === "failed" && (
+              <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-red-600/90 text-white text-[10px]">Processing failed</span>
+            )}
+            {duration ? (
+              <span className="absolute bottom-1 right-1 px-1.5 py-0.5 rounded bg-black/70 text-white text-[10px]">{formatDuration(duration)}</span>
+            ) : null}
           </Button>
         </DialogTrigger>
         <DialogContent className="sm:max-w-4xl">
@@ -170,12 +205,19 @@ const VideoPlayer = ({
           </DialogHeader>
           <div className="mt-2">
             {getVideoPlayer()}
+            {!isYouTube && (videoId || isLocalVideo(videoUrl)) && (
+              <PlaybackControls videoRef={videoRef} videoId={videoId} />
+            )}
+            {videoId && !isYouTube && (
+              <VideoAnnotations videoId={videoId} videoRef={videoRef} duration={mediaDuration ?? duration ?? null} />
+            )}
+            {videoId && <ReferenceSuggestions videoId={videoId} />}
           </div>
           <DialogFooter className="flex justify-between items-center mt-4">
             <div className="text-sm">
               <span className="font-medium">Training: </span> 
-              {tags.shotType && <span className="mr-2 px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs">{tags.shotType}</span>}
-              {tags.ballSpeed && <span className="mr-2 px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs">{tags.ballSpeed}</span>}
+              {tags.shot_type && <span className="mr-2 px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs">{tags.shot_type}</span>}
+              {tags.ball_speed && <span className="mr-2 px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs">{tags.ball_speed}</span>}
             </div>
             <Button 
               onClick={() => setShowTagDialog(true)}
@@ -198,7 +240,7 @@ const VideoPlayer = ({
             {/* Video Player on the left */}
             <div className="aspect-video bg-black rounded-md overflow-hidden">
               <video 
-                src={videoUrl}
+                src={playbackUrl}
                 className="w-full h-full"
                 controls
                 autoPlay
@@ -208,104 +250,30 @@ const VideoPlayer = ({
             
             {/* Tagging Form on the right */}
             <div className="flex flex-col gap-4">
-              <div className="grid grid-cols-12 items-center gap-2">
-                <label className="col-span-4 text-sm font-medium">Shot Type:</label>
-                <div className="col-span-8">
-                  <Select 
-                    value={tags.shotType} 
-                    onValueChange={(value) => handleTagChange(value, 'shotType')}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select shot type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {shotTypes.map(type => (
-                        <SelectItem key={type} value={type}>{type}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-12 items-center gap-2">
-                <label className="col-span-4 text-sm font-medium">Ball Speed:</label>
-                <div className="col-span-8">
-                  <Select 
-                    value={tags.ballSpeed} 
-                    onValueChange={(value) => handleTagChange(value, 'ballSpeed')}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select ball speed" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {ballSpeeds.map(speed => (
-                        <SelectItem key={speed} value={speed}>{speed}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-12 items-center gap-2">
-                <label className="col-span-4 text-sm font-medium">Reaction Time:</label>
-                <div className="col-span-8">
-                  <Select 
-                    value={tags.reactionTime} 
-                    onValueChange={(value) => handleTagChange(value, 'reactionTime')}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select reaction time" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {reactionTimes.map(time => (
-                        <SelectItem key={time} value={time}>{time}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+              {VIDEO_TAG_FIELDS.map(field => (
+                <div key={field} className="grid grid-cols-12 items-center gap-2">
+                  <label className="col-span-4 text-sm font-medium">{VIDEO_TAG_LABELS[field]}:</label>
+                  <div className="col-span-8">
+                    <Select 
+                      value={tags[field] || ''} 
+                      onValueChange={(value) => handleTagChange(value, field)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder={`Select ${VIDEO_TAG_LABELS[field].toLowerCase()}`} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {videoTagOptions(field).map(option => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
-              
-              <div className="grid grid-cols-12 items-center gap-2">
-                <label className="col-span-4 text-sm font-medium">Bat Connect:</label>
-                <div className="col-span-8">
-                  <Select 
-                    value={tags.batConnect} 
-                    onValueChange={(value) => handleTagChange(value, 'batConnect')}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select bat connect" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {batConnectOptions.map(option => (
-                        <SelectItem key={option} value={option}>{option}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-12 items-center gap-2">
-                <label className="col-span-4 text-sm font-medium">Bat Swing:</label>
-                <div className="col-span-8">
-                  <Select 
-                    value={tags.batSwing} 
-                    onValueChange={(value) => handleTagChange(value, 'batSwing')}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select bat swing" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {batSwingOptions.map(option => (
-                        <SelectItem key={option} value={option}>{option}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
+              ))}
               
               <div className="flex justify-end gap-2 mt-auto">
                 <Button variant="outline" onClick={() => setShowTagDialog(false)}>Cancel</Button>
-                <Button onClick={handleSaveTags}>Save Tags</Button>
+                <Button onClick={handleSaveTags} disabled={isSavingTags}>Save Tags</Button>
               </div>
             </div>
           </div>
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react";
+
+// Keyboard shortcuts for video controls, keyed on KeyboardEvent.key in lower case.
+// Keys typed into form fields are left alone, and so is Space on a focused <video>
+// or button, which already plays or presses it.
+export function usePlaybackShortcuts(actions: Record<string, () => void>) {
+  // The listener is attached once and always runs the latest actions
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (event.metaKey || event.ctrlKey || event.altKey ||
+          target?.closest("input, textarea, select, [contenteditable='true']")) {
+        return;
+      }
+      if (event.key === " " && target?.closest("video, button")) {
+        return;
+      }
+
+      const action = actionsRef.current[event.key.toLowerCase()];
+      if (action) {
+        event.preventDefault();
+        action();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+}
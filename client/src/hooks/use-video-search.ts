@@ -0,0 +1,52 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { isVideoProcessing } from "@/lib/videoProcessing";
+import type { VideoSearchResult, VideoTagField } from "@shared/schema";
+
+const PROCESSING_POLL_MS = 5000;
+
+export type VideoFilterValues = Partial<Record<VideoTagField, string>>;
+
+interface VideoSearchOptions {
+  playerId?: string;
+  filters?: VideoFilterValues;
+  limit?: number;
+}
+
+// Pages through GET /api/videos; tag filters are applied on the server, which also
+// returns the number of videos behind each filter option
+export function useVideoSearch({ playerId, filters = {}, limit }: VideoSearchOptions) {
+  const params = new URLSearchParams();
+  if (playerId) params.set("player_id", playerId);
+  for (const [field, value] of Object.entries(filters)) {
+    if (value) params.set(field, value);
+  }
+  if (limit) params.set("limit", String(limit));
+
+  const query = useInfiniteQuery({
+    queryKey: ["/api/videos", params.toString()],
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }): Promise<VideoSearchResult> => {
+      const pageParams = new URLSearchParams(params);
+      if (pageParam) pageParams.set("cursor", pageParam);
+      const response = await apiRequest("GET", `/api/videos?${pageParams}`);
+      return response.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+    enabled: playerId !== undefined ? !!playerId : true,
+    // Poll while new uploads are being processed so their thumbnails and durations appear
+    refetchInterval: (query) =>
+      query.state.data?.pages.some(page => page.videos.some(isVideoProcessing)) ? PROCESSING_POLL_MS : false,
+  });
+
+  const firstPage = query.data?.pages[0];
+  return {
+    videos: query.data?.pages.flatMap(page => page.videos) ?? [],
+    total: firstPage?.total ?? 0,
+    facets: firstPage?.facets,
+    isLoading: query.isLoading,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    fetchNextPage: query.fetchNextPage,
+  };
+}
@@ -0,0 +1,27 @@
+import type { AttendanceStatus, AttendanceSummary } from "@shared/schema";
+
+export const ATTENDANCE_LABELS: Record<AttendanceStatus, string> = {
+  present: "Present",
+  late: "Late",
+  absent: "Absent",
+  excused: "Excused",
+};
+
+export const ATTENDANCE_COLORS: Record<AttendanceStatus, string> = {
+  present: "bg-green-100 text-green-800",
+  late: "bg-amber-100 text-amber-800",
+  absent: "bg-red-100 text-red-800",
+  excused: "bg-neutral-100 text-neutral-700",
+};
+
+export const formatPercentage = (summary: AttendanceSummary) =>
+  summary.percentage === null ? "-" : `${summary.percentage}%`;
+
+// Below this a player's attendance is highlighted
+export const LOW_ATTENDANCE = 75;
+
+export const isLowAttendance = (summary: AttendanceSummary) =>
+  summary.percentage !== null && summary.percentage < LOW_ATTENDANCE;
+
+export const formatCounts = (summary: AttendanceSummary) =>
+  `${summary.present} present · ${summary.late} late · ${summary.absent} absent · ${summary.excused} excused`;
@@ -0,0 +1,7 @@
+import type { Batch, BatchTimetableSlot } from "@shared/schema";
+
+// e.g. "Tue 16:00-18:00"
+export const formatSlot = (slot: BatchTimetableSlot) => `${slot.day.slice(0, 3)} ${slot.start}-${slot.end}`;
+
+export const formatTimetable = (batch: Batch) =>
+  batch.timetable.length > 0 ? batch.timetable.map(formatSlot).join(" · ") : "No timetable";
@@ -0,0 +1,112 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { UploadCompletion, UploadInit, UploadSession } from "@shared/schema";
+
+// How often a failing chunk is retried before the upload gives up. The upload can
+// still be resumed afterwards by passing its id back in.
+const MAX_RETRIES = 8;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export interface ChunkedUploadOptions {
+  // Resume this upload instead of starting a new one
+  uploadId?: string;
+  // Called once the upload exists, so callers can keep the id for resuming
+  onStart?: (upload: UploadSession) => void;
+  onProgress?: (uploaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+class ChunkError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Resolves once the browser is back online
+const waitForConnection = () =>
+  navigator.onLine ? Promise.resolve() : new Promise<void>(resolve => window.addEventListener("online", () => resolve(), { once: true }));
+
+// XMLHttpRequest rather than fetch, for upload progress events
+function putChunk(url: string, chunk: Blob, onProgress: (loaded: number) => void, signal?: AbortSignal): Promise<UploadSession> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(JSON.parse(xhr.responseText));
+      } else {
+        // Out-of-order and incomplete chunks are fixed by asking the server where to resume
+        reject(new ChunkError(`${xhr.status}: ${xhr.responseText}`, xhr.status >= 500 || xhr.status === 409 || xhr.status === 400));
+      }
+    };
+    xhr.onerror = () => reject(new ChunkError("Network error", true));
+    xhr.onabort = () => reject(new DOMException("Upload cancelled", "AbortError"));
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(chunk);
+  });
+}
+
+async function startUpload(file: Blob, init: Omit<UploadInit, "size">, uploadId?: string): Promise<UploadSession> {
+  if (uploadId) {
+    const response = await fetch(`/api/uploads/${uploadId}`, { credentials: "include" });
+    if (response.ok) {
+      return response.json();
+    }
+    // Expired or already completed; start again
+  }
+  const response = await apiRequest("POST", "/api/uploads", { ...init, size: file.size });
+  return response.json();
+}
+
+// Uploads `file` in chunks with POST /api/uploads. Dropped connections and failed
+// chunks are retried with backoff, resuming from the offset the server reports.
+export async function uploadInChunks(
+  file: Blob,
+  init: Omit<UploadInit, "size">,
+  { uploadId, onStart, onProgress, signal }: ChunkedUploadOptions = {},
+): Promise<UploadCompletion> {
+  let upload = await startUpload(file, init, uploadId);
+  onStart?.(upload);
+
+  let offset = upload.offset;
+  let retries = 0;
+  onProgress?.(offset, file.size);
+
+  while (offset < file.size) {
+    const index = Math.floor(offset / upload.chunk_size);
+    const chunk = file.slice(index * upload.chunk_size, Math.min((index + 1) * upload.chunk_size, file.size));
+
+    try {
+      upload = await putChunk(
+        `/api/uploads/${upload.id}/chunks/${index}`,
+        chunk,
+        (loaded) => onProgress?.(offset + loaded, file.size),
+        signal,
+      );
+      offset = upload.offset;
+      retries = 0;
+      onProgress?.(offset, file.size);
+    } catch (error) {
+      if (!(error instanceof ChunkError) || !error.retryable || ++retries > MAX_RETRIES) {
+        throw error;
+      }
+
+      await sleep(Math.min(1000 * 2 ** (retries - 1), MAX_RETRY_DELAY_MS));
+      await waitForConnection();
+      signal?.throwIfAborted();
+
+      // Pick up from whatever the server actually received
+      const response = await fetch(`/api/uploads/${upload.id}`, { credentials: "include" });
+      if (response.ok) {
+        upload = await response.json();
+        offset = upload.offset;
+      }
+    }
+  }
+
+  const response = await apiRequest("POST", `/api/uploads/${upload.id}/complete`);
+  return response.json();
+}
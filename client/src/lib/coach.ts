@@ -0,0 +1,12 @@
+// There are no coach accounts yet, so the coach using this device is identified
+// by a name kept in localStorage. Drafts (and note authors) are keyed on it.
+const COACH_NAME_KEY = "coachName";
+const DEFAULT_COACH_NAME = "Coach";
+
+export function getCoachName(): string {
+  return localStorage.getItem(COACH_NAME_KEY)?.trim() || DEFAULT_COACH_NAME;
+}
+
+export function setCoachName(name: string) {
+  localStorage.setItem(COACH_NAME_KEY, name.trim());
+}
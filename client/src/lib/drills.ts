@@ -0,0 +1,33 @@
+import { format } from "date-fns";
+import { queryClient } from "@/lib/queryClient";
+import type { PracticePlan, RubricTemplate } from "@shared/schema";
+
+export interface CriterionOption {
+  key: string;
+  name: string;
+}
+
+// Criteria and sub-criteria across every rubric, for tagging drills. Sub-criteria are
+// shared between shots, so each key is listed once.
+export function criterionOptions(rubrics: RubricTemplate[]): CriterionOption[] {
+  const options = new Map<string, string>();
+  for (const criterion of rubrics.flatMap(rubric => rubric.criteria)) {
+    if (!options.has(criterion.key)) options.set(criterion.key, criterion.name);
+    for (const sub of criterion.sub_criteria ?? []) {
+      if (!options.has(sub.key)) options.set(sub.key, sub.name);
+    }
+  }
+  return Array.from(options, ([key, name]) => ({ key, name }));
+}
+
+export const refreshPractice = () =>
+  queryClient.invalidateQueries({
+    predicate: query => {
+      const key = query.queryKey[0];
+      return typeof key === "string" && (key.startsWith("/api/drills") || key.includes("practice-plans") || key.endsWith("/drill-suggestions"));
+    },
+  });
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), "MMM d");
+
+export const formatPlanDates = (plan: PracticePlan) => `${formatDay(plan.starts_on)} - ${formatDay(plan.ends_on)}`;
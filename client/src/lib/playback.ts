@@ -0,0 +1,23 @@
+// Slow-motion speeds offered by the player and the comparison view
+export const PLAYBACK_RATES = [0.1, 0.25, 0.5, 0.75, 1, 1.5, 2];
+
+// Frame stepping falls back to this when the video hasn't been probed yet
+export const DEFAULT_FPS = 30;
+
+export const frameAt = (time: number, fps: number) => Math.floor(time * fps + 1e-3);
+
+// Time of the middle of a frame, so rounding in the decoder can't leave the
+// picture on the previous one
+export const frameTime = (frame: number, fps: number) => (Math.max(frame, 0) + 0.5) / fps;
+
+// Pauses and moves one frame forward or back
+export function stepFrame(video: HTMLVideoElement, fps: number, direction: 1 | -1) {
+  video.pause();
+  video.currentTime = Math.min(frameTime(frameAt(video.currentTime, fps) + direction, fps), video.duration || Infinity);
+}
+
+// The next slower (-1) or faster (1) speed, staying at the ends of the range
+export function nextPlaybackRate(rate: number, direction: 1 | -1): number {
+  const index = PLAYBACK_RATES.indexOf(rate) + direction;
+  return PLAYBACK_RATES[Math.min(Math.max(index, 0), PLAYBACK_RATES.length - 1)];
+}
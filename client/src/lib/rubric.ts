@@ -0,0 +1,43 @@
+import type { RubricCriterion, RubricScale, RubricTemplate } from "@shared/schema";
+
+// Used for criteria that do not set their own chart colour
+const CHART_PALETTE = ["#0088fe", "#00C49F", "#ffc658", "#ff8042", "#8884d8", "#82ca9d", "#ff5252", "#9c27b0"];
+
+export function generalCriteria(rubric: RubricTemplate | undefined): RubricCriterion[] {
+  return rubric?.criteria.filter(criterion => criterion.group === "general") ?? [];
+}
+
+export function shotCriteria(rubric: RubricTemplate | undefined): RubricCriterion[] {
+  return rubric?.criteria.filter(criterion => criterion.group === "shot") ?? [];
+}
+
+// "cover_drive" -> "Cover Drive", for keys the rubric does not know about
+export function humanizeKey(key: string): string {
+  return key.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+}
+
+export function criterionName(rubric: RubricTemplate | undefined, key: string): string {
+  return rubric?.criteria.find(criterion => criterion.key === key)?.name ?? humanizeKey(key);
+}
+
+export function criterionColor(rubric: RubricTemplate, key: string): string {
+  const index = rubric.criteria.findIndex(criterion => criterion.key === key);
+  return rubric.criteria[index]?.color ?? CHART_PALETTE[Math.max(index, 0) % CHART_PALETTE.length];
+}
+
+// Without an explicit pass mark the top quarter of the scale counts as Good
+export function isPassingRating(scale: RubricScale, rating: number): boolean {
+  const passMark = scale.pass_mark ?? Math.ceil(scale.min + (scale.max - scale.min) * 0.75);
+  return rating >= passMark;
+}
+
+export function ratingLabel(scale: RubricScale, rating: number): string {
+  return scale.labels?.find(label => label.value === rating)?.label
+    ?? (isPassingRating(scale, rating) ? "Good" : "Needs Work");
+}
+
+// Every value on the scale, with its label, for rendering rating buttons
+export function scaleOptions(scale: RubricScale): { value: number; label: string }[] {
+  return Array.from({ length: scale.max - scale.min + 1 }, (_, i) => scale.min + i)
+    .map(value => ({ value, label: scale.labels?.find(label => label.value === value)?.label ?? String(value) }));
+}
@@ -0,0 +1,41 @@
+import type { ScheduleEntry, Session } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+// Sends a schedule change, turning the API's validation details and venue clashes
+// (409) into the error message
+export async function sendSchedule<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.details?.join(", ") || error?.error || `Request failed: ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+// A saved session is updated directly; a template occurrence is saved as a session
+export const updateEntry = (entry: ScheduleEntry, changes: Partial<Session>) =>
+  sendSchedule<Session>(
+    "PUT",
+    entry.session_id
+      ? `/api/sessions/${entry.session_id}`
+      : `/api/schedule/templates/${entry.template_id}/occurrences/${entry.date}`,
+    changes
+  );
+
+export const refreshSchedule = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/schedule/templates"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+};
+
+export const formatEntryTime = (entry: ScheduleEntry) =>
+  entry.start_time && entry.end_time ? `${entry.start_time}-${entry.end_time}` : "All day";
+
+export const formatPlace = (entry: { venue?: string | null; net?: string | null }) =>
+  entry.venue ? (entry.net ? `${entry.venue}, ${entry.net}` : entry.venue) : "";
+
+export const splitList = (value: string) => value.split(",").map(item => item.trim()).filter(Boolean);
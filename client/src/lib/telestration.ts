@@ -0,0 +1,119 @@
+import type { Drawing, DrawingPoint, DrawingShape } from "@shared/schema";
+
+// Saved drawings stay on screen for this long once playback reaches them
+export const DRAWING_REPLAY_SECONDS = 3;
+
+export const DRAWING_COLORS = ["#ef4444", "#facc15", "#22c55e", "#3b82f6", "#ffffff"];
+
+// Where the video frame sits inside a box of the given size. The <video> element
+// letterboxes the frame, so drawings are placed against the frame, not the element.
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function frameRect(video: HTMLVideoElement, boxWidth: number, boxHeight: number): FrameRect {
+  if (!video.videoWidth || !video.videoHeight) {
+    return { x: 0, y: 0, width: boxWidth, height: boxHeight };
+  }
+  const scale = Math.min(boxWidth / video.videoWidth, boxHeight / video.videoHeight);
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  return { x: (boxWidth - width) / 2, y: (boxHeight - height) / 2, width, height };
+}
+
+// Pixel position -> fraction of the frame, clamped to its edges
+export function toFramePoint(rect: FrameRect, x: number, y: number): DrawingPoint {
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  return { x: clamp((x - rect.x) / rect.width), y: clamp((y - rect.y) / rect.height) };
+}
+
+const toPixels = (rect: FrameRect, point: DrawingPoint) =>
+  ({ x: rect.x + point.x * rect.width, y: rect.y + point.y * rect.height });
+
+// Angle at the vertex between the two arms, in whole degrees. Measured on screen,
+// so a wide frame doesn't skew it.
+export function angleDegrees(rect: FrameRect, [a, vertex, b]: DrawingPoint[]): number {
+  const [pa, pv, pb] = [a, vertex, b].map(point => toPixels(rect, point));
+  const first = Math.atan2(pa.y - pv.y, pa.x - pv.x);
+  const second = Math.atan2(pb.y - pv.y, pb.x - pv.x);
+  let degrees = Math.abs((second - first) * 180 / Math.PI);
+  if (degrees > 180) degrees = 360 - degrees;
+  return Math.round(degrees);
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, shape: DrawingShape, rect: FrameRect) {
+  const points = shape.points.map(point => toPixels(rect, point));
+  const lineWidth = Math.max(2, rect.width / 250);
+
+  ctx.strokeStyle = shape.color;
+  ctx.fillStyle = shape.color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.beginPath();
+
+  switch (shape.tool) {
+    case "pen":
+    case "line":
+    case "arrow":
+      points.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+      if (shape.tool === "arrow" && points.length === 2) {
+        const [from, to] = points;
+        const heading = Math.atan2(to.y - from.y, to.x - from.x);
+        const head = lineWidth * 5;
+        ctx.beginPath();
+        ctx.moveTo(to.x, to.y);
+        ctx.lineTo(to.x - head * Math.cos(heading - Math.PI / 6), to.y - head * Math.sin(heading - Math.PI / 6));
+        ctx.lineTo(to.x - head * Math.cos(heading + Math.PI / 6), to.y - head * Math.sin(heading + Math.PI / 6));
+        ctx.closePath();
+        ctx.fill();
+      }
+      break;
+    case "circle": {
+      const [centre, edge] = points;
+      ctx.arc(centre.x, centre.y, Math.hypot(edge.x - centre.x, edge.y - centre.y), 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+    }
+    case "angle": {
+      // Drawn with two points while the second arm is still being placed
+      const [a, vertex, b] = points;
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(vertex.x, vertex.y);
+      if (b) ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+      if (b) {
+        ctx.font = `bold ${Math.max(12, rect.width / 40)}px sans-serif`;
+        ctx.fillText(`${angleDegrees(rect, shape.points)}°`, vertex.x + lineWidth * 3, vertex.y - lineWidth * 3);
+      }
+      break;
+    }
+  }
+}
+
+export function drawShapes(ctx: CanvasRenderingContext2D, shapes: DrawingShape[], rect: FrameRect) {
+  shapes.forEach(shape => drawShape(ctx, shape, rect));
+}
+
+// Drawings on screen at `time`: from their timestamp for DRAWING_REPLAY_SECONDS
+export function visibleDrawings(drawings: Drawing[], time: number): Drawing[] {
+  return drawings.filter(drawing => time >= drawing.timestamp - 0.05 && time < drawing.timestamp + DRAWING_REPLAY_SECONDS);
+}
+
+// The current frame at full resolution with the shapes drawn over it, as a PNG
+export function exportStill(video: HTMLVideoElement, shapes: DrawingShape[]): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  drawShapes(ctx, shapes, { x: 0, y: 0, width: canvas.width, height: canvas.height });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("The frame could not be exported")), "image/png");
+  });
+}
@@ -1,6 +1,12 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { Assessment } from "@shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Assessments saved before week_start existed only have a session date
+export function assessmentWeekStart(assessment: Assessment): string {
+  return assessment.week_start || assessment.session_date || assessment.created_at || ""
+}
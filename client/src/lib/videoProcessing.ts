@@ -0,0 +1,17 @@
+import type { Video } from "@shared/schema";
+
+// Still in the server's media pipeline (probe, transcode, thumbnails)
+export function isVideoProcessing(video: Pick<Video, "processing_status">): boolean {
+  return !!video.processing_status && video.processing_status !== "ready" && video.processing_status !== "failed";
+}
+
+// 75.4 -> "1:15"
+export function formatDuration(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// A moment in a video to a tenth of a second: 65.43 -> "1:05.4"
+export function formatTimestamp(seconds: number): string {
+  return `${formatDuration(seconds)}.${Math.floor((seconds % 1) * 10)}`;
+}
@@ -0,0 +1,37 @@
+import { VIDEO_TAG_FIELDS, VIDEO_TAG_OPTIONS } from "@shared/schema";
+import type { Video, VideoTagField, VideoTags } from "@shared/schema";
+
+export const VIDEO_TAG_LABELS: Record<VideoTagField, string> = {
+  shot_type: "Shot Type",
+  ball_length: "Ball Length",
+  ball_speed: "Ball Speed",
+  bat_connect: "Bat Connect",
+  footwork: "Footwork",
+  reaction_time: "Reaction Time",
+  bat_swing: "Bat Swing",
+  session_slot: "Session",
+};
+
+export const videoTagOptions = (field: VideoTagField): readonly string[] => VIDEO_TAG_OPTIONS[field];
+
+// The structured tags of a video, leaving out the ones not set
+export function videoTags(video: Video): VideoTags {
+  return Object.fromEntries(
+    VIDEO_TAG_FIELDS.filter(field => video[field]).map(field => [field, video[field]])
+  );
+}
+
+// Short chip text, e.g. "Fast Ball" for ball_speed or "Middle Bat Connect" for bat_connect
+export function videoTagChip(field: VideoTagField, value: string): string {
+  switch (field) {
+    case "shot_type":
+    case "session_slot":
+      return value;
+    case "ball_length":
+      return `${value} Length`;
+    case "ball_speed":
+      return `${value} Ball`;
+    default:
+      return `${value} ${VIDEO_TAG_LABELS[field]}`;
+  }
+}
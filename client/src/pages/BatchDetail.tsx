@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import BatchAttendanceReport from "@/components/BatchAttendanceReport";
+import BatchForm from "@/components/BatchForm";
+import { useToast } from "@/hooks/use-toast";
+import { formatTimetable } from "@/lib/batches";
+import { getCoachName } from "@/lib/coach";
+import { queryClient } from "@/lib/queryClient";
+import type { Batch, BatchMembership, BatchRosterEntry, Player } from "@shared/schema";
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), "MMM d, yyyy");
+
+const throwResponseError = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => null);
+  throw new Error(body?.details?.join(", ") || body?.error || `${fallback}: ${response.status}`);
+};
+
+// A batch's roster with moves in and out. Every move is dated (today unless
+// changed), so the batch history shows who was in it when.
+const BatchDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [moveDate, setMoveDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [newPlayerId, setNewPlayerId] = useState("");
+
+  const batchUrl = `/api/batches/${id}`;
+  const { data: batch, isLoading } = useQuery<Batch>({ queryKey: [batchUrl] });
+  const { data: roster = [] } = useQuery<BatchRosterEntry[]>({ queryKey: [`${batchUrl}/players`] });
+  const { data: history = [] } = useQuery<BatchMembership[]>({ queryKey: [`${batchUrl}/history`] });
+  const { data: batches = [] } = useQuery<Batch[]>({ queryKey: ["/api/batches"] });
+  const { data: players = [] } = useQuery<Player[]>({ queryKey: ["/api/players"] });
+
+  const playerName = (playerId: string) => players.find(player => player.id === playerId)?.name ?? "Unknown player";
+  const otherPlayers = players.filter(player => player.batch_id !== id);
+  const isFull = !!batch?.capacity && roster.length >= batch.capacity;
+
+  const refreshRosters = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/players"] });
+    queryClient.invalidateQueries({ queryKey: ["players"] });
+    queryClient.invalidateQueries({
+      predicate: query => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/batches/"),
+    });
+  };
+
+  const movePlayer = useMutation({
+    mutationFn: async ({ playerId, batchId }: { playerId: string; batchId: string }) => {
+      const response = await fetch(`/api/batches/${batchId}/players`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ player_id: playerId, date: moveDate, moved_by: getCoachName() }),
+      });
+      if (!response.ok) {
+        await throwResponseError(response, "Failed to move player");
+      }
+      return response.json() as Promise<Player>;
+    },
+    onSuccess: (player) => {
+      toast({ title: "Player moved", description: `${player.name} is now in ${player.batch}` });
+      setNewPlayerId("");
+      refreshRosters();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to move player", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removePlayer = useMutation({
+    mutationFn: async (playerId: string) => {
+      const params = new URLSearchParams({ date: moveDate, moved_by: getCoachName() });
+      const response = await fetch(`${batchUrl}/players/${playerId}?${params.toString()}`, { method: "DELETE" });
+      if (!response.ok) {
+        await throwResponseError(response, "Failed to remove player");
+      }
+    },
+    onSuccess: () => {
+      toast({ title: "Player removed from batch" });
+      refreshRosters();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to remove player", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteBatch = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(batchUrl, { method: "DELETE" });
+      if (!response.ok) {
+        await throwResponseError(response, "Failed to delete batch");
+      }
+    },
+    onSuccess: () => {
+      toast({ title: "Batch deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+      setLocation("/batches");
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete batch", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="container mx-auto px-4 py-6 text-gray-500">Loading batch...</div>;
+  }
+
+  if (!batch) {
+    return (
+      <div className="container mx-auto px-4 py-6">
+        <p className="text-gray-500">Batch not found.</p>
+        <Link href="/batches" className="text-primary hover:underline">Back to batches</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <Link href="/batches" className="text-sm text-primary hover:underline">All batches</Link>
+          <h1 className="text-2xl font-bold">{batch.name}</h1>
+          <p className="text-sm text-gray-500">
+            {[batch.age_group, batch.level].filter(Boolean).join(" · ") || "No age group or level"}
+            {" · "}
+            {roster.length}{batch.capacity ? ` / ${batch.capacity}` : ""} players
+          </p>
+          <p className="text-sm text-neutral-600 mt-1">
+            {batch.coaches.length > 0 ? `Coaches: ${batch.coaches.join(", ")}` : "No coaches assigned"}
+          </p>
+          <p className="text-sm text-neutral-600">{formatTimetable(batch)}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsEditOpen(true)}>Edit</Button>
+          <Button
+            variant="outline"
+            disabled={roster.length > 0 || deleteBatch.isPending}
+            title={roster.length > 0 ? "Move the players out first" : undefined}
+            onClick={() => deleteBatch.mutate()}
+          >
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Roster</CardTitle>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="move-date" className="text-sm">Moves dated</Label>
+            <Input id="move-date" type="date" className="w-40" value={moveDate} onChange={(e) => setMoveDate(e.target.value)} />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {roster.length === 0 ? (
+            <p className="text-gray-500 py-4 text-center">No players in this batch.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-500 border-b">
+                  <th className="py-2">Player</th>
+                  <th className="py-2">Joined</th>
+                  <th className="py-2">Rating</th>
+                  <th className="py-2">Latest Assessment</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {roster.map(({ player, joined_on, latest_assessment }) => (
+                  <tr key={player.id} className="border-b last:border-0">
+                    <td className="py-2">
+                      <Link href={`/players/${player.id}`} className="font-medium hover:underline">{player.name}</Link>
+                      <div className="text-xs text-neutral-500">{player.specialization}</div>
+                    </td>
+                    <td className="py-2">{joined_on ? formatDate(joined_on) : "-"}</td>
+                    <td className="py-2">{player.overall_rating ? player.overall_rating.toFixed(1) : "-"}</td>
+                    <td className="py-2">
+                      {latest_assessment ? (
+                        <>
+                          {latest_assessment.overall_rating}/5
+                          <span className="text-xs text-neutral-500 ml-1">
+                            {formatDate((latest_assessment.week_start || latest_assessment.session_date || latest_assessment.created_at || "").slice(0, 10))}
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-neutral-500">Not assessed</span>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      <div className="flex justify-end gap-2">
+                        <Select
+                          value=""
+                          onValueChange={(batchId) => movePlayer.mutate({ playerId: player.id, batchId })}
+                        >
+                          <SelectTrigger className="w-36 h-8"><SelectValue placeholder="Move to..." /></SelectTrigger>
+                          <SelectContent>
+                            {batches.filter(other => other.id !== batch.id).map(other => (
+                              <SelectItem key={other.id} value={other.id}>{other.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={removePlayer.isPending}
+                          onClick={() => removePlayer.mutate(player.id)}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex items-center gap-2 mt-4">
+            <Select value={newPlayerId} onValueChange={setNewPlayerId}>
+              <SelectTrigger className="w-64"><SelectValue placeholder="Add a player..." /></SelectTrigger>
+              <SelectContent>
+                {otherPlayers.map(player => (
+                  <SelectItem key={player.id} value={player.id}>
+                    {player.name}{player.batch ? ` (${player.batch})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              disabled={!newPlayerId || isFull || movePlayer.isPending}
+              onClick={() => movePlayer.mutate({ playerId: newPlayerId, batchId: batch.id })}
+            >
+              Add to Batch
+            </Button>
+            {isFull && <span className="text-sm text-red-600">Batch is full</span>}
+          </div>
+        </CardContent>
+      </Card>
+
+      <BatchAttendanceReport batchId={batch.id} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-gray-500">No moves recorded yet.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {history.map(membership => (
+                <li key={membership.id} className="flex justify-between">
+                  <span>
+                    <span className="font-medium">{playerName(membership.player_id)}</span>
+                    {" "}joined {formatDate(membership.joined_on)}
+                    {membership.left_on ? `, left ${formatDate(membership.left_on)}` : ""}
+                  </span>
+                  <span className="text-neutral-500">{membership.moved_by ? `by ${membership.moved_by}` : ""}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <BatchForm open={isEditOpen} onOpenChange={setIsEditOpen} batch={batch} />
+    </div>
+  );
+};
+
+export default BatchDetail;
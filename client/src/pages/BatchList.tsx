@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import BatchForm from "@/components/BatchForm";
+import { formatTimetable } from "@/lib/batches";
+import type { Batch, Player } from "@shared/schema";
+
+const BatchList = () => {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const { data: batches = [], isLoading } = useQuery<Batch[]>({
+    queryKey: ["/api/batches"],
+  });
+  const { data: players = [] } = useQuery<Player[]>({
+    queryKey: ["/api/players"],
+  });
+
+  const playerCount = (batchId: string) => players.filter(player => player.batch_id === batchId).length;
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h1 className="text-2xl font-bold">Batches</h1>
+          <p className="text-sm text-gray-500">Training groups, their coaches and weekly timetable</p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)}>New Batch</Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading batches...</p>
+      ) : batches.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-500">No batches yet.</CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {batches.map(batch => {
+            const count = playerCount(batch.id);
+            return (
+              <Link key={batch.id} href={`/batches/${batch.id}`}>
+                <Card className="cursor-pointer hover:shadow-md transition-shadow h-full">
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between">
+                      <h3 className="font-bold text-lg">{batch.name}</h3>
+                      <span className={`text-sm ${batch.capacity && count >= batch.capacity ? "text-red-600 font-semibold" : "text-neutral-600"}`}>
+                        {count}{batch.capacity ? ` / ${batch.capacity}` : ""} players
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {batch.age_group && (
+                        <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full">{batch.age_group}</span>
+                      )}
+                      {batch.level && (
+                        <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">{batch.level}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-neutral-600 mt-2">
+                      {batch.coaches.length > 0 ? `Coaches: ${batch.coaches.join(", ")}` : "No coaches assigned"}
+                    </p>
+                    <p className="text-xs text-neutral-500 mt-1">
+                      {formatTimetable(batch)}
+                    </p>
+                  </CardContent>
+                </Card>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+
+      <BatchForm open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+    </div>
+  );
+};
+
+export default BatchList;
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import DrillForm from "@/components/DrillForm";
+import PracticePlanForm from "@/components/PracticePlanForm";
+import VideoPlayer from "@/components/VideoPlayer";
+import { useToast } from "@/hooks/use-toast";
+import { criterionOptions, formatPlanDates, refreshPractice } from "@/lib/drills";
+import { sendSchedule } from "@/lib/schedule";
+import { videoTags } from "@/lib/videoTags";
+import type { Batch, Drill, Player, PracticePlan, PracticePlanPlayerProgress, RubricTemplate, Video } from "@shared/schema";
+
+const ALL = "all";
+
+interface PlanRowProps {
+  plan: PracticePlan;
+  assignee: string;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+// One plan with each assigned player's progress through it
+const PlanRow = ({ plan, assignee, onEdit, onDelete }: PlanRowProps) => {
+  const { data: progress = [] } = useQuery<PracticePlanPlayerProgress[]>({ queryKey: [`/api/practice-plans/${plan.id}/players`] });
+  const today = new Date().toISOString().slice(0, 10);
+  const isActive = plan.starts_on <= today && today <= plan.ends_on;
+
+  return (
+    <div className="border border-neutral-200 rounded p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">
+            {plan.name}
+            {isActive && <span className="ml-2 text-xs bg-green-100 text-green-800 px-1 rounded">Active</span>}
+          </p>
+          <p className="text-sm text-gray-500">
+            {[assignee, formatPlanDates(plan), `${plan.items.length} drills`].join(" · ")}
+          </p>
+          {plan.notes && <p className="text-xs text-gray-500 mt-1">{plan.notes}</p>}
+        </div>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={onEdit}>Edit</Button>
+          <Button variant="ghost" size="sm" onClick={onDelete}>Delete</Button>
+        </div>
+      </div>
+      {progress.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+          {progress.map(({ player, done, target, percentage }) => (
+            <Link key={player.id} href={`/players/${player.id}`} className="text-xs hover:underline">
+              {player.name}: {done}/{target} ({percentage}%)
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Drills coaches set, tagged with the criteria they work on, and the practice plans
+// that hand them out to players and batches
+const DrillLibrary = () => {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [criterion, setCriterion] = useState(ALL);
+  const [drillForm, setDrillForm] = useState<{ open: boolean; drill?: Drill }>({ open: false });
+  const [planForm, setPlanForm] = useState<{ open: boolean; plan?: PracticePlan }>({ open: false });
+
+  const { data: drills = [], isLoading } = useQuery<Drill[]>({ queryKey: ["/api/drills"] });
+  const { data: plans = [], isLoading: plansLoading } = useQuery<PracticePlan[]>({ queryKey: ["/api/practice-plans"] });
+  const { data: rubrics = [] } = useQuery<RubricTemplate[]>({ queryKey: ["/api/rubrics"] });
+  const { data: references = [] } = useQuery<Video[]>({ queryKey: ["/api/references"] });
+  const { data: players = [] } = useQuery<Player[]>({ queryKey: ["/api/players"] });
+  const { data: batches = [] } = useQuery<Batch[]>({ queryKey: ["/api/batches"] });
+
+  const options = criterionOptions(rubrics);
+  const criterionName = (key: string) => options.find(option => option.key === key)?.name ?? key;
+  const term = search.trim().toLowerCase();
+  const shown = drills.filter(drill =>
+    (criterion === ALL || drill.target_criteria.includes(criterion)) &&
+    (!term || drill.name.toLowerCase().includes(term) || (drill.description ?? "").toLowerCase().includes(term)));
+
+  const assigneeName = (plan: PracticePlan) =>
+    plan.player_id
+      ? players.find(player => player.id === plan.player_id)?.name ?? "Player"
+      : `${batches.find(batch => batch.id === plan.batch_id)?.name ?? "Batch"} (batch)`;
+
+  const deleteDrill = useMutation({
+    mutationFn: (drill: Drill) => sendSchedule<void>("DELETE", `/api/drills/${drill.id}`),
+    onSuccess: () => {
+      toast({ title: "Drill deleted" });
+      refreshPractice();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete drill", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deletePlan = useMutation({
+    mutationFn: (plan: PracticePlan) => sendSchedule<void>("DELETE", `/api/practice-plans/${plan.id}`),
+    onSuccess: () => {
+      toast({ title: "Practice plan deleted" });
+      refreshPractice();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete practice plan", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold">Drills</h1>
+        <p className="text-sm text-gray-500">Drills for the weak spots assessments find, and practice plans built from them</p>
+      </div>
+
+      <Tabs defaultValue="drills">
+        <TabsList className="mb-4">
+          <TabsTrigger value="drills">Drills</TabsTrigger>
+          <TabsTrigger value="plans">Practice Plans</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="drills">
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex flex-wrap gap-3 mb-4">
+                <Input className="w-64" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search drills..." />
+                <Select value={criterion} onValueChange={setCriterion}>
+                  <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All criteria</SelectItem>
+                    {options.map(option => (
+                      <SelectItem key={option.key} value={option.key}>{option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex-grow" />
+                <Button onClick={() => setDrillForm({ open: true })}>Add Drill</Button>
+              </div>
+
+              {isLoading ? (
+                <p className="text-gray-500">Loading drills...</p>
+              ) : shown.length === 0 ? (
+                <p className="text-gray-500 py-8 text-center">
+                  No drills{term || criterion !== ALL ? " match these filters" : " yet"}.
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {shown.map(drill => {
+                    const video = references.find(reference => reference.id === drill.video_id);
+                    return (
+                      <div key={drill.id} className="border border-neutral-200 rounded overflow-hidden">
+                        {video && (
+                          <VideoPlayer
+                            videoUrl={video.file_url}
+                            thumbnail={video.thumbnail_url}
+                            sprite={video.sprite_url}
+                            duration={video.duration}
+                            processingStatus={video.processing_status}
+                            title={video.title}
+                            className="w-full"
+                            triggerClassName="w-full h-32 relative bg-gray-200"
+                            videoId={video.id}
+                            initialTags={videoTags(video)}
+                          />
+                        )}
+                        <div className="p-3">
+                          <div className="flex items-start justify-between gap-2">
+                            <p className="font-medium">{drill.name}</p>
+                            {drill.duration_minutes && (
+                              <span className="text-xs text-gray-500 whitespace-nowrap">{drill.duration_minutes} min</span>
+                            )}
+                          </div>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {drill.target_criteria.map(key => (
+                              <span key={key} className="text-xs bg-blue-100 text-blue-800 px-1 rounded">{criterionName(key)}</span>
+                            ))}
+                          </div>
+                          {drill.description && <p className="text-sm text-gray-600 mt-2 whitespace-pre-line">{drill.description}</p>}
+                          {drill.equipment.length > 0 && (
+                            <p className="text-xs text-gray-500 mt-1">Equipment: {drill.equipment.join(", ")}</p>
+                          )}
+                          <div className="flex justify-end gap-1 mt-2">
+                            <Button variant="ghost" size="sm" onClick={() => setDrillForm({ open: true, drill })}>Edit</Button>
+                            <Button variant="ghost" size="sm" disabled={deleteDrill.isPending} onClick={() => deleteDrill.mutate(drill)}>
+                              Delete
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="plans">
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex justify-end mb-4">
+                <Button disabled={drills.length === 0} onClick={() => setPlanForm({ open: true })}>New Plan</Button>
+              </div>
+              {plansLoading ? (
+                <p className="text-gray-500">Loading practice plans...</p>
+              ) : plans.length === 0 ? (
+                <p className="text-gray-500 py-8 text-center">
+                  No practice plans yet.{drills.length === 0 ? " Add some drills first." : ""}
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {plans.map(plan => (
+                    <PlanRow
+                      key={plan.id}
+                      plan={plan}
+                      assignee={assigneeName(plan)}
+                      onEdit={() => setPlanForm({ open: true, plan })}
+                      onDelete={() => deletePlan.mutate(plan)}
+                    />
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <DrillForm
+        open={drillForm.open}
+        onOpenChange={(open) => setDrillForm(current => ({ ...current, open }))}
+        drill={drillForm.drill}
+      />
+      <PracticePlanForm
+        open={planForm.open}
+        onOpenChange={(open) => setPlanForm(current => ({ ...current, open }))}
+        plan={planForm.plan}
+      />
+    </div>
+  );
+};
+
+export default DrillLibrary;
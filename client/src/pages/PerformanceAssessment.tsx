@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams, Link, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { format, addDays, previousMonday } from "date-fns";
@@ -13,8 +13,13 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import StarRating from "@/components/StarRating";
 import VideoPlayer from "@/components/VideoPlayer";
-import type { Player, Video } from "@shared/schema";
+import VideoFilters from "@/components/VideoFilters";
+import { useVideoSearch, type VideoFilterValues } from "@/hooks/use-video-search";
+import type { Player, Video, VideoTagField, FullAssessmentSubmission, AssessmentDraft, AssessmentDraftData, RubricTemplate } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { getCoachName } from "@/lib/coach";
+import { criterionName, generalCriteria, isPassingRating, scaleOptions, shotCriteria } from "@/lib/rubric";
+import { videoTagChip, videoTags } from "@/lib/videoTags";
 
 // Local interface for problem areas (matching backend schema)
 interface ProblemAreaInput {
@@ -23,51 +28,38 @@ interface ProblemAreaInput {
   notes: string;
 }
 
+// Tags offered as filters in the video library
+const VIDEO_FILTER_FIELDS: VideoTagField[] = ["shot_type", "ball_length", "ball_speed", "bat_connect", "footwork", "session_slot"];
+
+// How long the form must be idle before it is autosaved as a draft
+const DRAFT_AUTOSAVE_DELAY_MS = 1000;
+
 const PerformanceAssessment = () => {
   const params = useParams<{ id: string }>();
-  const playerId = params.id ? parseInt(params.id) : 0;
+  const playerId = params.id || "";
   const [_, navigate] = useLocation();
   const { toast } = useToast();
+  const coach = getCoachName();
   
-  // State for video attribute tagging
-  const [selectedVideo, setSelectedVideo] = useState<Video | null>(null);
-  const [isTaggingMode, setIsTaggingMode] = useState(false);
-  const [videoTags, setVideoTags] = useState<{
-    shotType: string;
-    ballLength: string;
-    ballSpeed: string;
-    batConnect: string;
-    footwork: string;
-  }>({
-    shotType: '',
-    ballLength: '',
-    ballSpeed: '',
-    batConnect: '',
-    footwork: ''
-  });
-
   const { data: player, isLoading: isPlayerLoading } = useQuery<Player>({
     queryKey: [`/api/players/${playerId}`],
-    enabled: !isNaN(playerId)
+    enabled: !!playerId
   });
 
   // Filter state
-  const [shotTypeFilter, setShotTypeFilter] = useState("All");
-  const [ballLengthFilter, setBallLengthFilter] = useState("All");
-  const [ballSpeedFilter, setBallSpeedFilter] = useState("All");
-  const [batConnectFilter, setBatConnectFilter] = useState("All");
-  const [footworkFilter, setFootworkFilter] = useState("All");
+  const [videoFilters, setVideoFilters] = useState<VideoFilterValues>({});
   const [sessionNotes, setSessionNotes] = useState("");
   const [focusAreas, setFocusAreas] = useState<string[]>([]);
-  const [problemAreas, setProblemAreas] = useState<ProblemAreaInput[]>([
-    { areaType: "bat_connect", rating: 0, notes: "" },
-    { areaType: "foot_movement", rating: 0, notes: "" },
-    { areaType: "bat_swing", rating: 0, notes: "" },
-    { areaType: "reaction_time", rating: 0, notes: "" }
-  ]);
+  const [problemAreas, setProblemAreas] = useState<ProblemAreaInput[]>([]);
+
+  // The criteria, shots and technical areas on the form come from the player's rubric
+  const { data: rubric } = useQuery<RubricTemplate>({
+    queryKey: [`/api/players/${playerId}/rubric`],
+    enabled: !!playerId
+  });
   
-  // Shot Specific Performance Areas
-  const [selectedShotType, setSelectedShotType] = useState<string>("Cover Drive");
+  // Shot Specific Performance Areas (selectedShotType is the rubric criterion key)
+  const [selectedShotType, setSelectedShotType] = useState<string>("");
   const [shotTypeNotes, setShotTypeNotes] = useState<string>("");
   const [shotTypeRating, setShotTypeRating] = useState<number>(0);
   
@@ -85,17 +77,20 @@ const PerformanceAssessment = () => {
     areas: ShotSpecificArea[];
   }
   
-  const defaultAreas = [
-    { id: "hands_grip", name: "Hands Grip", rating: 0, notes: "" },
-    { id: "top_hand_forearm", name: "Top Hand Forearm Push", rating: 0, notes: "" },
-    { id: "head_stability", name: "Head Stability", rating: 0, notes: "" },
-    { id: "bat_movement", name: "Bat Movement Line", rating: 0, notes: "" },
-    { id: "foot_position", name: "Front & Back Foot Movement & Position", rating: 0, notes: "" },
-    { id: "weight_transfer", name: "Weight Transfer to Front Foot", rating: 0, notes: "" },
-    { id: "elbow_shoulder", name: "Elbow Shoulder Alignment", rating: 0, notes: "" }
-  ];
+  const shotTypes = shotCriteria(rubric);
+  const selectedShot = shotTypes.find(shot => shot.key === selectedShotType);
+
+  // Unrated technical areas for a shot, from its sub-criteria
+  const areasFor = (shotKey: string): ShotSpecificArea[] =>
+    (shotTypes.find(shot => shot.key === shotKey)?.sub_criteria ?? [])
+      .map(sub => ({ id: sub.key, name: sub.name, rating: 0, notes: "" }));
   
-  const [shotSpecificAreas, setShotSpecificAreas] = useState<ShotSpecificArea[]>([...defaultAreas]);
+  const [shotSpecificAreas, setShotSpecificAreas] = useState<ShotSpecificArea[]>([]);
+
+  const selectShotType = (shotKey: string) => {
+    setSelectedShotType(shotKey);
+    setShotSpecificAreas(areasFor(shotKey));
+  };
   
   const [savedShotAssessments, setSavedShotAssessments] = useState<ShotTypeAssessment[]>([]);
   
@@ -111,75 +106,171 @@ const PerformanceAssessment = () => {
     setSavedShotAssessments([...savedShotAssessments, newShotAssessment]);
     
     // Reset form for next shot type
-    setSelectedShotType("Cover Drive");
+    selectShotType(shotTypes[0]?.key ?? "");
+    setShotTypeNotes("");
+    setShotTypeRating(0);
+  };
+
+  // Blank form for the rubric: every general criterion unrated, first shot selected
+  const resetForm = () => {
+    setSessionNotes("");
+    setProblemAreas(generalCriteria(rubric).map(criterion => ({ areaType: criterion.key, rating: 0, notes: "" })));
+    setSavedShotAssessments([]);
+    selectShotType(shotTypes[0]?.key ?? "");
     setShotTypeNotes("");
     setShotTypeRating(0);
-    setShotSpecificAreas([...defaultAreas]);
   };
 
-  // Fetch videos with filters
-  const { data: videos, isLoading: isVideosLoading } = useQuery<Video[]>({
-    queryKey: [
-      `/api/players/${playerId}/videos`, 
-      shotTypeFilter,
-      ballLengthFilter,
-      ballSpeedFilter,
-      batConnectFilter,
-      footworkFilter
-    ],
-    enabled: !isNaN(playerId)
+  // Restore this coach's draft, if any, before autosaving starts
+  const draftUrl = `/api/players/${playerId}/assessment-draft?coach=${encodeURIComponent(coach)}`;
+  const { data: draft, isSuccess: isDraftLoaded } = useQuery<AssessmentDraft | null>({
+    queryKey: [draftUrl],
+    queryFn: async () => {
+      const res = await fetch(draftUrl, { credentials: "include" });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    enabled: !!playerId,
+    gcTime: 0
+  });
+  const [isDraftRestored, setIsDraftRestored] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const lastSavedDraftRef = useRef<string | null>(null);
+  // Set while the assessment is being submitted so a late autosave cannot recreate the draft
+  const isSubmittingRef = useRef(false);
+
+  const toShotAssessment = (shot: NonNullable<AssessmentDraftData["current_shot"]>): ShotTypeAssessment => ({
+    shotType: shot.shot_type,
+    notes: shot.notes || "",
+    rating: shot.rating,
+    areas: areasFor(shot.shot_type).map(area => {
+      const saved = shot.areas.find(a => a.id === area.id);
+      return saved ? { ...area, rating: saved.rating, notes: saved.notes || "" } : { ...area };
+    })
+  });
+
+  const fromShotAssessment = (shot: ShotTypeAssessment) => ({
+    shot_type: shot.shotType,
+    rating: shot.rating,
+    notes: shot.notes,
+    areas: shot.areas.map(area => ({ id: area.id, rating: area.rating, notes: area.notes }))
+  });
+
+  useEffect(() => {
+    if (!isDraftLoaded || !rubric || isDraftRestored) return;
+
+    resetForm();
+    if (draft) {
+      const data = draft.data;
+      setSessionNotes(data.notes || "");
+      if (data.problem_areas) {
+        setProblemAreas(data.problem_areas.map(pa => ({ areaType: pa.area_type, rating: pa.rating, notes: pa.notes || "" })));
+      }
+      setSavedShotAssessments((data.shot_assessments || []).map(toShotAssessment));
+      if (data.current_shot) {
+        const current = toShotAssessment(data.current_shot);
+        setSelectedShotType(current.shotType);
+        setShotTypeNotes(current.notes);
+        setShotTypeRating(current.rating);
+        setShotSpecificAreas(current.areas);
+      }
+      setDraftSavedAt(draft.updated_at ? new Date(draft.updated_at) : null);
+      toast({
+        title: "Draft restored",
+        description: "Your unsaved assessment for this player has been restored.",
+      });
+    }
+    setIsDraftRestored(true);
+  }, [isDraftLoaded, isDraftRestored, draft, rubric]);
+
+  const draftData: AssessmentDraftData = {
+    notes: sessionNotes,
+    problem_areas: problemAreas.map(pa => ({ area_type: pa.areaType, rating: pa.rating, notes: pa.notes })),
+    shot_assessments: savedShotAssessments.map(fromShotAssessment),
+    current_shot: fromShotAssessment({
+      shotType: selectedShotType,
+      notes: shotTypeNotes,
+      rating: shotTypeRating,
+      areas: shotSpecificAreas
+    })
+  };
+  const draftJson = JSON.stringify(draftData);
+
+  // Autosave the form once the coach stops editing
+  useEffect(() => {
+    if (!isDraftRestored) return;
+    // The first render after restoring is the baseline - nothing has been edited yet
+    if (lastSavedDraftRef.current === null) {
+      lastSavedDraftRef.current = draftJson;
+      return;
+    }
+    if (draftJson === lastSavedDraftRef.current) return;
+
+    const timeout = window.setTimeout(async () => {
+      if (isSubmittingRef.current) return;
+      try {
+        await apiRequest('PUT', `/api/players/${playerId}/assessment-draft`, { coach, data: JSON.parse(draftJson) });
+        lastSavedDraftRef.current = draftJson;
+        setDraftSavedAt(new Date());
+      } catch (error) {
+        console.error('Error autosaving assessment draft:', error);
+      }
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+
+    return () => window.clearTimeout(timeout);
+  }, [draftJson, isDraftRestored]);
+
+  const discardDraft = async () => {
+    await apiRequest('DELETE', draftUrl);
+    resetForm();
+    lastSavedDraftRef.current = null;
+    setDraftSavedAt(null);
+  };
+
+  // The newest video is linked to the assessment, whatever the library filters
+  const { data: videos } = useQuery<Video[]>({
+    queryKey: [`/api/players/${playerId}/videos`],
+    enabled: !!playerId
   });
 
+  const videoSearch = useVideoSearch({ playerId, filters: videoFilters });
+  const hasVideoFilters = Object.values(videoFilters).some(Boolean);
+
   // Create a new assessment with problem areas
   const createAssessment = useMutation({
     mutationFn: async () => {
-      // Create assessment
       const today = new Date();
       const weekStart = format(previousMonday(today), 'yyyy-MM-dd');
       const weekEnd = format(addDays(new Date(weekStart), 6), 'yyyy-MM-dd');
-      
-      const assessmentResponse = await apiRequest('POST', `/api/players/${playerId}/assessments`, {
-        weekStart,
-        weekEnd,
+      const videoUrl = videos && videos.length > 0 ? videos[0].file_url : undefined;
+
+      // The assessment, problem areas and shot metrics are saved in a single request
+      const submission: FullAssessmentSubmission = {
+        coach,
+        rubric_id: rubric?.id,
         notes: sessionNotes,
-        isLatest: true
-      });
-      
-      // Create problem areas for this assessment
-      const validProblemAreas = problemAreas.filter(pa => pa.rating > 0);
-      
-      for (const pa of validProblemAreas) {
-        await apiRequest('POST', `/api/assessments/${assessmentResponse.id}/problem-areas`, {
-          areaType: pa.areaType,
+        week_start: weekStart,
+        week_end: weekEnd,
+        problem_areas: problemAreas.map(pa => ({
+          area_type: pa.areaType,
           rating: pa.rating,
           notes: pa.notes
-        });
-      }
-      
-      // Save shot-specific assessments as metrics
-      for (const shotAssessment of savedShotAssessments) {
-        // Save the overall shot type assessment
-        await apiRequest('POST', `/api/assessments/${assessmentResponse.id}/metrics`, {
-          metricType: shotAssessment.shotType.toLowerCase().replace(' ', '_'),
-          rating: shotAssessment.rating, // Use the overall shot type rating
-          value: shotAssessment.areas.filter(a => a.rating > 0).length + ' areas evaluated',
+        })),
+        shot_assessments: savedShotAssessments.map(shotAssessment => ({
+          shot_type: shotAssessment.shotType,
+          rating: shotAssessment.rating,
           notes: shotAssessment.notes,
-          videoUrl: videos && videos.length > 0 ? videos[0].url : ''
-        });
-        
-        // Save each specific technical area within the shot
-        for (const area of shotAssessment.areas) {
-          // We need to save all areas for proper display later
-          await apiRequest('POST', `/api/assessments/${assessmentResponse.id}/metrics`, {
-            metricType: `${shotAssessment.shotType.toLowerCase().replace(' ', '_')}_${area.id}`,
-            rating: area.rating,
-            value: area.rating === 1 ? 'Needs Work' : 'Good',
-            notes: area.notes,
-            videoUrl: videos && videos.length > 0 ? videos[0].url : ''
-          });
-        }
-      }
-      
+          video_url: videoUrl,
+          areas: shotAssessment.areas
+            .filter(area => area.rating > 0)
+            .map(area => ({ id: area.id, rating: area.rating, notes: area.notes }))
+        }))
+      };
+
+      const assessmentResponse = await apiRequest('POST', `/api/players/${playerId}/assessments/full`, submission)
+        .then(res => res.json());
+
       return assessmentResponse;
     },
     onSuccess: () => {
@@ -188,9 +279,12 @@ const PerformanceAssessment = () => {
         description: "The player assessment has been saved successfully.",
       });
       queryClient.invalidateQueries({ queryKey: [`/api/players/${playerId}/assessments`] });
+      // The server discards the draft once the assessment is saved
+      queryClient.removeQueries({ queryKey: [draftUrl] });
       navigate(`/players/${playerId}`);
     },
     onError: () => {
+      isSubmittingRef.current = false;
       toast({
         title: "Error",
         description: "Failed to save the assessment. Please try again.",
@@ -200,6 +294,7 @@ const PerformanceAssessment = () => {
   });
 
   const handleSaveAssessment = () => {
+    isSubmittingRef.current = true;
     createAssessment.mutate();
   };
 
@@ -213,8 +308,8 @@ const PerformanceAssessment = () => {
   };
 
   const addProblemArea = () => {
-    // Add a new problem area with default values
-    const problemAreaTypes = ["bat_connect", "foot_movement", "bat_swing", "reaction_time"];
+    // Add a rubric criterion that is not on the form yet
+    const problemAreaTypes = generalCriteria(rubric).map(criterion => criterion.key);
     const existingTypes = problemAreas.map(pa => pa.areaType);
     const availableTypes = problemAreaTypes.filter(type => !existingTypes.includes(type));
     
@@ -232,66 +327,9 @@ const PerformanceAssessment = () => {
     }
   };
 
-  const getProblemAreaName = (type: string) => {
-    const nameMap: Record<string, string> = {
-      'bat_connect': 'Bat Connect',
-      'foot_movement': 'Foot Movement',
-      'bat_swing': 'Bat Swing',
-      'reaction_time': 'Reaction Time'
-    };
-    return nameMap[type] || type;
-  };
-
-  const handleVideoSelect = (video: Video) => {
-    setSelectedVideo(video);
-    
-    // Reset video tags
-    setVideoTags({
-      shotType: video.shotType || '',
-      ballLength: video.ballLength || '',
-      ballSpeed: video.ballSpeed || '',
-      batConnect: video.batConnect || '',
-      footwork: video.footwork || ''
-    });
-    
-    setIsTaggingMode(false);
-  };
-
-  const startTaggingMode = () => {
-    if (!selectedVideo) return;
-    setIsTaggingMode(true);
-  };
-
-  const updateVideoTag = (field: keyof typeof videoTags, value: string) => {
-    setVideoTags({ ...videoTags, [field]: value });
-  };
+  const getProblemAreaName = (type: string) => criterionName(rubric, type);
 
-  const saveVideoTags = async () => {
-    if (!selectedVideo) return;
-    
-    try {
-      await apiRequest('POST', `/api/players/${playerId}/videos`, {
-        id: selectedVideo.id,
-        ...videoTags
-      });
-      
-      toast({
-        title: "Video tagged",
-        description: "Video attributes have been updated successfully.",
-      });
-      
-      queryClient.invalidateQueries({ queryKey: [`/api/players/${playerId}/videos`] });
-      setIsTaggingMode(false);
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update video attributes.",
-        variant: "destructive"
-      });
-    }
-  };
-
-  if (isPlayerLoading || isVideosLoading) {
+  if (isPlayerLoading) {
     return <div className="container mx-auto px-4 py-8"><Skeleton className="h-screen w-full" /></div>;
   }
 
@@ -339,235 +377,61 @@ const PerformanceAssessment = () => {
               <CardContent>
                 <div className="space-y-2 mb-4">
                   <div className="grid grid-cols-2 gap-2">
-                    {/* Shot Type Filter */}
-                    <div className="mb-2">
-                      <Label htmlFor="shotType" className="block mb-1 text-xs">Shot Type</Label>
-                      <select
-                        id="shotType"
-                        className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
-                        value={shotTypeFilter}
-                        onChange={(e) => setShotTypeFilter(e.target.value)}
-                      >
-                        <option value="All">All</option>
-                        <option value="Cover Drive">Cover Drive</option>
-                        <option value="Straight Drive">Straight Drive</option>
-                        <option value="Pull Shot">Pull Shot</option>
-                        <option value="Cut Shot">Cut Shot</option>
-                      </select>
-                    </div>
-                    
-                    {/* Ball Length Filter */}
-                    <div className="mb-2">
-                      <Label htmlFor="ballLength" className="block mb-1 text-xs">Ball Length</Label>
-                      <select
-                        id="ballLength"
-                        className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
-                        value={ballLengthFilter}
-                        onChange={(e) => setBallLengthFilter(e.target.value)}
-                      >
-                        <option value="All">All</option>
-                        <option value="Full">Full</option>
-                        <option value="Good">Good</option>
-                        <option value="Short">Short</option>
-                        <option value="Yorker">Yorker</option>
-                      </select>
-                    </div>
-                    
-                    {/* Ball Speed Filter */}
-                    <div className="mb-2">
-                      <Label htmlFor="ballSpeed" className="block mb-1 text-xs">Ball Speed</Label>
-                      <select
-                        id="ballSpeed"
-                        className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
-                        value={ballSpeedFilter}
-                        onChange={(e) => setBallSpeedFilter(e.target.value)}
-                      >
-                        <option value="All">All</option>
-                        <option value="Fast">Fast</option>
-                        <option value="Medium">Medium</option>
-                        <option value="Slow">Slow</option>
-                      </select>
-                    </div>
-                    
-                    {/* Bat Connect Filter */}
-                    <div className="mb-2">
-                      <Label htmlFor="batConnect" className="block mb-1 text-xs">Bat Connect</Label>
-                      <select
-                        id="batConnect"
-                        className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
-                        value={batConnectFilter}
-                        onChange={(e) => setBatConnectFilter(e.target.value)}
-                      >
-                        <option value="All">All</option>
-                        <option value="Middle">Middle</option>
-                        <option value="Edge">Edge</option>
-                        <option value="Bottom">Bottom</option>
-                        <option value="Missed">Missed</option>
-                      </select>
-                    </div>
-                    
-                    {/* Foot Movement Filter */}
-                    <div className="mb-2">
-                      <Label htmlFor="footwork" className="block mb-1 text-xs">Foot Movement</Label>
-                      <select
-                        id="footwork"
-                        className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
-                        value={footworkFilter}
-                        onChange={(e) => setFootworkFilter(e.target.value)}
-                      >
-                        <option value="All">All</option>
-                        <option value="Good">Good</option>
-                        <option value="Average">Average</option>
-                        <option value="Poor">Poor</option>
-                      </select>
-                    </div>
-                    
-                    {/* Session Filter */}
-                    <div className="mb-2">
-                      <Label htmlFor="session" className="block mb-1 text-xs">Session</Label>
-                      <select
-                        id="session"
-                        className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
-                      >
-                        <option value="All">All</option>
-                        <option value="Morning">Morning</option>
-                        <option value="Afternoon">Afternoon</option>
-                        <option value="Evening">Evening</option>
-                      </select>
-                    </div>
+                    <VideoFilters
+                      fields={VIDEO_FILTER_FIELDS}
+                      value={videoFilters}
+                      onChange={setVideoFilters}
+                      facets={videoSearch.facets}
+                    />
                   </div>
                 </div>
 
-
-                
                 {/* Video Library Carousel */}
                 <div className="mb-4">
                   <h4 className="font-medium mb-3">Video Library</h4>
                   <div className="flex overflow-x-auto gap-3 pb-2">
-                    <div className="flex-shrink-0 w-48 border border-neutral-200 rounded overflow-hidden">
-                      <VideoPlayer 
-                        videoUrl="/videos/Video 1.mp4" 
-                        title="Training Video 1"
-                        className="w-full"
-                        triggerClassName="w-full h-24 relative bg-gray-200"
-                        initialTags={{
-                          shotType: "Miscellaneous",
-                          ballSpeed: "Medium",
-                          reactionTime: "Slow",
-                          batConnect: "Poor",
-                          batSwing: "Poor"
-                        }}
-                        onTagsUpdate={(tags) => {
-                          toast({
-                            title: "Video Tags Updated",
-                            description: "The tags for this video have been updated successfully."
-                          });
-                          console.log("Updated tags for Video 1:", tags);
-                        }}
-                      />
-                      <div className="p-2">
-                        <div className="flex flex-wrap gap-1">
-                          <span className="text-xs bg-blue-100 text-blue-800 px-1 rounded">Miscellaneous</span>
-                          <span className="text-xs bg-green-100 text-green-800 px-1 rounded">Medium Ball</span>
-                          <span className="text-xs bg-yellow-100 text-yellow-800 px-1 rounded">Slow Reaction</span>
-                          <span className="text-xs bg-red-100 text-red-800 px-1 rounded">Poor Footwork</span>
-                        </div>
-                      </div>
-                    </div>
-                    
-                    <div className="flex-shrink-0 w-48 border border-neutral-200 rounded overflow-hidden">
-                      <VideoPlayer 
-                        videoUrl="/videos/Video 2.mp4" 
-                        title="Training Video 2"
-                        className="w-full"
-                        triggerClassName="w-full h-24 relative bg-gray-200"
-                        initialTags={{
-                          shotType: "Cover Drive",
-                          ballSpeed: "Medium",
-                          reactionTime: "Avg",
-                          batConnect: "Good",
-                          batSwing: "Good"
-                        }}
-                        onTagsUpdate={(tags) => {
-                          toast({
-                            title: "Video Tags Updated",
-                            description: "The tags for this video have been updated successfully."
-                          });
-                          console.log("Updated tags for Video 2:", tags);
-                        }}
-                      />
-                      <div className="p-2">
-                        <div className="flex flex-wrap gap-1">
-                          <span className="text-xs bg-blue-100 text-blue-800 px-1 rounded">Cover Drive</span>
-                          <span className="text-xs bg-green-100 text-green-800 px-1 rounded">Medium Ball</span>
-                          <span className="text-xs bg-yellow-100 text-yellow-800 px-1 rounded">Avg Reaction</span>
-                          <span className="text-xs bg-green-100 text-green-800 px-1 rounded">Good Footwork</span>
-                        </div>
-                      </div>
-                    </div>
-                    
-                    <div className="flex-shrink-0 w-48 border border-neutral-200 rounded overflow-hidden">
-                      <VideoPlayer 
-                        videoUrl="/videos/Video 3.mp4" 
-                        title="Training Video 3"
-                        className="w-full"
-                        triggerClassName="w-full h-24 relative bg-gray-200"
-                        initialTags={{
-                          shotType: "Off Drive",
-                          ballSpeed: "Slow",
-                          reactionTime: "Slow",
-                          batConnect: "Poor",
-                          batSwing: "Avg"
-                        }}
-                        onTagsUpdate={(tags) => {
-                          toast({
-                            title: "Video Tags Updated",
-                            description: "The tags for this video have been updated successfully."
-                          });
-                          console.log("Updated tags for Video 3:", tags);
-                        }}
-                      />
-                      <div className="p-2">
-                        <div className="flex flex-wrap gap-1">
-                          <span className="text-xs bg-blue-100 text-blue-800 px-1 rounded">Off Drive</span>
-                          <span className="text-xs bg-green-100 text-green-800 px-1 rounded">Slow Ball</span>
-                          <span className="text-xs bg-yellow-100 text-yellow-800 px-1 rounded">Slow Reaction</span>
-                          <span className="text-xs bg-red-100 text-red-800 px-1 rounded">Poor Footwork</span>
-                        </div>
-                      </div>
-                    </div>
-                    
-                    <div className="flex-shrink-0 w-48 border border-neutral-200 rounded overflow-hidden">
-                      <VideoPlayer 
-                        videoUrl="/videos/Video 4.mp4" 
-                        title="Training Video 4"
-                        className="w-full"
-                        triggerClassName="w-full h-24 relative bg-gray-200"
-                        initialTags={{
-                          shotType: "Straight Drive",
-                          ballSpeed: "Medium",
-                          reactionTime: "Slow",
-                          batConnect: "Poor",
-                          batSwing: "Poor"
-                        }}
-                        onTagsUpdate={(tags) => {
-                          toast({
-                            title: "Video Tags Updated",
-                            description: "The tags for this video have been updated successfully."
-                          });
-                          console.log("Updated tags for Video 4:", tags);
-                        }}
-                      />
-                      <div className="p-2">
-                        <div className="flex flex-wrap gap-1">
-                          <span className="text-xs bg-blue-100 text-blue-800 px-1 rounded">Straight drive</span>
-                          <span className="text-xs bg-green-100 text-green-800 px-1 rounded">Medium Ball</span>
-                          <span className="text-xs bg-yellow-100 text-yellow-800 px-1 rounded">Slow Reaction</span>
-                          <span className="text-xs bg-red-100 text-red-800 px-1 rounded">Poor Footwork</span>
+                    {videoSearch.videos.map(video => (
+                      <div key={video.id} className="flex-shrink-0 w-48 border border-neutral-200 rounded overflow-hidden">
+                        <VideoPlayer 
+                          videoUrl={video.file_url} 
+                          thumbnail={video.thumbnail_url}
+                          sprite={video.sprite_url}
+                          duration={video.duration}
+                          processingStatus={video.processing_status}
+                          title={video.title}
+                          className="w-full"
+                          triggerClassName="w-full h-24 relative bg-gray-200"
+                          videoId={video.id}
+                          initialTags={videoTags(video)}
+                        />
+                        <div className="p-2">
+                          <div className="flex flex-wrap gap-1">
+                            {Object.entries(videoTags(video)).map(([field, value]) => (
+                              <span key={field} className="text-xs bg-blue-100 text-blue-800 px-1 rounded">
+                                {videoTagChip(field as VideoTagField, value as string)}
+                              </span>
+                            ))}
+                          </div>
                         </div>
                       </div>
-                    </div>
+                    ))}
+                    {!videoSearch.isLoading && videoSearch.videos.length === 0 && (
+                      <p className="text-sm text-gray-500 py-4">
+                        {hasVideoFilters ? "No videos match your filter criteria." : "No videos recorded for this player yet."}
+                      </p>
+                    )}
                   </div>
+                  {videoSearch.hasNextPage && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="mt-2"
+                      disabled={videoSearch.isFetchingNextPage}
+                      onClick={() => videoSearch.fetchNextPage()}
+                    >
+                      {videoSearch.isFetchingNextPage ? "Loading..." : `Load more (${videoSearch.videos.length} of ${videoSearch.total})`}
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -610,6 +474,7 @@ const PerformanceAssessment = () => {
                           </Label>
                           <StarRating 
                             initialRating={area.rating}
+                            totalStars={generalCriteria(rubric).find(criterion => criterion.key === area.areaType)?.scale.max}
                             onChange={(rating) => handleProblemAreaChange(index, 'rating', rating)}
                           />
                         </div>
@@ -651,7 +516,7 @@ const PerformanceAssessment = () => {
                         {savedShotAssessments.map((assessment, index) => (
                           <div key={index} className="border border-neutral-200 rounded p-3 mb-2">
                             <div className="flex justify-between items-center">
-                              <h5 className="font-bold">{assessment.shotType}</h5>
+                              <h5 className="font-bold">{criterionName(rubric, assessment.shotType)}</h5>
                               <div className="flex items-center">
                                 <span className="mr-2 text-sm">Rating:</span>
                                 <StarRating 
@@ -680,6 +545,7 @@ const PerformanceAssessment = () => {
                           <Label className="mr-2 text-sm">Overall Rating:</Label>
                           <StarRating 
                             initialRating={shotTypeRating}
+                            totalStars={selectedShot?.scale.max}
                             onChange={(rating) => setShotTypeRating(rating)}
                           />
                         </div>
@@ -688,13 +554,11 @@ const PerformanceAssessment = () => {
                         id="shotType"
                         className="w-full px-3 py-2 border border-neutral-200 rounded"
                         value={selectedShotType}
-                        onChange={(e) => setSelectedShotType(e.target.value)}
+                        onChange={(e) => selectShotType(e.target.value)}
                       >
-                        <option value="Cover Drive">Cover Drive</option>
-                        <option value="Straight Drive">Straight Drive</option>
-                        <option value="Pull Shot">Pull Shot</option>
-                        <option value="Cut Shot">Cut Shot</option>
-                        <option value="Sweep Shot">Sweep Shot</option>
+                        {shotTypes.map(shot => (
+                          <option key={shot.key} value={shot.key}>{shot.name}</option>
+                        ))}
                       </select>
                     </div>
                     
@@ -703,7 +567,7 @@ const PerformanceAssessment = () => {
                       <Textarea 
                         id="shot-notes"
                         className="w-full px-3 py-2 border border-neutral-200 rounded h-24"
-                        placeholder={`Enter overall notes about ${selectedShotType} technique...`}
+                        placeholder={`Enter overall notes about ${selectedShot?.name ?? "this shot"} technique...`}
                         value={shotTypeNotes}
                         onChange={(e) => setShotTypeNotes(e.target.value)}
                       />
@@ -717,28 +581,24 @@ const PerformanceAssessment = () => {
                               {area.name}
                             </Label>
                             <div className="flex space-x-2">
-                              <button
-                                type="button"
-                                className={`px-3 py-1 rounded text-sm font-medium ${area.rating === 1 ? 'bg-red-500 text-white' : 'bg-gray-200 text-gray-700'}`}
-                                onClick={() => {
-                                  const updatedAreas = [...shotSpecificAreas];
-                                  updatedAreas[index].rating = 1;
-                                  setShotSpecificAreas(updatedAreas);
-                                }}
-                              >
-                                Needs Work
-                              </button>
-                              <button
-                                type="button"
-                                className={`px-3 py-1 rounded text-sm font-medium ${area.rating === 2 ? 'bg-green-500 text-white' : 'bg-gray-200 text-gray-700'}`}
-                                onClick={() => {
-                                  const updatedAreas = [...shotSpecificAreas];
-                                  updatedAreas[index].rating = 2;
-                                  setShotSpecificAreas(updatedAreas);
-                                }}
-                              >
-                                Good
-                              </button>
+                              {selectedShot?.sub_scale && scaleOptions(selectedShot.sub_scale).map(option => (
+                                <button
+                                  key={option.value}
+                                  type="button"
+                                  className={`px-3 py-1 rounded text-sm font-medium ${
+                                    area.rating === option.value
+                                      ? isPassingRating(selectedShot.sub_scale!, option.value) ? 'bg-green-500 text-white' : 'bg-red-500 text-white'
+                                      : 'bg-gray-200 text-gray-700'
+                                  }`}
+                                  onClick={() => {
+                                    const updatedAreas = [...shotSpecificAreas];
+                                    updatedAreas[index] = { ...updatedAreas[index], rating: option.value };
+                                    setShotSpecificAreas(updatedAreas);
+                                  }}
+                                >
+                                  {option.label}
+                                </button>
+                              ))}
                             </div>
                           </div>
                         </div>
@@ -748,6 +608,7 @@ const PerformanceAssessment = () => {
                     <div className="mt-4">
                       <Button 
                         onClick={addShotTypeAssessment}
+                        disabled={!selectedShot}
                         className="w-full"
                       >
                         <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-plus mr-1">
@@ -760,7 +621,17 @@ const PerformanceAssessment = () => {
                   </div>
                 </div>
                 
-                <div className="mt-6 flex justify-end">
+                <div className="mt-6 flex justify-end items-center gap-3">
+                  {draftSavedAt && (
+                    <>
+                      <span className="text-sm text-neutral-500">
+                        Draft saved at {format(draftSavedAt, "h:mm a")}
+                      </span>
+                      <Button variant="outline" onClick={discardDraft}>
+                        Discard Draft
+                      </Button>
+                    </>
+                  )}
                   <Button 
                     onClick={handleSaveAssessment}
                     disabled={createAssessment.isPending}
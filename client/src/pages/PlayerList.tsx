@@ -11,7 +11,9 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
+import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import type { Batch } from "@shared/schema";
 
 // Define Player interface if not imported
 interface Player {
@@ -19,6 +21,7 @@ interface Player {
   name: string;
   age: number;
   batch: string;
+  batch_id?: string | null;
   specialization: string;
   batting_style: string;
   bowling_style: string;
@@ -40,7 +43,7 @@ interface CreatePlayerData {
   bowling_style: string;
   specialization: string;
   photo_url?: string | null;
-  batch: string;
+  batch_id: string;
   position?: string | null;
   overall_rating?: number;
   total_assessments?: number;
@@ -69,14 +72,19 @@ const fetchPlayers = async (): Promise<Player[]> => {
 const NewPlayerForm = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
+  const { data: batches = [] } = useQuery<Batch[]>({
+    queryKey: ['/api/batches'],
+  });
+  
   const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<CreatePlayerData>({
     defaultValues: {
       name: '',
       age: 18,
-      batch: '',
+      batch_id: '',
       photo_url: null,
       batting_style: 'Right Hand',
       bowling_style: 'Right Arm Fast',
@@ -107,16 +115,33 @@ const NewPlayerForm = () => {
         throw new Error(`Failed to create player: ${response.status}`);
       }
       
-      return response.json();
+      const player: Player = await response.json();
+
+      // The photo is uploaded to file storage once the player exists
+      if (photoFile) {
+        const formData = new FormData();
+        formData.append('photo', photoFile);
+        const photoResponse = await fetch(`/api/players/${player.id}/photo`, {
+          method: 'POST',
+          body: formData
+        });
+        if (!photoResponse.ok) {
+          throw new Error(`Player created, but the photo upload failed: ${photoResponse.status}`);
+        }
+      }
+
+      return player;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['players'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/batches'] });
       toast({
         title: "Player created successfully",
         description: "The new player has been added to the roster"
       });
       reset();
       setPhotoPreview(null);
+      setPhotoFile(null);
       setIsDialogOpen(false);
     },
     onError: (error: Error) => {
@@ -132,6 +157,7 @@ const NewPlayerForm = () => {
   const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
+      setPhotoFile(file);
       const reader = new FileReader();
       reader.onloadend = () => {
         setPhotoPreview(reader.result as string);
@@ -166,11 +192,6 @@ const NewPlayerForm = () => {
   };
   
   const onSubmit = (data: CreatePlayerData) => {
-    // Add photo preview as base64 string to the form data
-    if (photoPreview) {
-      data.photo_url = photoPreview;
-    }
-    
     // Convert empty strings and zero values to null for optional fields
     if (!data.height || data.height === 0) data.height = null;
     if (!data.weight || data.weight === 0) data.weight = null;
@@ -264,8 +285,28 @@ const NewPlayerForm = () => {
             
             <div>
               <Label htmlFor="batch">Batch</Label>
-              <Input id="batch" {...register('batch', { required: 'Batch is required' })} className="mt-1" />
-              {errors.batch && <span className="text-red-500 text-sm">{errors.batch.message}</span>}
+              <input type="hidden" {...register('batch_id', { required: 'Batch is required' })} />
+              <Select
+                value={watch('batch_id')}
+                onValueChange={(value) => setValue('batch_id', value, { shouldValidate: true })}
+              >
+                <SelectTrigger id="batch" className="mt-1">
+                  <SelectValue placeholder="Select batch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {batches.map(batch => (
+                    <SelectItem key={batch.id} value={batch.id}>
+                      {batch.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {batches.length === 0 && (
+                <span className="text-sm text-neutral-500">
+                  No batches yet. <Link href="/batches" className="text-primary hover:underline">Create one</Link> first.
+                </span>
+              )}
+              {errors.batch_id && <span className="text-red-500 text-sm">{errors.batch_id.message}</span>}
             </div>
             
             <div>
@@ -398,17 +439,18 @@ const PlayerList = () => {
     queryFn: fetchPlayers
   });
 
+  const { data: batches = [] } = useQuery<Batch[]>({
+    queryKey: ['/api/batches'],
+  });
+
   const filteredPlayers = players?.filter((player: any) => {
     const matchesSearch = player.name?.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesBatch = selectedBatch === "all" || player.batch === selectedBatch;
+    const matchesBatch = selectedBatch === "all" || player.batch_id === selectedBatch;
     const matchesSpecialization = selectedSpecialization === "all" || player.specialization === selectedSpecialization;
     
     return matchesSearch && matchesBatch && matchesSpecialization;
   });
 
-  // Get unique batches for filter
-  const uniqueBatches = Array.from(new Set(players?.map((player: any) => player.batch).filter(Boolean) || []));
-
   if (error) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -446,9 +488,9 @@ const PlayerList = () => {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Batches</SelectItem>
-              {uniqueBatches.map(batch => (
-                <SelectItem key={batch} value={batch}>
-                  {batch}
+              {batches.map(batch => (
+                <SelectItem key={batch.id} value={batch.id}>
+                  {batch.name}
                 </SelectItem>
               ))}
             </SelectContent>
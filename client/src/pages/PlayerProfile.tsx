@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueries, useMutation } from "@tanstack/react-query";
 import { useParams, Link } from "wouter";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
@@ -10,17 +10,30 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import { useVideoSearch, type VideoFilterValues } from "@/hooks/use-video-search";
 import { useState } from "react";
 import RatingBar from "@/components/RatingBar";
 import VideoPlayer from "@/components/VideoPlayer";
-import NotesList from "@/components/NotesList";
+import VideoFilters from "@/components/VideoFilters";
+import NotesList, { NoteItem } from "@/components/NotesList";
 import PerformanceChart from "@/components/PerformanceChart";
+import PlayerAttendance from "@/components/PlayerAttendance";
+import PlayerPracticePlan from "@/components/PlayerPracticePlan";
 import StarRating from "@/components/StarRating";
-import type { Player, PerformanceAssessment, PerformanceMetric, ProblemArea, Video } from "@shared/schema";
+import { assessmentWeekStart } from "@/lib/utils";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getCoachName } from "@/lib/coach";
+import { videoTagChip, videoTags } from "@/lib/videoTags";
+import { criterionName, generalCriteria, humanizeKey, isPassingRating, ratingLabel, shotCriteria } from "@/lib/rubric";
+import type { Player, Assessment, FullAssessment, Note, PerformanceMetric, ProblemArea, RubricTemplate, VideoTagField } from "@shared/schema";
+
+// Tags offered as filters in the video library
+const VIDEO_FILTER_FIELDS: VideoTagField[] = ["shot_type", "ball_speed", "bat_connect", "footwork"];
 
 // Component to display an assessment history card
-const AssessmentHistoryCard = ({ assessment }: { assessment: PerformanceAssessment }) => {
+const AssessmentHistoryCard = ({ assessment, isLatest, playerRubric, notes }: { assessment: Assessment; isLatest: boolean; playerRubric?: RubricTemplate; notes: Note[] }) => {
   const { data: metrics = [] } = useQuery<PerformanceMetric[]>({
     queryKey: [`/api/assessments/${assessment.id}/metrics`],
     enabled: assessment.id !== undefined
@@ -31,66 +44,75 @@ const AssessmentHistoryCard = ({ assessment }: { assessment: PerformanceAssessme
     enabled: assessment.id !== undefined
   });
 
-  // Group shot-specific metrics
-  const shotTypeMetrics = metrics.filter(metric => {
-    // Only include shot-specific metrics that match our expected pattern (e.g., "cover_drive", "pull_shot")
-    // Exclude general performance metrics and other non-shot metrics
-    const isGeneralMetric = ['reaction_time', 'bat_connect', 'bat_swing', 'foot_movement', 'shot_selection', 'footwork'].includes(metric.metricType);
-    
-    // Check if it's a shot type metric - these usually have underscores but aren't general metrics
-    const isShotTypeMetric = metric.metricType.includes('_') && !isGeneralMetric;
-    
-    // Only include shot type metrics
-    return isShotTypeMetric;
+  // Show the assessment with the rubric it was recorded against; older assessments
+  // (or ones whose template was deleted) fall back to the player's current rubric
+  const { data: recordedRubric } = useQuery<RubricTemplate>({
+    queryKey: [`/api/rubrics/${assessment.rubric_id}`],
+    enabled: !!assessment.rubric_id
   });
+  const rubric = recordedRubric ?? playerRubric;
 
-  // Group general performance metrics
-  const generalPerformanceMetrics = metrics.filter(metric => 
-    ['reaction_time', 'bat_connect', 'bat_swing', 'foot_movement'].includes(metric.metricType)
-  );
+  const generalKeys = generalCriteria(rubric).map(criterion => criterion.key);
+  const generalScale = (key: string) =>
+    rubric?.criteria.find(criterion => criterion.key === key)?.scale ?? { min: 1, max: 5, pass_mark: 4 };
 
-  // Group technical areas by shot type
-  const shotTypeGroups = shotTypeMetrics.reduce((groups, metric) => {
-    // Extract the main shot type from metrics (e.g., "cover_drive_hands_grip" → "cover_drive")
-    const mainType = metric.metricType.split('_').slice(0, 2).join('_');
-    
-    if (!groups[mainType]) {
-      // Find the main shot type metric
-      const mainMetric = metrics.find(m => m.metricType === mainType);
-      
-      groups[mainType] = {
-        name: mainType.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+  // General performance areas are saved as problem areas; older assessments
+  // recorded them as metrics, so fall back to those for any area not present
+  const generalPerformanceAreas = [
+    ...problemAreas.map(area => ({ id: area.id, type: area.area_type, rating: area.rating, notes: area.notes })),
+    ...metrics
+      .filter(metric => generalKeys.includes(metric.metric_type))
+      .filter(metric => !problemAreas.some(area => area.area_type === metric.metric_type))
+      .map(metric => ({ id: metric.id, type: metric.metric_type, rating: metric.rating, notes: metric.notes }))
+  ];
+
+  // Each shot criterion has an overall metric (cover_drive) and one per rated
+  // technical area (cover_drive_hands_grip)
+  const shotTypeGroups = shotCriteria(rubric)
+    .map(shot => {
+      const mainMetric = metrics.find(metric => metric.metric_type === shot.key);
+      const areas = metrics
+        .filter(metric => metric.metric_type.startsWith(`${shot.key}_`) && metric.rating > 0)
+        .map(metric => {
+          const areaKey = metric.metric_type.slice(shot.key.length + 1);
+          return {
+            id: metric.id,
+            name: shot.sub_criteria?.find(sub => sub.key === areaKey)?.name ?? humanizeKey(areaKey),
+            rating: metric.rating,
+            notes: metric.notes || ''
+          };
+        });
+
+      return {
+        key: shot.key,
+        name: shot.name,
         rating: mainMetric ? mainMetric.rating : 0,
-        notes: mainMetric && mainMetric.notes ? mainMetric.notes : '',
-        areas: []
+        notes: mainMetric?.notes || '',
+        scale: shot.scale,
+        subScale: shot.sub_scale ?? { min: 1, max: 2, pass_mark: 2 },
+        recorded: !!mainMetric || areas.length > 0,
+        areas
       };
-    }
-    
-    // Only add detailed technical areas, not the main shot type metric
-    if (metric.metricType !== mainType) {
-      // Get the specific area name (e.g., "cover_drive_hands_grip" → "hands_grip")
-      const areaName = metric.metricType.split('_').slice(2).join('_');
-      
-      groups[mainType].areas.push({
-        id: metric.id.toString(),
-        name: areaName.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
-        rating: metric.rating,
-        notes: metric.notes || ''
-      });
-    }
-    
-    return groups;
-  }, {} as Record<string, { name: string, rating: number, notes: string, areas: { id: string, name: string, rating: number, notes: string }[] }>);
+    })
+    .filter(group => group.recorded);
 
   return (
     <Card className="mb-6">
       <div className="bg-primary text-white px-6 py-3 flex justify-between items-center rounded-t-lg">
         <h4 className="font-bold">
-          Week of {format(new Date(assessment.weekStart), "MMMM d")} - {format(new Date(assessment.weekEnd), "MMMM d, yyyy")}
+          Week of {format(new Date(assessmentWeekStart(assessment)), "MMMM d")} - {format(new Date(assessment.week_end || assessmentWeekStart(assessment)), "MMMM d, yyyy")}
         </h4>
-        {assessment.isLatest && (
-          <span className="text-sm bg-white text-primary font-bold px-2 py-1 rounded">Most Recent</span>
-        )}
+        <div className="flex items-center gap-2">
+          {isLatest && (
+            <span className="text-sm bg-white text-primary font-bold px-2 py-1 rounded">Most Recent</span>
+          )}
+          <NotesList
+            title="Assessment Notes"
+            playerId={assessment.player_id}
+            notes={notes}
+            assessmentId={assessment.id}
+          />
+        </div>
       </div>
       
       <CardContent className="p-6">
@@ -106,23 +128,15 @@ const AssessmentHistoryCard = ({ assessment }: { assessment: PerformanceAssessme
             <div className="border-2 border-secondary/10 rounded-lg p-4 bg-secondary/5">
               <h3 className="text-lg font-bold mb-3 text-secondary">General Performance Areas</h3>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {generalPerformanceMetrics.map((metric) => {
-                  const metricDisplayName = metric.metricType
-                    .split('_')
-                    .map((word: string) => word.charAt(0).toUpperCase() + word.slice(1))
-                    .join(' ');
-                  
-                  // Find matching problem area for additional notes
-                  const matchingProblemArea = problemAreas.find(
-                    pa => pa.areaType === metric.metricType
-                  );
+                {generalPerformanceAreas.map((area) => {
+                  const areaDisplayName = criterionName(rubric, area.type);
                   
                   return (
-                    <div key={metric.id} className="border border-neutral-200 rounded p-4">
+                    <div key={area.id} className="border border-neutral-200 rounded p-4">
                       <div className="flex justify-between items-center mb-3">
-                        <h5 className="font-bold">{metricDisplayName}</h5>
+                        <h5 className="font-bold">{areaDisplayName}</h5>
                         <div>
-                          {metric.rating <= 3 ? (
+                          {!isPassingRating(generalScale(area.type), area.rating) ? (
                             <span className="px-3 py-1 rounded text-sm font-medium bg-red-500 text-white">
                               Needs Work
                             </span>
@@ -134,8 +148,8 @@ const AssessmentHistoryCard = ({ assessment }: { assessment: PerformanceAssessme
                         </div>
                       </div>
                       <div className="mt-3 text-sm text-neutral-600">
-                        {metric.notes && (
-                          <p className="mb-2"><strong>Notes:</strong> {metric.notes}</p>
+                        {area.notes && (
+                          <p className="mb-2"><strong>Notes:</strong> {area.notes}</p>
                         )}
                       </div>
                     </div>
@@ -150,20 +164,21 @@ const AssessmentHistoryCard = ({ assessment }: { assessment: PerformanceAssessme
             <div className="border-2 border-amber-500/20 rounded-lg p-4 bg-amber-500/5">
               <h3 className="text-lg font-bold mb-3 text-amber-600">Shot Specific Performance Areas</h3>
               
-              {Object.keys(shotTypeGroups).length === 0 ? (
+              {shotTypeGroups.length === 0 ? (
                 <div className="text-center py-6 text-neutral-500">
                   No shot-specific assessments recorded
                 </div>
               ) : (
                 <div className="space-y-6">
-                  {Object.values(shotTypeGroups).map((group, index) => (
-                    <div key={index} className="border border-neutral-200 rounded p-4">
+                  {shotTypeGroups.map((group) => (
+                    <div key={group.key} className="border border-neutral-200 rounded p-4">
                       <div className="flex justify-between items-center mb-3">
                         <h4 className="font-bold text-lg">{group.name}</h4>
                         <div className="flex items-center">
                           <span className="mr-2 text-sm">Overall Rating:</span>
                           <StarRating 
                             initialRating={group.rating}
+                            totalStars={group.scale.max}
                             readOnly={true}
                           />
                         </div>
@@ -198,21 +213,14 @@ const AssessmentHistoryCard = ({ assessment }: { assessment: PerformanceAssessme
                           </CollapsibleTrigger>
                           <CollapsibleContent className="pt-2">
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-2">
-                              {/* First show actual problem areas if any exist */}
-                              {group.areas.map((area, areaIndex) => (
-                                <div key={areaIndex} className="border border-neutral-200 rounded p-3">
+                              {group.areas.map((area) => (
+                                <div key={area.id} className="border border-neutral-200 rounded p-3">
                                   <div className="flex justify-between items-center">
                                     <span className="font-medium">{area.name}</span>
                                     <div>
-                                      {area.rating === 1 ? (
-                                        <span className="px-3 py-1 rounded text-sm font-medium bg-red-500 text-white">
-                                          Needs Work
-                                        </span>
-                                      ) : (
-                                        <span className="px-3 py-1 rounded text-sm font-medium bg-green-500 text-white">
-                                          Good
-                                        </span>
-                                      )}
+                                      <span className={`px-3 py-1 rounded text-sm font-medium text-white ${isPassingRating(group.subScale, area.rating) ? 'bg-green-500' : 'bg-red-500'}`}>
+                                        {ratingLabel(group.subScale, area.rating)}
+                                      </span>
                                     </div>
                                   </div>
                                   {area.notes && (
@@ -221,54 +229,10 @@ const AssessmentHistoryCard = ({ assessment }: { assessment: PerformanceAssessme
                                 </div>
                               ))}
                               
-                              {/* Add demonstration problem areas for each shot type */}
                               {group.areas.length === 0 && (
-                                <>
-                                  {/* Problem area 1 */}
-                                  <div className="border border-neutral-200 rounded p-3">
-                                    <div className="flex justify-between items-center">
-                                      <span className="font-medium">Head Position</span>
-                                      <div>
-                                        <span className="px-3 py-1 rounded text-sm font-medium bg-red-500 text-white">
-                                          Needs Work
-                                        </span>
-                                      </div>
-                                    </div>
-                                    <p className="mt-2 text-xs text-neutral-600">
-                                      Head falls to off-side during shot execution. Needs to maintain stability and keep eyes level.
-                                    </p>
-                                  </div>
-                                  
-                                  {/* Problem area 2 */}
-                                  <div className="border border-neutral-200 rounded p-3">
-                                    <div className="flex justify-between items-center">
-                                      <span className="font-medium">Weight Transfer</span>
-                                      <div>
-                                        <span className="px-3 py-1 rounded text-sm font-medium bg-red-500 text-white">
-                                          Needs Work
-                                        </span>
-                                      </div>
-                                    </div>
-                                    <p className="mt-2 text-xs text-neutral-600">
-                                      Insufficient weight transfer to front foot. Tends to play with weight on back foot which reduces power and control.
-                                    </p>
-                                  </div>
-                                  
-                                  {/* Problem area 3 */}
-                                  <div className="border border-neutral-200 rounded p-3">
-                                    <div className="flex justify-between items-center">
-                                      <span className="font-medium">Bat Swing Path</span>
-                                      <div>
-                                        <span className="px-3 py-1 rounded text-sm font-medium bg-red-500 text-white">
-                                          Needs Work
-                                        </span>
-                                      </div>
-                                    </div>
-                                    <p className="mt-2 text-xs text-neutral-600">
-                                      Bat comes down at an angle instead of straight. Creates inside edge contact and limits shot direction.
-                                    </p>
-                                  </div>
-                                </>
+                                <p className="text-sm text-neutral-500 col-span-full text-center py-2">
+                                  No technical areas rated for this shot
+                                </p>
                               )}
                             </div>
                           </CollapsibleContent>
@@ -302,48 +266,91 @@ const AssessmentHistoryCard = ({ assessment }: { assessment: PerformanceAssessme
 
 const PlayerProfile = () => {
   const params = useParams<{ id: string }>();
-  const playerId = params.id ? parseInt(params.id) : 0;
+  const playerId = params.id || "";
   const { toast } = useToast();
   
   // State for note dialog
   const [newNote, setNewNote] = useState("");
   const [isAddingNote, setIsAddingNote] = useState(false);
-  const [localProfileNotes, setLocalProfileNotes] = useState<Array<{date: string, author: string, content: string}>>([]);
   
   // State for video filters
-  const [shotTypeFilter, setShotTypeFilter] = useState("All");
-  const [ballSpeedFilter, setBallSpeedFilter] = useState("All");
-  const [batConnectFilter, setBatConnectFilter] = useState("All");
-  const [footworkFilter, setFootworkFilter] = useState("All");
+  const [videoFilters, setVideoFilters] = useState<VideoFilterValues>({});
+  // Up to two videos picked for the comparison view
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const toggleCompare = (videoId: string) => {
+    setCompareIds(compareIds.includes(videoId)
+      ? compareIds.filter(id => id !== videoId)
+      : [...compareIds, videoId].slice(-2));
+  };
 
   // Query player videos will be handled below
 
   const { data: player, isLoading: isPlayerLoading } = useQuery<Player>({
     queryKey: [`/api/players/${playerId}`],
-    enabled: !isNaN(playerId)
+    enabled: !!playerId
   });
 
-  const { data: assessments, isLoading: isAssessmentsLoading } = useQuery<PerformanceAssessment[]>({
+  const { data: assessments, isLoading: isAssessmentsLoading } = useQuery<Assessment[]>({
     queryKey: [`/api/players/${playerId}/assessments`],
-    enabled: !isNaN(playerId)
+    enabled: !!playerId
   });
 
-  // Get the latest assessment ID for chart metrics
-  const latestAssessmentId = assessments && assessments.length > 0 ? assessments[0].id : undefined;
-  
-  // Fetch metrics for the latest assessment to use in the performance chart
-  const { data: chartMetrics, isLoading: isMetricsLoading } = useQuery<PerformanceMetric[]>({
-    queryKey: [`/api/assessments/${latestAssessmentId}/metrics`],
-    enabled: !isNaN(playerId) && latestAssessmentId !== undefined
+  // Every note for the player, newest first
+  const { data: notes = [] } = useQuery<Note[]>({
+    queryKey: [`/api/players/${playerId}/notes`],
+    enabled: !!playerId
   });
+
+  const { data: rubric, isLoading: isRubricLoading } = useQuery<RubricTemplate>({
+    queryKey: [`/api/players/${playerId}/rubric`],
+    enabled: !!playerId
+  });
+
+  // Every assessment with its metrics and problem areas, for the progression chart
+  const fullAssessmentQueries = useQueries({
+    queries: (assessments ?? []).map(assessment => ({
+      queryKey: [`/api/assessments/${assessment.id}`]
+    }))
+  });
+  const isMetricsLoading = fullAssessmentQueries.some(query => query.isLoading);
+  const chartAssessments = fullAssessmentQueries
+    .map(query => query.data as FullAssessment | undefined)
+    .filter((assessment): assessment is FullAssessment => !!assessment);
   
   // Query player videos for the video library section
-  const { data: playerVideos, isLoading: isVideosLoading } = useQuery<Video[]>({
-    queryKey: [`/api/players/${playerId}/videos`],
-    enabled: !isNaN(playerId)
-  });
+  const videoSearch = useVideoSearch({ playerId, filters: videoFilters });
+  const hasVideoFilters = Object.values(videoFilters).some(Boolean);
 
-  const isLoading = isPlayerLoading || isAssessmentsLoading || isMetricsLoading || isVideosLoading;
+  const isLoading = isPlayerLoading || isAssessmentsLoading || isRubricLoading || isMetricsLoading;
+
+  const createNote = useMutation({
+    mutationFn: async (body: string) => {
+      const response = await apiRequest('POST', `/api/players/${playerId}/notes`, {
+        author: getCoachName(),
+        type: 'profile',
+        body
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewNote("");
+      setIsAddingNote(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/players/${playerId}/notes`] });
+
+      toast({
+        title: "Note added successfully",
+        description: "Your note has been added to the player's profile.",
+        variant: "default"
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add note",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
 
   // Function to handle adding a new note
   const handleAddNote = () => {
@@ -356,74 +363,9 @@ const PlayerProfile = () => {
       return;
     }
 
-    const today = new Date();
-    const newNoteObject = {
-      date: format(today, "MMMM d, yyyy"),
-      author: "Coach", // In a real app, this would be the logged-in coach's name
-      content: newNote.trim()
-    };
-
-    // Add the new note to the local state
-    // In a real application, this would be saved to the database
-    setLocalProfileNotes(prevNotes => [newNoteObject, ...prevNotes]);
-    
-    // Reset the note input and close the dialog
-    setNewNote("");
-    setIsAddingNote(false);
-    
-    toast({
-      title: "Note added successfully",
-      description: "Your note has been added to the player's profile.",
-      variant: "default"
-    });
+    createNote.mutate(newNote.trim());
   };
 
-  // Base profile notes - in a real app these would come from the API
-  const baseProfileNotes = [
-    {
-      date: "July 25, 2023",
-      author: "Coach Sharma",
-      content: "Rajiv has shown significant improvement in his straight drive. We need to focus on his weight transfer during cover drives in the upcoming sessions.",
-      type: "profile"
-    },
-    {
-      date: "July 18, 2023",
-      author: "Coach Patel",
-      content: "Noticed a technical issue with his bat swing - tends to close the face too early. Recommended additional drills to correct this.",
-      type: "profile"
-    }
-  ];
-  
-  // Session assessment notes
-  const sessionNotes = [
-    {
-      date: "July 10, 2023",
-      author: "Coach Sharma",
-      content: "Rajiv's reaction time has improved significantly. His ability to pick up the ball early has enhanced. Need to continue focus on foot movement.",
-      type: "assessment"
-    },
-    {
-      date: "June 28, 2023",
-      author: "Coach Patel",
-      content: "During today's session, Rajiv was able to execute the pull shot with much better control. Still needs to work on timing against faster deliveries.",
-      type: "assessment"
-    }
-  ];
-  
-  // Add type information to local notes
-  const typedLocalNotes = localProfileNotes.map(note => ({
-    ...note,
-    type: "profile" // New notes added from profile are "profile" type
-  }));
-  
-  // Combine all notes and sort by date (newest first)
-  const allNotes = [...typedLocalNotes, ...baseProfileNotes, ...sessionNotes];
-  const profileNotes = allNotes.sort((a, b) => {
-    return new Date(b.date).getTime() - new Date(a.date).getTime();
-  });
-
-
-
   return (
     <div className="container mx-auto px-4 py-6">
       <div className="flex items-center mb-6">
@@ -475,7 +417,13 @@ const PlayerProfile = () => {
                     <div className="flex justify-between items-start">
                       <div>
                         <h2 className="font-bold text-2xl">{player.name}</h2>
-                        <p className="text-neutral-300 mb-2">{player.batch} - Advanced</p>
+                        <p className="text-neutral-300 mb-2">
+                          {player.batch_id ? (
+                            <Link href={`/batches/${player.batch_id}`} className="hover:underline">{player.batch}</Link>
+                          ) : (
+                            player.batch || "No batch"
+                          )} - Advanced
+                        </p>
                         <div className="flex flex-wrap gap-4 text-sm">
                           <div>
                             <span className="font-bold">Age:</span> {player.age || "N/A"}
@@ -555,7 +503,7 @@ const PlayerProfile = () => {
                               >
                                 Cancel
                               </Button>
-                              <Button onClick={handleAddNote}>
+                              <Button onClick={handleAddNote} disabled={createNote.isPending}>
                                 Save Note
                               </Button>
                             </DialogFooter>
@@ -564,34 +512,19 @@ const PlayerProfile = () => {
                       </div>
                       
                       {/* Show only latest note by default */}
-                      {profileNotes.length > 0 ? (
+                      {notes.length > 0 ? (
                         <Collapsible className="w-full">
                           <div className="border border-neutral-200 rounded-lg p-4 bg-neutral-50">
                             {/* Latest Note (always visible) */}
                             <div className="border-b border-neutral-100 pb-3 mb-2">
-                              <div className="flex justify-between items-center mb-1">
-                                <div className="flex items-center gap-2">
-                                  <span className="font-medium text-primary">{profileNotes[0].author}</span>
-                                  {profileNotes[0].type === 'profile' ? (
-                                    <span className="text-xs px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full">
-                                      Profile Note
-                                    </span>
-                                  ) : (
-                                    <span className="text-xs px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full">
-                                      Session Assessment
-                                    </span>
-                                  )}
-                                </div>
-                                <span className="text-sm text-neutral-500">{profileNotes[0].date}</span>
-                              </div>
-                              <p className="text-sm">{profileNotes[0].content}</p>
+                              <NoteItem key={notes[0].id} note={notes[0]} />
                             </div>
                             
                             {/* Show more notes button (only if there are more notes) */}
-                            {profileNotes.length > 1 && (
+                            {notes.length > 1 && (
                               <CollapsibleTrigger asChild>
                                 <Button variant="ghost" size="sm" className="w-full text-sm">
-                                  <span>View {profileNotes.length - 1} more notes</span>
+                                  <span>View {notes.length - 1} more notes</span>
                                   <svg
                                     xmlns="http://www.w3.org/2000/svg"
                                     width="16"
@@ -613,24 +546,9 @@ const PlayerProfile = () => {
                             {/* More notes (collapsed by default) */}
                             <CollapsibleContent>
                               <div className="space-y-4 pt-2">
-                                {profileNotes.slice(1).map((note, index) => (
-                                  <div key={index} className="border-b border-neutral-100 pb-3 last:border-0 last:pb-0">
-                                    <div className="flex justify-between items-center mb-1">
-                                      <div className="flex items-center gap-2">
-                                        <span className="font-medium text-primary">{note.author}</span>
-                                        {note.type === 'profile' ? (
-                                          <span className="text-xs px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full">
-                                            Profile Note
-                                          </span>
-                                        ) : (
-                                          <span className="text-xs px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full">
-                                            Session Assessment
-                                          </span>
-                                        )}
-                                      </div>
-                                      <span className="text-sm text-neutral-500">{note.date}</span>
-                                    </div>
-                                    <p className="text-sm">{note.content}</p>
+                                {notes.slice(1).map(note => (
+                                  <div key={note.id} className="border-b border-neutral-100 pb-3 last:border-0 last:pb-0">
+                                    <NoteItem note={note} />
                                   </div>
                                 ))}
                               </div>
@@ -656,14 +574,18 @@ const PlayerProfile = () => {
       )}
 
       {/* Performance Progression Chart */}
-      {!isLoading && assessments && assessments.length > 0 && chartMetrics && (
+      {!isLoading && chartAssessments.length > 0 && rubric && (
         <PerformanceChart 
-          assessments={assessments} 
-          metrics={chartMetrics}
+          assessments={chartAssessments} 
+          rubric={rubric}
           className="mb-6"
         />
       )}
       
+      {player && <PlayerAttendance playerId={player.id} className="mb-6" />}
+
+      {player && <PlayerPracticePlan playerId={player.id} latestAssessmentId={assessments?.[0]?.id} className="mb-6" />}
+
       {/* Weekly Performance Assessment History */}
       <h3 className="text-xl font-bold text-neutral-400 mb-4">Weekly Performance Assessment History</h3>
       
@@ -708,11 +630,14 @@ const PlayerProfile = () => {
       ) : (
         <div className="space-y-6">
           {assessments && assessments
-            .sort((a, b) => new Date(b.weekStart).getTime() - new Date(a.weekStart).getTime())
-            .map((assessment) => (
+            .sort((a, b) => new Date(assessmentWeekStart(b)).getTime() - new Date(assessmentWeekStart(a)).getTime())
+            .map((assessment, index) => (
               <AssessmentHistoryCard 
                 key={assessment.id}
                 assessment={assessment}
+                isLatest={index === 0}
+                playerRubric={rubric}
+                notes={notes.filter(note => note.assessment_id === assessment.id)}
               />
             ))
           }
@@ -725,138 +650,90 @@ const PlayerProfile = () => {
           <CardContent className="p-6">
             <div className="flex justify-between items-center mb-4">
               <h3 className="text-xl font-bold">Video Library</h3>
+              {compareIds.length > 0 && (
+                <Button asChild variant="outline" size="sm">
+                  <Link href={`/compare?a=${compareIds[0]}${compareIds[1] ? `&b=${compareIds[1]}` : ""}`}>
+                    Compare {compareIds.length === 2 ? "Selected" : "With..."}
+                  </Link>
+                </Button>
+              )}
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
               <div className="md:col-span-1 p-4 bg-gray-50 rounded-lg">
                 <h4 className="font-medium mb-3 text-sm text-gray-700">Filter Videos</h4>
                 
-                {/* Shot Type Filter */}
-                <div className="mb-2">
-                  <Label htmlFor="shot-type" className="block mb-1 text-xs">Shot Type</Label>
-                  <select
-                    id="shot-type"
-                    className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
-                    value={shotTypeFilter}
-                    onChange={(e) => setShotTypeFilter(e.target.value)}
-                  >
-                    <option value="All">All</option>
-                    <option value="Cover Drive">Cover Drive</option>
-                    <option value="Straight Drive">Straight Drive</option>
-                    <option value="Pull Shot">Pull Shot</option>
-                    <option value="Cut Shot">Cut Shot</option>
-                    <option value="Defensive">Defensive</option>
-                  </select>
-                </div>
-                
-                {/* Ball Speed Filter */}
-                <div className="mb-2">
-                  <Label htmlFor="ball-speed" className="block mb-1 text-xs">Ball Speed</Label>
-                  <select
-                    id="ball-speed"
-                    className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
-                    value={ballSpeedFilter}
-                    onChange={(e) => setBallSpeedFilter(e.target.value)}
-                  >
-                    <option value="All">All</option>
-                    <option value="Fast">Fast</option>
-                    <option value="Medium">Medium</option>
-                    <option value="Slow">Slow</option>
-                  </select>
-                </div>
-                
-                {/* Bat Connect Filter */}
-                <div className="mb-2">
-                  <Label htmlFor="bat-connect" className="block mb-1 text-xs">Bat Connect</Label>
-                  <select
-                    id="bat-connect"
-                    className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
-                    value={batConnectFilter}
-                    onChange={(e) => setBatConnectFilter(e.target.value)}
-                  >
-                    <option value="All">All</option>
-                    <option value="Middle">Middle</option>
-                    <option value="Edge">Edge</option>
-                    <option value="Bottom">Bottom</option>
-                    <option value="Missed">Missed</option>
-                  </select>
-                </div>
-                
-                {/* Foot Movement Filter */}
-                <div className="mb-2">
-                  <Label htmlFor="footwork" className="block mb-1 text-xs">Foot Movement</Label>
-                  <select
-                    id="footwork"
-                    className="w-full px-2 py-1 text-sm border border-neutral-200 rounded"
-                    value={footworkFilter}
-                    onChange={(e) => setFootworkFilter(e.target.value)}
-                  >
-                    <option value="All">All</option>
-                    <option value="Good">Good</option>
-                    <option value="Average">Average</option>
-                    <option value="Poor">Poor</option>
-                  </select>
-                </div>
+                <VideoFilters
+                  fields={VIDEO_FILTER_FIELDS}
+                  value={videoFilters}
+                  onChange={setVideoFilters}
+                  facets={videoSearch.facets}
+                />
               </div>
               
               <div className="md:col-span-3">
-                {playerVideos && playerVideos.length > 0 ? (
-                  <div className="flex overflow-x-auto gap-3 pb-2">
-                    {playerVideos.filter(video => {
-                      // Apply filters
-                      if (shotTypeFilter !== "All" && video.shotType !== shotTypeFilter) return false;
-                      if (ballSpeedFilter !== "All" && video.ballSpeed !== ballSpeedFilter) return false;
-                      if (batConnectFilter !== "All" && video.batConnect !== batConnectFilter) return false;
-                      return true;
-                    }).map((video) => (
-                      <div key={video.id} className="flex-shrink-0 w-48 border border-neutral-200 rounded overflow-hidden">
-                        <VideoPlayer 
-                          videoUrl={`/uploads/${video.url}`} 
-                          title={video.title}
-                          className="w-full"
-                          triggerClassName="w-full h-24 relative bg-gray-200"
-                          initialTags={{
-                            shotType: video.shotType || "",
-                            ballSpeed: video.ballSpeed || "",
-                            reactionTime: "",
-                            batConnect: video.batConnect || "",
-                            batSwing: ""
-                          }}
-                          onTagsUpdate={(tags) => {
-                            toast({
-                              title: "Video Tags Updated",
-                              description: "The tags for this video have been updated successfully."
-                            });
-                          }}
-                        />
-                        <div className="p-2">
-                          <div className="flex flex-wrap gap-1">
-                            {video.shotType && (
-                              <span className="text-xs bg-blue-100 text-blue-800 px-1 rounded">{video.shotType}</span>
-                            )}
-                            {video.ballSpeed && (
-                              <span className="text-xs bg-green-100 text-green-800 px-1 rounded">{video.ballSpeed} Ball</span>
-                            )}
-                            {video.batConnect && (
-                              <span className="text-xs bg-yellow-100 text-yellow-800 px-1 rounded">{video.batConnect} Connect</span>
-                            )}
+                {videoSearch.total > 0 || hasVideoFilters ? (
+                  <>
+                    <div className="flex overflow-x-auto gap-3 pb-2">
+                      {videoSearch.videos.map((video) => (
+                        <div key={video.id} className="flex-shrink-0 w-48 border border-neutral-200 rounded overflow-hidden">
+                          <VideoPlayer 
+                            videoUrl={video.file_url} 
+                            thumbnail={video.thumbnail_url}
+                            sprite={video.sprite_url}
+                            duration={video.duration}
+                            processingStatus={video.processing_status}
+                            title={video.title}
+                            className="w-full"
+                            triggerClassName="w-full h-24 relative bg-gray-200"
+                            videoId={video.id}
+                            initialTags={videoTags(video)}
+                          />
+                          <div className="p-2">
+                            <label className="flex items-center gap-1 mb-1 text-xs text-gray-600 cursor-pointer">
+                              <Checkbox
+                                checked={compareIds.includes(video.id)}
+                                onCheckedChange={() => toggleCompare(video.id)}
+                              />
+                              Compare
+                            </label>
+                            <div className="flex flex-wrap gap-1">
+                              {video.shot_type && (
+                                <span className="text-xs bg-blue-100 text-blue-800 px-1 rounded">{video.shot_type}</span>
+                              )}
+                              {video.ball_speed && (
+                                <span className="text-xs bg-green-100 text-green-800 px-1 rounded">{videoTagChip("ball_speed", video.ball_speed)}</span>
+                              )}
+                              {video.bat_connect && (
+                                <span className="text-xs bg-yellow-100 text-yellow-800 px-1 rounded">{videoTagChip("bat_connect", video.bat_connect)}</span>
+                              )}
+                              {video.footwork && (
+                                <span className="text-xs bg-purple-100 text-purple-800 px-1 rounded">{videoTagChip("footwork", video.footwork)}</span>
+                              )}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    ))}
+                      ))}
                     
-                    {/* Fallback for when all videos are filtered out */}
-                    {playerVideos.filter(video => {
-                      if (shotTypeFilter !== "All" && video.shotType !== shotTypeFilter) return false;
-                      if (ballSpeedFilter !== "All" && video.ballSpeed !== ballSpeedFilter) return false;
-                      if (batConnectFilter !== "All" && video.batConnect !== batConnectFilter) return false;
-                      return true;
-                    }).length === 0 && (
-                      <div className="w-full text-center py-8">
-                        <p className="text-gray-500">No videos match your filter criteria. Try adjusting your filters.</p>
-                      </div>
+                      {/* Fallback for when all videos are filtered out */}
+                      {!videoSearch.isLoading && videoSearch.videos.length === 0 && (
+                        <div className="w-full text-center py-8">
+                          <p className="text-gray-500">No videos match your filter criteria. Try adjusting your filters.</p>
+                        </div>
+                      )}
+                    </div>
+                    {videoSearch.hasNextPage && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        disabled={videoSearch.isFetchingNextPage}
+                        onClick={() => videoSearch.fetchNextPage()}
+                      >
+                        {videoSearch.isFetchingNextPage ? "Loading..." : `Load more (${videoSearch.videos.length} of ${videoSearch.total})`}
+                      </Button>
                     )}
-                  </div>
+                  </>
                 ) : (
                   <div className="flex overflow-x-auto gap-3 pb-2">
                     <div className="flex-shrink-0 w-48 border border-neutral-200 rounded overflow-hidden">
@@ -866,11 +743,11 @@ const PlayerProfile = () => {
                         className="w-full"
                         triggerClassName="w-full h-24 relative bg-gray-200"
                         initialTags={{
-                          shotType: "Cover Drive",
-                          ballSpeed: "Medium",
-                          reactionTime: "Fast",
-                          batConnect: "Middle",
-                          batSwing: "Good"
+                          shot_type: "Cover Drive",
+                          ball_speed: "Medium",
+                          reaction_time: "Fast",
+                          bat_connect: "Middle",
+                          bat_swing: "Good"
                         }}
                       />
                       <div className="p-2">
@@ -888,11 +765,11 @@ const PlayerProfile = () => {
                         className="w-full"
                         triggerClassName="w-full h-24 relative bg-gray-200"
                         initialTags={{
-                          shotType: "Pull Shot",
-                          ballSpeed: "Fast",
-                          reactionTime: "Fast",
-                          batConnect: "Middle",
-                          batSwing: "Good"
+                          shot_type: "Pull Shot",
+                          ball_speed: "Fast",
+                          reaction_time: "Fast",
+                          bat_connect: "Middle",
+                          bat_swing: "Good"
                         }}
                       />
                       <div className="p-2">
@@ -910,11 +787,11 @@ const PlayerProfile = () => {
                         className="w-full"
                         triggerClassName="w-full h-24 relative bg-gray-200"
                         initialTags={{
-                          shotType: "Off Drive",
-                          ballSpeed: "Slow",
-                          reactionTime: "Slow",
-                          batConnect: "Edge",
-                          batSwing: "Average"
+                          shot_type: "Off Drive",
+                          ball_speed: "Slow",
+                          reaction_time: "Slow",
+                          bat_connect: "Edge",
+                          bat_swing: "Average"
                         }}
                       />
                       <div className="p-2">
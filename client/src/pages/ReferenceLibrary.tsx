@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import VideoPlayer from "@/components/VideoPlayer";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { videoTagOptions, videoTags } from "@/lib/videoTags";
+import { BATTING_HANDS } from "@shared/schema";
+import type { Video } from "@shared/schema";
+
+const ALL = "all";
+const EITHER_HAND = "either";
+
+// Coach-curated model clips per shot type and batting hand. Key points are added as
+// annotations in the player; the clips are suggested next to players' videos of the
+// same shot type.
+const ReferenceLibrary = () => {
+  const { toast } = useToast();
+  const [shotType, setShotType] = useState(ALL);
+  const [handedness, setHandedness] = useState(ALL);
+
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState("");
+  const [uploadShotType, setUploadShotType] = useState("");
+  const [uploadHandedness, setUploadHandedness] = useState(EITHER_HAND);
+  const [techniqueFocus, setTechniqueFocus] = useState("");
+
+  const params = new URLSearchParams();
+  if (shotType !== ALL) params.set("shot_type", shotType);
+  if (handedness !== ALL) params.set("handedness", handedness);
+
+  const { data: references = [], isLoading } = useQuery<Video[]>({
+    queryKey: ["/api/references", params.toString()],
+    queryFn: async () => {
+      const response = await fetch(`/api/references?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load reference clips: ${response.status}`);
+      }
+      return response.json();
+    },
+  });
+
+  const resetUpload = () => {
+    setFile(null);
+    setTitle("");
+    setUploadShotType("");
+    setUploadHandedness(EITHER_HAND);
+    setTechniqueFocus("");
+  };
+
+  const uploadReference = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("video", file!);
+      formData.append("title", title.trim() || file!.name);
+      formData.append("shot_type", uploadShotType);
+      if (uploadHandedness !== EITHER_HAND) formData.append("handedness", uploadHandedness);
+      if (techniqueFocus.trim()) formData.append("technique_focus", techniqueFocus.trim());
+
+      const response = await fetch("/api/references/upload", { method: "POST", body: formData });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.details?.join(", ") || body?.error || `Upload failed: ${response.status}`);
+      }
+      return response.json() as Promise<Video>;
+    },
+    onSuccess: () => {
+      toast({ title: "Reference clip added", description: "Open it to mark the key points of the technique." });
+      queryClient.invalidateQueries({ queryKey: ["/api/references"] });
+      resetUpload();
+      setIsUploadOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add reference clip", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h1 className="text-2xl font-bold">Technique Library</h1>
+          <p className="text-sm text-gray-500">Model clips to compare players' shots against</p>
+        </div>
+
+        <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
+          <DialogTrigger asChild>
+            <Button>Add Reference Clip</Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Reference Clip</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-3">
+              <div>
+                <Label htmlFor="reference-file">Video</Label>
+                <Input id="reference-file" type="file" accept="video/*" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+              </div>
+              <div>
+                <Label htmlFor="reference-title">Title</Label>
+                <Input id="reference-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Cover drive, front-on view" />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Shot Type</Label>
+                  <Select value={uploadShotType} onValueChange={setUploadShotType}>
+                    <SelectTrigger><SelectValue placeholder="Select shot type" /></SelectTrigger>
+                    <SelectContent>
+                      {videoTagOptions("shot_type").map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Batting Hand</Label>
+                  <Select value={uploadHandedness} onValueChange={setUploadHandedness}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={EITHER_HAND}>Either hand</SelectItem>
+                      {BATTING_HANDS.map(hand => (
+                        <SelectItem key={hand} value={hand}>{hand}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="reference-focus">Technique Focus (optional)</Label>
+                <Input id="reference-focus" value={techniqueFocus} onChange={(e) => setTechniqueFocus(e.target.value)} placeholder="e.g. Head over the front knee" />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsUploadOpen(false)}>Cancel</Button>
+              <Button
+                disabled={!file || !uploadShotType || uploadReference.isPending}
+                onClick={() => uploadReference.mutate()}
+              >
+                {uploadReference.isPending ? "Uploading..." : "Add Clip"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-wrap gap-3 mb-4">
+            <Select value={shotType} onValueChange={setShotType}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All shot types</SelectItem>
+                {videoTagOptions("shot_type").map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={handedness} onValueChange={setHandedness}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Both hands</SelectItem>
+                {BATTING_HANDS.map(hand => (
+                  <SelectItem key={hand} value={hand}>{hand}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <p className="text-gray-500">Loading reference clips...</p>
+          ) : references.length === 0 ? (
+            <p className="text-gray-500 py-8 text-center">
+              No reference clips{shotType !== ALL || handedness !== ALL ? " match these filters" : " yet"}.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {references.map(reference => (
+                <div key={reference.id} className="border border-neutral-200 rounded overflow-hidden">
+                  <VideoPlayer
+                    videoUrl={reference.file_url}
+                    thumbnail={reference.thumbnail_url}
+                    sprite={reference.sprite_url}
+                    duration={reference.duration}
+                    processingStatus={reference.processing_status}
+                    title={reference.title}
+                    className="w-full"
+                    triggerClassName="w-full h-32 relative bg-gray-200"
+                    videoId={reference.id}
+                    initialTags={videoTags(reference)}
+                  />
+                  <div className="p-2">
+                    <p className="text-sm font-medium truncate">{reference.title}</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {reference.shot_type && (
+                        <span className="text-xs bg-blue-100 text-blue-800 px-1 rounded">{reference.shot_type}</span>
+                      )}
+                      <span className="text-xs bg-neutral-100 text-neutral-700 px-1 rounded">{reference.handedness ?? "Either hand"}</span>
+                    </div>
+                    {reference.technique_focus && (
+                      <p className="text-xs text-gray-500 mt-1">{reference.technique_focus}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ReferenceLibrary;
@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  addMonths, addWeeks, eachDayOfInterval, endOfMonth, endOfWeek, format, isSameMonth, isToday, startOfMonth, startOfWeek,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import ScheduleSessionDialog from "@/components/ScheduleSessionDialog";
+import ScheduleTemplateForm from "@/components/ScheduleTemplateForm";
+import { useToast } from "@/hooks/use-toast";
+import { getCoachName } from "@/lib/coach";
+import { formatEntryTime, formatPlace, refreshSchedule, sendSchedule } from "@/lib/schedule";
+import type { Batch, ScheduleEntry, ScheduleTemplate } from "@shared/schema";
+
+const ALL = "all";
+const WEEK_STARTS_ON = 1; // Monday, as in batch timetables
+
+type CalendarView = "month" | "week";
+
+// Month / week calendar of recurring and one-off sessions, with the recurring
+// templates and calendar feed links below it
+const Schedule = () => {
+  const { toast } = useToast();
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(new Date());
+  const [batchId, setBatchId] = useState(ALL);
+  const [coach, setCoach] = useState("");
+  const [feedCoach, setFeedCoach] = useState(getCoachName());
+  const [selectedEntry, setSelectedEntry] = useState<ScheduleEntry | undefined>();
+  const [newSessionDate, setNewSessionDate] = useState<string | null>(null);
+  const [editingTemplate, setEditingTemplate] = useState<ScheduleTemplate | undefined>();
+  const [isTemplateFormOpen, setIsTemplateFormOpen] = useState(false);
+
+  const first = view === "month"
+    ? startOfWeek(startOfMonth(cursor), { weekStartsOn: WEEK_STARTS_ON })
+    : startOfWeek(cursor, { weekStartsOn: WEEK_STARTS_ON });
+  const last = view === "month"
+    ? endOfWeek(endOfMonth(cursor), { weekStartsOn: WEEK_STARTS_ON })
+    : endOfWeek(cursor, { weekStartsOn: WEEK_STARTS_ON });
+  const days = eachDayOfInterval({ start: first, end: last });
+
+  const params = new URLSearchParams({ from: format(first, "yyyy-MM-dd"), to: format(last, "yyyy-MM-dd") });
+  if (batchId !== ALL) params.set("batch_id", batchId);
+  if (coach.trim()) params.set("coach", coach.trim());
+
+  const { data: entries = [], isLoading } = useQuery<ScheduleEntry[]>({
+    queryKey: ["/api/schedule", params.toString()],
+    queryFn: async () => {
+      const response = await fetch(`/api/schedule?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load schedule: ${response.status}`);
+      }
+      return response.json();
+    },
+  });
+  const { data: batches = [] } = useQuery<Batch[]>({ queryKey: ["/api/batches"] });
+  const { data: templates = [] } = useQuery<ScheduleTemplate[]>({ queryKey: ["/api/schedule/templates"] });
+
+  const batchName = (id: string | null) => batches.find(batch => batch.id === id)?.name;
+
+  const deleteTemplate = useMutation({
+    mutationFn: (template: ScheduleTemplate) => sendSchedule<void>("DELETE", `/api/schedule/templates/${template.id}`),
+    onSuccess: () => {
+      toast({ title: "Recurring session removed" });
+      refreshSchedule();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to remove recurring session", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const move = (step: number) =>
+    setCursor(date => (view === "month" ? addMonths(date, step) : addWeeks(date, step)));
+
+  const openTemplateForm = (template?: ScheduleTemplate) => {
+    setEditingTemplate(template);
+    setIsTemplateFormOpen(true);
+  };
+
+  const feedUrl = (path: string) => `${window.location.origin}${path}`;
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Schedule</h1>
+          <p className="text-sm text-gray-500">Training sessions, nets and venue bookings</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setNewSessionDate(format(new Date(), "yyyy-MM-dd"))}>One-off Session</Button>
+          <Button onClick={() => openTemplateForm()}>Recurring Session</Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <Button variant="outline" size="sm" onClick={() => move(-1)}>Previous</Button>
+            <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>Today</Button>
+            <Button variant="outline" size="sm" onClick={() => move(1)}>Next</Button>
+            <h2 className="font-semibold text-lg">
+              {view === "month" ? format(cursor, "MMMM yyyy") : `${format(first, "MMM d")} - ${format(last, "MMM d, yyyy")}`}
+            </h2>
+            <div className="flex-grow" />
+            <Select value={batchId} onValueChange={setBatchId}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All batches</SelectItem>
+                {batches.map(batch => (
+                  <SelectItem key={batch.id} value={batch.id}>{batch.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input className="w-40" value={coach} onChange={(e) => setCoach(e.target.value)} placeholder="Any coach" />
+            <ToggleGroup type="single" variant="outline" size="sm" value={view} onValueChange={(value) => value && setView(value as CalendarView)}>
+              <ToggleGroupItem value="month">Month</ToggleGroupItem>
+              <ToggleGroupItem value="week">Week</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          <div className="grid grid-cols-7 border-t border-l border-neutral-200 text-sm">
+            {days.slice(0, 7).map(day => (
+              <div key={day.toISOString()} className="border-r border-b border-neutral-200 bg-neutral-50 px-2 py-1 font-medium text-neutral-600">
+                {format(day, "EEE")}
+              </div>
+            ))}
+            {days.map(day => {
+              const date = format(day, "yyyy-MM-dd");
+              const dayEntries = entries.filter(entry => entry.date === date);
+              return (
+                <div
+                  key={date}
+                  className={`border-r border-b border-neutral-200 p-1 ${view === "month" ? "min-h-28" : "min-h-64"} ${
+                    view === "month" && !isSameMonth(day, cursor) ? "bg-neutral-50 text-neutral-400" : ""
+                  }`}
+                  onDoubleClick={() => setNewSessionDate(date)}
+                >
+                  <div className={`text-xs mb-1 ${isToday(day) ? "font-bold text-primary" : ""}`}>{format(day, "d")}</div>
+                  <div className="space-y-1">
+                    {dayEntries.map(entry => (
+                      <button
+                        key={entry.key}
+                        className={`w-full text-left rounded px-1 py-0.5 text-xs truncate ${
+                          entry.status === "cancelled"
+                            ? "bg-red-50 text-red-700 line-through"
+                            : entry.template_id ? "bg-primary/10 text-primary" : "bg-blue-100 text-blue-800"
+                        }`}
+                        title={[entry.name, formatEntryTime(entry), formatPlace(entry), batchName(entry.batch_id)].filter(Boolean).join(" · ")}
+                        onClick={() => setSelectedEntry(entry)}
+                      >
+                        <span className="font-medium">{entry.start_time ?? ""}</span> {entry.name}
+                        {view === "week" && (
+                          <span className="block text-[11px] text-neutral-600 no-underline">
+                            {[formatEntryTime(entry), formatPlace(entry)].filter(Boolean).join(" · ")}
+                          </span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          {isLoading && <p className="text-sm text-gray-500 mt-2">Loading schedule...</p>}
+          <p className="text-xs text-neutral-500 mt-2">Double-click a day to add a one-off session there.</p>
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Recurring Sessions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {templates.length === 0 ? (
+              <p className="text-gray-500">No recurring sessions yet.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {templates.map(template => (
+                  <li key={template.id} className="flex items-center justify-between gap-2">
+                    <div>
+                      <span className="font-medium">{template.name}</span>
+                      <span className="text-neutral-500"> · {batchName(template.batch_id)}</span>
+                      <div className="text-xs text-neutral-500">
+                        {template.days.map(day => day.slice(0, 3)).join("/")} {template.start_time}-{template.end_time}
+                        {template.venue ? ` · ${formatPlace(template)}` : ""}
+                        {` · from ${template.starts_on}${template.ends_on ? ` until ${template.ends_on}` : ""}`}
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openTemplateForm(template)}>Edit</Button>
+                      <Button variant="ghost" size="sm" disabled={deleteTemplate.isPending} onClick={() => deleteTemplate.mutate(template)}>
+                        Remove
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Calendar Feeds</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="text-neutral-600">Subscribe to these links in Google Calendar, Outlook or Apple Calendar.</p>
+            {batches.map(batch => (
+              <div key={batch.id} className="flex items-center justify-between gap-2">
+                <span>{batch.name}</span>
+                <a className="text-primary hover:underline truncate" href={feedUrl(`/api/batches/${batch.id}/schedule.ics`)}>
+                  {batch.name}.ics
+                </a>
+              </div>
+            ))}
+            <div>
+              <Label htmlFor="feed-coach">Coach</Label>
+              <div className="flex items-center gap-2">
+                <Input id="feed-coach" className="w-48" value={feedCoach} onChange={(e) => setFeedCoach(e.target.value)} />
+                {feedCoach.trim() && (
+                  <a
+                    className="text-primary hover:underline"
+                    href={feedUrl(`/api/coaches/${encodeURIComponent(feedCoach.trim())}/schedule.ics`)}
+                  >
+                    Coach feed
+                  </a>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ScheduleSessionDialog
+        open={!!selectedEntry}
+        onOpenChange={(open) => !open && setSelectedEntry(undefined)}
+        entry={selectedEntry}
+      />
+      <ScheduleSessionDialog
+        open={newSessionDate !== null}
+        onOpenChange={(open) => !open && setNewSessionDate(null)}
+        defaultDate={newSessionDate ?? undefined}
+      />
+      <ScheduleTemplateForm open={isTemplateFormOpen} onOpenChange={setIsTemplateFormOpen} template={editingTemplate} />
+    </div>
+  );
+};
+
+export default Schedule;
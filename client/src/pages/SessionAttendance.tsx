@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { ATTENDANCE_LABELS } from "@/lib/attendance";
+import { getCoachName } from "@/lib/coach";
+import { queryClient } from "@/lib/queryClient";
+import { formatPlace, sendSchedule } from "@/lib/schedule";
+import { ATTENDANCE_STATUSES } from "@shared/schema";
+import type { AttendanceSheetEntry, AttendanceStatus, Batch, Player, Session } from "@shared/schema";
+
+interface Mark {
+  status: AttendanceStatus | null;
+  arrival_time: string;
+  reason: string;
+}
+
+const toMark = (entry: AttendanceSheetEntry): Mark => ({
+  status: entry.record?.status ?? null,
+  arrival_time: entry.record?.arrival_time ?? "",
+  reason: entry.record?.reason ?? "",
+});
+
+// Check-in sheet for a session: the batch roster, one tap per player. Marking a
+// player late fills in the current time, which can be corrected.
+const SessionAttendance = () => {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [marks, setMarks] = useState<Record<string, Mark>>({});
+  const [newPlayerId, setNewPlayerId] = useState("");
+
+  const sheetUrl = `/api/sessions/${id}/attendance`;
+  const { data: session, isLoading } = useQuery<Session>({ queryKey: [`/api/sessions/${id}`] });
+  const { data: sheet } = useQuery<AttendanceSheetEntry[]>({ queryKey: [sheetUrl] });
+  const { data: allPlayers = [] } = useQuery<Player[]>({ queryKey: ["/api/players"] });
+  const { data: batches = [] } = useQuery<Batch[]>({ queryKey: ["/api/batches"] });
+
+  useEffect(() => {
+    if (!sheet) return;
+    setPlayers(sheet.map(entry => entry.player));
+    setMarks(Object.fromEntries(sheet.map(entry => [entry.player.id, toMark(entry)])));
+  }, [sheet]);
+
+  const setMark = (playerId: string, changes: Partial<Mark>) =>
+    setMarks(current => ({ ...current, [playerId]: { ...current[playerId], ...changes } }));
+
+  const setStatus = (playerId: string, status: AttendanceStatus | null) =>
+    setMark(playerId, {
+      status,
+      ...(status === "late" && !marks[playerId]?.arrival_time ? { arrival_time: format(new Date(), "HH:mm") } : {}),
+    });
+
+  const markAllPresent = () =>
+    setMarks(current => Object.fromEntries(players.map(player => [
+      player.id,
+      current[player.id]?.status ? current[player.id] : { status: "present" as const, arrival_time: "", reason: "" },
+    ])));
+
+  const addPlayer = () => {
+    const player = allPlayers.find(item => item.id === newPlayerId);
+    if (!player) return;
+    setPlayers(current => [...current, player]);
+    setMark(player.id, { status: "present", arrival_time: "", reason: "" });
+    setNewPlayerId("");
+  };
+
+  const marked = players.filter(player => marks[player.id]?.status);
+
+  const saveAttendance = useMutation({
+    mutationFn: () =>
+      sendSchedule<AttendanceSheetEntry[]>("PUT", sheetUrl, {
+        recorded_by: getCoachName(),
+        records: marked.map(player => {
+          const mark = marks[player.id];
+          return {
+            player_id: player.id,
+            status: mark.status,
+            arrival_time: mark.status === "late" ? mark.arrival_time || null : null,
+            reason: mark.status === "present" ? null : mark.reason.trim() || null,
+          };
+        }),
+      }),
+    onSuccess: () => {
+      toast({ title: "Attendance saved", description: `${marked.length} players recorded` });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({
+        predicate: query => typeof query.queryKey[0] === "string" && query.queryKey[0].endsWith("/attendance"),
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save attendance", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="container mx-auto px-4 py-6 text-gray-500">Loading session...</div>;
+  }
+
+  if (!session) {
+    return (
+      <div className="container mx-auto px-4 py-6">
+        <p className="text-gray-500">Session not found.</p>
+        <Link href="/schedule" className="text-primary hover:underline">Back to schedule</Link>
+      </div>
+    );
+  }
+
+  const batch = batches.find(item => item.id === session.batch_id);
+  const isCancelled = session.status === "cancelled";
+  const addable = allPlayers.filter(player => !players.some(listed => listed.id === player.id));
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-6">
+      <div>
+        <Link href="/schedule" className="text-sm text-primary hover:underline">Schedule</Link>
+        <h1 className="text-2xl font-bold">{session.name}</h1>
+        <p className="text-sm text-gray-500">
+          {[
+            format(new Date(`${session.date}T00:00:00`), "EEEE, MMMM d, yyyy"),
+            session.start_time && session.end_time ? `${session.start_time}-${session.end_time}` : null,
+            formatPlace(session),
+            batch?.name,
+          ].filter(Boolean).join(" · ")}
+        </p>
+        {isCancelled && (
+          <p className="text-sm text-red-600 mt-1">
+            This session was cancelled{session.cancel_reason ? `: ${session.cancel_reason}` : ""}. Attendance can't be taken.
+          </p>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Attendance</CardTitle>
+          <Button variant="outline" size="sm" disabled={isCancelled || players.length === 0} onClick={markAllPresent}>
+            Mark Rest Present
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {players.length === 0 ? (
+            <p className="text-gray-500 py-4 text-center">
+              {session.batch_id ? "No players in this batch." : "This session has no batch. Add the players who came below."}
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-500 border-b">
+                  <th className="py-2">Player</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2">Arrived</th>
+                  <th className="py-2">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {players.map(player => {
+                  const mark = marks[player.id] ?? { status: null, arrival_time: "", reason: "" };
+                  return (
+                    <tr key={player.id} className="border-b last:border-0">
+                      <td className="py-2">
+                        <Link href={`/players/${player.id}`} className="font-medium hover:underline">{player.name}</Link>
+                        {player.batch_id !== session.batch_id && (
+                          <div className="text-xs text-neutral-500">{player.batch || "No batch"}</div>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        <ToggleGroup
+                          type="single"
+                          variant="outline"
+                          size="sm"
+                          className="justify-start"
+                          disabled={isCancelled}
+                          value={mark.status ?? ""}
+                          onValueChange={(value) => setStatus(player.id, (value || null) as AttendanceStatus | null)}
+                        >
+                          {ATTENDANCE_STATUSES.map(status => (
+                            <ToggleGroupItem key={status} value={status}>{ATTENDANCE_LABELS[status]}</ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                      </td>
+                      <td className="py-2">
+                        {mark.status === "late" && (
+                          <Input
+                            type="time"
+                            className="w-28 h-8"
+                            value={mark.arrival_time}
+                            onChange={(e) => setMark(player.id, { arrival_time: e.target.value })}
+                          />
+                        )}
+                      </td>
+                      <td className="py-2">
+                        {mark.status && mark.status !== "present" && (
+                          <Input
+                            className="h-8"
+                            value={mark.reason}
+                            onChange={(e) => setMark(player.id, { reason: e.target.value })}
+                            placeholder="Optional"
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            <Select value={newPlayerId} onValueChange={setNewPlayerId} disabled={isCancelled}>
+              <SelectTrigger className="w-64"><SelectValue placeholder="Add a player..." /></SelectTrigger>
+              <SelectContent>
+                {addable.map(player => (
+                  <SelectItem key={player.id} value={player.id}>
+                    {player.name}{player.batch ? ` (${player.batch})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" disabled={!newPlayerId} onClick={addPlayer}>Add</Button>
+            <div className="flex-grow" />
+            <span className="text-sm text-neutral-500">{marked.length} of {players.length} marked</span>
+            <Button disabled={isCancelled || marked.length === 0 || saveAttendance.isPending} onClick={() => saveAttendance.mutate()}>
+              {saveAttendance.isPending ? "Saving..." : "Save Attendance"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SessionAttendance;
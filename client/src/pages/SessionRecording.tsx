@@ -1,38 +1,60 @@
 import { useState, useRef, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import VideoPlayer from "@/components/VideoPlayer";
-import type { Player } from "@shared/schema";
+import ClipEditor from "@/components/ClipEditor";
+import SessionHistory from "@/components/SessionHistory";
+import type { RecordingSelection } from "@/components/SessionHistory";
+import { uploadInChunks } from "@/lib/chunkedUpload";
+import type { Batch, Player, Session } from "@shared/schema";
+
+// Session picker value for creating a session from this recording
+const NEW_SESSION = "new";
 
 const SessionRecording = () => {
   const { toast } = useToast();
   
-  const [batchName, setBatchName] = useState("");
+  const [batchId, setBatchId] = useState("");
   const [isRecording, setIsRecording] = useState(false);
-  const [recordedChunks, setRecordedChunks] = useState<Blob[]>([]);
+  const [recording, setRecording] = useState<Blob | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [recordingTime, setRecordingTime] = useState(0);
   const [sessionTitle, setSessionTitle] = useState("");
+  // The recording is linked to a new session or one already planned
+  const [sessionId, setSessionId] = useState(NEW_SESSION);
+  const [focusAreas, setFocusAreas] = useState("");
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  // Kept after a failed save so trying again reuses the session and resumes the upload
+  const [pendingSave, setPendingSave] = useState<{ sessionId: string; uploadId?: string; fileUrl?: string } | null>(null);
+  // The recording being cut into per-player clips: the last saved one or one from the history
+  const [savedRecording, setSavedRecording] = useState<RecordingSelection | null>(null);
   
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const timerRef = useRef<number | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
   
   const { data: players } = useQuery<Player[]>({
     queryKey: ['/api/players'],
   });
   
-  // Find all unique batch names
-  const batchOptions = players ? Array.from(new Set(players.map(player => player.batch || ''))).filter(Boolean) : [];
+  const { data: sessions = [] } = useQuery<Session[]>({
+    queryKey: ['/api/sessions'],
+  });
+  
+  const { data: batchOptions = [] } = useQuery<Batch[]>({
+    queryKey: ['/api/batches'],
+  });
   
   // Filter players by selected batch
-  const batchPlayers = players ? players.filter(player => player.batch === batchName) : [];
+  const batchPlayers = players ? players.filter(player => player.batch_id === batchId) : [];
   
   useEffect(() => {
     return () => {
@@ -54,7 +76,7 @@ const SessionRecording = () => {
   };
   
   const startRecording = async () => {
-    if (!batchName) {
+    if (!batchId) {
       toast({
         title: "Batch selection required",
         description: "Please select a batch before starting the recording.",
@@ -73,15 +95,19 @@ const SessionRecording = () => {
       const mediaRecorder = new MediaRecorder(stream);
       mediaRecorderRef.current = mediaRecorder;
       
+      chunksRef.current = [];
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          setRecordedChunks(prev => [...prev, event.data]);
+          chunksRef.current.push(event.data);
         }
       };
       
       mediaRecorder.onstop = () => {
-        const blob = new Blob(recordedChunks, { type: 'video/mp4' });
+        // Labelled with the format the browser actually recorded (usually WebM)
+        const blob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || 'video/webm' });
         const url = URL.createObjectURL(blob);
+        setRecording(blob);
+        setPendingSave(null);
         setPreviewUrl(url);
         
         // Clean up media stream
@@ -123,7 +149,7 @@ const SessionRecording = () => {
   };
   
   const handleSaveRecording = async () => {
-    if (!previewUrl || !sessionTitle || !batchName) {
+    if (!recording || !sessionTitle.trim() || !batchId) {
       toast({
         title: "Missing information",
         description: "Please provide a title for this session recording.",
@@ -132,22 +158,80 @@ const SessionRecording = () => {
       return;
     }
     
-    // Create a form to send the video file
-    const formData = new FormData();
-    const videoBlob = new Blob(recordedChunks, { type: 'video/mp4' });
-    formData.append('video', videoBlob, `${sessionTitle.replace(/\s+/g, '_')}.mp4`);
-    formData.append('title', sessionTitle);
-    formData.append('batch', batchName);
-    
-    toast({
-      title: "Success!",
-      description: "Your session has been saved. You can view it in the session history below.",
-    });
-    
-    // Clear recording state
-    setPreviewUrl(null);
-    setRecordedChunks([]);
-    setSessionTitle("");
+    let save = pendingSave;
+    try {
+      setUploadProgress(0);
+      
+      if (!save && sessionId !== NEW_SESSION) {
+        save = { sessionId };
+        setPendingSave(save);
+      }
+      if (!save) {
+        const response = await apiRequest("POST", "/api/sessions", {
+          name: sessionTitle.trim(),
+          date: format(new Date(), "yyyy-MM-dd"),
+          participants: batchPlayers.map(player => player.name),
+          duration_minutes: Math.max(1, Math.round(recordingTime / 60)),
+          focus_areas: focusAreas.split(",").map(area => area.trim()).filter(Boolean),
+        });
+        const session: Session = await response.json();
+        save = { sessionId: session.id };
+        setPendingSave(save);
+      }
+      
+      // Uploaded in chunks so a long recording survives a dropped connection
+      if (!save.fileUrl) {
+        const extension = recording.type.includes("mp4") ? "mp4" : "webm";
+        const { file_url } = await uploadInChunks(recording, {
+          file_name: `${sessionTitle.trim().replace(/\s+/g, '_')}.${extension}`,
+          content_type: recording.type.split(";")[0] || "video/webm",
+          session_id: save.sessionId,
+        }, {
+          uploadId: save.uploadId,
+          onStart: (upload) => {
+            save = { ...save!, uploadId: upload.id };
+            setPendingSave(save);
+          },
+          onProgress: (uploaded, total) => setUploadProgress(Math.round((uploaded / total) * 100)),
+        });
+        save = { ...save, fileUrl: file_url };
+        setPendingSave(save);
+      }
+      
+      await apiRequest("POST", `/api/sessions/${save.sessionId}/recordings`, {
+        file_url: save.fileUrl,
+        title: sessionTitle.trim(),
+        duration: recordingTime,
+      });
+      
+      toast({
+        title: "Success!",
+        description: "Your session has been saved. Cut it into clips for each player below.",
+      });
+      
+      setSavedRecording({ sessionId: save.sessionId, title: sessionTitle.trim(), fileUrl: save.fileUrl! });
+      
+      // Clear recording state
+      setPreviewUrl(null);
+      setRecording(null);
+      setPendingSave(null);
+      setSessionTitle("");
+      setSessionId(NEW_SESSION);
+      setFocusAreas("");
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/sessions/${save.sessionId}/recordings`] });
+    } catch (error) {
+      console.error("Error saving session recording:", error);
+      toast({
+        title: "Save failed",
+        description: save?.uploadId
+          ? "The upload was interrupted. Save again to resume where it stopped."
+          : "There was a problem saving the session. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setUploadProgress(null);
+    }
   };
   
   return (
@@ -169,21 +253,21 @@ const SessionRecording = () => {
             <div className="space-y-4">
               <div>
                 <Label htmlFor="batch">Select Batch</Label>
-                <Select value={batchName} onValueChange={setBatchName}>
+                <Select value={batchId} onValueChange={setBatchId}>
                   <SelectTrigger id="batch">
                     <SelectValue placeholder="Choose a batch" />
                   </SelectTrigger>
                   <SelectContent>
                     {batchOptions.map((batch) => (
-                      <SelectItem key={batch} value={batch}>
-                        {batch}
+                      <SelectItem key={batch.id} value={batch.id}>
+                        {batch.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
               
-              {batchName && (
+              {batchId && (
                 <div>
                   <h3 className="font-semibold mb-2">Players in this batch:</h3>
                   <div className="bg-neutral-50 p-3 rounded-md max-h-40 overflow-y-auto space-y-1">
@@ -198,19 +282,58 @@ const SessionRecording = () => {
               
               {previewUrl && (
                 <div className="space-y-3">
-                  <Label htmlFor="title">Session Title</Label>
+                  <Label htmlFor="session">Session</Label>
+                  <Select
+                    value={sessionId}
+                    disabled={pendingSave !== null}
+                    onValueChange={(value) => {
+                      setSessionId(value);
+                      const session = sessions.find(s => s.id === value);
+                      if (session && !sessionTitle) setSessionTitle(session.name);
+                    }}
+                  >
+                    <SelectTrigger id="session">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_SESSION}>New session</SelectItem>
+                      {sessions.filter(session => session.status !== "cancelled").map((session) => (
+                        <SelectItem key={session.id} value={session.id}>
+                          {session.name} ({session.date})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Label htmlFor="title">{sessionId === NEW_SESSION ? "Session Title" : "Recording Title"}</Label>
                   <Input 
                     id="title" 
-                    placeholder="Enter a title for this session"
+                    placeholder={sessionId === NEW_SESSION ? "Enter a title for this session" : "Enter a title for this recording"}
                     value={sessionTitle}
                     onChange={(e) => setSessionTitle(e.target.value)}
                   />
+                  {sessionId === NEW_SESSION && (
+                    <>
+                      <Label htmlFor="focus-areas">Focus Areas</Label>
+                      <Input
+                        id="focus-areas"
+                        placeholder="e.g. Footwork, Cover drive"
+                        value={focusAreas}
+                        onChange={(e) => setFocusAreas(e.target.value)}
+                      />
+                    </>
+                  )}
+                  {uploadProgress !== null && (
+                    <div className="space-y-1">
+                      <Progress value={uploadProgress} />
+                      <p className="text-xs text-neutral-500 text-right">Uploading... {uploadProgress}%</p>
+                    </div>
+                  )}
                   <Button 
                     className="w-full" 
                     onClick={handleSaveRecording}
-                    disabled={!sessionTitle}
+                    disabled={!sessionTitle.trim() || uploadProgress !== null}
                   >
-                    Save Recording
+                    {pendingSave?.uploadId && !pendingSave.fileUrl ? "Resume Upload" : "Save Recording"}
                   </Button>
                 </div>
               )}
@@ -257,7 +380,7 @@ const SessionRecording = () => {
             {!isRecording && !previewUrl ? (
               <Button 
                 onClick={startRecording} 
-                disabled={!batchName}
+                disabled={!batchId}
                 className="bg-red-600 hover:bg-red-700 px-8"
               >
                 Start Recording
@@ -278,7 +401,8 @@ const SessionRecording = () => {
                     URL.revokeObjectURL(previewUrl);
                   }
                   setPreviewUrl(null);
-                  setRecordedChunks([]);
+                  setRecording(null);
+                  setPendingSave(null);
                 }}
                 className="px-8"
               >
@@ -289,99 +413,29 @@ const SessionRecording = () => {
         </CardContent>
       </Card>
       
+      {savedRecording && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cut Clips: {savedRecording.title}</CardTitle>
+            <p className="text-sm text-neutral-500">
+              Mark the in and out points of each shot and assign it to a player. Clips are added to the player's video library.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <ClipEditor
+              sessionId={savedRecording.sessionId}
+              sourceUrl={savedRecording.fileUrl}
+              players={batchPlayers.length > 0 ? batchPlayers : players ?? []}
+            />
+          </CardContent>
+        </Card>
+      )}
+      
       {/* Session History */}
       <div>
         <h2 className="text-xl font-bold mb-4">Session History</h2>
         
-        <div className="flex overflow-x-auto pb-4 space-x-4">
-          {/* Recent Session Video */}
-          <div className="flex-shrink-0 w-96">
-            <Card className="overflow-hidden h-full">
-              <div className="aspect-video">
-                <VideoPlayer 
-                  videoUrl="/assets/Session Video.mp4"
-                  title="Team Batting Practice"
-                  className="w-full h-full"
-                />
-              </div>
-              <CardContent className="p-3">
-                <h4 className="font-bold">Team Batting Practice</h4>
-                <p className="text-sm text-neutral-600">Recorded on May 20, 2023</p>
-                <div className="mt-1">
-                  <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">
-                    Morning Batch
-                  </span>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-          
-          {/* Example Video 1 */}
-          <div className="flex-shrink-0 w-96">
-            <Card className="overflow-hidden h-full">
-              <div className="aspect-video">
-                <VideoPlayer 
-                  videoUrl="/assets/Video 1.mp4"
-                  title="Morning Batch Batting Practice"
-                  className="w-full h-full"
-                />
-              </div>
-              <CardContent className="p-3">
-                <h4 className="font-bold">Morning Batch Batting Practice</h4>
-                <p className="text-sm text-neutral-600">Recorded on July 15, 2023</p>
-                <div className="mt-1">
-                  <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">
-                    Morning Batch
-                  </span>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-          
-          {/* Example Video 2 */}
-          <div className="flex-shrink-0 w-96">
-            <Card className="overflow-hidden h-full">
-              <div className="aspect-video">
-                <VideoPlayer 
-                  videoUrl="/assets/Video 2.mp4"
-                  title="Footwork Drill Session"
-                  className="w-full h-full"
-                />
-              </div>
-              <CardContent className="p-3">
-                <h4 className="font-bold">Footwork Drill Session</h4>
-                <p className="text-sm text-neutral-600">Recorded on June 5, 2023</p>
-                <div className="mt-1">
-                  <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">
-                    Intermediate Batch
-                  </span>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-          
-          {/* Example Video 4 */}
-          <div className="flex-shrink-0 w-96">
-            <Card className="overflow-hidden h-full">
-              <div className="aspect-video">
-                <VideoPlayer 
-                  videoUrl="/assets/Video 4.mp4"
-                  title="Bowling Technique Workshop"
-                  className="w-full h-full"
-                />
-              </div>
-              <CardContent className="p-3">
-                <h4 className="font-bold">Bowling Technique Workshop</h4>
-                <p className="text-sm text-neutral-600">Recorded on August 21, 2023</p>
-                <div className="mt-1">
-                  <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">
-                    Advanced Batch
-                  </span>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        </div>
+        <SessionHistory onCutClips={setSavedRecording} />
       </div>
     </div>
   );
@@ -0,0 +1,298 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { usePlaybackShortcuts } from "@/hooks/use-playback-shortcuts";
+import { DEFAULT_FPS, PLAYBACK_RATES, frameAt, frameTime, nextPlaybackRate } from "@/lib/playback";
+import { formatTimestamp } from "@/lib/videoProcessing";
+import type { Video } from "@shared/schema";
+
+type Side = "a" | "b";
+const SIDES: Side[] = ["a", "b"];
+const SIDE_LABELS: Record<Side, string> = { a: "Video A", b: "Video B" };
+
+// Video B is pulled back into line when it drifts more than this many frames from A
+const MAX_DRIFT_FRAMES = 1.5;
+
+// Plays two videos in sync, side by side or with B laid over A as a ghost. Each
+// video starts from its own offset, so the same moment (e.g. the backlift) can be
+// lined up in both; the shared position counts from those offsets.
+const VideoComparison = () => {
+  const [, navigate] = useLocation();
+  const params = new URLSearchParams(useSearch());
+  const ids: Record<Side, string | null> = { a: params.get("a"), b: params.get("b") };
+
+  const videoRefs = { a: useRef<HTMLVideoElement | null>(null), b: useRef<HTMLVideoElement | null>(null) };
+  const [offsets, setOffsets] = useState<Record<Side, number>>({ a: 0, b: 0 });
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+  const [mode, setMode] = useState<"side-by-side" | "overlay">("side-by-side");
+  const [opacity, setOpacity] = useState(50);
+  // Lengths reported by the browser; recordings may not have a probed duration yet
+  const [durations, setDurations] = useState<Record<Side, number>>({ a: 0, b: 0 });
+
+  const { data: videoA } = useQuery<Video>({ queryKey: [`/api/videos/${ids.a}`], enabled: !!ids.a });
+  const { data: videoB } = useQuery<Video>({ queryKey: [`/api/videos/${ids.b}`], enabled: !!ids.b });
+  const videos: Record<Side, Video | undefined> = { a: videoA, b: videoB };
+
+  // Either video can be swapped for another of the same player's videos
+  const playerId = videoA?.player_id ?? videoB?.player_id;
+  const { data: playerVideos = [] } = useQuery<Video[]>({
+    queryKey: [`/api/players/${playerId}/videos`],
+    enabled: !!playerId,
+  });
+
+  // Reference clips suggested for video A can be lined up against it too
+  const { data: references = [] } = useQuery<Video[]>({
+    queryKey: [`/api/videos/${ids.a}/references`],
+    enabled: !!ids.a,
+  });
+
+  // The player's videos and suggested references, plus the chosen one if it is neither
+  const videoOptions = (side: Side) => {
+    const options = [...playerVideos, ...references];
+    const chosen = videos[side];
+    return chosen && !options.some(video => video.id === chosen.id) ? [...options, chosen] : options;
+  };
+
+  const fpsOf = (side: Side) => videos[side]?.fps || DEFAULT_FPS;
+
+  // Shared position that is still inside both videos
+  const length = Math.max(0, Math.min(
+    ...SIDES.map(side => (durations[side] || videos[side]?.duration || 0) - offsets[side])
+  ));
+
+  const selectVideo = (side: Side, id: string) => {
+    const next = new URLSearchParams(params);
+    next.set(side, id);
+    setOffsets({ ...offsets, [side]: 0 });
+    navigate(`/compare?${next.toString()}`, { replace: true });
+  };
+
+  const seekAll = (nextPosition: number, nextOffsets = offsets) => {
+    const clamped = Math.max(0, nextPosition);
+    for (const side of SIDES) {
+      const element = videoRefs[side].current;
+      if (element) element.currentTime = nextOffsets[side] + clamped;
+    }
+    setPosition(clamped);
+  };
+
+  const pause = () => {
+    SIDES.forEach(side => videoRefs[side].current?.pause());
+    setPlaying(false);
+  };
+
+  const play = () => {
+    seekAll(position >= length ? 0 : position);
+    SIDES.forEach(side => videoRefs[side].current?.play());
+    setPlaying(true);
+  };
+
+  // Steps a frame of video A and moves B to match
+  const stepFrames = (direction: 1 | -1) => {
+    pause();
+    const fps = fpsOf("a");
+    const current = videoRefs.a.current?.currentTime ?? offsets.a;
+    seekAll(frameTime(frameAt(current, fps) + direction, fps) - offsets.a);
+  };
+
+  // Moves one video's start by a frame, leaving the other where it is
+  const nudgeOffset = (side: Side, direction: 1 | -1) => {
+    pause();
+    setOffset(side, offsets[side] + direction / fpsOf(side));
+  };
+
+  const setOffset = (side: Side, value: number) => {
+    const nextOffsets = { ...offsets, [side]: Math.max(0, Math.round(value * 1000) / 1000) };
+    setOffsets(nextOffsets);
+    seekAll(position, nextOffsets);
+  };
+
+  const changeRate = (next: number) => {
+    setRate(next);
+    SIDES.forEach(side => {
+      const element = videoRefs[side].current;
+      if (element) element.playbackRate = next;
+    });
+  };
+
+  // Video A drives the shared position; B follows it and is corrected if it drifts.
+  // Checked every animation frame through a ref, without re-rendering the page.
+  const syncRef = useRef({ offsets, length, fpsB: fpsOf("b"), pause });
+  syncRef.current = { offsets, length, fpsB: fpsOf("b"), pause };
+
+  useEffect(() => {
+    if (!playing) return;
+    let handle: number;
+    const tick = () => {
+      const a = videoRefs.a.current;
+      const b = videoRefs.b.current;
+      const { offsets, length, fpsB, pause } = syncRef.current;
+      if (a && b) {
+        const current = a.currentTime - offsets.a;
+        if (current >= length || a.ended) {
+          pause();
+          setPosition(Math.min(current, length));
+          return;
+        }
+        const target = offsets.b + current;
+        if (Math.abs(b.currentTime - target) > MAX_DRIFT_FRAMES / fpsB) {
+          b.currentTime = target;
+        }
+      }
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [playing]);
+
+  usePlaybackShortcuts({
+    " ": () => (playing ? pause() : play()),
+    ",": () => stepFrames(-1),
+    ".": () => stepFrames(1),
+    "[": () => changeRate(nextPlaybackRate(rate, -1)),
+    "]": () => changeRate(nextPlaybackRate(rate, 1)),
+  });
+
+  const overlay = mode === "overlay";
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Compare Videos</h1>
+        {playerId && (
+          <Link href={`/players/${playerId}`} className="text-sm text-primary hover:underline">
+            Back to player
+          </Link>
+        )}
+      </div>
+
+      <Card className="mb-4">
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          {SIDES.map(side => (
+            <div key={side} className="space-y-2">
+              <Label>{SIDE_LABELS[side]}{overlay && side === "b" && " (ghost)"}</Label>
+              <Select value={ids[side] ?? ""} onValueChange={(id) => selectVideo(side, id)}>
+                <SelectTrigger><SelectValue placeholder="Choose a video" /></SelectTrigger>
+                <SelectContent>
+                  {videoOptions(side).map(video => (
+                    <SelectItem key={video.id} value={video.id}>{video.title}{!video.player_id && " (reference)"}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Label className="text-xs whitespace-nowrap">Starts at</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  className="h-8 w-24"
+                  value={offsets[side]}
+                  onChange={(e) => setOffset(side, parseFloat(e.target.value) || 0)}
+                />
+                <Button variant="outline" size="sm" onClick={() => nudgeOffset(side, -1)}>‹ Frame</Button>
+                <Button variant="outline" size="sm" onClick={() => nudgeOffset(side, 1)}>Frame ›</Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className={overlay ? "relative aspect-video bg-black rounded-md overflow-hidden" : "grid grid-cols-1 md:grid-cols-2 gap-2"}>
+        {SIDES.map(side => (
+          <div
+            key={side}
+            className={overlay ? "absolute inset-0" : "relative aspect-video bg-black rounded-md overflow-hidden"}
+            style={overlay && side === "b" ? { opacity: opacity / 100 } : undefined}
+          >
+            {ids[side] ? (
+              <video
+                ref={videoRefs[side]}
+                src={`/api/videos/${ids[side]}/stream`}
+                className="w-full h-full object-contain"
+                muted
+                playsInline
+                preload="auto"
+                onLoadedMetadata={(e) => {
+                  const element = e.currentTarget;
+                  element.currentTime = offsets[side] + position;
+                  element.playbackRate = rate;
+                  setDurations(current => ({ ...current, [side]: isFinite(element.duration) ? element.duration : 0 }));
+                }}
+                onTimeUpdate={side === "a" && playing ? (e) => setPosition(e.currentTarget.currentTime - offsets.a) : undefined}
+              />
+            ) : (
+              <div className="flex h-full items-center justify-center text-sm text-neutral-400">
+                Choose {SIDE_LABELS[side]}
+              </div>
+            )}
+            {!overlay && (
+              <span className="absolute top-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+                {videos[side]?.title ?? SIDE_LABELS[side]}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 space-y-3">
+        <Slider
+          min={0}
+          max={length || 1}
+          step={0.01}
+          value={[Math.min(position, length)]}
+          onValueChange={([value]) => { pause(); seekAll(value); }}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={playing ? pause : play} disabled={!ids.a || !ids.b}>
+            {playing ? "Pause" : "Play"}
+          </Button>
+          <Button variant="outline" size="sm" title="Previous frame (,)" onClick={() => stepFrames(-1)}>‹ Frame</Button>
+          <Button variant="outline" size="sm" title="Next frame (.)" onClick={() => stepFrames(1)}>Frame ›</Button>
+          <Select value={String(rate)} onValueChange={(value) => changeRate(Number(value))}>
+            <SelectTrigger className="w-24 h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_RATES.map(option => (
+                <SelectItem key={option} value={String(option)}>{option}×</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs font-mono text-neutral-500">
+            {formatTimestamp(position)} / {formatTimestamp(length)}
+          </span>
+
+          <ToggleGroup
+            type="single"
+            size="sm"
+            className="ml-auto"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as typeof mode)}
+          >
+            <ToggleGroupItem value="side-by-side">Side by side</ToggleGroupItem>
+            <ToggleGroupItem value="overlay">Overlay</ToggleGroupItem>
+          </ToggleGroup>
+          {overlay && (
+            <div className="flex items-center gap-2 w-48">
+              <Label className="text-xs">Ghost</Label>
+              <Slider min={0} max={100} step={5} value={[opacity]} onValueChange={([value]) => setOpacity(value)} />
+            </div>
+          )}
+        </div>
+        <p className="text-[11px] text-neutral-400">
+          Line up the same moment in both videos with their start offsets, then play them together.
+          Space play/pause · , . step a frame · [ ] slower/faster
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default VideoComparison;
@@ -6,13 +6,22 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Player } from "@shared/schema";
+import { videoTagOptions } from "@/lib/videoTags";
+import { uploadInChunks } from "@/lib/chunkedUpload";
+import type { Player, VideoTags } from "@shared/schema";
+
+// Preferred recording formats, best first
+const RECORDING_TYPES = ["video/webm;codecs=vp9", "video/webm", "video/mp4"];
+
+// MIME type of what the browser actually recorded, without codec parameters
+const recordedType = (chunks: Blob[]) => (chunks[0]?.type || "video/webm").split(";")[0];
 
 const VideoRecording = () => {
   const params = useParams<{ id: string }>();
-  const playerId = params.id ? parseInt(params.id) : 0;
+  const playerId = params.id;
   const { toast } = useToast();
   
   const [shotType, setShotType] = useState("");
@@ -23,6 +32,9 @@ const VideoRecording = () => {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [recordingTime, setRecordingTime] = useState(0);
   const [sessionTitle, setSessionTitle] = useState("");
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  // Kept after a failed save so trying again resumes the same upload
+  const [pendingUploadId, setPendingUploadId] = useState<string | undefined>();
   
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -31,7 +43,7 @@ const VideoRecording = () => {
 
   const { data: player, isLoading: isPlayerLoading } = useQuery<Player>({
     queryKey: [`/api/players/${playerId}`],
-    enabled: !isNaN(playerId)
+    enabled: !!playerId
   });
 
   // Function to start video recording
@@ -40,6 +52,7 @@ const VideoRecording = () => {
       // Reset previous recordings
       setRecordedChunks([]);
       setPreviewUrl(null);
+      setPendingUploadId(undefined);
       
       // Get user media with video and audio
       const stream = await navigator.mediaDevices.getUserMedia({
@@ -52,10 +65,10 @@ const VideoRecording = () => {
         videoRef.current.srcObject = stream;
       }
       
-      // Create media recorder
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: "video/webm;codecs=vp9",
-      });
+      // Create media recorder. Safari only records MP4; the server transcodes
+      // whatever is recorded into a format every browser can play.
+      const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      const mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
       
       // Store data when available
       mediaRecorder.ondataavailable = (event) => {
@@ -116,7 +129,7 @@ const VideoRecording = () => {
   // Effect to create preview URL when recording chunks change
   useEffect(() => {
     if (recordedChunks.length > 0 && !isRecording) {
-      const videoBlob = new Blob(recordedChunks, { type: "video/webm" });
+      const videoBlob = new Blob(recordedChunks, { type: recordedType(recordedChunks) });
       const videoUrl = URL.createObjectURL(videoBlob);
       setPreviewUrl(videoUrl);
     }
@@ -161,25 +174,32 @@ const VideoRecording = () => {
       return;
     }
 
+    let uploadStarted = !!pendingUploadId;
     try {
-      // Create form data
-      const formData = new FormData();
-      const videoBlob = new Blob(recordedChunks, { type: "video/webm" });
-      formData.append("video", videoBlob, `${sessionTitle.replace(/\s+/g, '_')}.webm`);
-      formData.append("title", sessionTitle);
-      formData.append("shotType", shotType);
-      formData.append("ballSpeed", ballSpeed);
-      formData.append("batConnect", batConnect);
-      
-      // Submit video to server
-      const response = await fetch(`/api/players/${playerId}/videos/upload`, {
-        method: "POST",
-        body: formData
+      const contentType = recordedType(recordedChunks);
+      const videoBlob = new Blob(recordedChunks, { type: contentType });
+      setUploadProgress(0);
+
+      // Uploaded in chunks so a dropped connection resumes instead of starting over
+      await uploadInChunks(videoBlob, {
+        file_name: `${sessionTitle.replace(/\s+/g, '_')}.${contentType === "video/mp4" ? "mp4" : "webm"}`,
+        content_type: contentType,
+        player_id: playerId,
+        video: {
+          title: sessionTitle,
+          shot_type: shotType as VideoTags["shot_type"],
+          ball_speed: ballSpeed as VideoTags["ball_speed"],
+          bat_connect: batConnect as VideoTags["bat_connect"],
+        },
+      }, {
+        uploadId: pendingUploadId,
+        onStart: (upload) => {
+          uploadStarted = true;
+          setPendingUploadId(upload.id);
+        },
+        onProgress: (uploaded, total) => setUploadProgress(Math.round((uploaded / total) * 100)),
       });
-      
-      if (!response.ok) {
-        throw new Error("Failed to upload video");
-      }
+      setPendingUploadId(undefined);
       
       toast({
         title: "Video Saved",
@@ -196,13 +216,18 @@ const VideoRecording = () => {
       
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: [`/api/players/${playerId}/videos`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
     } catch (error) {
       console.error("Error saving video:", error);
       toast({
         variant: "destructive",
         title: "Save Failed",
-        description: "There was a problem saving your video. Please try again."
+        description: uploadStarted
+          ? "The upload was interrupted. Save again to resume where it stopped."
+          : "There was a problem saving your video. Please try again."
       });
+    } finally {
+      setUploadProgress(null);
     }
   };
 
@@ -297,6 +322,7 @@ const VideoRecording = () => {
                         onClick={() => {
                           setPreviewUrl(null);
                           setRecordedChunks([]);
+                          setPendingUploadId(undefined);
                         }}
                         variant="outline"
                       >
@@ -337,12 +363,9 @@ const VideoRecording = () => {
                         <SelectValue placeholder="Select shot type" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="Cover Drive">Cover Drive</SelectItem>
-                        <SelectItem value="Pull Shot">Pull Shot</SelectItem>
-                        <SelectItem value="Straight Drive">Straight Drive</SelectItem>
-                        <SelectItem value="Defensive Block">Defensive Block</SelectItem>
-                        <SelectItem value="Cut Shot">Cut Shot</SelectItem>
-                        <SelectItem value="Sweep Shot">Sweep Shot</SelectItem>
+                        {videoTagOptions("shot_type").map(option => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -354,9 +377,9 @@ const VideoRecording = () => {
                         <SelectValue placeholder="Select ball speed" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="Fast">Fast</SelectItem>
-                        <SelectItem value="Medium">Medium</SelectItem>
-                        <SelectItem value="Slow">Slow</SelectItem>
+                        {videoTagOptions("ball_speed").map(option => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -368,20 +391,26 @@ const VideoRecording = () => {
                         <SelectValue placeholder="Select bat connection" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="Middle">Middle</SelectItem>
-                        <SelectItem value="Edge">Edge</SelectItem>
-                        <SelectItem value="Bottom">Bottom</SelectItem>
-                        <SelectItem value="Missed">Missed</SelectItem>
+                        {videoTagOptions("bat_connect").map(option => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
                   
+                  {uploadProgress !== null && (
+                    <div className="space-y-1">
+                      <Progress value={uploadProgress} />
+                      <p className="text-xs text-neutral-500 text-right">Uploading... {uploadProgress}%</p>
+                    </div>
+                  )}
+                  
                   <Button 
                     onClick={saveVideo}
-                    disabled={!previewUrl || !sessionTitle || !shotType || !ballSpeed || !batConnect}
+                    disabled={!previewUrl || !sessionTitle || !shotType || !ballSpeed || !batConnect || uploadProgress !== null}
                     className="w-full mt-4"
                   >
-                    Save Video
+                    {pendingUploadId ? "Resume Upload" : "Save Video"}
                   </Button>
                 </div>
               </CardContent>
@@ -0,0 +1,60 @@
+-- Core tables. Mirrors the Supabase project so either backend can be used.
+CREATE TABLE IF NOT EXISTS players (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  age INTEGER,
+  batting_style TEXT,
+  bowling_style TEXT,
+  specialization TEXT,
+  photo_url TEXT,
+  overall_rating REAL DEFAULT 0,
+  total_assessments INTEGER DEFAULT 0,
+  bio TEXT,
+  dob DATE,
+  height DECIMAL(5,2),
+  weight DECIMAL(5,2),
+  batch TEXT,
+  position TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  technique_rating REAL DEFAULT 0,
+  fitness_rating REAL DEFAULT 0,
+  game_awareness_rating REAL DEFAULT 0,
+  mental_strength_rating REAL DEFAULT 0,
+  overall_rating REAL DEFAULT 0,
+  notes TEXT,
+  session_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS assessments_player_id_idx ON assessments (player_id);
+
+CREATE TABLE IF NOT EXISTS videos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  file_size BIGINT,
+  duration REAL,
+  tags TEXT[] DEFAULT '{}',
+  technique_focus TEXT,
+  quality_rating REAL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS videos_player_id_idx ON videos (player_id);
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  date DATE NOT NULL,
+  participants TEXT[] DEFAULT '{}',
+  duration_minutes INTEGER,
+  focus_areas TEXT[] DEFAULT '{}',
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
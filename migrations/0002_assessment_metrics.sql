@@ -0,0 +1,24 @@
+-- Per-assessment ratings: general areas and shot-specific sub-areas
+CREATE TABLE IF NOT EXISTS performance_metrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assessment_id UUID NOT NULL REFERENCES assessments(id) ON DELETE CASCADE,
+  metric_type TEXT NOT NULL,
+  rating REAL NOT NULL DEFAULT 0,
+  value TEXT,
+  notes TEXT,
+  video_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS performance_metrics_assessment_id_idx ON performance_metrics (assessment_id);
+
+CREATE TABLE IF NOT EXISTS problem_areas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assessment_id UUID NOT NULL REFERENCES assessments(id) ON DELETE CASCADE,
+  area_type TEXT NOT NULL,
+  rating REAL NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS problem_areas_assessment_id_idx ON problem_areas (assessment_id);
@@ -0,0 +1,34 @@
+-- Week window an assessment covers
+ALTER TABLE assessments ADD COLUMN IF NOT EXISTS week_start DATE;
+ALTER TABLE assessments ADD COLUMN IF NOT EXISTS week_end DATE;
+
+-- Saves an assessment with its problem areas and metrics in one transaction.
+-- payload: { assessment: {...}, problem_areas: [...], metrics: [...] }
+-- Called through supabase.rpc() on Supabase and directly by the postgres backend.
+CREATE OR REPLACE FUNCTION create_full_assessment(payload JSONB) RETURNS UUID
+LANGUAGE plpgsql AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  INSERT INTO assessments (
+    player_id, notes, session_date, week_start, week_end,
+    technique_rating, fitness_rating, game_awareness_rating, mental_strength_rating, overall_rating
+  )
+  SELECT
+    a.player_id, a.notes, a.session_date, a.week_start, a.week_end,
+    COALESCE(a.technique_rating, 0), COALESCE(a.fitness_rating, 0), COALESCE(a.game_awareness_rating, 0),
+    COALESCE(a.mental_strength_rating, 0), COALESCE(a.overall_rating, 0)
+  FROM jsonb_populate_record(NULL::assessments, payload->'assessment') AS a
+  RETURNING id INTO new_id;
+
+  INSERT INTO problem_areas (assessment_id, area_type, rating, notes)
+  SELECT new_id, p.area_type, p.rating, p.notes
+  FROM jsonb_populate_recordset(NULL::problem_areas, COALESCE(payload->'problem_areas', '[]'::jsonb)) AS p;
+
+  INSERT INTO performance_metrics (assessment_id, metric_type, rating, value, notes, video_url)
+  SELECT new_id, m.metric_type, m.rating, m.value, m.notes, m.video_url
+  FROM jsonb_populate_recordset(NULL::performance_metrics, COALESCE(payload->'metrics', '[]'::jsonb)) AS m;
+
+  RETURN new_id;
+END;
+$$;
@@ -0,0 +1,13 @@
+-- In-progress assessment forms, one per player and coach. Autosaved by the
+-- assessment page and removed once the assessment is submitted or expires.
+CREATE TABLE IF NOT EXISTS assessment_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  coach TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (player_id, coach)
+);
+
+CREATE INDEX IF NOT EXISTS assessment_drafts_updated_at_idx ON assessment_drafts (updated_at);
@@ -0,0 +1,16 @@
+-- Coach notes on a player, optionally about a specific assessment or video.
+-- history keeps the earlier versions of an edited note (NoteRevision list in shared/schema.ts).
+CREATE TABLE IF NOT EXISTS notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  assessment_id UUID REFERENCES assessments(id) ON DELETE CASCADE,
+  video_id UUID REFERENCES videos(id) ON DELETE CASCADE,
+  author TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'profile',
+  body TEXT NOT NULL,
+  history JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notes_player_id_idx ON notes (player_id);
@@ -0,0 +1,12 @@
+-- Structured video tags. Allowed values are listed in VIDEO_TAG_OPTIONS
+-- (shared/schema.ts) and checked by the API rather than the database.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS shot_type TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS ball_length TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS ball_speed TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS bat_connect TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS footwork TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS reaction_time TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS bat_swing TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS session_slot TEXT;
+
+CREATE INDEX IF NOT EXISTS videos_shot_type_idx ON videos (shot_type);
@@ -0,0 +1,4 @@
+-- Poster frame and hover-scrub sprite strip, generated in the background after a
+-- video is created (server/thumbnails.ts)
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS sprite_url TEXT;
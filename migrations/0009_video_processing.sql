@@ -0,0 +1,12 @@
+-- Media pipeline (server/videoProcessing.ts): probed metadata, H.264 renditions and
+-- the job's progress
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS width INTEGER;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS height INTEGER;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS fps REAL;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS codec TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS playback_url TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS preview_url TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS processing_status TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS processing_error TEXT;
+
+CREATE INDEX IF NOT EXISTS videos_processing_status_idx ON videos (processing_status);
@@ -0,0 +1,8 @@
+-- Clips cut from a session recording (POST /api/sessions/:id/clips) keep a link to
+-- the session, the recording and the segment they came from
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES sessions(id) ON DELETE SET NULL;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS source_url TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS clip_start REAL;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS clip_end REAL;
+
+CREATE INDEX IF NOT EXISTS videos_session_id_idx ON videos (session_id);
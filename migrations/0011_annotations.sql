@@ -0,0 +1,14 @@
+-- Coach comments pinned to a moment in a video, optionally about one rubric criterion
+CREATE TABLE IF NOT EXISTS annotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  timestamp REAL NOT NULL,
+  duration REAL,
+  author TEXT NOT NULL,
+  text TEXT NOT NULL,
+  criterion TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS annotations_video_id_idx ON annotations (video_id, timestamp);
@@ -0,0 +1,11 @@
+-- Telestration shapes drawn over a video frame, stored as vectors in frame-relative coordinates
+CREATE TABLE IF NOT EXISTS drawings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  timestamp REAL NOT NULL,
+  author TEXT NOT NULL,
+  shapes JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS drawings_video_id_idx ON drawings (video_id, timestamp);
@@ -0,0 +1,12 @@
+-- Named loop regions on a video, saved from the player's A-B loop
+CREATE TABLE IF NOT EXISTS video_bookmarks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  start REAL NOT NULL,
+  "end" REAL NOT NULL,
+  author TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS video_bookmarks_video_id_idx ON video_bookmarks (video_id, start);
@@ -0,0 +1,5 @@
+-- Reference clips are videos with no player: coach-curated model technique,
+-- tagged with the batting hand they show
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS handedness TEXT;
+
+CREATE INDEX IF NOT EXISTS videos_reference_shot_type_idx ON videos (shot_type) WHERE player_id IS NULL;
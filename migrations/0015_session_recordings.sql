@@ -0,0 +1,12 @@
+-- Recordings of a training session, uploaded under sessions/<id>/recordings/
+CREATE TABLE IF NOT EXISTS session_recordings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  file_size BIGINT,
+  duration REAL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS session_recordings_session_id_idx ON session_recordings (session_id, created_at DESC);
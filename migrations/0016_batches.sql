@@ -0,0 +1,74 @@
+-- Batches as their own records. players.batch keeps the batch name for display and
+-- for rubric assignment by name; players.batch_id is the link.
+CREATE TABLE IF NOT EXISTS batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  age_group TEXT,
+  level TEXT,
+  coaches TEXT[] NOT NULL DEFAULT '{}',
+  -- Not a foreign key: 'default' refers to the built-in rubric
+  rubric_id TEXT,
+  timetable JSONB NOT NULL DEFAULT '[]',
+  capacity INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS batches_name_idx ON batches (lower(name));
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES batches(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS players_batch_id_idx ON players (batch_id);
+
+CREATE TABLE IF NOT EXISTS batch_memberships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+  joined_on DATE NOT NULL,
+  left_on DATE,
+  moved_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS batch_memberships_batch_id_idx ON batch_memberships (batch_id, joined_on DESC);
+CREATE INDEX IF NOT EXISTS batch_memberships_player_id_idx ON batch_memberships (player_id, joined_on DESC);
+-- At most one current batch per player
+CREATE UNIQUE INDEX IF NOT EXISTS batch_memberships_current_idx ON batch_memberships (player_id) WHERE left_on IS NULL;
+
+-- Ends the player's current membership on p_date and starts one in p_batch_id (none
+-- when NULL), keeping players.batch_id and players.batch in step, in one transaction.
+-- Called through supabase.rpc() on Supabase and directly by the postgres backend.
+CREATE OR REPLACE FUNCTION move_player_to_batch(p_player_id UUID, p_batch_id UUID, p_date DATE, p_moved_by TEXT)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE batch_memberships SET left_on = p_date
+  WHERE player_id = p_player_id AND left_on IS NULL;
+
+  IF p_batch_id IS NOT NULL THEN
+    INSERT INTO batch_memberships (player_id, batch_id, joined_on, moved_by)
+    VALUES (p_player_id, p_batch_id, p_date, p_moved_by);
+  END IF;
+
+  UPDATE players
+  SET batch_id = p_batch_id, batch = (SELECT name FROM batches WHERE id = p_batch_id)
+  WHERE id = p_player_id;
+END;
+$$;
+
+-- Existing free-text batches become batch records. Names differing only in case or
+-- surrounding spaces are merged.
+INSERT INTO batches (name)
+SELECT min(trim(batch)) FROM players
+WHERE trim(coalesce(batch, '')) <> ''
+GROUP BY lower(trim(batch))
+ON CONFLICT DO NOTHING;
+
+UPDATE players p
+SET batch_id = b.id, batch = b.name
+FROM batches b
+WHERE p.batch_id IS NULL AND lower(trim(p.batch)) = lower(b.name);
+
+INSERT INTO batch_memberships (player_id, batch_id, joined_on)
+SELECT p.id, p.batch_id, p.created_at::date FROM players p
+WHERE p.batch_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM batch_memberships m WHERE m.player_id = p.id);
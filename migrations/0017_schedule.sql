@@ -0,0 +1,37 @@
+-- Training schedule. Templates repeat weekly for a batch; their occurrences are
+-- worked out when the schedule is read. Sessions are one-offs, or an occurrence of
+-- a template (template_id + date) that was changed or cancelled.
+CREATE TABLE IF NOT EXISTS schedule_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  days TEXT[] NOT NULL,
+  -- HH:MM, like batch timetable slots
+  start_time TEXT NOT NULL CHECK (start_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  end_time TEXT NOT NULL CHECK (end_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$' AND end_time > start_time),
+  venue TEXT,
+  net TEXT,
+  coaches TEXT[] NOT NULL DEFAULT '{}',
+  focus_areas TEXT[] DEFAULT '{}',
+  starts_on DATE NOT NULL,
+  ends_on DATE CHECK (ends_on >= starts_on),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS schedule_templates_batch_id_idx ON schedule_templates (batch_id);
+
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES batches(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES schedule_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS start_time TEXT CHECK (start_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  ADD COLUMN IF NOT EXISTS end_time TEXT CHECK (end_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  ADD COLUMN IF NOT EXISTS venue TEXT,
+  ADD COLUMN IF NOT EXISTS net TEXT,
+  ADD COLUMN IF NOT EXISTS coaches TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled')),
+  ADD COLUMN IF NOT EXISTS cancel_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS sessions_date_idx ON sessions (date);
+-- One saved session per template occurrence
+CREATE UNIQUE INDEX IF NOT EXISTS sessions_template_date_idx ON sessions (template_id, date) WHERE template_id IS NOT NULL;
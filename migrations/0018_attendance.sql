@@ -0,0 +1,16 @@
+-- Attendance at training sessions, one record per session and player
+CREATE TABLE IF NOT EXISTS attendance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('present', 'late', 'absent', 'excused')),
+  -- HH:MM, like session times
+  arrival_time TEXT CHECK (arrival_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  reason TEXT,
+  recorded_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (session_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS attendance_player_id_idx ON attendance (player_id);
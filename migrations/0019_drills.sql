@@ -0,0 +1,50 @@
+-- Drill library, practice plans assigning drills to a player or a batch, and the
+-- drills players have done under a plan
+CREATE TABLE IF NOT EXISTS drills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Demo clip from the reference library
+  video_id UUID REFERENCES videos(id) ON DELETE SET NULL,
+  -- Rubric criterion or sub-criterion keys, e.g. weight_transfer
+  target_criteria TEXT[] NOT NULL DEFAULT '{}',
+  equipment TEXT[] NOT NULL DEFAULT '{}',
+  duration_minutes INTEGER CHECK (duration_minutes > 0),
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS drills_target_criteria_idx ON drills USING GIN (target_criteria);
+
+CREATE TABLE IF NOT EXISTS practice_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  batch_id UUID REFERENCES batches(id) ON DELETE CASCADE,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  -- [{ drill_id, target, notes }]
+  items JSONB NOT NULL DEFAULT '[]',
+  notes TEXT,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((player_id IS NULL) <> (batch_id IS NULL)),
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS practice_plans_player_id_idx ON practice_plans (player_id);
+CREATE INDEX IF NOT EXISTS practice_plans_batch_id_idx ON practice_plans (batch_id);
+
+CREATE TABLE IF NOT EXISTS drill_completions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id UUID NOT NULL REFERENCES practice_plans(id) ON DELETE CASCADE,
+  -- Not a foreign key: the drill is identified within the plan's items
+  drill_id UUID NOT NULL,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  completed_on DATE NOT NULL,
+  recorded_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (plan_id, drill_id, player_id, completed_on)
+);
@@ -0,0 +1,6 @@
+-- Full assessment submissions used to save every technical area of a shot, rated or
+-- not. A rating of 0 means "not rated", so those rows carry no information; the
+-- shot's own metric ("N areas evaluated") is kept even when the shot itself is unrated.
+DELETE FROM performance_metrics
+WHERE rating = 0
+  AND (value IS NULL OR value NOT LIKE '% areas evaluated');
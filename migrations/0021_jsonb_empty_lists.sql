@@ -0,0 +1,7 @@
+-- Empty lists written by the postgres backend were bound as the Postgres array '{}'
+-- and stored as an empty JSON object. Put them back as empty JSON arrays.
+UPDATE rubric_templates SET criteria = '[]'::jsonb WHERE criteria = '{}'::jsonb;
+UPDATE notes SET history = '[]'::jsonb WHERE history = '{}'::jsonb;
+UPDATE drawings SET shapes = '[]'::jsonb WHERE shapes = '{}'::jsonb;
+UPDATE batches SET timetable = '[]'::jsonb WHERE timetable = '{}'::jsonb;
+UPDATE practice_plans SET items = '[]'::jsonb WHERE items = '{}'::jsonb;
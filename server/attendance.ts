@@ -0,0 +1,63 @@
+// server/attendance.ts - attendance validation and summaries
+import { TIME_PATTERN } from './batches';
+import { ATTENDANCE_STATUSES } from '../shared/schema';
+import type { AttendanceRecord, AttendanceSummary } from '../shared/schema';
+
+// Largest sheet PUT /api/sessions/:id/attendance takes at once
+export const MAX_ATTENDANCE_RECORDS = 200;
+
+const validateRecord = (record: any, prefix: string, errors: string[]) => {
+  if (!record || typeof record !== 'object') {
+    errors.push(`${prefix} must be an object`);
+    return;
+  }
+  if (typeof record.player_id !== 'string' || record.player_id.length === 0) {
+    errors.push(`${prefix}.player_id is required`);
+  }
+  if (!ATTENDANCE_STATUSES.includes(record.status)) {
+    errors.push(`${prefix}.status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`);
+  }
+  if (record.arrival_time !== undefined && record.arrival_time !== null &&
+      (typeof record.arrival_time !== 'string' || !TIME_PATTERN.test(record.arrival_time))) {
+    errors.push(`${prefix}.arrival_time must be a time in HH:MM format`);
+  }
+  if (record.reason !== undefined && record.reason !== null && typeof record.reason !== 'string') {
+    errors.push(`${prefix}.reason must be a string`);
+  }
+};
+
+// Body of PUT /api/sessions/:id/attendance: { records: [...], recorded_by? }
+export function validateAttendanceData(data: any): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(data.records) || data.records.length === 0) {
+    errors.push('records must be a non-empty array');
+  } else if (data.records.length > MAX_ATTENDANCE_RECORDS) {
+    errors.push(`records can have at most ${MAX_ATTENDANCE_RECORDS} entries`);
+  } else {
+    data.records.forEach((record: any, index: number) => validateRecord(record, `records[${index}]`, errors));
+    const playerIds = data.records.map((record: any) => record?.player_id);
+    if (new Set(playerIds).size !== playerIds.length) {
+      errors.push('records can list each player only once');
+    }
+  }
+
+  if (data.recorded_by !== undefined && data.recorded_by !== null && typeof data.recorded_by !== 'string') {
+    errors.push('recorded_by must be a string');
+  }
+
+  return errors;
+}
+
+// Late still counts as attended; excused absences are left out of the percentage
+export function summarizeAttendance(records: Pick<AttendanceRecord, 'status'>[]): AttendanceSummary {
+  const summary: AttendanceSummary = { present: 0, late: 0, absent: 0, excused: 0, percentage: null };
+  for (const record of records) {
+    summary[record.status] += 1;
+  }
+  const counted = summary.present + summary.late + summary.absent;
+  if (counted > 0) {
+    summary.percentage = Math.round(((summary.present + summary.late) / counted) * 100);
+  }
+  return summary;
+}
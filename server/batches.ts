@@ -0,0 +1,82 @@
+// server/batches.ts - batch validation and lookups
+import { BATCH_LEVELS, WEEKDAYS } from '../shared/schema';
+import type { Batch, BatchTimetableSlot } from '../shared/schema';
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isNonEmptyString = (value: any) => typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const validateSlot = (slot: any, prefix: string, errors: string[]) => {
+  if (!slot || typeof slot !== 'object') {
+    errors.push(`${prefix} must be an object`);
+    return;
+  }
+  if (!WEEKDAYS.includes(slot.day)) {
+    errors.push(`${prefix}.day must be one of: ${WEEKDAYS.join(', ')}`);
+  }
+  if (typeof slot.start !== 'string' || !TIME_PATTERN.test(slot.start) ||
+      typeof slot.end !== 'string' || !TIME_PATTERN.test(slot.end)) {
+    errors.push(`${prefix}.start and ${prefix}.end must be times in HH:MM format`);
+  } else if (slot.end <= slot.start) {
+    errors.push(`${prefix}.end must be after start`);
+  }
+};
+
+// `partial` is for updates, which may leave out the name
+export function validateBatchData(data: any, partial = false): string[] {
+  const errors: string[] = [];
+
+  if (!partial || data.name !== undefined) {
+    if (!isNonEmptyString(data.name)) {
+      errors.push('name is required and must be a non-empty string');
+    }
+  }
+
+  if (data.age_group !== undefined && data.age_group !== null && typeof data.age_group !== 'string') {
+    errors.push('age_group must be a string');
+  }
+
+  if (data.level !== undefined && data.level !== null && !BATCH_LEVELS.includes(data.level)) {
+    errors.push(`level must be one of: ${BATCH_LEVELS.join(', ')}`);
+  }
+
+  if (data.coaches !== undefined && !isStringArray(data.coaches)) {
+    errors.push('coaches must be an array of strings');
+  }
+
+  if (data.rubric_id !== undefined && data.rubric_id !== null && !isNonEmptyString(data.rubric_id)) {
+    errors.push('rubric_id must be a rubric template id');
+  }
+
+  if (data.timetable !== undefined) {
+    if (!Array.isArray(data.timetable)) {
+      errors.push('timetable must be an array of { day, start, end } slots');
+    } else {
+      data.timetable.forEach((slot: any, index: number) => validateSlot(slot, `timetable[${index}]`, errors));
+    }
+  }
+
+  if (data.capacity !== undefined && data.capacity !== null && (!Number.isInteger(data.capacity) || data.capacity < 1)) {
+    errors.push('capacity must be a whole number, 1 or more');
+  }
+
+  return errors;
+}
+
+// Names are compared ignoring case and surrounding spaces, so "u15 " finds "U15"
+export function findBatchByName(batches: Batch[], name: string): Batch | undefined {
+  const wanted = name.trim().toLowerCase();
+  return batches.find(batch => batch.name.toLowerCase() === wanted);
+}
+
+// Only the fields the client is expected to send are stored, in week order
+export function toTimetable(slots: BatchTimetableSlot[]): BatchTimetableSlot[] {
+  return slots
+    .map(({ day, start, end }) => ({ day, start, end }))
+    .sort((a, b) => WEEKDAYS.indexOf(a.day) - WEEKDAYS.indexOf(b.day) || a.start.localeCompare(b.start));
+}
+
+export const cleanCoaches = (coaches: string[]) =>
+  Array.from(new Set(coaches.map(coach => coach.trim()).filter(Boolean)));
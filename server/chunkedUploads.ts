@@ -0,0 +1,203 @@
+// server/chunkedUploads.ts - resumable uploads: chunks are appended to a temp file,
+// which is streamed to the file store once every byte has arrived
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { saveFile } from './fileStorage';
+import type { UploadInit, UploadSession } from '../shared/schema';
+
+export const UPLOAD_TMP_DIR = path.resolve(process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'cricket-uploads'));
+
+// Chunk size handed to clients (UPLOAD_CHUNK_SIZE bytes, default 5MB)
+export const UPLOAD_CHUNK_SIZE = Number(process.env.UPLOAD_CHUNK_SIZE) || 5 * 1024 * 1024;
+
+// Largest file accepted (MAX_UPLOAD_SIZE bytes, default 4GB)
+export const MAX_UPLOAD_SIZE = Number(process.env.MAX_UPLOAD_SIZE) || 4 * 1024 * 1024 * 1024;
+
+// Unfinished uploads untouched for this many hours are removed (UPLOAD_EXPIRY_HOURS, default 24)
+export const UPLOAD_EXPIRY_HOURS = Number(process.env.UPLOAD_EXPIRY_HOURS) || 24;
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Each upload is a JSON description plus the bytes received so far
+const metaPath = (id: string) => path.join(UPLOAD_TMP_DIR, `${id}.json`);
+const dataPath = (id: string) => path.join(UPLOAD_TMP_DIR, `${id}.part`);
+
+// Uploads with a chunk being written; a second writer would interleave bytes
+const receiving = new Set<string>();
+
+export async function createUpload(init: UploadInit, key: string): Promise<UploadSession> {
+  const now = new Date().toISOString();
+  const upload: UploadSession = {
+    ...init,
+    id: uuidv4(),
+    key,
+    chunk_size: UPLOAD_CHUNK_SIZE,
+    offset: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  await fs.promises.mkdir(UPLOAD_TMP_DIR, { recursive: true });
+  await fs.promises.writeFile(dataPath(upload.id), '');
+  await fs.promises.writeFile(metaPath(upload.id), JSON.stringify(upload));
+  return upload;
+}
+
+// The received offset is recorded in the JSON description once a chunk has been
+// fully appended, so it survives restarts. The temp file can run past it if the
+// process stopped part-way through an append; receiveChunk cuts that tail off.
+export async function getUpload(id: string): Promise<UploadSession | null> {
+  if (!UPLOAD_ID_PATTERN.test(id)) {
+    return null;
+  }
+
+  try {
+    const upload: UploadSession = JSON.parse(await fs.promises.readFile(metaPath(id), 'utf8'));
+    const { size } = await fs.promises.stat(dataPath(id));
+    return { ...upload, offset: Math.min(upload.offset, size) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading upload:', error);
+    }
+    return null;
+  }
+}
+
+// Byte length the chunk at `index` must have
+export function expectedChunkLength(upload: UploadSession, index: number): number {
+  const start = index * upload.chunk_size;
+  return Math.max(Math.min(upload.chunk_size, upload.size - start), 0);
+}
+
+export type ChunkResult =
+  | { status: 'stored' | 'duplicate'; upload: UploadSession }
+  | { status: 'not_found' | 'busy' }
+  | { status: 'invalid_index' | 'out_of_order' | 'incomplete'; upload: UploadSession };
+
+// Appends chunk `index` to the upload. Chunks must arrive in order; one that was
+// already received is acknowledged without being written again, and a chunk whose
+// body is cut short (e.g. the connection dropped) is discarded so it can be resent.
+export async function receiveChunk(id: string, index: number, body: Readable): Promise<ChunkResult> {
+  if (receiving.has(id)) {
+    return { status: 'busy' };
+  }
+  receiving.add(id);
+
+  try {
+    const upload = await getUpload(id);
+    if (!upload) {
+      return { status: 'not_found' };
+    }
+
+    const start = index * upload.chunk_size;
+    const length = expectedChunkLength(upload, index);
+    if (!Number.isInteger(index) || index < 0 || length === 0) {
+      return { status: 'invalid_index', upload };
+    }
+    if (start + length <= upload.offset) {
+      return { status: 'duplicate', upload };
+    }
+    if (start !== upload.offset) {
+      return { status: 'out_of_order', upload };
+    }
+
+    // Drop anything left past the offset by an append that never finished
+    await fs.promises.truncate(dataPath(id), upload.offset);
+
+    let received = 0;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        callback(received > length ? new Error('Chunk is larger than expected') : null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(body, limit, fs.createWriteStream(dataPath(id), { flags: 'a' }));
+    } catch (error) {
+      console.error('Error receiving chunk:', (error as Error).message);
+    }
+
+    if (received !== length) {
+      await fs.promises.truncate(dataPath(id), upload.offset);
+      return { status: 'incomplete', upload };
+    }
+
+    const updated = { ...upload, offset: upload.offset + length, updated_at: new Date().toISOString() };
+    await fs.promises.writeFile(metaPath(id), JSON.stringify(updated));
+    return { status: 'stored', upload: updated };
+  } finally {
+    receiving.delete(id);
+  }
+}
+
+export type CompletionResult =
+  | { status: 'stored'; upload: UploadSession; file_url: string }
+  | { status: 'not_found' | 'busy' }
+  | { status: 'incomplete'; upload: UploadSession };
+
+// Streams the finished file to the file store and returns its URL. The temp files
+// are kept if that fails, so completing can be retried.
+export async function completeUpload(id: string): Promise<CompletionResult> {
+  if (receiving.has(id)) {
+    return { status: 'busy' };
+  }
+  receiving.add(id);
+
+  try {
+    const upload = await getUpload(id);
+    if (!upload) {
+      return { status: 'not_found' };
+    }
+    if (upload.offset !== upload.size) {
+      return { status: 'incomplete', upload };
+    }
+
+    const fileUrl = await saveFile(upload.key, fs.createReadStream(dataPath(id)), upload.content_type, upload.size);
+    await removeUpload(id);
+    return { status: 'stored', upload, file_url: fileUrl };
+  } finally {
+    receiving.delete(id);
+  }
+}
+
+export async function removeUpload(id: string): Promise<void> {
+  await fs.promises.rm(metaPath(id), { force: true });
+  await fs.promises.rm(dataPath(id), { force: true });
+}
+
+export async function deleteExpiredUploads(now: Date = new Date()): Promise<void> {
+  const cutoff = new Date(now.getTime() - UPLOAD_EXPIRY_HOURS * 60 * 60 * 1000).toISOString();
+
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(UPLOAD_TMP_DIR);
+  } catch {
+    return;
+  }
+
+  let removed = 0;
+  for (const file of files.filter(name => name.endsWith('.json'))) {
+    const upload = await getUpload(path.basename(file, '.json'));
+    if (upload && upload.updated_at < cutoff && !receiving.has(upload.id)) {
+      await removeUpload(upload.id);
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    console.log(`Removed ${removed} expired upload(s)`);
+  }
+}
+
+// Runs once at startup and then hourly; the timer does not keep the process alive
+export function startUploadCleanup(): void {
+  deleteExpiredUploads();
+  setInterval(deleteExpiredUploads, CLEANUP_INTERVAL_MS).unref();
+}
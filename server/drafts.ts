@@ -0,0 +1,24 @@
+// server/drafts.ts - expiry of autosaved assessment drafts
+import { storage } from './storage';
+
+// Drafts untouched for this many days are deleted (ASSESSMENT_DRAFT_EXPIRY_DAYS, default 14)
+export const DRAFT_EXPIRY_DAYS = Number(process.env.ASSESSMENT_DRAFT_EXPIRY_DAYS) || 14;
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export function draftExpiryCutoff(now: Date = new Date()): string {
+  return new Date(now.getTime() - DRAFT_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export async function deleteExpiredDrafts(): Promise<void> {
+  const removed = await storage.deleteExpiredAssessmentDrafts(draftExpiryCutoff());
+  if (removed > 0) {
+    console.log(`Removed ${removed} expired assessment draft(s)`);
+  }
+}
+
+// Runs once at startup and then hourly; the timer does not keep the process alive
+export function startDraftCleanup(): void {
+  deleteExpiredDrafts();
+  setInterval(deleteExpiredDrafts, CLEANUP_INTERVAL_MS).unref();
+}
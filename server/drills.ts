@@ -0,0 +1,189 @@
+// server/drills.ts - drill and practice plan validation, drill suggestions and plan progress
+import type {
+  Drill, DrillCompletion, DrillSuggestion, PerformanceMetric, PracticePlan, PracticePlanProgress, ProblemArea,
+  RubricTemplate,
+} from '../shared/schema';
+import { isPassingRating } from './rubrics';
+
+// Most drills a plan can hold
+export const MAX_PLAN_ITEMS = 30;
+// Most times a plan can ask for one drill
+export const MAX_ITEM_TARGET = 100;
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const isNonEmptyString = (value: any) => typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isOptionalString = (value: any) => value === undefined || value === null || typeof value === 'string';
+
+const isValidDate = (value: any) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+// Trimmed, without blanks or repeats (ignoring case)
+export const cleanList = (values: string[]) =>
+  values.map(value => value.trim()).filter((value, index, all) =>
+    value.length > 0 && all.findIndex(other => other.toLowerCase() === value.toLowerCase()) === index);
+
+// `partial` is for updates, which may leave out the name
+export function validateDrillData(data: any, partial = false): string[] {
+  const errors: string[] = [];
+
+  if ((!partial || data.name !== undefined) && !isNonEmptyString(data.name)) {
+    errors.push('name is required and must be a non-empty string');
+  }
+
+  for (const field of ['description', 'video_id', 'created_by']) {
+    if (!isOptionalString(data[field])) {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  if (data.target_criteria !== undefined) {
+    if (!isStringArray(data.target_criteria)) {
+      errors.push('target_criteria must be an array of strings');
+    } else if (data.target_criteria.some((key: string) => !KEY_PATTERN.test(key))) {
+      errors.push('target_criteria must be rubric keys in lower_snake_case, e.g. weight_transfer');
+    }
+  }
+
+  if (data.equipment !== undefined && !isStringArray(data.equipment)) {
+    errors.push('equipment must be an array of strings');
+  }
+
+  if (data.duration_minutes !== undefined && data.duration_minutes !== null &&
+      (!Number.isInteger(data.duration_minutes) || data.duration_minutes < 1)) {
+    errors.push('duration_minutes must be a whole number of minutes, 1 or more');
+  }
+
+  return errors;
+}
+
+const validatePlanItem = (item: any, prefix: string, errors: string[]) => {
+  if (!item || typeof item !== 'object') {
+    errors.push(`${prefix} must be an object`);
+    return;
+  }
+  if (!isNonEmptyString(item.drill_id)) {
+    errors.push(`${prefix}.drill_id is required`);
+  }
+  if (item.target !== undefined && (!Number.isInteger(item.target) || item.target < 1 || item.target > MAX_ITEM_TARGET)) {
+    errors.push(`${prefix}.target must be a whole number from 1 to ${MAX_ITEM_TARGET}`);
+  }
+  if (!isOptionalString(item.notes)) {
+    errors.push(`${prefix}.notes must be a string`);
+  }
+};
+
+// `partial` is for updates. Whether a player or batch is being assigned is checked
+// against the stored plan by the route.
+export function validatePlanData(data: any, partial = false): string[] {
+  const errors: string[] = [];
+
+  if ((!partial || data.name !== undefined) && !isNonEmptyString(data.name)) {
+    errors.push('name is required and must be a non-empty string');
+  }
+
+  for (const field of ['starts_on', 'ends_on']) {
+    if ((!partial || data[field] !== undefined) && !isValidDate(data[field])) {
+      errors.push(`${field} is required in YYYY-MM-DD format`);
+    }
+  }
+
+  for (const field of ['player_id', 'batch_id', 'notes', 'created_by']) {
+    if (!isOptionalString(data[field])) {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  if (!partial || data.items !== undefined) {
+    if (!Array.isArray(data.items) || data.items.length === 0) {
+      errors.push('items must be a non-empty array');
+    } else if (data.items.length > MAX_PLAN_ITEMS) {
+      errors.push(`items can have at most ${MAX_PLAN_ITEMS} drills`);
+    } else {
+      data.items.forEach((item: any, index: number) => validatePlanItem(item, `items[${index}]`, errors));
+      const drillIds = data.items.map((item: any) => item?.drill_id);
+      if (new Set(drillIds).size !== drillIds.length) {
+        errors.push('items can list each drill only once');
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function checkPlanDates(startsOn: string, endsOn: string): string | null {
+  return endsOn < startsOn ? 'ends_on must not be before starts_on' : null;
+}
+
+interface LowCriterion {
+  keys: string[]; // drills targeting any of these match
+  criterion: string;
+  name: string;
+  rating: number;
+}
+
+// Criteria and shot sub-criteria the assessment rated below their pass mark
+function lowCriteria(rubric: RubricTemplate, metrics: PerformanceMetric[], problemAreas: ProblemArea[]): LowCriterion[] {
+  const low: LowCriterion[] = [];
+  for (const criterion of rubric.criteria) {
+    // General criteria are problem areas; older assessments stored them as metrics
+    const rating = criterion.group === 'general'
+      ? (problemAreas.find(area => area.area_type === criterion.key) ?? metrics.find(metric => metric.metric_type === criterion.key))?.rating
+      : metrics.find(metric => metric.metric_type === criterion.key)?.rating;
+    if (rating && rating > 0 && !isPassingRating(criterion.scale, rating)) {
+      low.push({ keys: [criterion.key], criterion: criterion.key, name: criterion.name, rating });
+    }
+
+    for (const sub of criterion.sub_criteria ?? []) {
+      const metricKey = `${criterion.key}_${sub.key}`;
+      const subRating = metrics.find(metric => metric.metric_type === metricKey)?.rating;
+      if (subRating && subRating > 0 && !isPassingRating(criterion.sub_scale ?? criterion.scale, subRating)) {
+        low.push({ keys: [sub.key, metricKey], criterion: sub.key, name: `${sub.name} (${criterion.name})`, rating: subRating });
+      }
+    }
+  }
+  return low;
+}
+
+// Drills for each low criterion, leaving out criteria no drill targets
+export function suggestDrills(
+  drills: Drill[],
+  rubric: RubricTemplate,
+  metrics: PerformanceMetric[],
+  problemAreas: ProblemArea[],
+): DrillSuggestion[] {
+  return lowCriteria(rubric, metrics, problemAreas)
+    .map(({ keys, criterion, name, rating }) => ({
+      criterion,
+      name,
+      rating,
+      drills: drills.filter(drill => drill.target_criteria.some(key => keys.includes(key))),
+    }))
+    .filter(suggestion => suggestion.drills.length > 0);
+}
+
+export const isActivePlan = (plan: PracticePlan, date: string) => plan.starts_on <= date && date <= plan.ends_on;
+
+// The player's progress: completions count towards each drill's target, up to the target
+export function planProgress(
+  plan: PracticePlan,
+  drills: Drill[],
+  completions: DrillCompletion[],
+  playerId: string,
+): PracticePlanProgress {
+  const items = plan.items.map(item => {
+    const own = completions.filter(completion => completion.drill_id === item.drill_id && completion.player_id === playerId);
+    return {
+      ...item,
+      drill: drills.find(drill => drill.id === item.drill_id) ?? null,
+      completions: own,
+      done: Math.min(own.length, item.target),
+    };
+  });
+  const done = items.reduce((sum, item) => sum + item.done, 0);
+  const target = items.reduce((sum, item) => sum + item.target, 0);
+  return { plan, items, done, target, percentage: target > 0 ? Math.round((done / target) * 100) : 0 };
+}
@@ -0,0 +1,456 @@
+// server/fileStorage.ts - where uploaded files live: local disk, an S3-compatible bucket or Supabase Storage
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { getSupabase, hasSupabaseConfig } from './supabase';
+
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || 'uploads');
+
+// How long signed download URLs stay valid
+const SIGNED_URL_TTL_SECONDS = Number(process.env.FILE_URL_TTL_SECONDS) || 3600;
+
+export interface FileInfo {
+  size: number;
+  content_type: string;
+  etag?: string;
+  last_modified?: string; // HTTP date
+}
+
+// Inclusive byte offsets, as in a Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StoredFile {
+  body: Readable;
+  size?: number; // length of body, not of the whole file when a range was read
+  content_type: string;
+}
+
+// Every file store implements this contract. Reads resolve to null on failure, writes throw.
+export interface FileStore {
+  // Streams are written as they arrive; `size` is their length in bytes
+  put(key: string, file: Buffer | Readable, contentType: string, size?: number): Promise<void>;
+  head(key: string): Promise<FileInfo | null>;
+  get(key: string, range?: ByteRange): Promise<StoredFile | null>;
+  // A short-lived URL the browser can download the file from directly, or null
+  // when the API has to stream the file itself
+  signedUrl(key: string): Promise<string | null>;
+  delete(key: string): Promise<void>;
+}
+
+// KEY LAYOUT
+// players/<player id>/videos/<uuid>.<ext>
+// players/<player id>/photos/<uuid>.<ext>
+// sessions/<session id>/recordings/<uuid>.<ext>
+// players/<player id>/videos/<uuid>-poster.jpg, <uuid>-sprite.jpg, <uuid>-playback.mp4, <uuid>-preview.mp4
+const extension = (fileName: string) => path.extname(fileName).toLowerCase().replace(/[^.a-z0-9]/g, '');
+const withoutExtension = (key: string) => key.slice(0, key.length - path.extname(key).length);
+
+export const fileKeys = {
+  playerVideo: (playerId: string, fileName: string) => `players/${playerId}/videos/${uuidv4()}${extension(fileName)}`,
+  playerPhoto: (playerId: string, fileName: string) => `players/${playerId}/photos/${uuidv4()}${extension(fileName)}`,
+  sessionRecording: (sessionId: string, fileName: string) => `sessions/${sessionId}/recordings/${uuidv4()}${extension(fileName)}`,
+  referenceVideo: (fileName: string) => `references/videos/${uuidv4()}${extension(fileName)}`,
+  // Images generated from a stored video sit next to it: <video key>-poster.jpg
+  videoPoster: (videoKey: string) => `${withoutExtension(videoKey)}-poster.jpg`,
+  videoSprite: (videoKey: string) => `${withoutExtension(videoKey)}-sprite.jpg`,
+  videoRendition: (videoKey: string, rendition: 'playback' | 'preview') => `${withoutExtension(videoKey)}-${rendition}.mp4`,
+};
+
+export const isValidFileKey = (key: string) =>
+  /^[\w-]+(\/[\w-]+)*\/[\w-]+(\.[a-z0-9]+)?$/.test(key);
+
+// Files are linked as /api/files/<key>, which redirects to a signed URL or streams
+// the file (see GET /api/files/* in server/routes.ts), so the stored URL never expires
+const FILE_URL_PREFIX = '/api/files/';
+
+export const fileUrl = (key: string) => `${FILE_URL_PREFIX}${key}`;
+
+// The key behind a stored URL; null for URLs that were not saved through a file store
+export function fileKeyFromUrl(url: string | null | undefined): string | null {
+  if (!url?.startsWith(FILE_URL_PREFIX)) return null;
+  const key = url.slice(FILE_URL_PREFIX.length);
+  return isValidFileKey(key) ? key : null;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.ogg': 'video/ogg',
+  '.ogv': 'video/ogg',
+  '.mkv': 'video/x-matroska',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+export const contentTypeFor = (key: string) => CONTENT_TYPES[extension(key)] || 'application/octet-stream';
+
+// LOCAL DISK
+export class LocalFileStore implements FileStore {
+  constructor(private root: string = UPLOAD_DIR) {}
+
+  private filePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, file: Buffer | Readable, _contentType: string): Promise<void> {
+    try {
+      const filePath = this.filePath(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      if (Buffer.isBuffer(file)) {
+        await fs.promises.writeFile(filePath, file);
+      } else {
+        await pipeline(file, fs.createWriteStream(filePath));
+      }
+    } catch (error) {
+      console.error('Error saving file:', error);
+      throw new Error(`Failed to save file: ${(error as Error).message}`);
+    }
+  }
+
+  async head(key: string): Promise<FileInfo | null> {
+    try {
+      const stat = await fs.promises.stat(this.filePath(key));
+      return {
+        size: stat.size,
+        content_type: contentTypeFor(key),
+        etag: `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`,
+        last_modified: stat.mtime.toUTCString(),
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading file:', error);
+      }
+      return null;
+    }
+  }
+
+  async get(key: string, range?: ByteRange): Promise<StoredFile | null> {
+    try {
+      const filePath = this.filePath(key);
+      const stat = await fs.promises.stat(filePath);
+      return {
+        body: fs.createReadStream(filePath, range),
+        size: range ? range.end - range.start + 1 : stat.size,
+        content_type: contentTypeFor(key),
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading file:', error);
+      }
+      return null;
+    }
+  }
+
+  async signedUrl(_key: string): Promise<string | null> {
+    return null;
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.rm(this.filePath(key), { force: true });
+    } catch (error) {
+      console.error('Error deleting file:', error);
+      throw new Error(`Failed to delete file: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Reads from a signed URL, used by the remote stores
+async function fetchFileInfo(url: string, key: string): Promise<FileInfo | null> {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    if (!response.ok) {
+      if (response.status !== 404) {
+        console.error('Error reading file:', response.status, response.statusText);
+      }
+      return null;
+    }
+
+    return {
+      size: Number(response.headers.get('content-length')) || 0,
+      content_type: response.headers.get('content-type') || contentTypeFor(key),
+      etag: response.headers.get('etag') || undefined,
+      last_modified: response.headers.get('last-modified') || undefined,
+    };
+  } catch (error) {
+    console.error('Error reading file:', error);
+    return null;
+  }
+}
+
+async function fetchStoredFile(url: string, key: string, range?: ByteRange): Promise<StoredFile | null> {
+  try {
+    const response = await fetch(url, range ? { headers: { Range: `bytes=${range.start}-${range.end}` } } : {});
+    if (!response.ok || !response.body) {
+      if (response.status !== 404) {
+        console.error('Error downloading file:', response.status, await response.text());
+      }
+      return null;
+    }
+
+    const size = Number(response.headers.get('content-length'));
+    return {
+      body: Readable.fromWeb(response.body as import('stream/web').ReadableStream),
+      size: Number.isFinite(size) && size > 0 ? size : undefined,
+      content_type: response.headers.get('content-type') || contentTypeFor(key),
+    };
+  } catch (error) {
+    console.error('Error downloading file:', error);
+    return null;
+  }
+}
+
+// S3-COMPATIBLE BUCKET
+// Requests are authorised with AWS Signature V4 presigned URLs, which AWS S3, MinIO,
+// Cloudflare R2 and the other S3-compatible services all accept
+export interface S3Config {
+  endpoint: string; // e.g. https://s3.eu-west-2.amazonaws.com or http://localhost:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: crypto.BinaryLike, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as S3 expects it; '/' is kept in object paths
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+export function presignS3Url(
+  method: string,
+  url: URL,
+  config: Pick<S3Config, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  expiresInSeconds: number,
+  now: Date = new Date(),
+): string {
+  const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, '');
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+
+  const query: Record<string, string> = {
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${config.accessKeyId}/${scope}`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(expiresInSeconds),
+    'X-Amz-SignedHeaders': 'host',
+  };
+  const canonicalQuery = Object.keys(query)
+    .sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    `host:${url.host}\n`,
+    'host',
+    'UNSIGNED-PAYLOAD',
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region),
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
+
+export class S3FileStore implements FileStore {
+  constructor(private config: S3Config) {}
+
+  // Path-style addressing (<endpoint>/<bucket>/<key>) works with every S3-compatible service
+  private objectUrl(key: string): URL {
+    const base = this.config.endpoint.replace(/\/+$/, '');
+    const objectPath = [this.config.bucket, ...key.split('/')].map(encodeRfc3986).join('/');
+    return new URL(`${base}/${objectPath}`);
+  }
+
+  private presign(method: string, key: string, expiresInSeconds = SIGNED_URL_TTL_SECONDS): string {
+    return presignS3Url(method, this.objectUrl(key), this.config, expiresInSeconds);
+  }
+
+  // Streamed uploads need their size, S3 does not accept chunked request bodies
+  async put(key: string, file: Buffer | Readable, contentType: string, size?: number): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': contentType };
+    if (!Buffer.isBuffer(file)) {
+      if (size === undefined) {
+        throw new Error('Failed to upload file: size is required for streamed uploads');
+      }
+      headers['Content-Length'] = String(size);
+    }
+
+    const response = await fetch(this.presign('PUT', key, 3600), {
+      method: 'PUT',
+      headers,
+      body: Buffer.isBuffer(file) ? file : (Readable.toWeb(file) as ReadableStream),
+      duplex: 'half',
+    } as RequestInit);
+
+    if (!response.ok) {
+      const message = await response.text();
+      console.error('Error uploading file to S3:', response.status, message);
+      throw new Error(`Failed to upload file: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async head(key: string): Promise<FileInfo | null> {
+    return fetchFileInfo(this.presign('HEAD', key, 300), key);
+  }
+
+  async get(key: string, range?: ByteRange): Promise<StoredFile | null> {
+    return fetchStoredFile(this.presign('GET', key, 300), key, range);
+  }
+
+  async signedUrl(key: string): Promise<string | null> {
+    return this.presign('GET', key);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await fetch(this.presign('DELETE', key, 300), { method: 'DELETE' });
+
+    // Deleting a missing object is not an error in S3
+    if (!response.ok && response.status !== 404) {
+      const message = await response.text();
+      console.error('Error deleting file from S3:', response.status, message);
+      throw new Error(`Failed to delete file: ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+// SUPABASE STORAGE
+export class SupabaseFileStore implements FileStore {
+  constructor(private bucket: string = process.env.SUPABASE_BUCKET || 'cricket-files') {}
+
+  async put(key: string, file: Buffer | Readable, contentType: string): Promise<void> {
+    const { error } = await getSupabase().storage
+      .from(this.bucket)
+      .upload(key, file, {
+        contentType,
+        duplex: 'half'
+      });
+
+    if (error) {
+      console.error('Error uploading file:', error);
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+  }
+
+  // Reads go through a signed URL so ranges are fetched without downloading the whole file
+  async head(key: string): Promise<FileInfo | null> {
+    const url = await this.signedUrl(key);
+    return url ? fetchFileInfo(url, key) : null;
+  }
+
+  async get(key: string, range?: ByteRange): Promise<StoredFile | null> {
+    const url = await this.signedUrl(key);
+    return url ? fetchStoredFile(url, key, range) : null;
+  }
+
+  async signedUrl(key: string): Promise<string | null> {
+    const { data, error } = await getSupabase().storage
+      .from(this.bucket)
+      .createSignedUrl(key, SIGNED_URL_TTL_SECONDS);
+
+    if (error || !data) {
+      console.error('Error signing file URL:', error);
+      return null;
+    }
+
+    return data.signedUrl;
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await getSupabase().storage
+      .from(this.bucket)
+      .remove([key]);
+
+    if (error) {
+      console.error('Error deleting file:', error);
+      throw new Error(`Failed to delete file: ${error.message}`);
+    }
+  }
+}
+
+function s3ConfigFromEnv(): S3Config {
+  const missing = ['S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY'].filter(name => !process.env[name]);
+  if (missing.length > 0) {
+    throw new Error(`${missing.join(', ')} must be set when FILE_STORAGE_DRIVER=s3`);
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1';
+  return {
+    endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+    region,
+    bucket: process.env.S3_BUCKET!,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+  };
+}
+
+// Pick the file store from FILE_STORAGE_DRIVER. It defaults to Supabase Storage
+// alongside the Supabase database and to local disk for the other backends:
+//   local    - files under UPLOAD_DIR (default ./uploads)
+//   s3       - any S3-compatible bucket (S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)
+//   supabase - Supabase Storage bucket SUPABASE_BUCKET (default cricket-files)
+export function createFileStore(
+  driver: string = process.env.FILE_STORAGE_DRIVER || ((process.env.STORAGE_DRIVER || 'supabase') === 'supabase' ? 'supabase' : 'local'),
+): FileStore {
+  switch (driver) {
+    case 'local':
+      return new LocalFileStore();
+    case 's3':
+      return new S3FileStore(s3ConfigFromEnv());
+    case 'supabase':
+      if (!hasSupabaseConfig()) {
+        throw new Error('SUPABASE_URL and SUPABASE_ANON_KEY must be set when FILE_STORAGE_DRIVER=supabase');
+      }
+      return new SupabaseFileStore();
+    default:
+      throw new Error(`Unknown FILE_STORAGE_DRIVER "${driver}" (expected local, s3 or supabase)`);
+  }
+}
+
+export const fileStore = createFileStore();
+
+// Set FILE_PROXY=true to stream files through the API even when the store can sign
+// URLs, e.g. when the bucket is not reachable from the browser
+export const proxyFiles = process.env.FILE_PROXY === 'true';
+
+// Stores an upload under `key` and returns the URL to save with the record
+export async function saveFile(key: string, file: Buffer | Readable, contentType: string, size?: number): Promise<string> {
+  await fileStore.put(key, file, contentType || contentTypeFor(key), size);
+  return fileUrl(key);
+}
+
+// Removes the file behind a stored URL. Failures are logged rather than thrown,
+// so a missing or unreachable file never blocks deleting the record that used it.
+export async function deleteStoredFile(url: string | null | undefined): Promise<void> {
+  const key = fileKeyFromUrl(url);
+  if (!key) return;
+
+  try {
+    await fileStore.delete(key);
+  } catch (error) {
+    console.error('Error deleting stored file:', error);
+  }
+}
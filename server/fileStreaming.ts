@@ -0,0 +1,115 @@
+// server/fileStreaming.ts - sends stored files with Range, ETag and conditional request support
+import { pipeline } from 'stream';
+import type { Request, Response } from 'express';
+import { contentTypeFor, fileStore } from './fileStorage';
+import type { ByteRange, FileInfo } from './fileStorage';
+
+// Parses a Range header against a file of `size` bytes. Returns null when the
+// whole file should be sent: no header, a header we don't understand, or more
+// than one range (which servers are allowed to answer with the full file).
+export function parseRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  // bytes=-500 is the last 500 bytes
+  if (match[1] === '') {
+    const suffix = Number(match[2]);
+    return suffix === 0 || size === 0 ? 'unsatisfiable' : { start: Math.max(size - suffix, 0), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  if (start >= size || end < start) {
+    return 'unsatisfiable';
+  }
+  return { start, end };
+}
+
+const stripWeak = (etag: string) => etag.replace(/^W\//, '');
+
+// If-None-Match wins over If-Modified-Since, as RFC 9110 requires
+function isNotModified(req: Request, info: FileInfo): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) {
+    if (!info.etag) return false;
+    return ifNoneMatch.trim() === '*' ||
+      ifNoneMatch.split(',').some(tag => stripWeak(tag.trim()) === stripWeak(info.etag!));
+  }
+
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince && info.last_modified) {
+    const since = Date.parse(ifModifiedSince);
+    return !isNaN(since) && Date.parse(info.last_modified) <= since;
+  }
+  return false;
+}
+
+// A Range only applies while the client's copy (named by If-Range) is still current
+function isRangeCurrent(req: Request, info: FileInfo): boolean {
+  const ifRange = req.get('if-range');
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return !!info.etag && !ifRange.startsWith('W/') && ifRange === info.etag;
+  }
+  return !!info.last_modified && Date.parse(ifRange) === Date.parse(info.last_modified);
+}
+
+// Streams the file stored under `key`. `contentType` overrides the type the store
+// reports, which for uploads is whatever the browser claimed.
+export async function sendStoredFile(req: Request, res: Response, key: string, contentType?: string): Promise<void> {
+  const info = await fileStore.head(key);
+  if (!info) {
+    res.status(404).json({ error: 'File not found' });
+    return;
+  }
+
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Cache-Control', 'private, max-age=0, must-revalidate');
+  if (info.etag) res.setHeader('ETag', info.etag);
+  if (info.last_modified) res.setHeader('Last-Modified', info.last_modified);
+
+  if (isNotModified(req, info)) {
+    res.status(304).end();
+    return;
+  }
+
+  const range = isRangeCurrent(req, info) ? parseRange(req.headers.range, info.size) : null;
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${info.size}`);
+    res.status(416).json({ error: 'Range not satisfiable' });
+    return;
+  }
+
+  res.setHeader('Content-Type', contentType || info.content_type || contentTypeFor(key));
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.status(200);
+    res.setHeader('Content-Length', info.size);
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  const file = await fileStore.get(key, range || undefined);
+  if (!file) {
+    res.removeHeader('Content-Range');
+    res.removeHeader('Content-Length');
+    res.status(404).json({ error: 'File not found' });
+    return;
+  }
+
+  // pipeline also destroys the source when the client goes away, which browsers do
+  // all the time by aborting range requests while seeking
+  pipeline(file.body, res, (error) => {
+    if (error && (error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      console.error('Error streaming file:', error);
+    }
+  });
+}
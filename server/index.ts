@@ -3,6 +3,10 @@ import express from 'express';
 import cors from 'cors';
 import path from 'path';
 import routes from './routes';
+import { UPLOAD_DIR } from './fileStorage';
+import { startDraftCleanup } from './drafts';
+import { startUploadCleanup } from './chunkedUploads';
+import { resumeVideoProcessing } from './videoProcessing';
 
 const app = express();
 const port = process.env.PORT || 5000;
@@ -15,6 +19,9 @@ app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 // API routes
 app.use('/api', routes);
 
+// Uploads saved to local disk before files were linked through /api/files
+app.use('/uploads', express.static(UPLOAD_DIR));
+
 // Serve static files
 if (process.env.NODE_ENV === 'production') {
   app.use(express.static('dist'));
@@ -51,6 +58,10 @@ app.listen(port, () => {
   console.log(`🏏 Cricket Coaching App running on port ${port}`);
   console.log(`📊 API available at http://localhost:${port}/api`);
   console.log(`🎯 Backend server ready!`);
+
+  startDraftCleanup();
+  startUploadCleanup();
+  resumeVideoProcessing();
   
   if (process.env.NODE_ENV !== 'production') {
     console.log('🔧 Development mode - API server only');
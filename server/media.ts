@@ -0,0 +1,116 @@
+// server/media.ts - runs the locally installed ffmpeg / ffprobe against stored videos
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { fileStore } from './fileStorage';
+
+export const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+export const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+
+const MEDIA_TMP_DIR = path.join(os.tmpdir(), 'cricket-media');
+
+// Only the end of stderr is kept for error messages; ffmpeg can be very chatty
+const MAX_STDERR_LENGTH = 2000;
+
+// Resolves with the command's stdout, or rejects with the end of its stderr
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (data) => { stdout += data; });
+    child.stderr.on('data', (data) => { stderr = (stderr + data).slice(-MAX_STDERR_LENGTH); });
+    child.on('error', (error) => reject(new Error(`Failed to run ${command}: ${error.message}`)));
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+export const runFfmpeg = (args: string[]) =>
+  run(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', '-nostdin', '-y', ...args]);
+
+export const runFfprobe = (args: string[]) =>
+  run(FFPROBE_PATH, ['-v', 'error', ...args]);
+
+export interface MediaProbe {
+  duration: number | null; // seconds
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+  codec: string | null; // video codec, e.g. h264, vp9
+  pix_fmt: string | null;
+  has_audio: boolean;
+}
+
+const positive = (value: number) => (isFinite(value) && value > 0 ? value : null);
+
+// "30000/1001" -> 29.97. Browser recordings often report 0/0 or a 1000/1 timebase
+// instead of a real frame rate, so anything implausible is treated as unknown.
+function parseFrameRate(rate: string | undefined): number | null {
+  const [num, den] = (rate || '').split('/').map(Number);
+  const fps = den ? num / den : num;
+  return positive(fps) && fps <= 240 ? Math.round(fps * 100) / 100 : null;
+}
+
+// Duration, resolution, frame rate and codec of a media file. Fields ffprobe can't
+// determine (WebM recordings from the browser usually have no duration) are null.
+export async function probeMedia(input: string): Promise<MediaProbe> {
+  const output = await runFfprobe([
+    '-show_entries', 'format=duration:stream=codec_type,codec_name,width,height,avg_frame_rate,r_frame_rate,pix_fmt',
+    '-of', 'json', input,
+  ]);
+  const { format, streams = [] } = JSON.parse(output);
+  const video = streams.find((stream: any) => stream.codec_type === 'video');
+
+  return {
+    duration: positive(parseFloat(format?.duration)),
+    width: positive(Number(video?.width)),
+    height: positive(Number(video?.height)),
+    fps: parseFrameRate(video?.avg_frame_rate) ?? parseFrameRate(video?.r_frame_rate),
+    codec: video?.codec_name || null,
+    pix_fmt: video?.pix_fmt || null,
+    has_audio: streams.some((stream: any) => stream.codec_type === 'audio'),
+  };
+}
+
+// Media jobs run one at a time, so a burst of uploads doesn't start a burst of
+// ffmpeg processes. A failed job is logged and doesn't hold up the ones behind it.
+let queue: Promise<void> = Promise.resolve();
+
+export function enqueueMediaJob(name: string, job: () => Promise<void>): void {
+  queue = queue.then(async () => {
+    try {
+      await job();
+    } catch (error) {
+      console.error(`Error running ${name}:`, (error as Error).message);
+    }
+  });
+}
+
+// Copies the file stored under `key` into a fresh working directory and runs `work`
+// with its path. ffmpeg needs a seekable local file; the directory is removed afterwards,
+// along with anything `work` wrote there.
+export async function withWorkingCopy<T>(key: string, work: (input: string, dir: string) => Promise<T>): Promise<T> {
+  await fs.promises.mkdir(MEDIA_TMP_DIR, { recursive: true });
+  const dir = await fs.promises.mkdtemp(path.join(MEDIA_TMP_DIR, 'job-'));
+
+  try {
+    const file = await fileStore.get(key);
+    if (!file) {
+      throw new Error(`Stored file not found: ${key}`);
+    }
+
+    const input = path.join(dir, `source${path.extname(key)}`);
+    await pipeline(file.body, fs.createWriteStream(input));
+    return await work(input, dir);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
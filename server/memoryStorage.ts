@@ -0,0 +1,578 @@
+// server/memoryStorage.ts - in-process storage for offline development and tests
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Player, PlayerRatingUpdate, AssessmentInsert, AssessmentUpdate, Assessment, FullAssessmentInsert, VideoInsert, VideoUpdate, Video, VideoSearchQuery, VideoSearchResult, VideoProcessingStatus, SessionInsert, Session, SessionRecording, SessionRecordingInsert,
+  PerformanceMetric, PerformanceMetricInsert, PerformanceMetricUpdate,
+  ProblemArea, ProblemAreaInsert, ProblemAreaUpdate, AssessmentDraft, AssessmentDraftUpsert,
+  RubricTemplate, RubricTemplateInsert, RubricTemplateUpdate, Note, NoteInsert, NoteUpdate,
+  Annotation, AnnotationInsert, AnnotationUpdate, Drawing, DrawingInsert, VideoBookmark, VideoBookmarkInsert,
+  Batch, BatchInsert, BatchUpdate, BatchMembership, SessionUpdate, ScheduleTemplate, ScheduleTemplateInsert, ScheduleTemplateUpdate, AttendanceRecord, AttendanceUpsert,
+  Drill, DrillInsert, DrillUpdate, PracticePlan, PracticePlanInsert, PracticePlanUpdate, DrillCompletion, DrillCompletionInsert,
+} from '../shared/schema';
+import type { IStorage, CreatePlayerData } from './storage';
+import { compareVideos, countVideoFacets, isAfterCursor, matchesBaseFilters, matchesTagFilters, toVideoPage } from './videoSearch';
+
+type Row = { id: string; created_at?: string };
+
+// Newest first, the same ordering the Supabase queries use
+const byCreatedDesc = (a: Row, b: Row) => (b.created_at || '').localeCompare(a.created_at || '');
+const byCreatedAsc = (a: Row, b: Row) => byCreatedDesc(b, a);
+
+export class MemStorage implements IStorage {
+  private players = new Map<string, Player>();
+  private assessments = new Map<string, Assessment>();
+  private videos = new Map<string, Video>();
+  private sessions = new Map<string, Session>();
+  private metrics = new Map<string, PerformanceMetric>();
+  private problemAreas = new Map<string, ProblemArea>();
+  private drafts = new Map<string, AssessmentDraft>();
+  private rubrics = new Map<string, RubricTemplate>();
+  private notes = new Map<string, Note>();
+  private annotations = new Map<string, Annotation>();
+  private drawings = new Map<string, Drawing>();
+  private bookmarks = new Map<string, VideoBookmark>();
+  private recordings = new Map<string, SessionRecording>();
+  private batches = new Map<string, Batch>();
+  private memberships = new Map<string, BatchMembership>();
+  private templates = new Map<string, ScheduleTemplate>();
+  private attendance = new Map<string, AttendanceRecord>();
+  private drills = new Map<string, Drill>();
+  private plans = new Map<string, PracticePlan>();
+  private completions = new Map<string, DrillCompletion>();
+
+  // Mimics the database defaults: generated id and created_at timestamp
+  private insert<T extends Row>(table: Map<string, T>, data: Omit<T, 'id' | 'created_at'>): T {
+    const row = { ...data, id: uuidv4(), created_at: new Date().toISOString() } as T;
+    table.set(row.id, row);
+    return row;
+  }
+
+  private update<T extends Row>(table: Map<string, T>, id: string, updates: object): T | null {
+    const existing = table.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    // Like a SQL UPDATE, undefined fields leave the stored value alone
+    const changes = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    const row = { ...existing, ...changes, id };
+    table.set(id, row);
+    return row;
+  }
+
+  private list<T extends Row>(table: Map<string, T>, filter: (row: T) => boolean = () => true): T[] {
+    return Array.from(table.values()).filter(filter).sort(byCreatedDesc);
+  }
+
+  // PLAYER METHODS
+  async getPlayers(): Promise<Player[]> {
+    return this.list(this.players);
+  }
+
+  async getPlayer(id: string): Promise<Player | null> {
+    return this.players.get(id) || null;
+  }
+
+  async createPlayer(playerData: CreatePlayerData): Promise<Player> {
+    return this.insert(this.players, {
+      overall_rating: 0,
+      total_assessments: 0,
+      ...playerData,
+    } as Omit<Player, 'id' | 'created_at'>);
+  }
+
+  async updatePlayer(id: string, updates: Partial<CreatePlayerData>): Promise<Player | null> {
+    return this.update(this.players, id, updates as Partial<Player>);
+  }
+
+  async deletePlayer(id: string): Promise<boolean> {
+    return this.players.delete(id);
+  }
+
+  async updatePlayerRating(id: string, rating: PlayerRatingUpdate): Promise<Player | null> {
+    return this.update(this.players, id, rating);
+  }
+
+  async searchPlayers(searchTerm: string): Promise<Player[]> {
+    const term = searchTerm.toLowerCase();
+    const fields: (keyof Player)[] = ['name', 'specialization', 'batting_style', 'bowling_style'];
+
+    return this.list(this.players, player =>
+      fields.some(field => String(player[field] ?? '').toLowerCase().includes(term))
+    ).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // ASSESSMENT METHODS
+  async getPlayerAssessments(playerId: string): Promise<Assessment[]> {
+    return this.list(this.assessments, assessment => assessment.player_id === playerId);
+  }
+
+  async getAssessment(id: string): Promise<Assessment | null> {
+    return this.assessments.get(id) || null;
+  }
+
+  async createAssessment(assessment: AssessmentInsert): Promise<Assessment> {
+    return this.insert(this.assessments, assessment);
+  }
+
+  async updateAssessment(id: string, updates: AssessmentUpdate): Promise<Assessment | null> {
+    return this.update(this.assessments, id, updates);
+  }
+
+  // No awaits between the inserts, so other requests never see a partial assessment
+  async createFullAssessment(fullAssessment: FullAssessmentInsert): Promise<Assessment> {
+    const assessment = this.insert(this.assessments, fullAssessment.assessment);
+
+    for (const problemArea of fullAssessment.problem_areas) {
+      this.insert(this.problemAreas, { ...problemArea, assessment_id: assessment.id });
+    }
+    for (const metric of fullAssessment.metrics) {
+      this.insert(this.metrics, { ...metric, assessment_id: assessment.id });
+    }
+
+    return assessment;
+  }
+
+  // METRIC METHODS
+  async getAssessmentMetrics(assessmentId: string): Promise<PerformanceMetric[]> {
+    return this.list(this.metrics, metric => metric.assessment_id === assessmentId).sort(byCreatedAsc);
+  }
+
+  async getMetric(id: string): Promise<PerformanceMetric | null> {
+    return this.metrics.get(id) || null;
+  }
+
+  async createMetric(metric: PerformanceMetricInsert): Promise<PerformanceMetric> {
+    return this.insert(this.metrics, metric);
+  }
+
+  async updateMetric(id: string, updates: PerformanceMetricUpdate): Promise<PerformanceMetric | null> {
+    return this.update(this.metrics, id, updates);
+  }
+
+  async deleteMetric(id: string): Promise<PerformanceMetric | null> {
+    const existing = this.metrics.get(id) || null;
+    this.metrics.delete(id);
+    return existing;
+  }
+
+  // PROBLEM AREA METHODS
+  async getProblemAreas(assessmentId: string): Promise<ProblemArea[]> {
+    return this.list(this.problemAreas, area => area.assessment_id === assessmentId).sort(byCreatedAsc);
+  }
+
+  async getProblemArea(id: string): Promise<ProblemArea | null> {
+    return this.problemAreas.get(id) || null;
+  }
+
+  async createProblemArea(problemArea: ProblemAreaInsert): Promise<ProblemArea> {
+    return this.insert(this.problemAreas, problemArea);
+  }
+
+  async updateProblemArea(id: string, updates: ProblemAreaUpdate): Promise<ProblemArea | null> {
+    return this.update(this.problemAreas, id, updates);
+  }
+
+  async deleteProblemArea(id: string): Promise<ProblemArea | null> {
+    const existing = this.problemAreas.get(id) || null;
+    this.problemAreas.delete(id);
+    return existing;
+  }
+
+  // RUBRIC TEMPLATE METHODS
+  async getRubrics(): Promise<RubricTemplate[]> {
+    return this.list(this.rubrics).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getRubric(id: string): Promise<RubricTemplate | null> {
+    return this.rubrics.get(id) || null;
+  }
+
+  async createRubric(rubric: RubricTemplateInsert): Promise<RubricTemplate> {
+    return this.insert(this.rubrics, {
+      batches: [],
+      specializations: [],
+      is_default: false,
+      ...rubric,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  async updateRubric(id: string, updates: RubricTemplateUpdate): Promise<RubricTemplate | null> {
+    return this.update(this.rubrics, id, { ...updates, updated_at: new Date().toISOString() });
+  }
+
+  async deleteRubric(id: string): Promise<boolean> {
+    return this.rubrics.delete(id);
+  }
+
+  // ASSESSMENT DRAFT METHODS
+  private findDraft(playerId: string, coach: string): AssessmentDraft | undefined {
+    return Array.from(this.drafts.values()).find(draft => draft.player_id === playerId && draft.coach === coach);
+  }
+
+  async getAssessmentDraft(playerId: string, coach: string): Promise<AssessmentDraft | null> {
+    return this.findDraft(playerId, coach) || null;
+  }
+
+  async saveAssessmentDraft(draft: AssessmentDraftUpsert): Promise<AssessmentDraft> {
+    const now = new Date().toISOString();
+    const existing = this.findDraft(draft.player_id, draft.coach);
+    if (existing) {
+      return this.update(this.drafts, existing.id, { data: draft.data, updated_at: now })!;
+    }
+    return this.insert(this.drafts, { ...draft, updated_at: now });
+  }
+
+  async deleteAssessmentDraft(playerId: string, coach: string): Promise<boolean> {
+    const draft = this.findDraft(playerId, coach);
+    return draft ? this.drafts.delete(draft.id) : true;
+  }
+
+  async deleteExpiredAssessmentDrafts(updatedBefore: string): Promise<number> {
+    const expired = Array.from(this.drafts.values()).filter(draft => (draft.updated_at || '') < updatedBefore);
+    expired.forEach(draft => this.drafts.delete(draft.id));
+    return expired.length;
+  }
+
+  // NOTE METHODS
+  async getPlayerNotes(playerId: string): Promise<Note[]> {
+    return this.list(this.notes, note => note.player_id === playerId);
+  }
+
+  async getNote(id: string): Promise<Note | null> {
+    return this.notes.get(id) || null;
+  }
+
+  async createNote(note: NoteInsert): Promise<Note> {
+    return this.insert(this.notes, { ...note, history: [], updated_at: new Date().toISOString() });
+  }
+
+  async updateNote(id: string, updates: NoteUpdate): Promise<Note | null> {
+    return this.update(this.notes, id, { ...updates, updated_at: new Date().toISOString() });
+  }
+
+  async deleteNote(id: string): Promise<boolean> {
+    return this.notes.delete(id);
+  }
+
+  // ANNOTATION METHODS
+  async getVideoAnnotations(videoId: string): Promise<Annotation[]> {
+    return this.list(this.annotations, annotation => annotation.video_id === videoId)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getAnnotation(id: string): Promise<Annotation | null> {
+    return this.annotations.get(id) || null;
+  }
+
+  async createAnnotation(annotation: AnnotationInsert): Promise<Annotation> {
+    return this.insert(this.annotations, { ...annotation, updated_at: new Date().toISOString() });
+  }
+
+  async updateAnnotation(id: string, updates: AnnotationUpdate): Promise<Annotation | null> {
+    return this.update(this.annotations, id, { ...updates, updated_at: new Date().toISOString() });
+  }
+
+  async deleteAnnotation(id: string): Promise<boolean> {
+    return this.annotations.delete(id);
+  }
+
+  // DRAWING METHODS
+  async getVideoDrawings(videoId: string): Promise<Drawing[]> {
+    return this.list(this.drawings, drawing => drawing.video_id === videoId)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getDrawing(id: string): Promise<Drawing | null> {
+    return this.drawings.get(id) || null;
+  }
+
+  async createDrawing(drawing: DrawingInsert): Promise<Drawing> {
+    return this.insert(this.drawings, drawing);
+  }
+
+  async deleteDrawing(id: string): Promise<boolean> {
+    return this.drawings.delete(id);
+  }
+
+  // VIDEO BOOKMARK METHODS
+  async getVideoBookmarks(videoId: string): Promise<VideoBookmark[]> {
+    return this.list(this.bookmarks, bookmark => bookmark.video_id === videoId)
+      .sort((a, b) => a.start - b.start);
+  }
+
+  async getVideoBookmark(id: string): Promise<VideoBookmark | null> {
+    return this.bookmarks.get(id) || null;
+  }
+
+  async createVideoBookmark(bookmark: VideoBookmarkInsert): Promise<VideoBookmark> {
+    return this.insert(this.bookmarks, bookmark);
+  }
+
+  async deleteVideoBookmark(id: string): Promise<boolean> {
+    return this.bookmarks.delete(id);
+  }
+
+  // VIDEO METHODS
+  async getPlayerVideos(playerId: string): Promise<Video[]> {
+    return this.list(this.videos, video => video.player_id === playerId);
+  }
+
+  async getReferenceVideos(): Promise<Video[]> {
+    return this.list(this.videos, video => !video.player_id);
+  }
+
+  async getSessionVideos(sessionId: string): Promise<Video[]> {
+    return this.list(this.videos, video => video.session_id === sessionId);
+  }
+
+  async getVideo(id: string): Promise<Video | null> {
+    return this.videos.get(id) || null;
+  }
+
+  async createVideo(video: VideoInsert): Promise<Video> {
+    return this.insert(this.videos, video);
+  }
+
+  async updateVideo(id: string, updates: VideoUpdate): Promise<Video | null> {
+    return this.update(this.videos, id, updates);
+  }
+
+  async getVideosByProcessingStatus(statuses: VideoProcessingStatus[]): Promise<Video[]> {
+    return this.list(this.videos, video => !!video.processing_status && statuses.includes(video.processing_status)).reverse();
+  }
+
+  async deleteVideo(id: string): Promise<boolean> {
+    return this.videos.delete(id);
+  }
+
+  async searchVideos(search: VideoSearchQuery): Promise<VideoSearchResult> {
+    const base = Array.from(this.videos.values()).filter(video => matchesBaseFilters(video, search));
+    const matching = base
+      .filter(video => matchesTagFilters(video, search.tags))
+      .sort((a, b) => compareVideos(a, b, search));
+    const rows = matching.filter(video => isAfterCursor(video, search)).slice(0, search.limit + 1);
+
+    return {
+      ...toVideoPage(rows, search),
+      total: matching.length,
+      facets: countVideoFacets(base, search.tags),
+    };
+  }
+
+  // SESSION METHODS
+  async getSessions(): Promise<Session[]> {
+    return this.list(this.sessions);
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    return this.sessions.get(id) || null;
+  }
+
+  async createSession(session: SessionInsert): Promise<Session> {
+    return this.insert(this.sessions, session);
+  }
+
+  async updateSession(id: string, updates: SessionUpdate): Promise<Session | null> {
+    return this.update(this.sessions, id, updates);
+  }
+
+  async getSessionsBetween(from: string, to: string): Promise<Session[]> {
+    return this.list(this.sessions, session => session.date >= from && session.date <= to)
+      .sort((a, b) => a.date.localeCompare(b.date) || (a.start_time ?? '').localeCompare(b.start_time ?? ''));
+  }
+
+  // SCHEDULE TEMPLATE METHODS
+  async getScheduleTemplates(): Promise<ScheduleTemplate[]> {
+    return this.list(this.templates).reverse();
+  }
+
+  async getScheduleTemplate(id: string): Promise<ScheduleTemplate | null> {
+    return this.templates.get(id) || null;
+  }
+
+  async createScheduleTemplate(template: ScheduleTemplateInsert): Promise<ScheduleTemplate> {
+    return this.insert(this.templates, { ...template, updated_at: new Date().toISOString() });
+  }
+
+  async updateScheduleTemplate(id: string, updates: ScheduleTemplateUpdate): Promise<ScheduleTemplate | null> {
+    return this.update(this.templates, id, { ...updates, updated_at: new Date().toISOString() });
+  }
+
+  async deleteScheduleTemplate(id: string): Promise<boolean> {
+    if (!this.templates.delete(id)) {
+      return false;
+    }
+    // Like the template_id foreign key's ON DELETE SET NULL
+    for (const session of this.list(this.sessions, session => session.template_id === id)) {
+      this.update(this.sessions, session.id, { template_id: null });
+    }
+    return true;
+  }
+
+  // BATCH METHODS
+  async getBatches(): Promise<Batch[]> {
+    return this.list(this.batches).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getBatch(id: string): Promise<Batch | null> {
+    return this.batches.get(id) || null;
+  }
+
+  async createBatch(batch: BatchInsert): Promise<Batch> {
+    return this.insert(this.batches, { ...batch, updated_at: new Date().toISOString() });
+  }
+
+  async updateBatch(id: string, updates: BatchUpdate): Promise<Batch | null> {
+    return this.update(this.batches, id, { ...updates, updated_at: new Date().toISOString() });
+  }
+
+  async deleteBatch(id: string): Promise<boolean> {
+    return this.batches.delete(id);
+  }
+
+  // BATCH MEMBERSHIP METHODS
+  private byLatestJoin(memberships: BatchMembership[]): BatchMembership[] {
+    return memberships.sort((a, b) => b.joined_on.localeCompare(a.joined_on));
+  }
+
+  async getBatchMemberships(batchId: string): Promise<BatchMembership[]> {
+    return this.byLatestJoin(this.list(this.memberships, membership => membership.batch_id === batchId));
+  }
+
+  async getPlayerBatchMemberships(playerId: string): Promise<BatchMembership[]> {
+    return this.byLatestJoin(this.list(this.memberships, membership => membership.player_id === playerId));
+  }
+
+  // No awaits between the writes, so other requests never see a half-made move
+  async movePlayerToBatch(playerId: string, batchId: string | null, date: string, movedBy?: string): Promise<Player | null> {
+    if (!this.players.has(playerId)) {
+      return null;
+    }
+
+    for (const membership of Array.from(this.memberships.values())) {
+      if (membership.player_id === playerId && !membership.left_on) {
+        this.update(this.memberships, membership.id, { left_on: date });
+      }
+    }
+
+    const batch = batchId ? this.batches.get(batchId) : undefined;
+    if (batch) {
+      this.insert(this.memberships, {
+        player_id: playerId,
+        batch_id: batch.id,
+        joined_on: date,
+        left_on: null,
+        moved_by: movedBy ?? null,
+      });
+    }
+
+    return this.update(this.players, playerId, { batch_id: batch?.id ?? null, batch: batch?.name ?? null });
+  }
+
+  // ATTENDANCE METHODS
+  private findAttendance(sessionId: string, playerId: string): AttendanceRecord | undefined {
+    return Array.from(this.attendance.values()).find(record => record.session_id === sessionId && record.player_id === playerId);
+  }
+
+  async getSessionAttendance(sessionId: string): Promise<AttendanceRecord[]> {
+    return this.list(this.attendance, record => record.session_id === sessionId);
+  }
+
+  async getPlayerAttendance(playerId: string): Promise<AttendanceRecord[]> {
+    return this.list(this.attendance, record => record.player_id === playerId);
+  }
+
+  async getAttendanceForSessions(sessionIds: string[]): Promise<AttendanceRecord[]> {
+    const ids = new Set(sessionIds);
+    return this.list(this.attendance, record => ids.has(record.session_id));
+  }
+
+  async saveAttendance(records: AttendanceUpsert[]): Promise<AttendanceRecord[]> {
+    const now = new Date().toISOString();
+    return records.map(record => {
+      const existing = this.findAttendance(record.session_id, record.player_id);
+      // Replaced in full, so fields left out are cleared
+      const data = { arrival_time: null, reason: null, recorded_by: null, ...record, updated_at: now };
+      return existing ? this.update(this.attendance, existing.id, data)! : this.insert(this.attendance, data);
+    });
+  }
+
+  async deleteAttendance(sessionId: string, playerId: string): Promise<boolean> {
+    const record = this.findAttendance(sessionId, playerId);
+    return record ? this.attendance.delete(record.id) : true;
+  }
+
+  // DRILL METHODS
+  async getDrills(): Promise<Drill[]> {
+    return this.list(this.drills).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getDrill(id: string): Promise<Drill | null> {
+    return this.drills.get(id) || null;
+  }
+
+  async createDrill(drill: DrillInsert): Promise<Drill> {
+    return this.insert(this.drills, { ...drill, updated_at: new Date().toISOString() });
+  }
+
+  async updateDrill(id: string, updates: DrillUpdate): Promise<Drill | null> {
+    return this.update(this.drills, id, { ...updates, updated_at: new Date().toISOString() });
+  }
+
+  async deleteDrill(id: string): Promise<boolean> {
+    return this.drills.delete(id);
+  }
+
+  // PRACTICE PLAN METHODS
+  async getPracticePlans(): Promise<PracticePlan[]> {
+    return this.list(this.plans).sort((a, b) => b.starts_on.localeCompare(a.starts_on));
+  }
+
+  async getPracticePlan(id: string): Promise<PracticePlan | null> {
+    return this.plans.get(id) || null;
+  }
+
+  async createPracticePlan(plan: PracticePlanInsert): Promise<PracticePlan> {
+    return this.insert(this.plans, { ...plan, updated_at: new Date().toISOString() });
+  }
+
+  async updatePracticePlan(id: string, updates: PracticePlanUpdate): Promise<PracticePlan | null> {
+    return this.update(this.plans, id, { ...updates, updated_at: new Date().toISOString() });
+  }
+
+  async deletePracticePlan(id: string): Promise<boolean> {
+    if (!this.plans.delete(id)) {
+      return false;
+    }
+    // Like the plan_id foreign key's ON DELETE CASCADE
+    for (const completion of this.list(this.completions, completion => completion.plan_id === id)) {
+      this.completions.delete(completion.id);
+    }
+    return true;
+  }
+
+  // DRILL COMPLETION METHODS
+  async getDrillCompletions(planId: string): Promise<DrillCompletion[]> {
+    return this.list(this.completions, completion => completion.plan_id === planId)
+      .sort((a, b) => b.completed_on.localeCompare(a.completed_on));
+  }
+
+  async createDrillCompletion(completion: DrillCompletionInsert): Promise<DrillCompletion> {
+    return this.insert(this.completions, completion);
+  }
+
+  async deleteDrillCompletion(id: string): Promise<boolean> {
+    return this.completions.delete(id);
+  }
+
+  // SESSION RECORDING METHODS
+  async getSessionRecordings(sessionId: string): Promise<SessionRecording[]> {
+    return this.list(this.recordings, recording => recording.session_id === sessionId);
+  }
+
+  async createSessionRecording(recording: SessionRecordingInsert): Promise<SessionRecording> {
+    return this.insert(this.recordings, recording);
+  }
+}
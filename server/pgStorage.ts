@@ -0,0 +1,1192 @@
+// server/pgStorage.ts - local Postgres backend (STORAGE_DRIVER=postgres)
+import fs from 'fs';
+import path from 'path';
+import pg from 'pg';
+import {
+  Player, PlayerRatingUpdate, AssessmentInsert, AssessmentUpdate, Assessment, FullAssessmentInsert, VideoInsert, VideoUpdate, Video, VideoSearchQuery, VideoSearchResult, VideoProcessingStatus, SessionInsert, Session, SessionRecording, SessionRecordingInsert,
+  PerformanceMetric, PerformanceMetricInsert, PerformanceMetricUpdate,
+  ProblemArea, ProblemAreaInsert, ProblemAreaUpdate, AssessmentDraft, AssessmentDraftUpsert,
+  RubricTemplate, RubricTemplateInsert, RubricTemplateUpdate, Note, NoteInsert, NoteUpdate,
+  Annotation, AnnotationInsert, AnnotationUpdate, Drawing, DrawingInsert,
+  VideoBookmark, VideoBookmarkInsert, Batch, BatchInsert, BatchUpdate, BatchMembership, SessionUpdate, ScheduleTemplate, ScheduleTemplateInsert, ScheduleTemplateUpdate, AttendanceRecord, AttendanceUpsert,
+  Drill, DrillInsert, DrillUpdate, PracticePlan, PracticePlanInsert, PracticePlanUpdate, DrillCompletion, DrillCompletionInsert, VIDEO_TAG_FIELDS,
+} from '../shared/schema';
+import type { IStorage, CreatePlayerData } from './storage';
+import { NULLABLE_SORT_FIELDS, countVideoFacets, dayAfter, emptyVideoSearchResult, toVideoPage } from './videoSearch';
+
+// Return rows in the same shape the Supabase REST API does:
+// DATE as 'YYYY-MM-DD', timestamps as ISO strings, numerics as numbers
+pg.types.setTypeParser(pg.types.builtins.DATE, (value) => value);
+pg.types.setTypeParser(pg.types.builtins.TIMESTAMPTZ, (value) => new Date(value).toISOString());
+pg.types.setTypeParser(pg.types.builtins.NUMERIC, (value) => parseFloat(value));
+pg.types.setTypeParser(pg.types.builtins.INT8, (value) => parseInt(value, 10));
+
+const MIGRATIONS_DIR = path.resolve(process.env.MIGRATIONS_DIR || 'migrations');
+
+// Column names come from request bodies, so only plain identifiers are allowed through
+const identifier = (name: string) => {
+  if (!/^[a-z_][a-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid column name: ${name}`);
+  }
+  return `"${name}"`;
+};
+
+// JSONB columns holding lists. Their values are always sent as JSON: pg would send an
+// empty array as the Postgres array '{}', which JSONB stores as an object.
+const JSONB_LIST_COLUMNS = new Set(['criteria', 'history', 'shapes', 'timetable', 'items']);
+
+const toColumnValue = (column: string, value: unknown) =>
+  JSONB_LIST_COLUMNS.has(column) && value !== null ? JSON.stringify(value) : value;
+
+// Arrays of scalars map to Postgres arrays, anything else structured is stored as JSON
+const toParam = (value: unknown) => {
+  if (Array.isArray(value)) {
+    return value.every(item => typeof item !== 'object' || item === null) ? value : JSON.stringify(value);
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return JSON.stringify(value);
+  }
+  return value;
+};
+
+export class PgStorage implements IStorage {
+  private pool: pg.Pool;
+  private ready: Promise<void>;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+    this.ready = this.migrate();
+    // Surface migration failures at startup rather than on the first request
+    this.ready.catch(error => console.error('Error running migrations:', error));
+  }
+
+  // Applies every migrations/*.sql file that has not been recorded yet, in name order
+  private async migrate(): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('CREATE TABLE IF NOT EXISTS schema_migrations (name TEXT PRIMARY KEY, applied_at TIMESTAMPTZ NOT NULL DEFAULT now())');
+      const { rows } = await client.query<{ name: string }>('SELECT name FROM schema_migrations');
+      const applied = new Set(rows.map(row => row.name));
+
+      const files = (await fs.promises.readdir(MIGRATIONS_DIR))
+        .filter(file => file.endsWith('.sql') && !applied.has(file))
+        .sort();
+
+      for (const file of files) {
+        const sql = await fs.promises.readFile(path.join(MIGRATIONS_DIR, file), 'utf-8');
+        await client.query('BEGIN');
+        try {
+          await client.query(sql);
+          await client.query('INSERT INTO schema_migrations (name) VALUES ($1)', [file]);
+          await client.query('COMMIT');
+          console.log(`Applied migration ${file}`);
+        } catch (error) {
+          await client.query('ROLLBACK');
+          throw error;
+        }
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  private async query<T>(text: string, params: unknown[] = []): Promise<T[]> {
+    await this.ready;
+    const { rows } = await this.pool.query(text, params.map(toParam));
+    return rows as T[];
+  }
+
+  private async insertRow<T>(table: string, data: object): Promise<T> {
+    const entries = Object.entries(data).filter(([, value]) => value !== undefined);
+    const columns = entries.map(([key]) => identifier(key)).join(', ');
+    const placeholders = entries.map((_, index) => `$${index + 1}`).join(', ');
+
+    const rows = await this.query<T>(
+      entries.length > 0
+        ? `INSERT INTO ${table} (${columns}) VALUES (${placeholders}) RETURNING *`
+        : `INSERT INTO ${table} DEFAULT VALUES RETURNING *`,
+      entries.map(([key, value]) => toColumnValue(key, value))
+    );
+    return rows[0];
+  }
+
+  private async updateRow<T>(table: string, id: string, updates: object): Promise<T | null> {
+    const entries = Object.entries(updates).filter(([key, value]) => value !== undefined && key !== 'id');
+    if (entries.length === 0) {
+      const rows = await this.query<T>(`SELECT * FROM ${table} WHERE id = $1`, [id]);
+      return rows[0] || null;
+    }
+
+    const assignments = entries.map(([key], index) => `${identifier(key)} = $${index + 2}`).join(', ');
+    const rows = await this.query<T>(
+      `UPDATE ${table} SET ${assignments} WHERE id = $1 RETURNING *`,
+      [id, ...entries.map(([key, value]) => toColumnValue(key, value))]
+    );
+    return rows[0] || null;
+  }
+
+  // PLAYER METHODS
+  async getPlayers(): Promise<Player[]> {
+    try {
+      return await this.query<Player>('SELECT * FROM players ORDER BY created_at DESC');
+    } catch (error) {
+      console.error('Error fetching players:', error);
+      return [];
+    }
+  }
+
+  async getPlayer(id: string): Promise<Player | null> {
+    try {
+      const rows = await this.query<Player>('SELECT * FROM players WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching player:', error);
+      return null;
+    }
+  }
+
+  async createPlayer(playerData: CreatePlayerData): Promise<Player> {
+    try {
+      return await this.insertRow<Player>('players', playerData);
+    } catch (error) {
+      console.error('Postgres insertion error:', error);
+      throw new Error(`Failed to create player: ${(error as Error).message}`);
+    }
+  }
+
+  async updatePlayer(id: string, updates: Partial<CreatePlayerData>): Promise<Player | null> {
+    try {
+      return await this.updateRow<Player>('players', id, updates);
+    } catch (error) {
+      console.error('Error updating player:', error);
+      return null;
+    }
+  }
+
+  async deletePlayer(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM players WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting player:', error);
+      return false;
+    }
+  }
+
+  async updatePlayerRating(id: string, rating: PlayerRatingUpdate): Promise<Player | null> {
+    try {
+      return await this.updateRow<Player>('players', id, rating);
+    } catch (error) {
+      console.error('Error updating player rating:', error);
+      return null;
+    }
+  }
+
+  async searchPlayers(searchTerm: string): Promise<Player[]> {
+    try {
+      return await this.query<Player>(
+        `SELECT * FROM players
+         WHERE name ILIKE $1 OR specialization ILIKE $1 OR batting_style ILIKE $1 OR bowling_style ILIKE $1
+         ORDER BY name`,
+        [`%${searchTerm}%`]
+      );
+    } catch (error) {
+      console.error('Error searching players:', error);
+      return [];
+    }
+  }
+
+  // ASSESSMENT METHODS
+  async getPlayerAssessments(playerId: string): Promise<Assessment[]> {
+    try {
+      return await this.query<Assessment>(
+        'SELECT * FROM assessments WHERE player_id = $1 ORDER BY created_at DESC',
+        [playerId]
+      );
+    } catch (error) {
+      console.error('Error fetching assessments:', error);
+      return [];
+    }
+  }
+
+  async getAssessment(id: string): Promise<Assessment | null> {
+    try {
+      const rows = await this.query<Assessment>('SELECT * FROM assessments WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching assessment:', error);
+      return null;
+    }
+  }
+
+  async createAssessment(assessment: AssessmentInsert): Promise<Assessment> {
+    try {
+      return await this.insertRow<Assessment>('assessments', assessment);
+    } catch (error) {
+      console.error('Error creating assessment:', error);
+      throw new Error(`Failed to create assessment: ${(error as Error).message}`);
+    }
+  }
+
+  async updateAssessment(id: string, updates: AssessmentUpdate): Promise<Assessment | null> {
+    try {
+      return await this.updateRow<Assessment>('assessments', id, updates);
+    } catch (error) {
+      console.error('Error updating assessment:', error);
+      return null;
+    }
+  }
+
+  async createFullAssessment(fullAssessment: FullAssessmentInsert): Promise<Assessment> {
+    try {
+      // create_full_assessment (migrations/0003) runs the inserts in a single transaction
+      const [{ id }] = await this.query<{ id: string }>('SELECT create_full_assessment($1) AS id', [fullAssessment]);
+      const rows = await this.query<Assessment>('SELECT * FROM assessments WHERE id = $1', [id]);
+      return rows[0];
+    } catch (error) {
+      console.error('Error creating full assessment:', error);
+      throw new Error(`Failed to create assessment: ${(error as Error).message}`);
+    }
+  }
+
+  // METRIC METHODS
+  async getAssessmentMetrics(assessmentId: string): Promise<PerformanceMetric[]> {
+    try {
+      return await this.query<PerformanceMetric>(
+        'SELECT * FROM performance_metrics WHERE assessment_id = $1 ORDER BY created_at',
+        [assessmentId]
+      );
+    } catch (error) {
+      console.error('Error fetching metrics:', error);
+      return [];
+    }
+  }
+
+  async getMetric(id: string): Promise<PerformanceMetric | null> {
+    try {
+      const rows = await this.query<PerformanceMetric>('SELECT * FROM performance_metrics WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching metric:', error);
+      return null;
+    }
+  }
+
+  async createMetric(metric: PerformanceMetricInsert): Promise<PerformanceMetric> {
+    try {
+      return await this.insertRow<PerformanceMetric>('performance_metrics', metric);
+    } catch (error) {
+      console.error('Error creating metric:', error);
+      throw new Error(`Failed to create metric: ${(error as Error).message}`);
+    }
+  }
+
+  async updateMetric(id: string, updates: PerformanceMetricUpdate): Promise<PerformanceMetric | null> {
+    try {
+      return await this.updateRow<PerformanceMetric>('performance_metrics', id, updates);
+    } catch (error) {
+      console.error('Error updating metric:', error);
+      return null;
+    }
+  }
+
+  async deleteMetric(id: string): Promise<PerformanceMetric | null> {
+    try {
+      const rows = await this.query<PerformanceMetric>('DELETE FROM performance_metrics WHERE id = $1 RETURNING *', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      throw new Error(`Failed to delete metric: ${(error as Error).message}`);
+    }
+  }
+
+  // PROBLEM AREA METHODS
+  async getProblemAreas(assessmentId: string): Promise<ProblemArea[]> {
+    try {
+      return await this.query<ProblemArea>(
+        'SELECT * FROM problem_areas WHERE assessment_id = $1 ORDER BY created_at',
+        [assessmentId]
+      );
+    } catch (error) {
+      console.error('Error fetching problem areas:', error);
+      return [];
+    }
+  }
+
+  async getProblemArea(id: string): Promise<ProblemArea | null> {
+    try {
+      const rows = await this.query<ProblemArea>('SELECT * FROM problem_areas WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching problem area:', error);
+      return null;
+    }
+  }
+
+  async createProblemArea(problemArea: ProblemAreaInsert): Promise<ProblemArea> {
+    try {
+      return await this.insertRow<ProblemArea>('problem_areas', problemArea);
+    } catch (error) {
+      console.error('Error creating problem area:', error);
+      throw new Error(`Failed to create problem area: ${(error as Error).message}`);
+    }
+  }
+
+  async updateProblemArea(id: string, updates: ProblemAreaUpdate): Promise<ProblemArea | null> {
+    try {
+      return await this.updateRow<ProblemArea>('problem_areas', id, updates);
+    } catch (error) {
+      console.error('Error updating problem area:', error);
+      return null;
+    }
+  }
+
+  async deleteProblemArea(id: string): Promise<ProblemArea | null> {
+    try {
+      const rows = await this.query<ProblemArea>('DELETE FROM problem_areas WHERE id = $1 RETURNING *', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      throw new Error(`Failed to delete problem area: ${(error as Error).message}`);
+    }
+  }
+
+  // RUBRIC TEMPLATE METHODS
+  async getRubrics(): Promise<RubricTemplate[]> {
+    try {
+      return await this.query<RubricTemplate>('SELECT * FROM rubric_templates ORDER BY name');
+    } catch (error) {
+      console.error('Error fetching rubrics:', error);
+      return [];
+    }
+  }
+
+  async getRubric(id: string): Promise<RubricTemplate | null> {
+    try {
+      const rows = await this.query<RubricTemplate>('SELECT * FROM rubric_templates WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching rubric:', error);
+      return null;
+    }
+  }
+
+  async createRubric(rubric: RubricTemplateInsert): Promise<RubricTemplate> {
+    try {
+      return await this.insertRow<RubricTemplate>('rubric_templates', rubric);
+    } catch (error) {
+      console.error('Error creating rubric:', error);
+      throw new Error(`Failed to create rubric: ${(error as Error).message}`);
+    }
+  }
+
+  async updateRubric(id: string, updates: RubricTemplateUpdate): Promise<RubricTemplate | null> {
+    try {
+      return await this.updateRow<RubricTemplate>('rubric_templates', id, { ...updates, updated_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error updating rubric:', error);
+      return null;
+    }
+  }
+
+  async deleteRubric(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM rubric_templates WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting rubric:', error);
+      return false;
+    }
+  }
+
+  // ASSESSMENT DRAFT METHODS
+  async getAssessmentDraft(playerId: string, coach: string): Promise<AssessmentDraft | null> {
+    try {
+      const rows = await this.query<AssessmentDraft>(
+        'SELECT * FROM assessment_drafts WHERE player_id = $1 AND coach = $2',
+        [playerId, coach]
+      );
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching assessment draft:', error);
+      return null;
+    }
+  }
+
+  async saveAssessmentDraft(draft: AssessmentDraftUpsert): Promise<AssessmentDraft> {
+    try {
+      const rows = await this.query<AssessmentDraft>(
+        `INSERT INTO assessment_drafts (player_id, coach, data) VALUES ($1, $2, $3)
+         ON CONFLICT (player_id, coach) DO UPDATE SET data = EXCLUDED.data, updated_at = now()
+         RETURNING *`,
+        [draft.player_id, draft.coach, draft.data]
+      );
+      return rows[0];
+    } catch (error) {
+      console.error('Error saving assessment draft:', error);
+      throw new Error(`Failed to save assessment draft: ${(error as Error).message}`);
+    }
+  }
+
+  async deleteAssessmentDraft(playerId: string, coach: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM assessment_drafts WHERE player_id = $1 AND coach = $2', [playerId, coach]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting assessment draft:', error);
+      return false;
+    }
+  }
+
+  async deleteExpiredAssessmentDrafts(updatedBefore: string): Promise<number> {
+    try {
+      const rows = await this.query('DELETE FROM assessment_drafts WHERE updated_at < $1 RETURNING id', [updatedBefore]);
+      return rows.length;
+    } catch (error) {
+      console.error('Error deleting expired assessment drafts:', error);
+      return 0;
+    }
+  }
+
+  // NOTE METHODS
+  async getPlayerNotes(playerId: string): Promise<Note[]> {
+    try {
+      return await this.query<Note>(
+        'SELECT * FROM notes WHERE player_id = $1 ORDER BY created_at DESC',
+        [playerId]
+      );
+    } catch (error) {
+      console.error('Error fetching notes:', error);
+      return [];
+    }
+  }
+
+  async getNote(id: string): Promise<Note | null> {
+    try {
+      const rows = await this.query<Note>('SELECT * FROM notes WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching note:', error);
+      return null;
+    }
+  }
+
+  async createNote(note: NoteInsert): Promise<Note> {
+    try {
+      return await this.insertRow<Note>('notes', note);
+    } catch (error) {
+      console.error('Error creating note:', error);
+      throw new Error(`Failed to create note: ${(error as Error).message}`);
+    }
+  }
+
+  async updateNote(id: string, updates: NoteUpdate): Promise<Note | null> {
+    try {
+      return await this.updateRow<Note>('notes', id, { ...updates, updated_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error updating note:', error);
+      return null;
+    }
+  }
+
+  async deleteNote(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM notes WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting note:', error);
+      return false;
+    }
+  }
+
+  // ANNOTATION METHODS
+  async getVideoAnnotations(videoId: string): Promise<Annotation[]> {
+    try {
+      return await this.query<Annotation>(
+        'SELECT * FROM annotations WHERE video_id = $1 ORDER BY timestamp ASC, created_at ASC',
+        [videoId]
+      );
+    } catch (error) {
+      console.error('Error fetching annotations:', error);
+      return [];
+    }
+  }
+
+  async getAnnotation(id: string): Promise<Annotation | null> {
+    try {
+      const rows = await this.query<Annotation>('SELECT * FROM annotations WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching annotation:', error);
+      return null;
+    }
+  }
+
+  async createAnnotation(annotation: AnnotationInsert): Promise<Annotation> {
+    try {
+      return await this.insertRow<Annotation>('annotations', annotation);
+    } catch (error) {
+      console.error('Error creating annotation:', error);
+      throw new Error(`Failed to create annotation: ${(error as Error).message}`);
+    }
+  }
+
+  async updateAnnotation(id: string, updates: AnnotationUpdate): Promise<Annotation | null> {
+    try {
+      return await this.updateRow<Annotation>('annotations', id, { ...updates, updated_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error updating annotation:', error);
+      return null;
+    }
+  }
+
+  async deleteAnnotation(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM annotations WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting annotation:', error);
+      return false;
+    }
+  }
+
+  // DRAWING METHODS
+  async getVideoDrawings(videoId: string): Promise<Drawing[]> {
+    try {
+      return await this.query<Drawing>(
+        'SELECT * FROM drawings WHERE video_id = $1 ORDER BY timestamp ASC, created_at ASC',
+        [videoId]
+      );
+    } catch (error) {
+      console.error('Error fetching drawings:', error);
+      return [];
+    }
+  }
+
+  async getDrawing(id: string): Promise<Drawing | null> {
+    try {
+      const rows = await this.query<Drawing>('SELECT * FROM drawings WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching drawing:', error);
+      return null;
+    }
+  }
+
+  async createDrawing(drawing: DrawingInsert): Promise<Drawing> {
+    try {
+      return await this.insertRow<Drawing>('drawings', drawing);
+    } catch (error) {
+      console.error('Error creating drawing:', error);
+      throw new Error(`Failed to create drawing: ${(error as Error).message}`);
+    }
+  }
+
+  async deleteDrawing(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM drawings WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting drawing:', error);
+      return false;
+    }
+  }
+
+  // VIDEO BOOKMARK METHODS
+  async getVideoBookmarks(videoId: string): Promise<VideoBookmark[]> {
+    try {
+      return await this.query<VideoBookmark>(
+        'SELECT * FROM video_bookmarks WHERE video_id = $1 ORDER BY start ASC, created_at ASC',
+        [videoId]
+      );
+    } catch (error) {
+      console.error('Error fetching video bookmarks:', error);
+      return [];
+    }
+  }
+
+  async getVideoBookmark(id: string): Promise<VideoBookmark | null> {
+    try {
+      const rows = await this.query<VideoBookmark>('SELECT * FROM video_bookmarks WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching video bookmark:', error);
+      return null;
+    }
+  }
+
+  async createVideoBookmark(bookmark: VideoBookmarkInsert): Promise<VideoBookmark> {
+    try {
+      return await this.insertRow<VideoBookmark>('video_bookmarks', bookmark);
+    } catch (error) {
+      console.error('Error creating video bookmark:', error);
+      throw new Error(`Failed to create video bookmark: ${(error as Error).message}`);
+    }
+  }
+
+  async deleteVideoBookmark(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM video_bookmarks WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting video bookmark:', error);
+      return false;
+    }
+  }
+
+  // VIDEO METHODS
+  async getPlayerVideos(playerId: string): Promise<Video[]> {
+    try {
+      return await this.query<Video>(
+        'SELECT * FROM videos WHERE player_id = $1 ORDER BY created_at DESC',
+        [playerId]
+      );
+    } catch (error) {
+      console.error('Error fetching videos:', error);
+      return [];
+    }
+  }
+
+  async getReferenceVideos(): Promise<Video[]> {
+    try {
+      return await this.query<Video>('SELECT * FROM videos WHERE player_id IS NULL ORDER BY created_at DESC');
+    } catch (error) {
+      console.error('Error fetching reference videos:', error);
+      return [];
+    }
+  }
+
+  async getSessionVideos(sessionId: string): Promise<Video[]> {
+    try {
+      return await this.query<Video>(
+        'SELECT * FROM videos WHERE session_id = $1 ORDER BY created_at DESC',
+        [sessionId]
+      );
+    } catch (error) {
+      console.error('Error fetching session videos:', error);
+      return [];
+    }
+  }
+
+  async getVideo(id: string): Promise<Video | null> {
+    try {
+      const rows = await this.query<Video>('SELECT * FROM videos WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching video:', error);
+      return null;
+    }
+  }
+
+  async createVideo(video: VideoInsert): Promise<Video> {
+    try {
+      return await this.insertRow<Video>('videos', video);
+    } catch (error) {
+      console.error('Error creating video:', error);
+      throw new Error(`Failed to create video: ${(error as Error).message}`);
+    }
+  }
+
+  async updateVideo(id: string, updates: VideoUpdate): Promise<Video | null> {
+    try {
+      return await this.updateRow<Video>('videos', id, updates);
+    } catch (error) {
+      console.error('Error updating video:', error);
+      return null;
+    }
+  }
+
+  async getVideosByProcessingStatus(statuses: VideoProcessingStatus[]): Promise<Video[]> {
+    try {
+      return await this.query<Video>(
+        'SELECT * FROM videos WHERE processing_status = ANY($1) ORDER BY created_at ASC',
+        [statuses]
+      );
+    } catch (error) {
+      console.error('Error fetching videos by processing status:', error);
+      return [];
+    }
+  }
+
+  async deleteVideo(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM videos WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting video:', error);
+      return false;
+    }
+  }
+
+  // Conditions shared by the facet, count and page queries. Parameters are
+  // appended to `params` so the caller can keep adding its own.
+  private videoSearchConditions(search: VideoSearchQuery, params: unknown[], withTags: boolean): string[] {
+    // Reference clips (no player) are listed separately
+    const conditions: string[] = ['player_id IS NOT NULL'];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (search.player_ids) conditions.push(`player_id = ANY(${param(search.player_ids)}::uuid[])`);
+    if (search.from) conditions.push(`created_at >= ${param(`${search.from}T00:00:00.000Z`)}::timestamptz`);
+    if (search.to) conditions.push(`created_at < ${param(dayAfter(search.to))}::timestamptz`);
+    if (search.min_duration !== undefined) conditions.push(`duration >= ${param(search.min_duration)}`);
+    if (search.max_duration !== undefined) conditions.push(`duration <= ${param(search.max_duration)}`);
+    if (search.min_quality !== undefined) conditions.push(`quality_rating >= ${param(search.min_quality)}`);
+    if (search.max_quality !== undefined) conditions.push(`quality_rating <= ${param(search.max_quality)}`);
+
+    if (withTags) {
+      for (const field of VIDEO_TAG_FIELDS) {
+        const values = search.tags?.[field];
+        if (values) conditions.push(`${identifier(field)} = ANY(${param(values)}::text[])`);
+      }
+    }
+
+    return conditions;
+  }
+
+  async searchVideos(search: VideoSearchQuery): Promise<VideoSearchResult> {
+    try {
+      const where = (conditions: string[]) => (conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '');
+
+      const facetParams: unknown[] = [];
+      const facetRows = await this.query<Video>(
+        `SELECT ${VIDEO_TAG_FIELDS.map(identifier).join(', ')} FROM videos ${where(this.videoSearchConditions(search, facetParams, false))}`,
+        facetParams
+      );
+
+      const countParams: unknown[] = [];
+      const [{ count }] = await this.query<{ count: number }>(
+        `SELECT count(*)::int AS count FROM videos ${where(this.videoSearchConditions(search, countParams, true))}`,
+        countParams
+      );
+
+      // Keyset pagination on (sort value, id). created_at is compared at millisecond
+      // precision because that is all the cursor carries; missing numbers sort lowest.
+      const pageParams: unknown[] = [];
+      const conditions = this.videoSearchConditions(search, pageParams, true);
+      const nullable = NULLABLE_SORT_FIELDS.includes(search.sort);
+      const sortExpr = search.sort === 'created_at'
+        ? "date_trunc('milliseconds', created_at)"
+        : nullable ? `COALESCE(${identifier(search.sort)}, '-infinity'::real)` : identifier(search.sort);
+      const direction = search.order === 'asc' ? 'ASC' : 'DESC';
+
+      if (search.cursor) {
+        const cast = search.sort === 'created_at' ? 'timestamptz' : nullable ? 'real' : 'text';
+        pageParams.push(search.cursor.value ?? '-infinity', search.cursor.id);
+        conditions.push(
+          `(${sortExpr}, id) ${search.order === 'asc' ? '>' : '<'} ($${pageParams.length - 1}::${cast}, $${pageParams.length}::uuid)`
+        );
+      }
+      pageParams.push(search.limit + 1);
+      const rows = await this.query<Video>(
+        `SELECT * FROM videos ${where(conditions)} ORDER BY ${sortExpr} ${direction}, id ${direction} LIMIT $${pageParams.length}`,
+        pageParams
+      );
+
+      return {
+        ...toVideoPage(rows, search),
+        total: count,
+        facets: countVideoFacets(facetRows, search.tags),
+      };
+    } catch (error) {
+      console.error('Error searching videos:', error);
+      return emptyVideoSearchResult();
+    }
+  }
+
+  // SESSION METHODS
+  async getSessions(): Promise<Session[]> {
+    try {
+      return await this.query<Session>('SELECT * FROM sessions ORDER BY created_at DESC');
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      return [];
+    }
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    try {
+      const rows = await this.query<Session>('SELECT * FROM sessions WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching session:', error);
+      return null;
+    }
+  }
+
+  async createSession(session: SessionInsert): Promise<Session> {
+    try {
+      return await this.insertRow<Session>('sessions', session);
+    } catch (error) {
+      console.error('Error creating session:', error);
+      throw new Error(`Failed to create session: ${(error as Error).message}`);
+    }
+  }
+
+  async updateSession(id: string, updates: SessionUpdate): Promise<Session | null> {
+    try {
+      return await this.updateRow<Session>('sessions', id, updates);
+    } catch (error) {
+      console.error('Error updating session:', error);
+      return null;
+    }
+  }
+
+  async getSessionsBetween(from: string, to: string): Promise<Session[]> {
+    try {
+      return await this.query<Session>(
+        'SELECT * FROM sessions WHERE date BETWEEN $1 AND $2 ORDER BY date, start_time NULLS FIRST, created_at',
+        [from, to]
+      );
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      return [];
+    }
+  }
+
+  // SCHEDULE TEMPLATE METHODS
+  async getScheduleTemplates(): Promise<ScheduleTemplate[]> {
+    try {
+      return await this.query<ScheduleTemplate>('SELECT * FROM schedule_templates ORDER BY created_at');
+    } catch (error) {
+      console.error('Error fetching schedule templates:', error);
+      return [];
+    }
+  }
+
+  async getScheduleTemplate(id: string): Promise<ScheduleTemplate | null> {
+    try {
+      const rows = await this.query<ScheduleTemplate>('SELECT * FROM schedule_templates WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching schedule template:', error);
+      return null;
+    }
+  }
+
+  async createScheduleTemplate(template: ScheduleTemplateInsert): Promise<ScheduleTemplate> {
+    try {
+      return await this.insertRow<ScheduleTemplate>('schedule_templates', template);
+    } catch (error) {
+      console.error('Error creating schedule template:', error);
+      throw new Error(`Failed to create schedule template: ${(error as Error).message}`);
+    }
+  }
+
+  async updateScheduleTemplate(id: string, updates: ScheduleTemplateUpdate): Promise<ScheduleTemplate | null> {
+    try {
+      return await this.updateRow<ScheduleTemplate>('schedule_templates', id, { ...updates, updated_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error updating schedule template:', error);
+      return null;
+    }
+  }
+
+  async deleteScheduleTemplate(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM schedule_templates WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting schedule template:', error);
+      return false;
+    }
+  }
+
+  // BATCH METHODS
+  async getBatches(): Promise<Batch[]> {
+    try {
+      return await this.query<Batch>('SELECT * FROM batches ORDER BY name');
+    } catch (error) {
+      console.error('Error fetching batches:', error);
+      return [];
+    }
+  }
+
+  async getBatch(id: string): Promise<Batch | null> {
+    try {
+      const rows = await this.query<Batch>('SELECT * FROM batches WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching batch:', error);
+      return null;
+    }
+  }
+
+  async createBatch(batch: BatchInsert): Promise<Batch> {
+    try {
+      return await this.insertRow<Batch>('batches', batch);
+    } catch (error) {
+      console.error('Error creating batch:', error);
+      throw new Error(`Failed to create batch: ${(error as Error).message}`);
+    }
+  }
+
+  async updateBatch(id: string, updates: BatchUpdate): Promise<Batch | null> {
+    try {
+      return await this.updateRow<Batch>('batches', id, { ...updates, updated_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error updating batch:', error);
+      return null;
+    }
+  }
+
+  async deleteBatch(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM batches WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting batch:', error);
+      return false;
+    }
+  }
+
+  // BATCH MEMBERSHIP METHODS
+  async getBatchMemberships(batchId: string): Promise<BatchMembership[]> {
+    try {
+      return await this.query<BatchMembership>(
+        'SELECT * FROM batch_memberships WHERE batch_id = $1 ORDER BY joined_on DESC, created_at DESC',
+        [batchId]
+      );
+    } catch (error) {
+      console.error('Error fetching batch memberships:', error);
+      return [];
+    }
+  }
+
+  async getPlayerBatchMemberships(playerId: string): Promise<BatchMembership[]> {
+    try {
+      return await this.query<BatchMembership>(
+        'SELECT * FROM batch_memberships WHERE player_id = $1 ORDER BY joined_on DESC, created_at DESC',
+        [playerId]
+      );
+    } catch (error) {
+      console.error('Error fetching player batch memberships:', error);
+      return [];
+    }
+  }
+
+  async movePlayerToBatch(playerId: string, batchId: string | null, date: string, movedBy?: string): Promise<Player | null> {
+    try {
+      // move_player_to_batch (migrations/0016) makes the change in a single transaction
+      await this.query('SELECT move_player_to_batch($1, $2, $3, $4)', [playerId, batchId, date, movedBy ?? null]);
+      return await this.getPlayer(playerId);
+    } catch (error) {
+      console.error('Error moving player to batch:', error);
+      throw new Error(`Failed to move player: ${(error as Error).message}`);
+    }
+  }
+
+  // ATTENDANCE METHODS
+  async getSessionAttendance(sessionId: string): Promise<AttendanceRecord[]> {
+    try {
+      return await this.query<AttendanceRecord>('SELECT * FROM attendance WHERE session_id = $1', [sessionId]);
+    } catch (error) {
+      console.error('Error fetching session attendance:', error);
+      return [];
+    }
+  }
+
+  async getPlayerAttendance(playerId: string): Promise<AttendanceRecord[]> {
+    try {
+      return await this.query<AttendanceRecord>('SELECT * FROM attendance WHERE player_id = $1', [playerId]);
+    } catch (error) {
+      console.error('Error fetching player attendance:', error);
+      return [];
+    }
+  }
+
+  async getAttendanceForSessions(sessionIds: string[]): Promise<AttendanceRecord[]> {
+    if (sessionIds.length === 0) {
+      return [];
+    }
+    try {
+      return await this.query<AttendanceRecord>('SELECT * FROM attendance WHERE session_id = ANY($1::uuid[])', [sessionIds]);
+    } catch (error) {
+      console.error('Error fetching attendance:', error);
+      return [];
+    }
+  }
+
+  async saveAttendance(records: AttendanceUpsert[]): Promise<AttendanceRecord[]> {
+    if (records.length === 0) {
+      return [];
+    }
+    try {
+      // One statement, so either every record is saved or none is
+      const columns = ['session_id', 'player_id', 'status', 'arrival_time', 'reason', 'recorded_by'] as const;
+      const values = records.map((_, row) =>
+        `(${columns.map((__, column) => `$${row * columns.length + column + 1}`).join(', ')})`);
+      return await this.query<AttendanceRecord>(
+        `INSERT INTO attendance (${columns.join(', ')}) VALUES ${values.join(', ')}
+         ON CONFLICT (session_id, player_id) DO UPDATE SET
+           status = EXCLUDED.status, arrival_time = EXCLUDED.arrival_time, reason = EXCLUDED.reason,
+           recorded_by = EXCLUDED.recorded_by, updated_at = now()
+         RETURNING *`,
+        records.flatMap(record => columns.map(column => record[column] ?? null))
+      );
+    } catch (error) {
+      console.error('Error saving attendance:', error);
+      throw new Error(`Failed to save attendance: ${(error as Error).message}`);
+    }
+  }
+
+  async deleteAttendance(sessionId: string, playerId: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM attendance WHERE session_id = $1 AND player_id = $2', [sessionId, playerId]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting attendance:', error);
+      return false;
+    }
+  }
+
+  // DRILL METHODS
+  async getDrills(): Promise<Drill[]> {
+    try {
+      return await this.query<Drill>('SELECT * FROM drills ORDER BY name');
+    } catch (error) {
+      console.error('Error fetching drills:', error);
+      return [];
+    }
+  }
+
+  async getDrill(id: string): Promise<Drill | null> {
+    try {
+      const rows = await this.query<Drill>('SELECT * FROM drills WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching drill:', error);
+      return null;
+    }
+  }
+
+  async createDrill(drill: DrillInsert): Promise<Drill> {
+    try {
+      return await this.insertRow<Drill>('drills', drill);
+    } catch (error) {
+      console.error('Error creating drill:', error);
+      throw new Error(`Failed to create drill: ${(error as Error).message}`);
+    }
+  }
+
+  async updateDrill(id: string, updates: DrillUpdate): Promise<Drill | null> {
+    try {
+      return await this.updateRow<Drill>('drills', id, { ...updates, updated_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error updating drill:', error);
+      return null;
+    }
+  }
+
+  async deleteDrill(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM drills WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting drill:', error);
+      return false;
+    }
+  }
+
+  // PRACTICE PLAN METHODS
+  async getPracticePlans(): Promise<PracticePlan[]> {
+    try {
+      return await this.query<PracticePlan>('SELECT * FROM practice_plans ORDER BY starts_on DESC, created_at DESC');
+    } catch (error) {
+      console.error('Error fetching practice plans:', error);
+      return [];
+    }
+  }
+
+  async getPracticePlan(id: string): Promise<PracticePlan | null> {
+    try {
+      const rows = await this.query<PracticePlan>('SELECT * FROM practice_plans WHERE id = $1', [id]);
+      return rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching practice plan:', error);
+      return null;
+    }
+  }
+
+  async createPracticePlan(plan: PracticePlanInsert): Promise<PracticePlan> {
+    try {
+      return await this.insertRow<PracticePlan>('practice_plans', plan);
+    } catch (error) {
+      console.error('Error creating practice plan:', error);
+      throw new Error(`Failed to create practice plan: ${(error as Error).message}`);
+    }
+  }
+
+  async updatePracticePlan(id: string, updates: PracticePlanUpdate): Promise<PracticePlan | null> {
+    try {
+      return await this.updateRow<PracticePlan>('practice_plans', id, { ...updates, updated_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error updating practice plan:', error);
+      return null;
+    }
+  }
+
+  async deletePracticePlan(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM practice_plans WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting practice plan:', error);
+      return false;
+    }
+  }
+
+  // DRILL COMPLETION METHODS
+  async getDrillCompletions(planId: string): Promise<DrillCompletion[]> {
+    try {
+      return await this.query<DrillCompletion>(
+        'SELECT * FROM drill_completions WHERE plan_id = $1 ORDER BY completed_on DESC, created_at DESC',
+        [planId]
+      );
+    } catch (error) {
+      console.error('Error fetching drill completions:', error);
+      return [];
+    }
+  }
+
+  async createDrillCompletion(completion: DrillCompletionInsert): Promise<DrillCompletion> {
+    try {
+      return await this.insertRow<DrillCompletion>('drill_completions', completion);
+    } catch (error) {
+      console.error('Error creating drill completion:', error);
+      throw new Error(`Failed to create drill completion: ${(error as Error).message}`);
+    }
+  }
+
+  async deleteDrillCompletion(id: string): Promise<boolean> {
+    try {
+      await this.query('DELETE FROM drill_completions WHERE id = $1', [id]);
+      return true;
+    } catch (error) {
+      console.error('Error deleting drill completion:', error);
+      return false;
+    }
+  }
+
+  // SESSION RECORDING METHODS
+  async getSessionRecordings(sessionId: string): Promise<SessionRecording[]> {
+    try {
+      return await this.query<SessionRecording>(
+        'SELECT * FROM session_recordings WHERE session_id = $1 ORDER BY created_at DESC',
+        [sessionId]
+      );
+    } catch (error) {
+      console.error('Error fetching session recordings:', error);
+      return [];
+    }
+  }
+
+  async createSessionRecording(recording: SessionRecordingInsert): Promise<SessionRecording> {
+    try {
+      return await this.insertRow<SessionRecording>('session_recordings', recording);
+    } catch (error) {
+      console.error('Error creating session recording:', error);
+      throw new Error(`Failed to create session recording: ${(error as Error).message}`);
+    }
+  }
+}
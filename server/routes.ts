@@ -2,6 +2,27 @@
 import express from 'express';
 import multer from 'multer';
 import { storage } from './storage';
+import { draftExpiryCutoff } from './drafts';
+import { cleanCoaches, findBatchByName, toTimetable, validateBatchData } from './batches';
+import {
+  CLASH_HORIZON_DAYS, FEED_FUTURE_DAYS, FEED_PAST_DAYS, MAX_SCHEDULE_DAYS, addDays, checkTemplateDates, checkTimes, daysBetween,
+  describeClash, expandSchedule, findClash, isTemplateOccurrence, occurrenceEntry, sessionEntry, toICalendar,
+  validateSessionSchedule, validateTemplateData,
+} from './schedule';
+import {
+  DEFAULT_RUBRIC, DEFAULT_RUBRIC_ID, TECHNIQUE_SCALE, getRubricById, ratingLabel, resolvePlayerRubric, rubricCriterionKeys, validateRubricData,
+} from './rubrics';
+import { buildRatingBreakdown, recomputeAllPlayerRatings, recomputeRatingsForAssessment } from './scoring';
+import { emptyVideoSearchResult, parseVideoSearchParams } from './videoSearch';
+import { contentTypeFor, deleteStoredFile, fileKeyFromUrl, fileKeys, fileStore, fileUrl, isValidFileKey, proxyFiles, saveFile } from './fileStorage';
+import { sendStoredFile } from './fileStreaming';
+import { MAX_UPLOAD_SIZE, completeUpload, createUpload, getUpload, receiveChunk, removeUpload } from './chunkedUploads';
+import { queueThumbnails } from './thumbnails';
+import { queueClips, queueVideoProcessing } from './videoProcessing';
+import { summarizeAttendance, validateAttendanceData } from './attendance';
+import { checkPlanDates, cleanList, isActivePlan, planProgress, suggestDrills, validateDrillData, validatePlanData } from './drills';
+import { BATTING_HANDS, DRAWING_TOOLS, VIDEO_TAG_FIELDS, VIDEO_TAG_OPTIONS, WEEKDAYS } from '../shared/schema';
+import type { Assessment, AttendanceRecord, DrillUpdate, Player, PracticePlan, PracticePlanItem, PracticePlanPlayerProgress, PracticePlanUpdate, RubricScale, RubricTemplate, AttendanceSheetEntry, AttendanceUpsert, Batch, BatchAttendanceReport, BatchRosterEntry, ClipSegment, DrawingShape, FullAssessment, FullAssessmentSubmission, NoteType, PlayerAttendance, ScheduleEntry, ScheduleTemplate, Session, SessionUpdate, Video, VideoProcessingJob, VideoTags, VideoUpdate } from '../shared/schema';
 
 const router = express.Router();
 
@@ -22,6 +43,7 @@ interface CreatePlayerRequest {
   specialization: string;
   photo_url?: string | null;
   batch: string;
+  batch_id: string;
   position?: string;
   overall_rating?: number;
   total_assessments?: number;
@@ -43,8 +65,9 @@ const validatePlayerData = (data: any): string[] => {
     errors.push('Age is required and must be a number between 5 and 100');
   }
   
-  if (!data.batch || typeof data.batch !== 'string' || data.batch.trim().length === 0) {
-    errors.push('Batch is required and must be a non-empty string');
+  const hasBatchId = typeof data.batch_id === 'string' && data.batch_id.length > 0;
+  if (!hasBatchId && (!data.batch || typeof data.batch !== 'string' || data.batch.trim().length === 0)) {
+    errors.push('Batch is required: give batch_id or the name of an existing batch');
   }
   
   if (!data.batting_style || typeof data.batting_style !== 'string') {
@@ -99,180 +122,3474 @@ const validatePlayerData = (data: any): string[] => {
   return errors;
 };
 
+// The batch a new player joins, by batch_id or by name
+const findPlayerBatch = async (data: any): Promise<Batch | null> => {
+  if (typeof data.batch_id === 'string' && data.batch_id.length > 0) {
+    return storage.getBatch(data.batch_id);
+  }
+  return findBatchByName(await storage.getBatches(), data.batch) ?? null;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const batchPlayers = async (batchId: string) =>
+  (await storage.getPlayers()).filter(player => player.batch_id === batchId);
+
+const isBatchFull = async (batch: Batch) =>
+  batch.capacity != null && (await batchPlayers(batch.id)).length >= batch.capacity;
+
+// Validation for assessment metrics and problem areas. `partial` skips the
+// required-field checks so the same rules can be used for updates.
+const validateRating = (rating: any, errors: string[]) => {
+  if (typeof rating !== 'number' || rating < 0 || rating > 5) {
+    errors.push('Rating must be a number between 0 and 5');
+  }
+};
+
+const validateMetricData = (data: any, partial = false): string[] => {
+  const errors: string[] = [];
+
+  if (!partial || data.metric_type !== undefined) {
+    if (!data.metric_type || typeof data.metric_type !== 'string' || data.metric_type.trim().length === 0) {
+      errors.push('Metric type is required and must be a non-empty string');
+    }
+  }
+
+  if (!partial || data.rating !== undefined) {
+    validateRating(data.rating, errors);
+  }
+
+  for (const field of ['value', 'notes', 'video_url']) {
+    if (data[field] !== undefined && data[field] !== null && typeof data[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  return errors;
+};
+
+const validateProblemAreaData = (data: any, partial = false): string[] => {
+  const errors: string[] = [];
+
+  if (!partial || data.area_type !== undefined) {
+    if (!data.area_type || typeof data.area_type !== 'string' || data.area_type.trim().length === 0) {
+      errors.push('Area type is required and must be a non-empty string');
+    }
+  }
+
+  if (!partial || data.rating !== undefined) {
+    validateRating(data.rating, errors);
+  }
+
+  if (data.notes !== undefined && data.notes !== null && typeof data.notes !== 'string') {
+    errors.push('notes must be a string');
+  }
+
+  return errors;
+};
+
+const isValidDate = (value: any) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+// Validation for moving a player into or out of a batch. `date` defaults to today.
+const validateBatchMove = (data: any, needsPlayer: boolean): string[] => {
+  const errors: string[] = [];
+
+  if (needsPlayer && (typeof data.player_id !== 'string' || data.player_id.length === 0)) {
+    errors.push('player_id is required');
+  }
+
+  if (data.date !== undefined && !isValidDate(data.date)) {
+    errors.push('date must be in YYYY-MM-DD format');
+  }
+
+  if (data.moved_by !== undefined && typeof data.moved_by !== 'string') {
+    errors.push('moved_by must be a string');
+  }
+
+  return errors;
+};
+
+// A move can't be dated before the player joined their current batch
+const checkMoveDate = async (playerId: string, date: string): Promise<string | null> => {
+  const [current] = (await storage.getPlayerBatchMemberships(playerId)).filter(membership => !membership.left_on);
+  return current && date < current.joined_on
+    ? `date can't be before the player joined their current batch (${current.joined_on})`
+    : null;
+};
+
+// Validation for the nested document accepted by POST /players/:id/assessments/full
+const validateFullAssessmentData = (data: any): string[] => {
+  const errors: string[] = [];
+
+  if (data.notes !== undefined && data.notes !== null && typeof data.notes !== 'string') {
+    errors.push('notes must be a string');
+  }
+
+  if (data.coach !== undefined) {
+    errors.push(...validateCoach(data.coach));
+  }
+
+  if (data.rubric_id !== undefined && (typeof data.rubric_id !== 'string' || data.rubric_id.trim().length === 0)) {
+    errors.push('rubric_id must be a non-empty string');
+  }
+
+  if (!isValidDate(data.week_start) || !isValidDate(data.week_end)) {
+    errors.push('week_start and week_end are required dates in YYYY-MM-DD format');
+  } else if (data.week_end < data.week_start) {
+    errors.push('week_end must not be before week_start');
+  }
+
+  if (!Array.isArray(data.problem_areas)) {
+    errors.push('problem_areas must be an array');
+  } else {
+    data.problem_areas.forEach((area: any, index: number) => {
+      validateProblemAreaData(area ?? {}).forEach(error => errors.push(`problem_areas[${index}]: ${error}`));
+    });
+  }
+
+  if (!Array.isArray(data.shot_assessments)) {
+    errors.push('shot_assessments must be an array');
+  } else {
+    data.shot_assessments.forEach((shot: any, index: number) => {
+      const prefix = `shot_assessments[${index}]`;
+      if (!shot || typeof shot.shot_type !== 'string' || shot.shot_type.trim().length === 0) {
+        errors.push(`${prefix}: Shot type is required and must be a non-empty string`);
+        return;
+      }
+      validateMetricData({ metric_type: shot.shot_type, rating: shot.rating, notes: shot.notes, video_url: shot.video_url })
+        .forEach(error => errors.push(`${prefix}: ${error}`));
+
+      if (!Array.isArray(shot.areas)) {
+        errors.push(`${prefix}: areas must be an array`);
+        return;
+      }
+      shot.areas.forEach((area: any, areaIndex: number) => {
+        validateMetricData({ metric_type: area?.id, rating: area?.rating, notes: area?.notes })
+          .forEach(error => errors.push(`${prefix}.areas[${areaIndex}]: ${error}`));
+      });
+    });
+  }
+
+  return errors;
+};
+
+const checkRubricRating = (scale: RubricScale, rating: number, prefix: string, errors: string[]) => {
+  if (rating !== 0 && (rating < scale.min || rating > scale.max)) {
+    errors.push(`${prefix}: Rating must be 0 (not rated) or between ${scale.min} and ${scale.max}`);
+  }
+};
+
+// Run once the shape is valid and the rubric is known: every criterion must be one of
+// the rubric's, and every rating on that criterion's scale
+const validateAssessmentAgainstRubric = (submission: FullAssessmentSubmission, rubric: RubricTemplate): string[] => {
+  const errors: string[] = [];
+
+  submission.problem_areas.forEach((area, index) => {
+    const prefix = `problem_areas[${index}]`;
+    const criterion = rubric.criteria.find(item => item.group === 'general' && item.key === area.area_type.trim());
+    if (!criterion) {
+      errors.push(`${prefix}: "${area.area_type}" is not a general criterion of rubric "${rubric.name}"`);
+      return;
+    }
+    checkRubricRating(criterion.scale, area.rating, prefix, errors);
+  });
+
+  submission.shot_assessments.forEach((shot, index) => {
+    const prefix = `shot_assessments[${index}]`;
+    const criterion = rubric.criteria.find(item => item.group === 'shot' && item.key === toMetricKey(shot.shot_type));
+    if (!criterion) {
+      errors.push(`${prefix}: "${shot.shot_type}" is not a shot in rubric "${rubric.name}"`);
+      return;
+    }
+    checkRubricRating(criterion.scale, shot.rating, prefix, errors);
+
+    shot.areas.forEach((area, areaIndex) => {
+      const areaPrefix = `${prefix}.areas[${areaIndex}]`;
+      if (!criterion.sub_criteria?.some(sub => sub.key === area.id)) {
+        errors.push(`${areaPrefix}: "${area.id}" is not a technical area of ${criterion.name}`);
+        return;
+      }
+      checkRubricRating(criterion.sub_scale ?? TECHNIQUE_SCALE, area.rating, areaPrefix, errors);
+    });
+  });
+
+  return errors;
+};
+
+const validateCoach = (coach: any): string[] =>
+  typeof coach === 'string' && coach.trim().length > 0 ? [] : ['coach is required and must be a non-empty string'];
+
+// Drafts hold a half-filled form, so only the overall shape is checked here;
+// the full validation runs when the assessment is submitted
+const validateDraftData = (data: any): string[] => {
+  const errors = validateCoach(data.coach);
+
+  if (!data.data || typeof data.data !== 'object' || Array.isArray(data.data)) {
+    errors.push('data must be an object');
+    return errors;
+  }
+
+  for (const field of ['problem_areas', 'shot_assessments']) {
+    if (data.data[field] !== undefined && !Array.isArray(data.data[field])) {
+      errors.push(`data.${field} must be an array`);
+    }
+  }
+  if (data.data.notes !== undefined && typeof data.data.notes !== 'string') {
+    errors.push('data.notes must be a string');
+  }
+
+  return errors;
+};
+
+const NOTE_TYPES: NoteType[] = ['profile', 'assessment', 'video'];
+
+// The author is checked against the stored note separately, on edit and delete
+const validateNoteData = (data: any, partial = false): string[] => {
+  const errors: string[] = [];
+
+  if (typeof data.author !== 'string' || data.author.trim().length === 0) {
+    errors.push('author is required and must be a non-empty string');
+  }
+
+  if (!partial || data.body !== undefined) {
+    if (typeof data.body !== 'string' || data.body.trim().length === 0) {
+      errors.push('body is required and must be a non-empty string');
+    }
+  }
+
+  if (data.type !== undefined && !NOTE_TYPES.includes(data.type)) {
+    errors.push(`type must be one of: ${NOTE_TYPES.join(', ')}`);
+  }
+
+  if (!partial) {
+    for (const field of ['assessment_id', 'video_id']) {
+      if (data[field] !== undefined && data[field] !== null && (typeof data[field] !== 'string' || data[field].trim().length === 0)) {
+        errors.push(`${field} must be a non-empty string`);
+      }
+    }
+  }
+
+  return errors;
+};
+
+// Validation for video details and structured tags. Tags must be one of the
+// VIDEO_TAG_OPTIONS values, or null to clear them.
+const validateVideoData = (data: any): string[] => {
+  const errors: string[] = [];
+
+  if (data.title !== undefined && (typeof data.title !== 'string' || data.title.trim().length === 0)) {
+    errors.push('title must be a non-empty string');
+  }
+
+  if (data.technique_focus !== undefined && data.technique_focus !== null && typeof data.technique_focus !== 'string') {
+    errors.push('technique_focus must be a string');
+  }
+
+  if (data.quality_rating !== undefined && data.quality_rating !== null &&
+      (typeof data.quality_rating !== 'number' || data.quality_rating < 0 || data.quality_rating > 5)) {
+    errors.push('quality_rating must be a number between 0 and 5');
+  }
+
+  if (data.tags !== undefined && (!Array.isArray(data.tags) || data.tags.some((tag: any) => typeof tag !== 'string'))) {
+    errors.push('tags must be an array of strings');
+  }
+
+  for (const field of VIDEO_TAG_FIELDS) {
+    const value = data[field];
+    const options: readonly string[] = VIDEO_TAG_OPTIONS[field];
+    if (value !== undefined && value !== null && !options.includes(value)) {
+      errors.push(`${field} must be one of: ${options.join(', ')}`);
+    }
+  }
+
+  if (data.handedness !== undefined && data.handedness !== null && !BATTING_HANDS.includes(data.handedness)) {
+    errors.push(`handedness must be one of: ${BATTING_HANDS.join(', ')}`);
+  }
+
+  return errors;
+};
+
+// Reference clips shown next to a player's video: the same shot type, played with the
+// player's batting hand or suiting both, exact matches first
+const suggestReferences = (references: Video[], video: Video, battingStyle?: string): Video[] => {
+  if (!video.shot_type) {
+    return [];
+  }
+  const matching = references.filter(reference =>
+    reference.shot_type === video.shot_type &&
+    (!reference.handedness || !battingStyle || reference.handedness === battingStyle));
+  return [
+    ...matching.filter(reference => reference.handedness && reference.handedness === battingStyle),
+    ...matching.filter(reference => !reference.handedness || reference.handedness !== battingStyle),
+  ];
+};
+
+const pickVideoTags = (data: any): VideoTags =>
+  Object.fromEntries(VIDEO_TAG_FIELDS.map(field => [field, data[field]]));
+
+// Validation for starting a resumable upload. Uploads are videos for a player
+// (with the details of the Video to create) or recordings for a session.
+const validateUploadData = (data: any): string[] => {
+  const errors: string[] = [];
+
+  if (typeof data.file_name !== 'string' || data.file_name.trim().length === 0) {
+    errors.push('file_name is required');
+  }
+
+  if (typeof data.content_type !== 'string' || !data.content_type.startsWith('video/')) {
+    errors.push('content_type must be a video type');
+  }
+
+  if (!Number.isInteger(data.size) || data.size <= 0 || data.size > MAX_UPLOAD_SIZE) {
+    errors.push(`size must be a whole number of bytes between 1 and ${MAX_UPLOAD_SIZE}`);
+  }
+
+  if ((data.player_id === undefined) === (data.session_id === undefined)) {
+    errors.push('Exactly one of player_id or session_id is required');
+  }
+
+  if (data.video !== undefined) {
+    if (data.player_id === undefined) {
+      errors.push('video details can only be given for player uploads');
+    } else if (typeof data.video !== 'object' || data.video === null || Array.isArray(data.video)) {
+      errors.push('video must be an object');
+    } else {
+      errors.push(...validateVideoData(data.video));
+    }
+  }
+
+  return errors;
+};
+
+const MAX_CLIPS_PER_REQUEST = 50;
+const MAX_CLIP_SECONDS = 10 * 60;
+
+// Whether a file URL points at a recording uploaded for the session
+const isSessionRecordingUrl = (url: unknown, sessionId: string) =>
+  typeof url === 'string' && !!fileKeyFromUrl(url)?.startsWith(`sessions/${sessionId}/recordings/`);
+
+// Validation for cutting a session's recording into clips. The recording must be
+// one uploaded for this session.
+const validateClipRequest = (data: any, sessionId: string): string[] => {
+  const errors: string[] = [];
+
+  if (!isSessionRecordingUrl(data.source_url, sessionId)) {
+    errors.push('source_url must be a recording uploaded for this session');
+  }
+
+  if (!Array.isArray(data.clips) || data.clips.length === 0 || data.clips.length > MAX_CLIPS_PER_REQUEST) {
+    errors.push(`clips must be an array of 1 to ${MAX_CLIPS_PER_REQUEST} segments`);
+    return errors;
+  }
+
+  data.clips.forEach((clip: any, index: number) => {
+    const prefix = `clips[${index}]`;
+    if (typeof clip !== 'object' || clip === null) {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+    if (typeof clip.player_id !== 'string' || clip.player_id.length === 0) {
+      errors.push(`${prefix}.player_id is required`);
+    }
+    if (typeof clip.start !== 'number' || !isFinite(clip.start) || clip.start < 0) {
+      errors.push(`${prefix}.start must be a number of seconds, 0 or more`);
+    } else if (typeof clip.end !== 'number' || !isFinite(clip.end) || clip.end <= clip.start) {
+      errors.push(`${prefix}.end must be after start`);
+    } else if (clip.end - clip.start > MAX_CLIP_SECONDS) {
+      errors.push(`${prefix} can be at most ${MAX_CLIP_SECONDS} seconds long`);
+    }
+    errors.push(...validateVideoData(clip).map(error => `${prefix}.${error}`));
+  });
+
+  return errors;
+};
+
+const isStringArray = (value: unknown) =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// `partial` is for updates, which may leave out the name and date
+const validateSessionData = (data: any, partial = false): string[] => {
+  const errors: string[] = [];
+
+  if ((!partial || data.name !== undefined) && (typeof data.name !== 'string' || data.name.trim().length === 0)) {
+    errors.push('name is required and must be a non-empty string');
+  }
+
+  if ((!partial || data.date !== undefined) && !isValidDate(data.date)) {
+    errors.push('date is required in YYYY-MM-DD format');
+  }
+
+  for (const field of ['participants', 'focus_areas']) {
+    if (data[field] !== undefined && !isStringArray(data[field])) {
+      errors.push(`${field} must be an array of strings`);
+    }
+  }
+
+  if (data.duration_minutes !== undefined &&
+      (!Number.isInteger(data.duration_minutes) || data.duration_minutes < 1)) {
+    errors.push('duration_minutes must be a whole number of minutes, 1 or more');
+  }
+
+  if (data.notes !== undefined && typeof data.notes !== 'string') {
+    errors.push('notes must be a string');
+  }
+
+  errors.push(...validateSessionSchedule(data));
+  return errors;
+};
+
+// Sessions and template occurrences from `from` to `to`, with the batches they belong to
+const loadSchedule = async (from: string, to: string) => {
+  const [templates, sessions, batches] = await Promise.all([
+    storage.getScheduleTemplates(),
+    storage.getSessionsBetween(from, to),
+    storage.getBatches(),
+  ]);
+  return { batches, entries: expandSchedule(templates, sessions, batches, from, to) };
+};
+
+// A booking that takes the session's venue and net at the same time, leaving out the
+// session itself and the template occurrence it stands in for
+const findSessionClash = async (session: Session): Promise<ScheduleEntry | null> => {
+  if (session.status === 'cancelled' || !session.venue) {
+    return null;
+  }
+  const { batches, entries } = await loadSchedule(session.date, session.date);
+  const replaces = session.template_id ? `${session.template_id}:${session.date}` : null;
+  const candidate = sessionEntry(session, batches.find(batch => batch.id === session.batch_id));
+  return findClash([candidate], entries.filter(entry => entry.key !== session.id && entry.key !== replaces));
+};
+
+// Checks the template's occurrences from today (or its start) up to its end, or a
+// year ahead when it has none. Sessions saved for its occurrences are used in place
+// of those occurrences.
+const findTemplateClash = async (template: ScheduleTemplate): Promise<ScheduleEntry | null> => {
+  if (!template.venue) {
+    return null;
+  }
+  const from = template.starts_on > today() ? template.starts_on : today();
+  const horizon = addDays(from, CLASH_HORIZON_DAYS);
+  const to = template.ends_on && template.ends_on < horizon ? template.ends_on : horizon;
+  if (to < from) {
+    return null;
+  }
+
+  const [templates, sessions, batches] = await Promise.all([
+    storage.getScheduleTemplates(),
+    storage.getSessionsBetween(from, to),
+    storage.getBatches(),
+  ]);
+  const own = sessions.filter(session => session.template_id === template.id);
+  const candidates = expandSchedule([template], own, batches, from, to);
+  const booked = expandSchedule(
+    templates.filter(other => other.id !== template.id),
+    sessions.filter(session => session.template_id !== template.id),
+    batches,
+    from,
+    to
+  );
+  return findClash(candidates, booked);
+};
+
+const parseScheduleRange = (query: any): { from: string; to: string } | string[] => {
+  const errors: string[] = [];
+  if (!isValidDate(query.from) || !isValidDate(query.to)) {
+    errors.push('from and to are required in YYYY-MM-DD format');
+  } else if (query.to < query.from) {
+    errors.push('to must not be before from');
+  } else if (daysBetween(query.from, query.to) > MAX_SCHEDULE_DAYS) {
+    errors.push(`the range can be at most ${MAX_SCHEDULE_DAYS} days`);
+  }
+  return errors.length > 0 ? errors : { from: query.from, to: query.to };
+};
+
+const matchesCoach = (entry: ScheduleEntry, coach: string) =>
+  entry.coaches.some(name => name.toLowerCase() === coach.trim().toLowerCase());
+
+const sendCalendar = (res: express.Response, fileName: string, calendar: string) => {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+  res.send(calendar);
+};
+
+const calendarFileName = (name: string) => `${name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-|-$/g, '') || 'schedule'}.ics`;
+
+// The session's batch roster plus anyone else attendance was taken for, by name
+const attendanceSheet = async (session: Session): Promise<AttendanceSheetEntry[]> => {
+  const [players, records] = await Promise.all([storage.getPlayers(), storage.getSessionAttendance(session.id)]);
+  return players
+    .filter(player => (session.batch_id && player.batch_id === session.batch_id) ||
+      records.some(record => record.player_id === player.id))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(player => ({ player, record: records.find(record => record.player_id === player.id) ?? null }));
+};
+
+// Keeps the session's participants to the players who attended, by name
+const syncParticipants = async (session: Session): Promise<AttendanceSheetEntry[]> => {
+  const sheet = await attendanceSheet(session);
+  const participants = sheet
+    .filter(entry => entry.record?.status === 'present' || entry.record?.status === 'late')
+    .map(entry => entry.player.name);
+  await storage.updateSession(session.id, { participants });
+  return sheet;
+};
+
+// Optional ?from=&to= on attendance reads; both ends are inclusive
+const inDateRange = (date: string, query: any) =>
+  (typeof query.from !== 'string' || date >= query.from) && (typeof query.to !== 'string' || date <= query.to);
+
+// A drill's demo must be a clip from the reference library
+const checkDrillVideo = async (videoId: unknown): Promise<string | null> => {
+  if (!videoId) {
+    return null;
+  }
+  const video = await storage.getVideo(videoId as string);
+  return video && !video.player_id ? null : 'video_id does not match a reference clip';
+};
+
+const toPlanItems = (items: any[]): PracticePlanItem[] =>
+  items.map(item => ({ drill_id: item.drill_id, target: item.target ?? 1, notes: item.notes?.trim() || null }));
+
+// Checks the plan goes to exactly one existing player or batch and that its drills exist
+const checkPlanReferences = async (plan: Pick<PracticePlan, 'player_id' | 'batch_id' | 'items'>): Promise<string[]> => {
+  const errors: string[] = [];
+  if (!plan.player_id === !plan.batch_id) {
+    errors.push('give either player_id or batch_id');
+  } else if (plan.player_id && !await storage.getPlayer(plan.player_id)) {
+    errors.push('player_id does not match a player');
+  } else if (plan.batch_id && !await storage.getBatch(plan.batch_id)) {
+    errors.push('batch_id does not match a batch');
+  }
+
+  const drills = await storage.getDrills();
+  for (const item of plan.items) {
+    if (!drills.some(drill => drill.id === item.drill_id)) {
+      errors.push(`drill_id ${item.drill_id} does not match a drill`);
+    }
+  }
+  return errors;
+};
+
+// The plan's player, or the players currently in its batch, by name
+const planPlayers = async (plan: PracticePlan): Promise<Player[]> => {
+  if (plan.player_id) {
+    const player = await storage.getPlayer(plan.player_id);
+    return player ? [player] : [];
+  }
+  return (await batchPlayers(plan.batch_id!)).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Validation for linking a recording to a session. Without an uploaded file, the
+// recording must already have been uploaded for the session (POST /uploads).
+const validateRecordingData = (data: any, sessionId: string, hasFile: boolean): string[] => {
+  const errors: string[] = [];
+
+  if (!hasFile && !isSessionRecordingUrl(data.file_url, sessionId)) {
+    errors.push('a recording file or the file_url of a recording uploaded for this session is required');
+  }
+
+  if (data.title !== undefined && typeof data.title !== 'string') {
+    errors.push('title must be a string');
+  }
+
+  if (data.duration !== undefined && data.duration !== null &&
+      (typeof data.duration !== 'number' || !isFinite(data.duration) || data.duration < 0)) {
+    errors.push('duration must be a number of seconds, 0 or more');
+  }
+
+  return errors;
+};
+
+// "Morning Nets - Cover Drive @ 12:05" when a clip isn't given a title
+const clipTitle = (session: Session, clip: ClipSegment) => {
+  const start = Math.floor(clip.start);
+  const at = `${Math.floor(start / 60)}:${String(start % 60).padStart(2, '0')}`;
+  return `${session.name} - ${clip.shot_type || 'Clip'} @ ${at}`;
+};
+
+const isAuthor = (record: { author: string }, author: unknown) =>
+  typeof author === 'string' && author.trim() === record.author;
+
+// Validation for video annotations. `partial` is for edits, which may leave out
+// everything but the author.
+const validateAnnotationData = (data: any, partial = false): string[] => {
+  const errors: string[] = [];
+
+  if (typeof data.author !== 'string' || data.author.trim().length === 0) {
+    errors.push('author is required and must be a non-empty string');
+  }
+
+  if (!partial || data.text !== undefined) {
+    if (typeof data.text !== 'string' || data.text.trim().length === 0) {
+      errors.push('text is required and must be a non-empty string');
+    }
+  }
+
+  if (!partial || data.timestamp !== undefined) {
+    if (typeof data.timestamp !== 'number' || !isFinite(data.timestamp) || data.timestamp < 0) {
+      errors.push('timestamp must be a number of seconds, 0 or more');
+    }
+  }
+
+  if (data.duration !== undefined && data.duration !== null &&
+      (typeof data.duration !== 'number' || !isFinite(data.duration) || data.duration <= 0)) {
+    errors.push('duration must be a positive number of seconds');
+  }
+
+  if (data.criterion !== undefined && data.criterion !== null && typeof data.criterion !== 'string') {
+    errors.push('criterion must be a string');
+  }
+
+  return errors;
+};
+
+// Annotations may only name criteria from the rubric that applies to the video's player
+const checkAnnotationCriterion = async (video: Video, criterion: unknown): Promise<string | null> => {
+  if (criterion === undefined || criterion === null || criterion === '') {
+    return null;
+  }
+  // Reference clips have no player and use the default rubric
+  const player = video.player_id ? await storage.getPlayer(video.player_id) : null;
+  const keys = rubricCriterionKeys(player ? await resolvePlayerRubric(player) : DEFAULT_RUBRIC);
+  return keys.includes(criterion as string) ? null : `criterion must be one of: ${keys.join(', ')}`;
+};
+
+// Points each drawing tool takes; pen strokes take any number from 2 up
+const DRAWING_TOOL_POINTS: Record<string, number> = { line: 2, arrow: 2, angle: 3, circle: 2 };
+const MAX_DRAWING_SHAPES = 50;
+const MAX_PEN_POINTS = 2000;
+
+const isFramePoint = (point: any) =>
+  point !== null && typeof point === 'object' &&
+  [point.x, point.y].every(value => typeof value === 'number' && value >= 0 && value <= 1);
+
+const validateDrawingShape = (shape: any, index: number): string[] => {
+  const errors: string[] = [];
+  const label = `shapes[${index}]`;
+
+  if (shape === null || typeof shape !== 'object') {
+    return [`${label} must be an object`];
+  }
+
+  if (!DRAWING_TOOLS.includes(shape.tool)) {
+    errors.push(`${label}.tool must be one of: ${DRAWING_TOOLS.join(', ')}`);
+  } else if (!Array.isArray(shape.points)) {
+    errors.push(`${label}.points must be an array`);
+  } else if (shape.tool === 'pen' ? shape.points.length < 2 || shape.points.length > MAX_PEN_POINTS
+                                   : shape.points.length !== DRAWING_TOOL_POINTS[shape.tool]) {
+    errors.push(shape.tool === 'pen'
+      ? `${label}.points must have between 2 and ${MAX_PEN_POINTS} points`
+      : `${label}.points must have exactly ${DRAWING_TOOL_POINTS[shape.tool]} points for ${shape.tool}`);
+  } else if (!shape.points.every(isFramePoint)) {
+    errors.push(`${label}.points must be { x, y } fractions of the frame between 0 and 1`);
+  }
+
+  if (typeof shape.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(shape.color)) {
+    errors.push(`${label}.color must be a #rrggbb colour`);
+  }
+
+  return errors;
+};
+
+const validateDrawingData = (data: any): string[] => {
+  const errors: string[] = [];
+
+  if (typeof data.author !== 'string' || data.author.trim().length === 0) {
+    errors.push('author is required and must be a non-empty string');
+  }
+
+  if (typeof data.timestamp !== 'number' || !isFinite(data.timestamp) || data.timestamp < 0) {
+    errors.push('timestamp must be a number of seconds, 0 or more');
+  }
+
+  if (!Array.isArray(data.shapes) || data.shapes.length === 0 || data.shapes.length > MAX_DRAWING_SHAPES) {
+    errors.push(`shapes must be an array of 1 to ${MAX_DRAWING_SHAPES} shapes`);
+  } else {
+    data.shapes.forEach((shape: any, index: number) => errors.push(...validateDrawingShape(shape, index)));
+  }
+
+  return errors;
+};
+
+const validateBookmarkData = (data: any): string[] => {
+  const errors: string[] = [];
+
+  if (typeof data.author !== 'string' || data.author.trim().length === 0) {
+    errors.push('author is required and must be a non-empty string');
+  }
+
+  if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+    errors.push('name is required and must be a non-empty string');
+  }
+
+  const isSeconds = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0;
+  if (!isSeconds(data.start) || !isSeconds(data.end)) {
+    errors.push('start and end must be numbers of seconds, 0 or more');
+  } else if (data.end <= data.start) {
+    errors.push('end must be after start');
+  }
+
+  return errors;
+};
+
+// Only the fields the client is expected to send are stored
+const toDrawingShape = (shape: DrawingShape): DrawingShape => ({
+  tool: shape.tool,
+  points: shape.points.map(({ x, y }) => ({ x, y })),
+  color: shape.color.toLowerCase(),
+});
+
+// "Cover Drive" -> "cover_drive", the key used in metric_type
+const toMetricKey = (label: string) => label.trim().toLowerCase().replace(/\s+/g, '_');
+
+const hydrateAssessment = async (assessment: Assessment): Promise<FullAssessment> => {
+  const [metrics, problemAreas] = await Promise.all([
+    storage.getAssessmentMetrics(assessment.id),
+    storage.getProblemAreas(assessment.id),
+  ]);
+  return { ...assessment, metrics, problem_areas: problemAreas };
+};
+
 // PLAYER ROUTES
 router.get('/players', async (req, res) => {
   try {
-    const players = await storage.getPlayers();
-    res.json(players);
+    const players = await storage.getPlayers();
+    res.json(players);
+  } catch (error) {
+    console.error('Error fetching players:', error);
+    res.status(500).json({ error: 'Failed to fetch players' });
+  }
+});
+
+router.post('/players', async (req, res) => {
+  try {
+    console.log('Received player creation request:', req.body);
+    
+    // Validate the request data
+    const validationErrors = validatePlayerData(req.body);
+    if (validationErrors.length > 0) {
+      console.error('Validation errors:', validationErrors);
+      return res.status(400).json({ 
+        error: 'Validation failed', 
+        details: validationErrors 
+      });
+    }
+    
+    const batch = await findPlayerBatch(req.body);
+    if (!batch) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [`Batch not found: ${req.body.batch_id || req.body.batch}`]
+      });
+    }
+    if (await isBatchFull(batch)) {
+      return res.status(409).json({ error: `${batch.name} is full (capacity ${batch.capacity})` });
+    }
+    
+    // Clean and prepare the data
+    const playerData: CreatePlayerRequest = {
+      name: req.body.name.trim(),
+      age: parseInt(req.body.age.toString()),
+      batting_style: req.body.batting_style,
+      bowling_style: req.body.bowling_style,
+      specialization: req.body.specialization,
+      batch: batch.name,
+      batch_id: batch.id,
+      photo_url: req.body.photo_url || null,
+      position: req.body.position ? req.body.position.trim() : null,
+      overall_rating: req.body.overall_rating ? parseFloat(req.body.overall_rating.toString()) : 0,
+      total_assessments: req.body.total_assessments ? parseInt(req.body.total_assessments.toString()) : 0,
+      bio: req.body.bio ? req.body.bio.trim() : null,
+      dob: req.body.dob || null,
+      height: req.body.height ? parseFloat(req.body.height.toString()) : undefined,
+      weight: req.body.weight ? parseFloat(req.body.weight.toString()) : undefined
+    };
+    
+    console.log('Cleaned player data:', playerData);
+    
+    const created = await storage.createPlayer(playerData);
+    // Starts the player's membership history in the batch
+    const player = await storage.movePlayerToBatch(created.id, batch.id, today()) ?? created;
+    console.log('Player created successfully:', player);
+    
+    res.status(201).json(player);
+  } catch (error) {
+    console.error('Error creating player:', error);
+    
+    // Send more detailed error information
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ 
+      error: 'Failed to create player',
+      details: errorMessage,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.get('/players/:id', async (req, res) => {
+  try {
+    const player = await storage.getPlayer(req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    res.json(player);
+  } catch (error) {
+    console.error('Error fetching player:', error);
+    res.status(500).json({ error: 'Failed to fetch player' });
+  }
+});
+
+router.put('/players/:id', async (req, res) => {
+  try {
+    // Batch changes go through POST /batches/:id/players so they are kept in the history
+    const { batch, batch_id, ...updates } = req.body;
+    const player = await storage.updatePlayer(req.params.id, updates);
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    res.json(player);
+  } catch (error) {
+    console.error('Error updating player:', error);
+    res.status(500).json({ error: 'Failed to update player' });
+  }
+});
+
+// ASSESSMENT ROUTES
+router.get('/players/:id/assessments', async (req, res) => {
+  try {
+    const assessments = await storage.getPlayerAssessments(req.params.id);
+    res.json(assessments);
+  } catch (error) {
+    console.error('Error fetching assessments:', error);
+    res.status(500).json({ error: 'Failed to fetch assessments' });
+  }
+});
+
+router.post('/players/:id/assessments', async (req, res) => {
+  try {
+    const assessmentData = {
+      ...req.body,
+      player_id: req.params.id,
+    };
+    const assessment = await storage.createAssessment(assessmentData);
+    await recomputeRatingsForAssessment(assessment.id);
+    res.status(201).json((await storage.getAssessment(assessment.id)) ?? assessment);
+  } catch (error) {
+    console.error('Error creating assessment:', error);
+    res.status(500).json({ error: 'Failed to create assessment' });
+  }
+});
+
+// Saves the whole assessment form in one transaction. Each shot assessment becomes
+// a metric for the shot (cover_drive) plus one per sub-area (cover_drive_hands_grip).
+router.post('/players/:id/assessments/full', async (req, res) => {
+  try {
+    const validationErrors = validateFullAssessmentData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const player = await storage.getPlayer(req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const submission: FullAssessmentSubmission = req.body;
+    const rubric = submission.rubric_id
+      ? await getRubricById(submission.rubric_id)
+      : await resolvePlayerRubric(player);
+    if (!rubric) {
+      return res.status(400).json({ error: 'Validation failed', details: ['rubric_id does not match a rubric template'] });
+    }
+
+    const rubricErrors = validateAssessmentAgainstRubric(submission, rubric);
+    if (rubricErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: rubricErrors });
+    }
+
+    const metrics = submission.shot_assessments.flatMap(shot => {
+      const shotKey = toMetricKey(shot.shot_type);
+      const subScale = rubric.criteria.find(criterion => criterion.key === shotKey)?.sub_scale ?? TECHNIQUE_SCALE;
+      const ratedAreas = shot.areas.filter(area => area.rating > 0);
+
+      return [
+        {
+          metric_type: shotKey,
+          rating: shot.rating,
+          value: `${ratedAreas.length} areas evaluated`,
+          notes: shot.notes,
+          video_url: shot.video_url,
+        },
+        ...ratedAreas.map(area => ({
+          metric_type: `${shotKey}_${area.id}`,
+          rating: area.rating,
+          value: ratingLabel(subScale, area.rating),
+          notes: area.notes,
+          video_url: shot.video_url,
+        })),
+      ];
+    });
+
+    const assessment = await storage.createFullAssessment({
+      assessment: {
+        player_id: player.id,
+        notes: submission.notes?.trim() || undefined,
+        session_date: submission.week_end,
+        week_start: submission.week_start,
+        week_end: submission.week_end,
+        rubric_id: rubric.id,
+        technique_rating: 0,
+        fitness_rating: 0,
+        game_awareness_rating: 0,
+        mental_strength_rating: 0,
+        overall_rating: 0,
+      },
+      problem_areas: submission.problem_areas
+        .filter(area => area.rating > 0)
+        .map(area => ({ area_type: area.area_type.trim(), rating: area.rating, notes: area.notes })),
+      metrics,
+    });
+
+    // The draft has been promoted to a real assessment
+    if (submission.coach) {
+      await storage.deleteAssessmentDraft(player.id, submission.coach.trim());
+    }
+
+    await recomputeRatingsForAssessment(assessment.id);
+    res.status(201).json(await hydrateAssessment((await storage.getAssessment(assessment.id)) ?? assessment));
+  } catch (error) {
+    console.error('Error creating full assessment:', error);
+    res.status(500).json({ error: 'Failed to create assessment' });
+  }
+});
+
+// ASSESSMENT DRAFT ROUTES - the coach is passed as ?coach= (GET/DELETE) or in the body (PUT)
+router.get('/players/:id/assessment-draft', async (req, res) => {
+  try {
+    const coach = req.query.coach;
+    const validationErrors = validateCoach(coach);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const draft = await storage.getAssessmentDraft(req.params.id, (coach as string).trim());
+    // Expired drafts may still exist until the next cleanup run
+    if (!draft || (draft.updated_at || '') < draftExpiryCutoff()) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+    res.json(draft);
+  } catch (error) {
+    console.error('Error fetching assessment draft:', error);
+    res.status(500).json({ error: 'Failed to fetch assessment draft' });
+  }
+});
+
+router.put('/players/:id/assessment-draft', async (req, res) => {
+  try {
+    const validationErrors = validateDraftData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const player = await storage.getPlayer(req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const draft = await storage.saveAssessmentDraft({
+      player_id: player.id,
+      coach: req.body.coach.trim(),
+      data: req.body.data,
+    });
+    res.json(draft);
+  } catch (error) {
+    console.error('Error saving assessment draft:', error);
+    res.status(500).json({ error: 'Failed to save assessment draft' });
+  }
+});
+
+router.delete('/players/:id/assessment-draft', async (req, res) => {
+  try {
+    const coach = req.query.coach;
+    const validationErrors = validateCoach(coach);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const deleted = await storage.deleteAssessmentDraft(req.params.id, (coach as string).trim());
+    if (!deleted) {
+      return res.status(500).json({ error: 'Failed to delete assessment draft' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting assessment draft:', error);
+    res.status(500).json({ error: 'Failed to delete assessment draft' });
+  }
+});
+
+router.get('/assessments/:id', async (req, res) => {
+  try {
+    const assessment = await storage.getAssessment(req.params.id);
+    if (!assessment) {
+      return res.status(404).json({ error: 'Assessment not found' });
+    }
+    res.json(await hydrateAssessment(assessment));
+  } catch (error) {
+    console.error('Error fetching assessment:', error);
+    res.status(500).json({ error: 'Failed to fetch assessment' });
+  }
+});
+
+// RUBRIC TEMPLATE ROUTES - the built-in rubric (id 'default') is listed last and is read-only
+router.get('/rubrics', async (req, res) => {
+  try {
+    const rubrics = await storage.getRubrics();
+    res.json([...rubrics, DEFAULT_RUBRIC]);
+  } catch (error) {
+    console.error('Error fetching rubrics:', error);
+    res.status(500).json({ error: 'Failed to fetch rubrics' });
+  }
+});
+
+router.get('/rubrics/:id', async (req, res) => {
+  try {
+    const rubric = await getRubricById(req.params.id);
+    if (!rubric) {
+      return res.status(404).json({ error: 'Rubric not found' });
+    }
+    res.json(rubric);
+  } catch (error) {
+    console.error('Error fetching rubric:', error);
+    res.status(500).json({ error: 'Failed to fetch rubric' });
+  }
+});
+
+router.post('/rubrics', async (req, res) => {
+  try {
+    const validationErrors = validateRubricData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const rubric = await storage.createRubric({
+      name: req.body.name.trim(),
+      description: req.body.description,
+      criteria: req.body.criteria,
+      batches: req.body.batches || [],
+      specializations: req.body.specializations || [],
+      is_default: req.body.is_default || false,
+    });
+    res.status(201).json(rubric);
+  } catch (error) {
+    console.error('Error creating rubric:', error);
+    res.status(500).json({ error: 'Failed to create rubric' });
+  }
+});
+
+router.put('/rubrics/:id', async (req, res) => {
+  try {
+    if (req.params.id === DEFAULT_RUBRIC_ID) {
+      return res.status(400).json({ error: 'The built-in rubric cannot be changed' });
+    }
+
+    const validationErrors = validateRubricData(req.body, true);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const { name, description, criteria, batches, specializations, is_default } = req.body;
+    const rubric = await storage.updateRubric(req.params.id, {
+      name: name?.trim(), description, criteria, batches, specializations, is_default,
+    });
+    if (!rubric) {
+      return res.status(404).json({ error: 'Rubric not found' });
+    }
+    if (criteria !== undefined) {
+      await recomputeAllPlayerRatings();
+    }
+    res.json(rubric);
+  } catch (error) {
+    console.error('Error updating rubric:', error);
+    res.status(500).json({ error: 'Failed to update rubric' });
+  }
+});
+
+router.delete('/rubrics/:id', async (req, res) => {
+  try {
+    if (req.params.id === DEFAULT_RUBRIC_ID) {
+      return res.status(400).json({ error: 'The built-in rubric cannot be deleted' });
+    }
+
+    const deleted = await storage.deleteRubric(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Rubric not found' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting rubric:', error);
+    res.status(500).json({ error: 'Failed to delete rubric' });
+  }
+});
+
+// The template the player's assessments should use (the batch's rubric, then templates
+// assigned to the batch, then specialization, then default)
+router.get('/players/:id/rubric', async (req, res) => {
+  try {
+    const player = await storage.getPlayer(req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    res.json(await resolvePlayerRubric(player));
+  } catch (error) {
+    console.error('Error fetching player rubric:', error);
+    res.status(500).json({ error: 'Failed to fetch player rubric' });
+  }
+});
+
+// How the player's overall rating was derived: per-assessment scores, recency
+// weights and each criterion's contribution
+router.get('/players/:id/rating-breakdown', async (req, res) => {
+  try {
+    const player = await storage.getPlayer(req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    res.json(await buildRatingBreakdown(player));
+  } catch (error) {
+    console.error('Error building rating breakdown:', error);
+    res.status(500).json({ error: 'Failed to build rating breakdown' });
+  }
+});
+
+// BATCH ROUTES - players join and leave batches through /batches/:id/players, which
+// keeps their dated membership history
+router.get('/batches', async (req, res) => {
+  try {
+    const batches = await storage.getBatches();
+    res.json(batches);
+  } catch (error) {
+    console.error('Error fetching batches:', error);
+    res.status(500).json({ error: 'Failed to fetch batches' });
+  }
+});
+
+router.get('/batches/:id', async (req, res) => {
+  try {
+    const batch = await storage.getBatch(req.params.id);
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    res.json(batch);
+  } catch (error) {
+    console.error('Error fetching batch:', error);
+    res.status(500).json({ error: 'Failed to fetch batch' });
+  }
+});
+
+router.post('/batches', async (req, res) => {
+  try {
+    const validationErrors = validateBatchData(req.body);
+    if (req.body.rubric_id && !await getRubricById(req.body.rubric_id)) {
+      validationErrors.push('rubric_id does not match a rubric template');
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    if (findBatchByName(await storage.getBatches(), req.body.name)) {
+      return res.status(409).json({ error: 'A batch with this name already exists' });
+    }
+
+    const batch = await storage.createBatch({
+      name: req.body.name.trim(),
+      age_group: req.body.age_group?.trim() || null,
+      level: req.body.level ?? null,
+      coaches: cleanCoaches(req.body.coaches || []),
+      rubric_id: req.body.rubric_id || null,
+      timetable: toTimetable(req.body.timetable || []),
+      capacity: req.body.capacity ?? null,
+    });
+    res.status(201).json(batch);
+  } catch (error) {
+    console.error('Error creating batch:', error);
+    res.status(500).json({ error: 'Failed to create batch' });
+  }
+});
+
+// A new name is copied to the batch's players and to rubric templates assigned to it
+router.put('/batches/:id', async (req, res) => {
+  try {
+    const validationErrors = validateBatchData(req.body, true);
+    if (req.body.rubric_id && !await getRubricById(req.body.rubric_id)) {
+      validationErrors.push('rubric_id does not match a rubric template');
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const existing = await storage.getBatch(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const { name, age_group, level, coaches, rubric_id, timetable, capacity } = req.body;
+    const renamed = name !== undefined && name.trim() !== existing.name;
+    if (renamed) {
+      const clash = findBatchByName(await storage.getBatches(), name);
+      if (clash && clash.id !== existing.id) {
+        return res.status(409).json({ error: 'A batch with this name already exists' });
+      }
+    }
+
+    const batch = await storage.updateBatch(existing.id, {
+      name: name?.trim(),
+      age_group: age_group === undefined ? undefined : age_group?.trim() || null,
+      level,
+      coaches: coaches && cleanCoaches(coaches),
+      rubric_id: rubric_id === undefined ? undefined : rubric_id || null,
+      timetable: timetable && toTimetable(timetable),
+      capacity,
+    });
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    if (renamed) {
+      for (const player of await batchPlayers(batch.id)) {
+        await storage.updatePlayer(player.id, { batch: batch.name });
+      }
+      const oldName = existing.name.toLowerCase();
+      for (const rubric of await storage.getRubrics()) {
+        if (rubric.batches?.some(item => item.toLowerCase() === oldName)) {
+          await storage.updateRubric(rubric.id, {
+            batches: rubric.batches.map(item => (item.toLowerCase() === oldName ? batch.name : item)),
+          });
+        }
+      }
+    }
+
+    res.json(batch);
+  } catch (error) {
+    console.error('Error updating batch:', error);
+    res.status(500).json({ error: 'Failed to update batch' });
+  }
+});
+
+router.delete('/batches/:id', async (req, res) => {
+  try {
+    const batch = await storage.getBatch(req.params.id);
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    if ((await batchPlayers(batch.id)).length > 0) {
+      return res.status(409).json({ error: 'Move the batch\'s players to another batch before deleting it' });
+    }
+
+    const deleted = await storage.deleteBatch(batch.id);
+    if (!deleted) {
+      return res.status(500).json({ error: 'Failed to delete batch' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting batch:', error);
+    res.status(500).json({ error: 'Failed to delete batch' });
+  }
+});
+
+// Current players, by name, with the date they joined and their latest assessment
+router.get('/batches/:id/players', async (req, res) => {
+  try {
+    const batch = await storage.getBatch(req.params.id);
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const [players, memberships] = await Promise.all([
+      batchPlayers(batch.id),
+      storage.getBatchMemberships(batch.id),
+    ]);
+    const roster: BatchRosterEntry[] = await Promise.all(
+      players
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(async player => ({
+          player,
+          joined_on: memberships.find(membership => membership.player_id === player.id && !membership.left_on)?.joined_on ?? null,
+          latest_assessment: (await storage.getPlayerAssessments(player.id))[0] ?? null,
+        }))
+    );
+    res.json(roster);
+  } catch (error) {
+    console.error('Error fetching batch roster:', error);
+    res.status(500).json({ error: 'Failed to fetch batch roster' });
+  }
+});
+
+// Moves a player into the batch, ending their membership of any other batch
+router.post('/batches/:id/players', async (req, res) => {
+  try {
+    const validationErrors = validateBatchMove(req.body, true);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const [batch, player] = await Promise.all([
+      storage.getBatch(req.params.id),
+      storage.getPlayer(req.body.player_id),
+    ]);
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    if (player.batch_id === batch.id) {
+      return res.status(409).json({ error: 'Player is already in this batch' });
+    }
+    if (await isBatchFull(batch)) {
+      return res.status(409).json({ error: `${batch.name} is full (capacity ${batch.capacity})` });
+    }
+
+    const date = req.body.date || today();
+    const dateError = await checkMoveDate(player.id, date);
+    if (dateError) {
+      return res.status(400).json({ error: 'Validation failed', details: [dateError] });
+    }
+
+    const moved = await storage.movePlayerToBatch(player.id, batch.id, date, req.body.moved_by?.trim() || undefined);
+    res.status(201).json(moved);
+  } catch (error) {
+    console.error('Error moving player to batch:', error);
+    res.status(500).json({ error: 'Failed to move player to batch' });
+  }
+});
+
+// Takes a player out of the batch without putting them in another (?date=&moved_by=)
+router.delete('/batches/:id/players/:playerId', async (req, res) => {
+  try {
+    const validationErrors = validateBatchMove(req.query, false);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const player = await storage.getPlayer(req.params.playerId);
+    if (!player || player.batch_id !== req.params.id) {
+      return res.status(404).json({ error: 'Player is not in this batch' });
+    }
+
+    const date = (req.query.date as string | undefined) || today();
+    const dateError = await checkMoveDate(player.id, date);
+    if (dateError) {
+      return res.status(400).json({ error: 'Validation failed', details: [dateError] });
+    }
+
+    const movedBy = typeof req.query.moved_by === 'string' ? req.query.moved_by.trim() : '';
+    await storage.movePlayerToBatch(player.id, null, date, movedBy || undefined);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error removing player from batch:', error);
+    res.status(500).json({ error: 'Failed to remove player from batch' });
+  }
+});
+
+// Everyone who has been in the batch, latest join first
+router.get('/batches/:id/history', async (req, res) => {
+  try {
+    const batch = await storage.getBatch(req.params.id);
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    res.json(await storage.getBatchMemberships(batch.id));
+  } catch (error) {
+    console.error('Error fetching batch history:', error);
+    res.status(500).json({ error: 'Failed to fetch batch history' });
+  }
+});
+
+router.get('/players/:id/batches', async (req, res) => {
+  try {
+    const player = await storage.getPlayer(req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    res.json(await storage.getPlayerBatchMemberships(player.id));
+  } catch (error) {
+    console.error('Error fetching player batch history:', error);
+    res.status(500).json({ error: 'Failed to fetch player batch history' });
+  }
+});
+
+// METRIC ROUTES
+router.get('/assessments/:id/metrics', async (req, res) => {
+  try {
+    const metrics = await storage.getAssessmentMetrics(req.params.id);
+    res.json(metrics);
+  } catch (error) {
+    console.error('Error fetching metrics:', error);
+    res.status(500).json({ error: 'Failed to fetch metrics' });
+  }
+});
+
+router.post('/assessments/:id/metrics', async (req, res) => {
+  try {
+    const validationErrors = validateMetricData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const assessment = await storage.getAssessment(req.params.id);
+    if (!assessment) {
+      return res.status(404).json({ error: 'Assessment not found' });
+    }
+
+    const metric = await storage.createMetric({
+      assessment_id: assessment.id,
+      metric_type: req.body.metric_type.trim(),
+      rating: req.body.rating,
+      value: req.body.value,
+      notes: req.body.notes,
+      video_url: req.body.video_url,
+    });
+    await recomputeRatingsForAssessment(assessment.id);
+    res.status(201).json(metric);
+  } catch (error) {
+    console.error('Error creating metric:', error);
+    res.status(500).json({ error: 'Failed to create metric' });
+  }
+});
+
+router.put('/metrics/:id', async (req, res) => {
+  try {
+    const validationErrors = validateMetricData(req.body, true);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const metric = await storage.updateMetric(req.params.id, {
+      metric_type: req.body.metric_type?.trim(),
+      rating: req.body.rating,
+      value: req.body.value,
+      notes: req.body.notes,
+      video_url: req.body.video_url,
+    });
+    if (!metric) {
+      return res.status(404).json({ error: 'Metric not found' });
+    }
+    await recomputeRatingsForAssessment(metric.assessment_id);
+    res.json(metric);
+  } catch (error) {
+    console.error('Error updating metric:', error);
+    res.status(500).json({ error: 'Failed to update metric' });
+  }
+});
+
+router.delete('/metrics/:id', async (req, res) => {
+  try {
+    const metric = await storage.deleteMetric(req.params.id);
+    if (!metric) {
+      return res.status(404).json({ error: 'Metric not found' });
+    }
+    await recomputeRatingsForAssessment(metric.assessment_id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting metric:', error);
+    res.status(500).json({ error: 'Failed to delete metric' });
+  }
+});
+
+// PROBLEM AREA ROUTES
+router.get('/assessments/:id/problem-areas', async (req, res) => {
+  try {
+    const problemAreas = await storage.getProblemAreas(req.params.id);
+    res.json(problemAreas);
+  } catch (error) {
+    console.error('Error fetching problem areas:', error);
+    res.status(500).json({ error: 'Failed to fetch problem areas' });
+  }
+});
+
+router.post('/assessments/:id/problem-areas', async (req, res) => {
+  try {
+    const validationErrors = validateProblemAreaData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const assessment = await storage.getAssessment(req.params.id);
+    if (!assessment) {
+      return res.status(404).json({ error: 'Assessment not found' });
+    }
+
+    const problemArea = await storage.createProblemArea({
+      assessment_id: assessment.id,
+      area_type: req.body.area_type.trim(),
+      rating: req.body.rating,
+      notes: req.body.notes,
+    });
+    await recomputeRatingsForAssessment(assessment.id);
+    res.status(201).json(problemArea);
+  } catch (error) {
+    console.error('Error creating problem area:', error);
+    res.status(500).json({ error: 'Failed to create problem area' });
+  }
+});
+
+router.put('/problem-areas/:id', async (req, res) => {
+  try {
+    const validationErrors = validateProblemAreaData(req.body, true);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const problemArea = await storage.updateProblemArea(req.params.id, {
+      area_type: req.body.area_type?.trim(),
+      rating: req.body.rating,
+      notes: req.body.notes,
+    });
+    if (!problemArea) {
+      return res.status(404).json({ error: 'Problem area not found' });
+    }
+    await recomputeRatingsForAssessment(problemArea.assessment_id);
+    res.json(problemArea);
+  } catch (error) {
+    console.error('Error updating problem area:', error);
+    res.status(500).json({ error: 'Failed to update problem area' });
+  }
+});
+
+router.delete('/problem-areas/:id', async (req, res) => {
+  try {
+    const problemArea = await storage.deleteProblemArea(req.params.id);
+    if (!problemArea) {
+      return res.status(404).json({ error: 'Problem area not found' });
+    }
+    await recomputeRatingsForAssessment(problemArea.assessment_id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting problem area:', error);
+    res.status(500).json({ error: 'Failed to delete problem area' });
+  }
+});
+
+// NOTE ROUTES
+router.get('/players/:id/notes', async (req, res) => {
+  try {
+    const { type, assessment_id, video_id } = req.query;
+    const notes = (await storage.getPlayerNotes(req.params.id)).filter(note =>
+      (!type || note.type === type) &&
+      (!assessment_id || note.assessment_id === assessment_id) &&
+      (!video_id || note.video_id === video_id)
+    );
+    res.json(notes);
+  } catch (error) {
+    console.error('Error fetching notes:', error);
+    res.status(500).json({ error: 'Failed to fetch notes' });
+  }
+});
+
+router.get('/players/:id/notes/:noteId', async (req, res) => {
+  try {
+    const note = await storage.getNote(req.params.noteId);
+    if (!note || note.player_id !== req.params.id) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+    res.json(note);
+  } catch (error) {
+    console.error('Error fetching note:', error);
+    res.status(500).json({ error: 'Failed to fetch note' });
+  }
+});
+
+router.post('/players/:id/notes', async (req, res) => {
+  try {
+    const validationErrors = validateNoteData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const player = await storage.getPlayer(req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const { assessment_id, video_id } = req.body;
+    if (assessment_id) {
+      const assessment = await storage.getAssessment(assessment_id);
+      if (!assessment || assessment.player_id !== player.id) {
+        return res.status(404).json({ error: 'Assessment not found' });
+      }
+    }
+    if (video_id) {
+      const video = await storage.getVideo(video_id);
+      if (!video || video.player_id !== player.id) {
+        return res.status(404).json({ error: 'Video not found' });
+      }
+    }
+
+    const note = await storage.createNote({
+      player_id: player.id,
+      assessment_id: assessment_id || null,
+      video_id: video_id || null,
+      author: req.body.author.trim(),
+      type: req.body.type || (assessment_id ? 'assessment' : video_id ? 'video' : 'profile'),
+      body: req.body.body.trim(),
+    });
+    res.status(201).json(note);
+  } catch (error) {
+    console.error('Error creating note:', error);
+    res.status(500).json({ error: 'Failed to create note' });
+  }
+});
+
+// Only the author may edit; the replaced version is appended to the note's history
+router.put('/players/:id/notes/:noteId', async (req, res) => {
+  try {
+    const validationErrors = validateNoteData(req.body, true);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const note = await storage.getNote(req.params.noteId);
+    if (!note || note.player_id !== req.params.id) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+    if (!isAuthor(note, req.body.author)) {
+      return res.status(403).json({ error: 'Only the author can edit this note' });
+    }
+
+    const body = req.body.body?.trim() ?? note.body;
+    const type = req.body.type ?? note.type;
+    if (body === note.body && type === note.type) {
+      return res.json(note);
+    }
+
+    const updated = await storage.updateNote(note.id, {
+      body,
+      type,
+      history: [...(note.history || []), { body: note.body, type: note.type, edited_at: new Date().toISOString() }],
+    });
+    if (!updated) {
+      return res.status(500).json({ error: 'Failed to update note' });
+    }
+    res.json(updated);
+  } catch (error) {
+    console.error('Error updating note:', error);
+    res.status(500).json({ error: 'Failed to update note' });
+  }
+});
+
+router.delete('/players/:id/notes/:noteId', async (req, res) => {
+  try {
+    const note = await storage.getNote(req.params.noteId);
+    if (!note || note.player_id !== req.params.id) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+    if (!isAuthor(note, req.query.author)) {
+      return res.status(403).json({ error: 'Only the author can delete this note' });
+    }
+
+    const deleted = await storage.deleteNote(note.id);
+    if (!deleted) {
+      return res.status(500).json({ error: 'Failed to delete note' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting note:', error);
+    res.status(500).json({ error: 'Failed to delete note' });
+  }
+});
+
+// VIDEO ROUTES
+router.get('/players/:id/videos', async (req, res) => {
+  try {
+    const videos = await storage.getPlayerVideos(req.params.id);
+    res.json(videos);
+  } catch (error) {
+    console.error('Error fetching videos:', error);
+    res.status(500).json({ error: 'Failed to fetch videos' });
+  }
+});
+
+router.post('/players/:id/videos/upload', upload.single('video'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No video file provided' });
+    }
+
+    // Multipart fields arrive as strings, an empty select is sent as ''
+    const tagData = Object.fromEntries(VIDEO_TAG_FIELDS.map(field => [field, req.body[field] || undefined]));
+    const validationErrors = validateVideoData(tagData);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const player = await storage.getPlayer(req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const fileUrl = await saveFile(
+      fileKeys.playerVideo(player.id, req.file.originalname),
+      req.file.buffer,
+      req.file.mimetype
+    );
+
+    // Create video record in database
+    const videoData = {
+      player_id: req.params.id,
+      title: req.body.title || req.file.originalname,
+      file_url: fileUrl,
+      file_size: req.file.size,
+      tags: req.body.tags ? req.body.tags.split(',') : [],
+      technique_focus: req.body.technique_focus,
+      quality_rating: req.body.quality_rating ? parseFloat(req.body.quality_rating) : 0,
+      ...pickVideoTags(tagData),
+    };
+
+    const video = await storage.createVideo(videoData);
+    res.status(201).json(await queueVideoProcessing(video) || video);
+  } catch (error) {
+    console.error('Error uploading video:', error);
+    res.status(500).json({ error: 'Failed to upload video' });
+  }
+});
+
+// REFERENCE CLIP ROUTES - model technique videos that belong to no player
+router.get('/references', async (req, res) => {
+  try {
+    const { shot_type, handedness } = req.query;
+    const references = await storage.getReferenceVideos();
+    res.json(references.filter(reference =>
+      (!shot_type || reference.shot_type === shot_type) &&
+      (!handedness || !reference.handedness || reference.handedness === handedness)));
+  } catch (error) {
+    console.error('Error fetching reference videos:', error);
+    res.status(500).json({ error: 'Failed to fetch reference videos' });
+  }
+});
+
+router.post('/references/upload', upload.single('video'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No video file provided' });
+    }
+
+    // Multipart fields arrive as strings, an empty select is sent as ''
+    const tagData = Object.fromEntries(VIDEO_TAG_FIELDS.map(field => [field, req.body[field] || undefined]));
+    const handedness = req.body.handedness || undefined;
+    const validationErrors = validateVideoData({ ...tagData, handedness });
+    if (!tagData.shot_type) {
+      validationErrors.push('shot_type is required for reference clips');
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const fileUrl = await saveFile(fileKeys.referenceVideo(req.file.originalname), req.file.buffer, req.file.mimetype);
+    const video = await storage.createVideo({
+      player_id: null,
+      title: req.body.title || req.file.originalname,
+      file_url: fileUrl,
+      file_size: req.file.size,
+      tags: req.body.tags ? req.body.tags.split(',') : [],
+      technique_focus: req.body.technique_focus,
+      quality_rating: 0,
+      handedness: handedness ?? null,
+      ...pickVideoTags(tagData),
+    });
+    res.status(201).json(await queueVideoProcessing(video) || video);
+  } catch (error) {
+    console.error('Error uploading reference video:', error);
+    res.status(500).json({ error: 'Failed to upload reference video' });
+  }
+});
+
+// Reference clips to compare a player's video with
+router.get('/videos/:id/references', async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    if (!video.player_id) {
+      return res.json([]);
+    }
+
+    const [player, references] = await Promise.all([
+      storage.getPlayer(video.player_id),
+      storage.getReferenceVideos(),
+    ]);
+    res.json(suggestReferences(references, video, player?.batting_style));
+  } catch (error) {
+    console.error('Error suggesting reference videos:', error);
+    res.status(500).json({ error: 'Failed to suggest reference videos' });
+  }
+});
+
+// Search across all videos: player_id and batch (comma-separated lists), tag
+// values, from/to, duration and quality ranges, sort/order and cursor paging
+router.get('/videos', async (req, res) => {
+  try {
+    const { search, errors: validationErrors } = parseVideoSearchParams(req.query);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const playerIds = typeof req.query.player_id === 'string' ? req.query.player_id.split(',').filter(Boolean) : [];
+    const batches = typeof req.query.batch === 'string'
+      ? req.query.batch.split(',').map(batch => batch.trim().toLowerCase()).filter(Boolean)
+      : [];
+
+    if (batches.length > 0) {
+      const batchPlayerIds = (await storage.getPlayers())
+        .filter(player => batches.includes((player.batch || '').trim().toLowerCase()))
+        .map(player => player.id);
+      search.player_ids = playerIds.length > 0 ? playerIds.filter(id => batchPlayerIds.includes(id)) : batchPlayerIds;
+    } else if (playerIds.length > 0) {
+      search.player_ids = playerIds;
+    }
+
+    // A batch with no players (or none of the requested ones) matches nothing
+    if (search.player_ids && search.player_ids.length === 0) {
+      return res.json(emptyVideoSearchResult());
+    }
+
+    res.json(await storage.searchVideos(search));
+  } catch (error) {
+    console.error('Error searching videos:', error);
+    res.status(500).json({ error: 'Failed to search videos' });
+  }
+});
+
+router.get('/videos/:id', async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    res.json(video);
+  } catch (error) {
+    console.error('Error fetching video:', error);
+    res.status(500).json({ error: 'Failed to fetch video' });
+  }
+});
+
+// Partial update of a video's details and tags; omitted fields are left unchanged
+router.patch('/videos/:id', async (req, res) => {
+  try {
+    const validationErrors = validateVideoData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const updates: VideoUpdate = {
+      title: req.body.title?.trim(),
+      technique_focus: req.body.technique_focus,
+      quality_rating: req.body.quality_rating,
+      tags: req.body.tags,
+      handedness: req.body.handedness,
+      ...pickVideoTags(req.body),
+    };
+    const video = await storage.updateVideo(req.params.id, updates);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    res.json(video);
+  } catch (error) {
+    console.error('Error updating video:', error);
+    res.status(500).json({ error: 'Failed to update video' });
+  }
+});
+
+// Regenerates the poster and sprite in the background, e.g. for videos uploaded
+// before thumbnails existed or while ffmpeg was unavailable
+router.post('/videos/:id/thumbnails', async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    if (!fileKeyFromUrl(video.file_url)) {
+      return res.status(400).json({ error: 'Thumbnails can only be generated for uploaded videos' });
+    }
+
+    queueThumbnails(video);
+    res.status(202).json({ queued: true });
+  } catch (error) {
+    console.error('Error queueing thumbnails:', error);
+    res.status(500).json({ error: 'Failed to queue thumbnails' });
+  }
+});
+
+// ANNOTATION ROUTES
+router.get('/videos/:id/annotations', async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+
+    const annotations = await storage.getVideoAnnotations(video.id);
+    res.json(annotations);
+  } catch (error) {
+    console.error('Error fetching annotations:', error);
+    res.status(500).json({ error: 'Failed to fetch annotations' });
+  }
+});
+
+router.post('/videos/:id/annotations', async (req, res) => {
+  try {
+    const validationErrors = validateAnnotationData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+
+    const criterionError = await checkAnnotationCriterion(video, req.body.criterion);
+    if (criterionError) {
+      return res.status(400).json({ error: 'Validation failed', details: [criterionError] });
+    }
+
+    const annotation = await storage.createAnnotation({
+      video_id: video.id,
+      timestamp: req.body.timestamp,
+      duration: req.body.duration ?? null,
+      author: req.body.author.trim(),
+      text: req.body.text.trim(),
+      criterion: req.body.criterion || null,
+    });
+    res.status(201).json(annotation);
+  } catch (error) {
+    console.error('Error creating annotation:', error);
+    res.status(500).json({ error: 'Failed to create annotation' });
+  }
+});
+
+// Only the author may edit or delete an annotation
+router.put('/videos/:id/annotations/:annotationId', async (req, res) => {
+  try {
+    const validationErrors = validateAnnotationData(req.body, true);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const annotation = await storage.getAnnotation(req.params.annotationId);
+    if (!annotation || annotation.video_id !== req.params.id) {
+      return res.status(404).json({ error: 'Annotation not found' });
+    }
+    if (!isAuthor(annotation, req.body.author)) {
+      return res.status(403).json({ error: 'Only the author can edit this annotation' });
+    }
+
+    const video = await storage.getVideo(annotation.video_id);
+    const criterionError = video && await checkAnnotationCriterion(video, req.body.criterion);
+    if (criterionError) {
+      return res.status(400).json({ error: 'Validation failed', details: [criterionError] });
+    }
+
+    const updated = await storage.updateAnnotation(annotation.id, {
+      timestamp: req.body.timestamp,
+      duration: req.body.duration,
+      text: req.body.text?.trim(),
+      criterion: req.body.criterion === '' ? null : req.body.criterion,
+    });
+    if (!updated) {
+      return res.status(500).json({ error: 'Failed to update annotation' });
+    }
+    res.json(updated);
+  } catch (error) {
+    console.error('Error updating annotation:', error);
+    res.status(500).json({ error: 'Failed to update annotation' });
+  }
+});
+
+router.delete('/videos/:id/annotations/:annotationId', async (req, res) => {
+  try {
+    const annotation = await storage.getAnnotation(req.params.annotationId);
+    if (!annotation || annotation.video_id !== req.params.id) {
+      return res.status(404).json({ error: 'Annotation not found' });
+    }
+    if (!isAuthor(annotation, req.query.author)) {
+      return res.status(403).json({ error: 'Only the author can delete this annotation' });
+    }
+
+    const deleted = await storage.deleteAnnotation(annotation.id);
+    if (!deleted) {
+      return res.status(500).json({ error: 'Failed to delete annotation' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting annotation:', error);
+    res.status(500).json({ error: 'Failed to delete annotation' });
+  }
+});
+
+// DRAWING ROUTES
+router.get('/videos/:id/drawings', async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+
+    const drawings = await storage.getVideoDrawings(video.id);
+    res.json(drawings);
+  } catch (error) {
+    console.error('Error fetching drawings:', error);
+    res.status(500).json({ error: 'Failed to fetch drawings' });
+  }
+});
+
+router.post('/videos/:id/drawings', async (req, res) => {
+  try {
+    const validationErrors = validateDrawingData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+
+    const drawing = await storage.createDrawing({
+      video_id: video.id,
+      timestamp: req.body.timestamp,
+      author: req.body.author.trim(),
+      shapes: req.body.shapes.map(toDrawingShape),
+    });
+    res.status(201).json(drawing);
+  } catch (error) {
+    console.error('Error creating drawing:', error);
+    res.status(500).json({ error: 'Failed to create drawing' });
+  }
+});
+
+// Only the author may delete a drawing
+router.delete('/videos/:id/drawings/:drawingId', async (req, res) => {
+  try {
+    const drawing = await storage.getDrawing(req.params.drawingId);
+    if (!drawing || drawing.video_id !== req.params.id) {
+      return res.status(404).json({ error: 'Drawing not found' });
+    }
+    if (!isAuthor(drawing, req.query.author)) {
+      return res.status(403).json({ error: 'Only the author can delete this drawing' });
+    }
+
+    const deleted = await storage.deleteDrawing(drawing.id);
+    if (!deleted) {
+      return res.status(500).json({ error: 'Failed to delete drawing' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting drawing:', error);
+    res.status(500).json({ error: 'Failed to delete drawing' });
+  }
+});
+
+// VIDEO BOOKMARK ROUTES
+router.get('/videos/:id/bookmarks', async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+
+    const bookmarks = await storage.getVideoBookmarks(video.id);
+    res.json(bookmarks);
+  } catch (error) {
+    console.error('Error fetching video bookmarks:', error);
+    res.status(500).json({ error: 'Failed to fetch bookmarks' });
+  }
+});
+
+router.post('/videos/:id/bookmarks', async (req, res) => {
+  try {
+    const validationErrors = validateBookmarkData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    if (video.duration && req.body.start >= video.duration) {
+      return res.status(400).json({ error: 'Validation failed', details: ['start must be within the video'] });
+    }
+
+    const bookmark = await storage.createVideoBookmark({
+      video_id: video.id,
+      name: req.body.name.trim(),
+      start: req.body.start,
+      end: video.duration ? Math.min(req.body.end, video.duration) : req.body.end,
+      author: req.body.author.trim(),
+    });
+    res.status(201).json(bookmark);
+  } catch (error) {
+    console.error('Error creating video bookmark:', error);
+    res.status(500).json({ error: 'Failed to create bookmark' });
+  }
+});
+
+// Only the author may delete a bookmark
+router.delete('/videos/:id/bookmarks/:bookmarkId', async (req, res) => {
+  try {
+    const bookmark = await storage.getVideoBookmark(req.params.bookmarkId);
+    if (!bookmark || bookmark.video_id !== req.params.id) {
+      return res.status(404).json({ error: 'Bookmark not found' });
+    }
+    if (!isAuthor(bookmark, req.query.author)) {
+      return res.status(403).json({ error: 'Only the author can delete this bookmark' });
+    }
+
+    const deleted = await storage.deleteVideoBookmark(bookmark.id);
+    if (!deleted) {
+      return res.status(500).json({ error: 'Failed to delete bookmark' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting video bookmark:', error);
+    res.status(500).json({ error: 'Failed to delete bookmark' });
+  }
+});
+
+// Progress of the media pipeline (probe, transcode, thumbnails) for a video
+router.get('/videos/:id/processing', async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+
+    const job: VideoProcessingJob = {
+      id: video.id,
+      processing_status: video.processing_status ?? null,
+      processing_error: video.processing_error ?? null,
+      duration: video.duration,
+      width: video.width ?? null,
+      height: video.height ?? null,
+      fps: video.fps ?? null,
+      codec: video.codec ?? null,
+      thumbnail_url: video.thumbnail_url ?? null,
+      sprite_url: video.sprite_url ?? null,
+      playback_url: video.playback_url ?? null,
+      preview_url: video.preview_url ?? null,
+    };
+    res.json(job);
+  } catch (error) {
+    console.error('Error fetching video processing status:', error);
+    res.status(500).json({ error: 'Failed to fetch video processing status' });
+  }
+});
+
+// Runs the pipeline again, e.g. after a failure or for videos uploaded before it existed
+router.post('/videos/:id/processing', async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    if (!fileKeyFromUrl(video.file_url)) {
+      return res.status(400).json({ error: 'Only uploaded videos can be processed' });
+    }
+    if (video.processing_status && !['ready', 'failed'].includes(video.processing_status)) {
+      return res.status(409).json({ error: 'Video is already being processed', processing_status: video.processing_status });
+    }
+
+    const queued = await queueVideoProcessing(video);
+    res.status(202).json({ id: video.id, processing_status: queued?.processing_status ?? 'queued' });
+  } catch (error) {
+    console.error('Error queueing video processing:', error);
+    res.status(500).json({ error: 'Failed to queue video processing' });
+  }
+});
+
+// Plays a video with seeking support: Range requests get 206 Partial Content, and
+// ETag / Last-Modified let the browser revalidate instead of downloading again.
+// Serves the H.264 playback rendition once processing has made one, otherwise the
+// upload itself; ?rendition=original or ?rendition=preview picks a specific file.
+router.get('/videos/:id/stream', async (req, res) => {
+  try {
+    const rendition = req.query.rendition;
+    if (rendition !== undefined && rendition !== 'original' && rendition !== 'preview') {
+      return res.status(400).json({ error: 'rendition must be original or preview' });
+    }
+
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+
+    const url = rendition === 'original' ? video.file_url
+      : rendition === 'preview' ? video.preview_url
+      : video.playback_url || video.file_url;
+    if (!url) {
+      return res.status(404).json({ error: 'The preview rendition is not ready yet' });
+    }
+
+    // Videos uploaded before the file stores keep their original URL
+    const key = fileKeyFromUrl(url);
+    if (!key) {
+      return res.redirect(302, url);
+    }
+
+    // Browsers send whatever type the recorder claimed; trust the extension when we know it
+    const contentType = contentTypeFor(key);
+    await sendStoredFile(req, res, key, contentType === 'application/octet-stream' ? undefined : contentType);
+  } catch (error) {
+    console.error('Error streaming video:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to stream video' });
+    }
+  }
+});
+
+router.delete('/videos/:id', async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+
+    const deleted = await storage.deleteVideo(video.id);
+    if (!deleted) {
+      return res.status(500).json({ error: 'Failed to delete video' });
+    }
+    await deleteStoredFile(video.file_url);
+    await deleteStoredFile(video.thumbnail_url);
+    await deleteStoredFile(video.sprite_url);
+    if (video.playback_url !== video.file_url) {
+      await deleteStoredFile(video.playback_url);
+    }
+    await deleteStoredFile(video.preview_url);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting video:', error);
+    res.status(500).json({ error: 'Failed to delete video' });
+  }
+});
+
+// RESUMABLE UPLOAD ROUTES
+// POST /uploads starts an upload, each chunk is PUT as the raw request body, GET
+// reports the received offset to resume from, and /complete stores the file.
+router.post('/uploads', async (req, res) => {
+  try {
+    const validationErrors = validateUploadData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const { file_name, content_type, size, player_id, session_id, video } = req.body;
+    let key: string;
+    if (player_id !== undefined) {
+      const player = await storage.getPlayer(player_id);
+      if (!player) {
+        return res.status(404).json({ error: 'Player not found' });
+      }
+      key = fileKeys.playerVideo(player.id, file_name);
+    } else {
+      const session = await storage.getSession(session_id);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      key = fileKeys.sessionRecording(session.id, file_name);
+    }
+
+    const upload = await createUpload({ file_name, content_type, size, player_id, session_id, video }, key);
+    res.status(201).json(upload);
+  } catch (error) {
+    console.error('Error starting upload:', error);
+    res.status(500).json({ error: 'Failed to start upload' });
+  }
+});
+
+router.get('/uploads/:id', async (req, res) => {
+  try {
+    const upload = await getUpload(req.params.id);
+    if (!upload) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+    res.json(upload);
+  } catch (error) {
+    console.error('Error fetching upload:', error);
+    res.status(500).json({ error: 'Failed to fetch upload' });
+  }
+});
+
+// Chunk bodies are sent as application/octet-stream and written as they stream in
+router.put('/uploads/:id/chunks/:index', async (req, res) => {
+  try {
+    const result = await receiveChunk(req.params.id, Number(req.params.index), req);
+
+    // Anything not written is drained so the connection can be reused
+    if (result.status !== 'stored') {
+      req.resume();
+    }
+
+    switch (result.status) {
+      case 'stored':
+      case 'duplicate':
+        return res.json(result.upload);
+      case 'not_found':
+        return res.status(404).json({ error: 'Upload not found' });
+      case 'busy':
+        return res.status(409).json({ error: 'Another chunk of this upload is being received' });
+      case 'invalid_index':
+        return res.status(400).json({ error: 'Chunk index is out of range' });
+      case 'out_of_order':
+        return res.status(409).json({ error: 'Chunks must be sent in order', offset: result.upload.offset });
+      case 'incomplete':
+        return res.status(400).json({ error: 'Chunk was incomplete', offset: result.upload.offset });
+    }
+  } catch (error) {
+    console.error('Error receiving chunk:', error);
+    res.status(500).json({ error: 'Failed to receive chunk' });
+  }
+});
+
+router.post('/uploads/:id/complete', async (req, res) => {
+  try {
+    const result = await completeUpload(req.params.id);
+    switch (result.status) {
+      case 'not_found':
+        return res.status(404).json({ error: 'Upload not found' });
+      case 'busy':
+        return res.status(409).json({ error: 'A chunk of this upload is still being received' });
+      case 'incomplete':
+        return res.status(409).json({ error: 'Upload is missing data', offset: result.upload.offset });
+    }
+
+    const { upload, file_url } = result;
+    if (!upload.player_id) {
+      return res.status(201).json({ file_url, size: upload.size });
+    }
+
+    try {
+      const video = await storage.createVideo({
+        tags: [],
+        quality_rating: 0,
+        ...upload.video,
+        player_id: upload.player_id,
+        title: upload.video?.title || upload.file_name,
+        file_url,
+        file_size: upload.size,
+      });
+      res.status(201).json({ file_url, size: upload.size, video: await queueVideoProcessing(video) || video });
+    } catch (error) {
+      await deleteStoredFile(file_url);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error completing upload:', error);
+    res.status(500).json({ error: 'Failed to complete upload' });
+  }
+});
+
+router.delete('/uploads/:id', async (req, res) => {
+  try {
+    const upload = await getUpload(req.params.id);
+    if (!upload) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+    await removeUpload(upload.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error cancelling upload:', error);
+    res.status(500).json({ error: 'Failed to cancel upload' });
+  }
+});
+
+// FILE ROUTES
+// Stored files are linked as /api/files/<key>. Stores that can sign URLs redirect
+// there; local files (or every file with FILE_PROXY=true) are streamed by the API.
+router.get('/files/*', async (req, res) => {
+  try {
+    const key = req.path.slice('/files/'.length);
+    if (!isValidFileKey(key)) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const signedUrl = proxyFiles ? null : await fileStore.signedUrl(key);
+    if (signedUrl) {
+      return res.redirect(302, signedUrl);
+    }
+
+    await sendStoredFile(req, res, key);
+  } catch (error) {
+    console.error('Error fetching file:', error);
+    res.status(500).json({ error: 'Failed to fetch file' });
+  }
+});
+
+// SESSION ROUTES
+// Clips cut from the session's recordings, with their processing status
+router.get('/sessions/:id/clips', async (req, res) => {
+  try {
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const videos = await storage.getSessionVideos(session.id);
+    res.json(videos);
+  } catch (error) {
+    console.error('Error fetching session clips:', error);
+    res.status(500).json({ error: 'Failed to fetch session clips' });
+  }
+});
+
+// Cuts segments of a session recording into videos for the players in them. The
+// videos are created straight away and cut in the background; follow them with
+// GET /videos/:id/processing.
+router.post('/sessions/:id/clips', async (req, res) => {
+  try {
+    const validationErrors = validateClipRequest(req.body, req.params.id);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (!await fileStore.head(fileKeyFromUrl(req.body.source_url)!)) {
+      return res.status(404).json({ error: 'Session recording not found' });
+    }
+
+    const clips: ClipSegment[] = req.body.clips;
+    const playerIds = Array.from(new Set(clips.map(clip => clip.player_id)));
+    const players = await Promise.all(playerIds.map(id => storage.getPlayer(id)));
+    const missing = playerIds.filter((_, index) => !players[index]);
+    if (missing.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: missing.map(id => `Player not found: ${id}`) });
+    }
+
+    const videos = [];
+    for (const clip of clips) {
+      videos.push(await storage.createVideo({
+        tags: clip.tags || [],
+        quality_rating: clip.quality_rating ?? 0,
+        technique_focus: clip.technique_focus,
+        ...pickVideoTags(clip),
+        player_id: clip.player_id,
+        title: clip.title?.trim() || clipTitle(session, clip),
+        file_url: fileUrl(fileKeys.playerVideo(clip.player_id, 'clip.mp4')),
+        session_id: session.id,
+        source_url: req.body.source_url,
+        clip_start: clip.start,
+        clip_end: clip.end,
+      }));
+    }
+
+    res.status(201).json(await queueClips(videos));
+  } catch (error) {
+    console.error('Error creating session clips:', error);
+    res.status(500).json({ error: 'Failed to create session clips' });
+  }
+});
+
+router.get('/sessions', async (req, res) => {
+  try {
+    const sessions = await storage.getSessions();
+    res.json(sessions);
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+router.post('/sessions', async (req, res) => {
+  try {
+    const validationErrors = validateSessionData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const timeError = checkTimes(req.body.start_time, req.body.end_time);
+    if (timeError) {
+      return res.status(400).json({ error: 'Validation failed', details: [timeError] });
+    }
+    if (req.body.batch_id && !await storage.getBatch(req.body.batch_id)) {
+      return res.status(400).json({ error: 'Validation failed', details: ['batch_id does not match a batch'] });
+    }
+
+    const { name, date, participants, duration_minutes, focus_areas, notes } = req.body;
+    const data = {
+      name: name.trim(),
+      date,
+      participants: participants ?? [],
+      duration_minutes,
+      focus_areas: focus_areas ?? [],
+      notes,
+      batch_id: req.body.batch_id || null,
+      start_time: req.body.start_time || null,
+      end_time: req.body.end_time || null,
+      venue: req.body.venue?.trim() || null,
+      net: req.body.net?.trim() || null,
+      coaches: cleanCoaches(req.body.coaches || []),
+      status: req.body.status ?? 'scheduled',
+      cancel_reason: req.body.cancel_reason?.trim() || null,
+    };
+
+    const clash = await findSessionClash({ ...data, id: '' });
+    if (clash) {
+      return res.status(409).json({ error: describeClash(clash) });
+    }
+
+    const session = await storage.createSession(data);
+    res.status(201).json(session);
+  } catch (error) {
+    console.error('Error creating session:', error);
+    res.status(500).json({ error: 'Failed to create session' });
+  }
+});
+
+router.get('/sessions/:id', async (req, res) => {
+  try {
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(session);
+  } catch (error) {
+    console.error('Error fetching session:', error);
+    res.status(500).json({ error: 'Failed to fetch session' });
+  }
+});
+
+// Reschedule, move or cancel a session. Occurrences of a template keep their date.
+router.put('/sessions/:id', async (req, res) => {
+  try {
+    const validationErrors = validateSessionData(req.body, true);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const existing = await storage.getSession(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (existing.template_id && req.body.date !== undefined && req.body.date !== existing.date) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: ['date of a recurring session can not change; cancel it and add a one-off session instead'],
+      });
+    }
+    if (req.body.batch_id && !await storage.getBatch(req.body.batch_id)) {
+      return res.status(400).json({ error: 'Validation failed', details: ['batch_id does not match a batch'] });
+    }
+
+    const { name, date, participants, duration_minutes, focus_areas, notes, batch_id, start_time, end_time, venue, net, coaches, status, cancel_reason } = req.body;
+    const updates: SessionUpdate = {
+      name: name?.trim(),
+      date,
+      participants,
+      duration_minutes,
+      focus_areas,
+      notes,
+      batch_id: batch_id === undefined ? undefined : batch_id || null,
+      start_time: start_time === undefined ? undefined : start_time || null,
+      end_time: end_time === undefined ? undefined : end_time || null,
+      venue: venue === undefined ? undefined : venue?.trim() || null,
+      net: net === undefined ? undefined : net?.trim() || null,
+      coaches: coaches && cleanCoaches(coaches),
+      status,
+      // Restoring a session clears the reason it was cancelled
+      cancel_reason: status === 'scheduled' ? null : cancel_reason === undefined ? undefined : cancel_reason?.trim() || null,
+    };
+
+    const merged = { ...existing, ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) } as Session;
+    const timeError = checkTimes(merged.start_time, merged.end_time);
+    if (timeError) {
+      return res.status(400).json({ error: 'Validation failed', details: [timeError] });
+    }
+    const clash = await findSessionClash(merged);
+    if (clash) {
+      return res.status(409).json({ error: describeClash(clash) });
+    }
+
+    const session = await storage.updateSession(existing.id, updates);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(session);
+  } catch (error) {
+    console.error('Error updating session:', error);
+    res.status(500).json({ error: 'Failed to update session' });
+  }
+});
+
+router.get('/sessions/:id/recordings', async (req, res) => {
+  try {
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const recordings = await storage.getSessionRecordings(session.id);
+    res.json(recordings);
+  } catch (error) {
+    console.error('Error fetching session recordings:', error);
+    res.status(500).json({ error: 'Failed to fetch session recordings' });
+  }
+});
+
+// Links a recording to the session: either a multipart `recording` file, or the
+// `file_url` of one already uploaded in chunks with POST /uploads
+router.post('/sessions/:id/recordings', upload.single('recording'), async (req, res) => {
+  try {
+    // Multipart fields arrive as strings
+    const data = req.file
+      ? { ...req.body, duration: req.body.duration ? Number(req.body.duration) : undefined }
+      : req.body;
+    const validationErrors = validateRecordingData(data, req.params.id, !!req.file);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    let fileUrl: string;
+    let fileSize: number | null;
+    if (req.file) {
+      fileUrl = await saveFile(
+        fileKeys.sessionRecording(session.id, req.file.originalname),
+        req.file.buffer,
+        req.file.mimetype
+      );
+      fileSize = req.file.size;
+    } else {
+      const stored = await fileStore.head(fileKeyFromUrl(data.file_url)!);
+      if (!stored) {
+        return res.status(404).json({ error: 'Session recording not found' });
+      }
+      fileUrl = data.file_url;
+      fileSize = stored.size;
+    }
+
+    const recording = await storage.createSessionRecording({
+      session_id: session.id,
+      title: data.title?.trim() || session.name,
+      file_url: fileUrl,
+      file_size: fileSize,
+      duration: data.duration ?? null,
+    });
+    res.status(201).json(recording);
+  } catch (error) {
+    console.error('Error saving session recording:', error);
+    res.status(500).json({ error: 'Failed to save session recording' });
+  }
+});
+
+// SCHEDULE ROUTES - templates repeat weekly for a batch. Their occurrences are only
+// saved as sessions once changed or cancelled (PUT /schedule/templates/:id/occurrences/:date).
+router.get('/schedule', async (req, res) => {
+  try {
+    const range = parseScheduleRange(req.query);
+    if (Array.isArray(range)) {
+      return res.status(400).json({ error: 'Validation failed', details: range });
+    }
+
+    const { entries } = await loadSchedule(range.from, range.to);
+    const batchId = typeof req.query.batch_id === 'string' ? req.query.batch_id : undefined;
+    const coach = typeof req.query.coach === 'string' && req.query.coach.trim() ? req.query.coach : undefined;
+    res.json(entries.filter(entry =>
+      (!batchId || entry.batch_id === batchId) && (!coach || matchesCoach(entry, coach))));
+  } catch (error) {
+    console.error('Error fetching schedule:', error);
+    res.status(500).json({ error: 'Failed to fetch schedule' });
+  }
+});
+
+router.get('/schedule/templates', async (req, res) => {
+  try {
+    const templates = await storage.getScheduleTemplates();
+    const batchId = typeof req.query.batch_id === 'string' ? req.query.batch_id : undefined;
+    res.json(batchId ? templates.filter(template => template.batch_id === batchId) : templates);
+  } catch (error) {
+    console.error('Error fetching schedule templates:', error);
+    res.status(500).json({ error: 'Failed to fetch schedule templates' });
+  }
+});
+
+router.get('/schedule/templates/:id', async (req, res) => {
+  try {
+    const template = await storage.getScheduleTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Schedule template not found' });
+    }
+    res.json(template);
+  } catch (error) {
+    console.error('Error fetching schedule template:', error);
+    res.status(500).json({ error: 'Failed to fetch schedule template' });
+  }
+});
+
+router.post('/schedule/templates', async (req, res) => {
+  try {
+    const validationErrors = validateTemplateData(req.body);
+    if (validationErrors.length === 0) {
+      const problem = checkTimes(req.body.start_time, req.body.end_time) ?? checkTemplateDates(req.body.starts_on, req.body.ends_on);
+      if (problem) validationErrors.push(problem);
+      if (!await storage.getBatch(req.body.batch_id)) validationErrors.push('batch_id does not match a batch');
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const data = {
+      batch_id: req.body.batch_id,
+      name: req.body.name.trim(),
+      days: WEEKDAYS.filter(day => req.body.days.includes(day)),
+      start_time: req.body.start_time,
+      end_time: req.body.end_time,
+      venue: req.body.venue?.trim() || null,
+      net: req.body.net?.trim() || null,
+      coaches: cleanCoaches(req.body.coaches || []),
+      focus_areas: req.body.focus_areas ?? [],
+      starts_on: req.body.starts_on,
+      ends_on: req.body.ends_on || null,
+    };
+
+    const clash = await findTemplateClash({ ...data, id: '', created_at: '', updated_at: '' });
+    if (clash) {
+      return res.status(409).json({ error: describeClash(clash) });
+    }
+
+    const template = await storage.createScheduleTemplate(data);
+    res.status(201).json(template);
+  } catch (error) {
+    console.error('Error creating schedule template:', error);
+    res.status(500).json({ error: 'Failed to create schedule template' });
+  }
+});
+
+// Changes apply to every occurrence that has no saved session of its own
+router.put('/schedule/templates/:id', async (req, res) => {
+  try {
+    const validationErrors = validateTemplateData(req.body, true);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const existing = await storage.getScheduleTemplate(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Schedule template not found' });
+    }
+    if (req.body.batch_id !== undefined && !await storage.getBatch(req.body.batch_id)) {
+      return res.status(400).json({ error: 'Validation failed', details: ['batch_id does not match a batch'] });
+    }
+
+    const { batch_id, name, days, start_time, end_time, venue, net, coaches, focus_areas, starts_on, ends_on } = req.body;
+    const updates = {
+      batch_id,
+      name: name?.trim(),
+      days: days && WEEKDAYS.filter(day => days.includes(day)),
+      start_time,
+      end_time,
+      venue: venue === undefined ? undefined : venue?.trim() || null,
+      net: net === undefined ? undefined : net?.trim() || null,
+      coaches: coaches && cleanCoaches(coaches),
+      focus_areas,
+      starts_on,
+      ends_on: ends_on === undefined ? undefined : ends_on || null,
+    };
+
+    const merged = { ...existing, ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) } as ScheduleTemplate;
+    const problem = checkTimes(merged.start_time, merged.end_time) ?? checkTemplateDates(merged.starts_on, merged.ends_on);
+    if (problem) {
+      return res.status(400).json({ error: 'Validation failed', details: [problem] });
+    }
+    const clash = await findTemplateClash(merged);
+    if (clash) {
+      return res.status(409).json({ error: describeClash(clash) });
+    }
+
+    const template = await storage.updateScheduleTemplate(existing.id, updates);
+    if (!template) {
+      return res.status(404).json({ error: 'Schedule template not found' });
+    }
+    res.json(template);
+  } catch (error) {
+    console.error('Error updating schedule template:', error);
+    res.status(500).json({ error: 'Failed to update schedule template' });
+  }
+});
+
+// Sessions already saved for its occurrences stay on the schedule as one-offs
+router.delete('/schedule/templates/:id', async (req, res) => {
+  try {
+    const template = await storage.getScheduleTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Schedule template not found' });
+    }
+
+    const deleted = await storage.deleteScheduleTemplate(template.id);
+    if (!deleted) {
+      return res.status(500).json({ error: 'Failed to delete schedule template' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting schedule template:', error);
+    res.status(500).json({ error: 'Failed to delete schedule template' });
+  }
+});
+
+// Change or cancel one occurrence of a template, saving it as a session the first
+// time. status 'scheduled' restores a cancelled occurrence.
+router.put('/schedule/templates/:id/occurrences/:date', async (req, res) => {
+  try {
+    const validationErrors = [
+      ...(isValidDate(req.params.date) ? [] : ['date must be in YYYY-MM-DD format']),
+      ...validateSessionData(req.body, true),
+    ];
+    if (req.body.date !== undefined || req.body.batch_id !== undefined) {
+      validationErrors.push('date and batch_id of an occurrence can not change');
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const template = await storage.getScheduleTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Schedule template not found' });
+    }
+    const date = req.params.date;
+    if (!isTemplateOccurrence(template, date)) {
+      return res.status(404).json({ error: `${template.name} does not run on ${date}` });
+    }
+
+    const [saved] = (await storage.getSessionsBetween(date, date)).filter(session => session.template_id === template.id);
+    const occurrence = occurrenceEntry(template, date);
+    const { name, participants, duration_minutes, focus_areas, notes, start_time, end_time, venue, net, coaches, status, cancel_reason } = req.body;
+    const updates: SessionUpdate = {
+      name: name?.trim(),
+      participants,
+      duration_minutes,
+      focus_areas,
+      notes,
+      start_time: start_time === undefined ? undefined : start_time || null,
+      end_time: end_time === undefined ? undefined : end_time || null,
+      venue: venue === undefined ? undefined : venue?.trim() || null,
+      net: net === undefined ? undefined : net?.trim() || null,
+      coaches: coaches && cleanCoaches(coaches),
+      status,
+      cancel_reason: status === 'scheduled' ? null : cancel_reason === undefined ? undefined : cancel_reason?.trim() || null,
+    };
+    const base: Session = saved ?? {
+      id: '',
+      name: occurrence.name,
+      date,
+      participants: [],
+      focus_areas: template.focus_areas ?? [],
+      batch_id: template.batch_id,
+      template_id: template.id,
+      start_time: occurrence.start_time,
+      end_time: occurrence.end_time,
+      venue: occurrence.venue,
+      net: occurrence.net,
+      coaches: template.coaches,
+      status: 'scheduled',
+      cancel_reason: null,
+    };
+    const merged = { ...base, ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) } as Session;
+
+    const timeError = checkTimes(merged.start_time, merged.end_time);
+    if (timeError) {
+      return res.status(400).json({ error: 'Validation failed', details: [timeError] });
+    }
+    const clash = await findSessionClash(merged);
+    if (clash) {
+      return res.status(409).json({ error: describeClash(clash) });
+    }
+
+    if (saved) {
+      const session = await storage.updateSession(saved.id, updates);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      return res.json(session);
+    }
+    const { id, ...data } = merged;
+    const session = await storage.createSession(data);
+    res.status(201).json(session);
+  } catch (error) {
+    console.error('Error updating schedule occurrence:', error);
+    res.status(500).json({ error: 'Failed to update schedule occurrence' });
+  }
+});
+
+// iCalendar feeds for calendar apps, covering recent weeks and the months ahead
+router.get('/batches/:id/schedule.ics', async (req, res) => {
+  try {
+    const batch = await storage.getBatch(req.params.id);
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const { batches, entries } = await loadSchedule(addDays(today(), -FEED_PAST_DAYS), addDays(today(), FEED_FUTURE_DAYS));
+    const calendar = toICalendar(entries.filter(entry => entry.batch_id === batch.id), `${batch.name} training`, batches);
+    sendCalendar(res, calendarFileName(batch.name), calendar);
   } catch (error) {
-    console.error('Error fetching players:', error);
-    res.status(500).json({ error: 'Failed to fetch players' });
+    console.error('Error exporting batch schedule:', error);
+    res.status(500).json({ error: 'Failed to export batch schedule' });
   }
 });
 
-router.post('/players', async (req, res) => {
+router.get('/coaches/:name/schedule.ics', async (req, res) => {
   try {
-    console.log('Received player creation request:', req.body);
-    
-    // Validate the request data
-    const validationErrors = validatePlayerData(req.body);
+    const coach = req.params.name.trim();
+    const { batches, entries } = await loadSchedule(addDays(today(), -FEED_PAST_DAYS), addDays(today(), FEED_FUTURE_DAYS));
+    const calendar = toICalendar(entries.filter(entry => matchesCoach(entry, coach)), `${coach} coaching`, batches);
+    sendCalendar(res, calendarFileName(coach), calendar);
+  } catch (error) {
+    console.error('Error exporting coach schedule:', error);
+    res.status(500).json({ error: 'Failed to export coach schedule' });
+  }
+});
+
+// ATTENDANCE ROUTES - one record per session and player. Records for cancelled
+// sessions are kept but left out of percentages.
+router.get('/sessions/:id/attendance', async (req, res) => {
+  try {
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(await attendanceSheet(session));
+  } catch (error) {
+    console.error('Error fetching session attendance:', error);
+    res.status(500).json({ error: 'Failed to fetch session attendance' });
+  }
+});
+
+// Saves the listed players' attendance in one go and copies the players who
+// attended into the session's participants. Players left out are unchanged.
+router.put('/sessions/:id/attendance', async (req, res) => {
+  try {
+    const validationErrors = validateAttendanceData(req.body);
     if (validationErrors.length > 0) {
-      console.error('Validation errors:', validationErrors);
-      return res.status(400).json({ 
-        error: 'Validation failed', 
-        details: validationErrors 
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (session.status === 'cancelled') {
+      return res.status(409).json({ error: 'Attendance can not be taken for a cancelled session' });
+    }
+
+    const players = await storage.getPlayers();
+    const unknown = req.body.records.filter((record: any) => !players.some(player => player.id === record.player_id));
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: unknown.map((record: any) => `player_id ${record.player_id} does not match a player`),
       });
     }
-    
-    // Clean and prepare the data
-    const playerData: CreatePlayerRequest = {
-      name: req.body.name.trim(),
-      age: parseInt(req.body.age.toString()),
-      batting_style: req.body.batting_style,
-      bowling_style: req.body.bowling_style,
-      specialization: req.body.specialization,
-      batch: req.body.batch.trim(),
-      photo_url: req.body.photo_url || null,
-      position: req.body.position ? req.body.position.trim() : null,
-      overall_rating: req.body.overall_rating ? parseFloat(req.body.overall_rating.toString()) : 0,
-      total_assessments: req.body.total_assessments ? parseInt(req.body.total_assessments.toString()) : 0,
-      bio: req.body.bio ? req.body.bio.trim() : null,
-      dob: req.body.dob || null,
-      height: req.body.height ? parseFloat(req.body.height.toString()) : undefined,
-      weight: req.body.weight ? parseFloat(req.body.weight.toString()) : undefined
-    };
-    
-    console.log('Cleaned player data:', playerData);
-    
-    const player = await storage.createPlayer(playerData);
-    console.log('Player created successfully:', player);
-    
-    res.status(201).json(player);
+
+    const recordedBy = typeof req.body.recorded_by === 'string' ? req.body.recorded_by.trim() || null : null;
+    const records: AttendanceUpsert[] = req.body.records.map((record: any) => ({
+      session_id: session.id,
+      player_id: record.player_id,
+      status: record.status,
+      // Only late arrivals keep a time
+      arrival_time: record.status === 'late' ? record.arrival_time || null : null,
+      reason: typeof record.reason === 'string' ? record.reason.trim() || null : null,
+      recorded_by: recordedBy,
+    }));
+    await storage.saveAttendance(records);
+    res.json(await syncParticipants(session));
   } catch (error) {
-    console.error('Error creating player:', error);
-    
-    // Send more detailed error information
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    res.status(500).json({ 
-      error: 'Failed to create player',
-      details: errorMessage,
-      timestamp: new Date().toISOString()
-    });
+    console.error('Error saving attendance:', error);
+    res.status(500).json({ error: 'Failed to save attendance' });
   }
 });
 
-router.get('/players/:id', async (req, res) => {
+router.delete('/sessions/:id/attendance/:playerId', async (req, res) => {
+  try {
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    const records = await storage.getSessionAttendance(session.id);
+    if (!records.some(record => record.player_id === req.params.playerId)) {
+      return res.status(404).json({ error: 'Attendance record not found' });
+    }
+
+    const success = await storage.deleteAttendance(session.id, req.params.playerId);
+    if (!success) {
+      return res.status(500).json({ error: 'Failed to delete attendance record' });
+    }
+    await syncParticipants(session);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting attendance record:', error);
+    res.status(500).json({ error: 'Failed to delete attendance record' });
+  }
+});
+
+// The player's attendance, latest session first (?from=&to= to limit it)
+router.get('/players/:id/attendance', async (req, res) => {
   try {
     const player = await storage.getPlayer(req.params.id);
     if (!player) {
       return res.status(404).json({ error: 'Player not found' });
     }
-    res.json(player);
+
+    const [records, sessions] = await Promise.all([storage.getPlayerAttendance(player.id), storage.getSessions()]);
+    const entries: PlayerAttendance['records'] = [];
+    for (const record of records) {
+      const session = sessions.find(item => item.id === record.session_id);
+      if (session && session.status !== 'cancelled' && inDateRange(session.date, req.query)) {
+        entries.push({ ...record, session: { id: session.id, name: session.name, date: session.date } });
+      }
+    }
+    entries.sort((a, b) => b.session.date.localeCompare(a.session.date));
+
+    const attendance: PlayerAttendance = { player_id: player.id, summary: summarizeAttendance(entries), records: entries };
+    res.json(attendance);
   } catch (error) {
-    console.error('Error fetching player:', error);
-    res.status(500).json({ error: 'Failed to fetch player' });
+    console.error('Error fetching player attendance:', error);
+    res.status(500).json({ error: 'Failed to fetch player attendance' });
   }
 });
 
-router.put('/players/:id', async (req, res) => {
+// Attendance at the batch's sessions from `from` to `to`, per session and per player.
+// Current players with no records are listed too.
+router.get('/batches/:id/attendance', async (req, res) => {
   try {
-    const player = await storage.updatePlayer(req.params.id, req.body);
-    if (!player) {
-      return res.status(404).json({ error: 'Player not found' });
+    const range = parseScheduleRange(req.query);
+    if (Array.isArray(range)) {
+      return res.status(400).json({ error: 'Validation failed', details: range });
     }
-    res.json(player);
+
+    const batch = await storage.getBatch(req.params.id);
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const sessions = (await storage.getSessionsBetween(range.from, range.to))
+      .filter(session => session.batch_id === batch.id && session.status !== 'cancelled');
+    const [records, players] = await Promise.all([
+      storage.getAttendanceForSessions(sessions.map(session => session.id)),
+      storage.getPlayers(),
+    ]);
+    const recordsFor = (match: (record: AttendanceRecord) => boolean) => records.filter(match);
+
+    const report: BatchAttendanceReport = {
+      batch_id: batch.id,
+      from: range.from,
+      to: range.to,
+      sessions: sessions.map(session => ({
+        id: session.id,
+        name: session.name,
+        date: session.date,
+        start_time: session.start_time ?? null,
+        summary: summarizeAttendance(recordsFor(record => record.session_id === session.id)),
+      })),
+      players: players
+        .filter(player => player.batch_id === batch.id || records.some(record => record.player_id === player.id))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(player => ({
+          player: { id: player.id, name: player.name },
+          summary: summarizeAttendance(recordsFor(record => record.player_id === player.id)),
+        })),
+      summary: summarizeAttendance(records),
+    };
+    res.json(report);
   } catch (error) {
-    console.error('Error updating player:', error);
-    res.status(500).json({ error: 'Failed to update player' });
+    console.error('Error fetching batch attendance:', error);
+    res.status(500).json({ error: 'Failed to fetch batch attendance' });
   }
 });
 
-// ASSESSMENT ROUTES
-router.get('/players/:id/assessments', async (req, res) => {
+// DRILL ROUTES - the drill library, filtered by ?criterion= (a rubric key)
+router.get('/drills', async (req, res) => {
   try {
-    const assessments = await storage.getPlayerAssessments(req.params.id);
-    res.json(assessments);
+    const criterion = typeof req.query.criterion === 'string' ? req.query.criterion : undefined;
+    const drills = await storage.getDrills();
+    res.json(criterion ? drills.filter(drill => drill.target_criteria.includes(criterion)) : drills);
   } catch (error) {
-    console.error('Error fetching assessments:', error);
-    res.status(500).json({ error: 'Failed to fetch assessments' });
+    console.error('Error fetching drills:', error);
+    res.status(500).json({ error: 'Failed to fetch drills' });
   }
 });
 
-router.post('/players/:id/assessments', async (req, res) => {
+router.get('/drills/:id', async (req, res) => {
   try {
-    const assessmentData = {
-      ...req.body,
-      player_id: req.params.id,
+    const drill = await storage.getDrill(req.params.id);
+    if (!drill) {
+      return res.status(404).json({ error: 'Drill not found' });
+    }
+    res.json(drill);
+  } catch (error) {
+    console.error('Error fetching drill:', error);
+    res.status(500).json({ error: 'Failed to fetch drill' });
+  }
+});
+
+router.post('/drills', async (req, res) => {
+  try {
+    const validationErrors = validateDrillData(req.body);
+    const videoError = validationErrors.length === 0 ? await checkDrillVideo(req.body.video_id) : null;
+    if (videoError) {
+      validationErrors.push(videoError);
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const drill = await storage.createDrill({
+      name: req.body.name.trim(),
+      description: req.body.description?.trim() || null,
+      video_id: req.body.video_id || null,
+      target_criteria: Array.from(new Set<string>(req.body.target_criteria || [])),
+      equipment: cleanList(req.body.equipment || []),
+      duration_minutes: req.body.duration_minutes ?? null,
+      created_by: req.body.created_by?.trim() || null,
+    });
+    res.status(201).json(drill);
+  } catch (error) {
+    console.error('Error creating drill:', error);
+    res.status(500).json({ error: 'Failed to create drill' });
+  }
+});
+
+router.put('/drills/:id', async (req, res) => {
+  try {
+    const validationErrors = validateDrillData(req.body, true);
+    const videoError = validationErrors.length === 0 ? await checkDrillVideo(req.body.video_id) : null;
+    if (videoError) {
+      validationErrors.push(videoError);
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const existing = await storage.getDrill(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Drill not found' });
+    }
+
+    const { name, description, video_id, target_criteria, equipment, duration_minutes } = req.body;
+    const updates: DrillUpdate = {
+      name: name?.trim(),
+      description: description === undefined ? undefined : description?.trim() || null,
+      video_id: video_id === undefined ? undefined : video_id || null,
+      target_criteria: target_criteria && Array.from(new Set<string>(target_criteria)),
+      equipment: equipment && cleanList(equipment),
+      duration_minutes,
     };
-    const assessment = await storage.createAssessment(assessmentData);
-    res.status(201).json(assessment);
+    const drill = await storage.updateDrill(existing.id, updates);
+    if (!drill) {
+      return res.status(404).json({ error: 'Drill not found' });
+    }
+    res.json(drill);
   } catch (error) {
-    console.error('Error creating assessment:', error);
-    res.status(500).json({ error: 'Failed to create assessment' });
+    console.error('Error updating drill:', error);
+    res.status(500).json({ error: 'Failed to update drill' });
   }
 });
 
-// VIDEO ROUTES
-router.get('/players/:id/videos', async (req, res) => {
+// Drills still in a practice plan can't be deleted
+router.delete('/drills/:id', async (req, res) => {
   try {
-    const videos = await storage.getPlayerVideos(req.params.id);
-    res.json(videos);
+    const existing = await storage.getDrill(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Drill not found' });
+    }
+
+    const plans = (await storage.getPracticePlans()).filter(plan => plan.items.some(item => item.drill_id === existing.id));
+    if (plans.length > 0) {
+      return res.status(409).json({ error: `Drill is used by ${plans.length} practice plan(s): ${plans.map(plan => plan.name).join(', ')}` });
+    }
+
+    const success = await storage.deleteDrill(existing.id);
+    if (!success) {
+      return res.status(500).json({ error: 'Failed to delete drill' });
+    }
+    res.status(204).send();
   } catch (error) {
-    console.error('Error fetching videos:', error);
-    res.status(500).json({ error: 'Failed to fetch videos' });
+    console.error('Error deleting drill:', error);
+    res.status(500).json({ error: 'Failed to delete drill' });
   }
 });
 
-router.post('/players/:id/videos/upload', upload.single('video'), async (req, res) => {
+// Drills for the criteria an assessment rated below their pass mark, using the
+// rubric the assessment was recorded against
+router.get('/assessments/:id/drill-suggestions', async (req, res) => {
   try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No video file provided' });
+    const assessment = await storage.getAssessment(req.params.id);
+    if (!assessment) {
+      return res.status(404).json({ error: 'Assessment not found' });
     }
 
-    // Upload file to Supabase storage
-    const fileUrl = await storage.uploadFile(
-      req.file.buffer,
-      req.file.originalname,
-      req.file.mimetype
-    );
+    const player = await storage.getPlayer(assessment.player_id);
+    const [recordedRubric, metrics, problemAreas, drills] = await Promise.all([
+      assessment.rubric_id ? getRubricById(assessment.rubric_id) : Promise.resolve(null),
+      storage.getAssessmentMetrics(assessment.id),
+      storage.getProblemAreas(assessment.id),
+      storage.getDrills(),
+    ]);
+    const rubric = recordedRubric ?? (player ? await resolvePlayerRubric(player) : DEFAULT_RUBRIC);
+    res.json(suggestDrills(drills, rubric, metrics, problemAreas));
+  } catch (error) {
+    console.error('Error fetching drill suggestions:', error);
+    res.status(500).json({ error: 'Failed to fetch drill suggestions' });
+  }
+});
 
-    // Create video record in database
-    const videoData = {
-      player_id: req.params.id,
-      title: req.body.title || req.file.originalname,
-      file_url: fileUrl,
-      file_size: req.file.size,
-      tags: req.body.tags ? req.body.tags.split(',') : [],
-      technique_focus: req.body.technique_focus,
-      quality_rating: req.body.quality_rating ? parseFloat(req.body.quality_rating) : 0,
+// PRACTICE PLAN ROUTES - a plan goes to one player or to everyone in a batch.
+// ?player_id= and ?batch_id= filter by assignment; ?active=true keeps plans running today.
+router.get('/practice-plans', async (req, res) => {
+  try {
+    const { player_id, batch_id, active } = req.query;
+    const plans = await storage.getPracticePlans();
+    res.json(plans.filter(plan =>
+      (!player_id || plan.player_id === player_id) &&
+      (!batch_id || plan.batch_id === batch_id) &&
+      (active !== 'true' || isActivePlan(plan, today()))));
+  } catch (error) {
+    console.error('Error fetching practice plans:', error);
+    res.status(500).json({ error: 'Failed to fetch practice plans' });
+  }
+});
+
+router.get('/practice-plans/:id', async (req, res) => {
+  try {
+    const plan = await storage.getPracticePlan(req.params.id);
+    if (!plan) {
+      return res.status(404).json({ error: 'Practice plan not found' });
+    }
+    res.json(plan);
+  } catch (error) {
+    console.error('Error fetching practice plan:', error);
+    res.status(500).json({ error: 'Failed to fetch practice plan' });
+  }
+});
+
+router.post('/practice-plans', async (req, res) => {
+  try {
+    const validationErrors = validatePlanData(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const items = toPlanItems(req.body.items);
+    const dateError = checkPlanDates(req.body.starts_on, req.body.ends_on);
+    const referenceErrors = await checkPlanReferences({ player_id: req.body.player_id, batch_id: req.body.batch_id, items });
+    if (dateError || referenceErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: [...(dateError ? [dateError] : []), ...referenceErrors] });
+    }
+
+    const plan = await storage.createPracticePlan({
+      name: req.body.name.trim(),
+      player_id: req.body.player_id || null,
+      batch_id: req.body.batch_id || null,
+      starts_on: req.body.starts_on,
+      ends_on: req.body.ends_on,
+      items,
+      notes: req.body.notes?.trim() || null,
+      created_by: req.body.created_by?.trim() || null,
+    });
+    res.status(201).json(plan);
+  } catch (error) {
+    console.error('Error creating practice plan:', error);
+    res.status(500).json({ error: 'Failed to create practice plan' });
+  }
+});
+
+// Giving player_id or batch_id reassigns the plan; completions already logged are kept
+router.put('/practice-plans/:id', async (req, res) => {
+  try {
+    const validationErrors = validatePlanData(req.body, true);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const existing = await storage.getPracticePlan(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Practice plan not found' });
+    }
+
+    const { name, starts_on, ends_on, items, notes } = req.body;
+    const reassigned = req.body.player_id !== undefined || req.body.batch_id !== undefined;
+    const updates: PracticePlanUpdate = {
+      name: name?.trim(),
+      player_id: reassigned ? req.body.player_id || null : undefined,
+      batch_id: reassigned ? req.body.batch_id || null : undefined,
+      starts_on,
+      ends_on,
+      items: items && toPlanItems(items),
+      notes: notes === undefined ? undefined : notes?.trim() || null,
     };
 
-    const video = await storage.createVideo(videoData);
-    res.status(201).json(video);
+    const merged = { ...existing, ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) } as PracticePlan;
+    const dateError = checkPlanDates(merged.starts_on, merged.ends_on);
+    const referenceErrors = await checkPlanReferences(merged);
+    if (dateError || referenceErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: [...(dateError ? [dateError] : []), ...referenceErrors] });
+    }
+
+    const plan = await storage.updatePracticePlan(existing.id, updates);
+    if (!plan) {
+      return res.status(404).json({ error: 'Practice plan not found' });
+    }
+    res.json(plan);
   } catch (error) {
-    console.error('Error uploading video:', error);
-    res.status(500).json({ error: 'Failed to upload video' });
+    console.error('Error updating practice plan:', error);
+    res.status(500).json({ error: 'Failed to update practice plan' });
   }
 });
 
-// SESSION ROUTES
-router.get('/sessions', async (req, res) => {
+router.delete('/practice-plans/:id', async (req, res) => {
   try {
-    const sessions = await storage.getSessions();
-    res.json(sessions);
+    const existing = await storage.getPracticePlan(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Practice plan not found' });
+    }
+
+    const success = await storage.deletePracticePlan(existing.id);
+    if (!success) {
+      return res.status(500).json({ error: 'Failed to delete practice plan' });
+    }
+    res.status(204).send();
   } catch (error) {
-    console.error('Error fetching sessions:', error);
-    res.status(500).json({ error: 'Failed to fetch sessions' });
+    console.error('Error deleting practice plan:', error);
+    res.status(500).json({ error: 'Failed to delete practice plan' });
   }
 });
 
-router.post('/sessions', async (req, res) => {
+// Progress of each player the plan is assigned to
+router.get('/practice-plans/:id/players', async (req, res) => {
   try {
-    const session = await storage.createSession(req.body);
-    res.status(201).json(session);
+    const plan = await storage.getPracticePlan(req.params.id);
+    if (!plan) {
+      return res.status(404).json({ error: 'Practice plan not found' });
+    }
+
+    const [players, drills, completions] = await Promise.all([
+      planPlayers(plan),
+      storage.getDrills(),
+      storage.getDrillCompletions(plan.id),
+    ]);
+    const progress: PracticePlanPlayerProgress[] = players.map(player => {
+      const { done, target, percentage } = planProgress(plan, drills, completions, player.id);
+      return { player: { id: player.id, name: player.name }, done, target, percentage };
+    });
+    res.json(progress);
   } catch (error) {
-    console.error('Error creating session:', error);
-    res.status(500).json({ error: 'Failed to create session' });
+    console.error('Error fetching practice plan progress:', error);
+    res.status(500).json({ error: 'Failed to fetch practice plan progress' });
+  }
+});
+
+// Logs a player doing one of the plan's drills (`completed_on` defaults to today)
+router.post('/practice-plans/:id/completions', async (req, res) => {
+  try {
+    const { drill_id, player_id, recorded_by } = req.body;
+    const completedOn = req.body.completed_on ?? today();
+    const validationErrors: string[] = [];
+    if (typeof drill_id !== 'string' || drill_id.length === 0) {
+      validationErrors.push('drill_id is required');
+    }
+    if (typeof player_id !== 'string' || player_id.length === 0) {
+      validationErrors.push('player_id is required');
+    }
+    if (!isValidDate(completedOn)) {
+      validationErrors.push('completed_on must be in YYYY-MM-DD format');
+    }
+    if (recorded_by !== undefined && recorded_by !== null && typeof recorded_by !== 'string') {
+      validationErrors.push('recorded_by must be a string');
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const plan = await storage.getPracticePlan(req.params.id);
+    if (!plan) {
+      return res.status(404).json({ error: 'Practice plan not found' });
+    }
+    if (!plan.items.some(item => item.drill_id === drill_id)) {
+      validationErrors.push('drill_id is not part of this plan');
+    }
+    if (!(await planPlayers(plan)).some(player => player.id === player_id)) {
+      validationErrors.push('player_id is not assigned this plan');
+    }
+    if (!isActivePlan(plan, completedOn)) {
+      validationErrors.push(`completed_on must be within the plan (${plan.starts_on} to ${plan.ends_on})`);
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: validationErrors });
+    }
+
+    const completions = await storage.getDrillCompletions(plan.id);
+    if (completions.some(completion =>
+      completion.drill_id === drill_id && completion.player_id === player_id && completion.completed_on === completedOn)) {
+      return res.status(409).json({ error: 'This drill is already marked done for the player on that day' });
+    }
+
+    const completion = await storage.createDrillCompletion({
+      plan_id: plan.id,
+      drill_id,
+      player_id,
+      completed_on: completedOn,
+      recorded_by: recorded_by?.trim() || null,
+    });
+    res.status(201).json(completion);
+  } catch (error) {
+    console.error('Error logging drill completion:', error);
+    res.status(500).json({ error: 'Failed to log drill completion' });
+  }
+});
+
+router.delete('/practice-plans/:id/completions/:completionId', async (req, res) => {
+  try {
+    const completions = await storage.getDrillCompletions(req.params.id);
+    if (!completions.some(completion => completion.id === req.params.completionId)) {
+      return res.status(404).json({ error: 'Drill completion not found' });
+    }
+
+    const success = await storage.deleteDrillCompletion(req.params.completionId);
+    if (!success) {
+      return res.status(500).json({ error: 'Failed to delete drill completion' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting drill completion:', error);
+    res.status(500).json({ error: 'Failed to delete drill completion' });
+  }
+});
+
+// The player's own plans and their current batch's, with their progress.
+// ?active=true keeps plans running today.
+router.get('/players/:id/practice-plans', async (req, res) => {
+  try {
+    const player = await storage.getPlayer(req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const [plans, drills] = await Promise.all([storage.getPracticePlans(), storage.getDrills()]);
+    const assigned = plans.filter(plan =>
+      (plan.player_id === player.id || (!!player.batch_id && plan.batch_id === player.batch_id)) &&
+      (req.query.active !== 'true' || isActivePlan(plan, today())));
+    const progress = await Promise.all(assigned.map(async plan =>
+      planProgress(plan, drills, await storage.getDrillCompletions(plan.id), player.id)));
+    res.json(progress);
+  } catch (error) {
+    console.error('Error fetching player practice plans:', error);
+    res.status(500).json({ error: 'Failed to fetch player practice plans' });
   }
 });
 
@@ -283,22 +3600,30 @@ router.post('/players/:id/photo', upload.single('photo'), async (req, res) => {
       return res.status(400).json({ error: 'No photo file provided' });
     }
 
-    // Upload photo to Supabase storage
-    const photoUrl = await storage.uploadFile(
+    const existing = await storage.getPlayer(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const photoUrl = await saveFile(
+      fileKeys.playerPhoto(existing.id, req.file.originalname),
       req.file.buffer,
-      req.file.originalname,
       req.file.mimetype
     );
 
     // Update player with photo URL
-    const player = await storage.updatePlayer(req.params.id, {
+    const player = await storage.updatePlayer(existing.id, {
       photo_url: photoUrl 
     });
 
     if (!player) {
-      return res.status(404).json({ error: 'Player not found' });
+      await deleteStoredFile(photoUrl);
+      return res.status(500).json({ error: 'Failed to upload photo' });
     }
 
+    // The replaced photo is no longer referenced anywhere
+    await deleteStoredFile(existing.photo_url);
+
     res.json({ photo_url: photoUrl });
   } catch (error) {
     console.error('Error uploading photo:', error);
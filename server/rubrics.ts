@@ -0,0 +1,229 @@
+// server/rubrics.ts - built-in rubric and rubric resolution for players
+import type { Player, RubricCriterion, RubricScale, RubricTemplate } from '../shared/schema';
+import { storage } from './storage';
+
+export const DEFAULT_RUBRIC_ID = 'default';
+
+const STAR_SCALE: RubricScale = { min: 1, max: 5, pass_mark: 4 };
+
+export const TECHNIQUE_SCALE: RubricScale = {
+  min: 1,
+  max: 2,
+  labels: [
+    { value: 1, label: 'Needs Work' },
+    { value: 2, label: 'Good' },
+  ],
+  pass_mark: 2,
+};
+
+const BATTING_TECHNIQUE = [
+  { key: 'hands_grip', name: 'Hands Grip', weight: 1 },
+  { key: 'top_hand_forearm', name: 'Top Hand Forearm Push', weight: 1 },
+  { key: 'head_stability', name: 'Head Stability', weight: 1 },
+  { key: 'bat_movement', name: 'Bat Movement Line', weight: 1 },
+  { key: 'foot_position', name: 'Front & Back Foot Movement & Position', weight: 1 },
+  { key: 'weight_transfer', name: 'Weight Transfer to Front Foot', weight: 1 },
+  { key: 'elbow_shoulder', name: 'Elbow Shoulder Alignment', weight: 1 },
+];
+
+const general = (key: string, name: string, color: string): RubricCriterion => ({
+  key, name, group: 'general', weight: 1, color, scale: STAR_SCALE,
+});
+
+const shot = (key: string, name: string, color: string): RubricCriterion => ({
+  key, name, group: 'shot', weight: 1, color, scale: STAR_SCALE,
+  sub_criteria: BATTING_TECHNIQUE, sub_scale: TECHNIQUE_SCALE,
+});
+
+// The criteria the app shipped with, used when no stored template applies
+export const DEFAULT_RUBRIC: RubricTemplate = {
+  id: DEFAULT_RUBRIC_ID,
+  name: 'Batting (built-in)',
+  description: 'General batting areas and shot technique',
+  criteria: [
+    general('bat_connect', 'Bat Connect', '#82ca9d'),
+    general('foot_movement', 'Foot Movement', '#ff8042'),
+    general('bat_swing', 'Bat Swing', '#ffc658'),
+    general('reaction_time', 'Reaction Time', '#8884d8'),
+    shot('cover_drive', 'Cover Drive', '#0088fe'),
+    shot('straight_drive', 'Straight Drive', '#ff5252'),
+    shot('pull_shot', 'Pull Shot', '#00C49F'),
+    shot('cut_shot', 'Cut Shot', '#9c27b0'),
+    shot('sweep_shot', 'Sweep Shot', '#795548'),
+  ],
+  batches: [],
+  specializations: [],
+  is_default: true,
+};
+
+export async function getRubricById(id: string): Promise<RubricTemplate | null> {
+  return id === DEFAULT_RUBRIC_ID ? DEFAULT_RUBRIC : storage.getRubric(id);
+}
+
+// Most specific assignment wins: the batch's own rubric, then a template assigned to
+// the player's batch, then their specialization, then a template marked as default,
+// then the built-in rubric
+export async function resolvePlayerRubric(player: Player): Promise<RubricTemplate> {
+  const batch = player.batch_id ? await storage.getBatch(player.batch_id) : null;
+  const batchRubric = batch?.rubric_id ? await getRubricById(batch.rubric_id) : null;
+  if (batchRubric) {
+    return batchRubric;
+  }
+
+  const rubrics = await storage.getRubrics();
+  const matches = (values: string[] | undefined, value: string | undefined) =>
+    !!value && (values || []).some(item => item.toLowerCase() === value.toLowerCase());
+
+  return rubrics.find(rubric => matches(rubric.batches, player.batch))
+    || rubrics.find(rubric => matches(rubric.specializations, player.specialization))
+    || rubrics.find(rubric => rubric.is_default)
+    || DEFAULT_RUBRIC;
+}
+
+// Same rule as the assessment form: without a pass mark the top quarter of the scale passes
+export const isPassingRating = (scale: RubricScale, rating: number) =>
+  rating >= (scale.pass_mark ?? Math.ceil(scale.min + (scale.max - scale.min) * 0.75));
+
+export const ratingLabel = (scale: RubricScale, rating: number) =>
+  scale.labels?.find(label => label.value === rating)?.label ?? (isPassingRating(scale, rating) ? 'Good' : 'Needs Work');
+
+// Every criterion and sub-criterion key in a rubric, e.g. cover_drive and head_stability
+export function rubricCriterionKeys(rubric: RubricTemplate): string[] {
+  const keys = rubric.criteria.flatMap(criterion => [
+    criterion.key,
+    ...(criterion.sub_criteria || []).map(sub => sub.key),
+  ]);
+  return Array.from(new Set(keys));
+}
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const isNonEmptyString = (value: any) => typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Ratings are stored on the 0-5 star range with 0 meaning "not rated", so every
+// scale has to fit inside 1-5
+const validateScale = (scale: any, prefix: string, errors: string[]) => {
+  if (!scale || typeof scale !== 'object') {
+    errors.push(`${prefix} is required`);
+    return;
+  }
+  if (!Number.isInteger(scale.min) || !Number.isInteger(scale.max) || scale.min < 1 || scale.max > 5 || scale.min >= scale.max) {
+    errors.push(`${prefix} must have whole-number min and max with 1 <= min < max <= 5`);
+    return;
+  }
+  if (scale.pass_mark !== undefined && (typeof scale.pass_mark !== 'number' || scale.pass_mark < scale.min || scale.pass_mark > scale.max)) {
+    errors.push(`${prefix}.pass_mark must be between min and max`);
+  }
+  if (scale.labels !== undefined) {
+    const validLabels = Array.isArray(scale.labels) && scale.labels.every((label: any) =>
+      label && typeof label.value === 'number' && label.value >= scale.min && label.value <= scale.max && isNonEmptyString(label.label)
+    );
+    if (!validLabels) {
+      errors.push(`${prefix}.labels must be a list of { value, label } within the scale`);
+    }
+  }
+};
+
+const validateCriterion = (criterion: any, prefix: string, errors: string[]) => {
+  if (!criterion || typeof criterion !== 'object') {
+    errors.push(`${prefix} must be an object`);
+    return;
+  }
+  if (typeof criterion.key !== 'string' || !KEY_PATTERN.test(criterion.key)) {
+    errors.push(`${prefix}.key must be lower_snake_case`);
+  }
+  if (!isNonEmptyString(criterion.name)) {
+    errors.push(`${prefix}.name is required`);
+  }
+  if (criterion.group !== 'general' && criterion.group !== 'shot') {
+    errors.push(`${prefix}.group must be 'general' or 'shot'`);
+  }
+  if (typeof criterion.weight !== 'number' || criterion.weight < 0) {
+    errors.push(`${prefix}.weight must be a non-negative number`);
+  }
+  if (criterion.color !== undefined && typeof criterion.color !== 'string') {
+    errors.push(`${prefix}.color must be a string`);
+  }
+  validateScale(criterion.scale, `${prefix}.scale`, errors);
+
+  if (criterion.sub_criteria === undefined) {
+    return;
+  }
+  if (criterion.group !== 'shot') {
+    errors.push(`${prefix}.sub_criteria are only allowed on shot criteria`);
+    return;
+  }
+  if (!Array.isArray(criterion.sub_criteria)) {
+    errors.push(`${prefix}.sub_criteria must be an array`);
+    return;
+  }
+
+  const subKeys = new Set<string>();
+  criterion.sub_criteria.forEach((sub: any, index: number) => {
+    const subPrefix = `${prefix}.sub_criteria[${index}]`;
+    if (!sub || typeof sub.key !== 'string' || !KEY_PATTERN.test(sub.key)) {
+      errors.push(`${subPrefix}.key must be lower_snake_case`);
+    } else if (subKeys.has(sub.key)) {
+      errors.push(`${subPrefix}.key "${sub.key}" is used twice`);
+    } else {
+      subKeys.add(sub.key);
+    }
+    if (!isNonEmptyString(sub?.name)) {
+      errors.push(`${subPrefix}.name is required`);
+    }
+    if (typeof sub?.weight !== 'number' || sub.weight < 0) {
+      errors.push(`${subPrefix}.weight must be a non-negative number`);
+    }
+  });
+  if (criterion.sub_criteria.length > 0) {
+    validateScale(criterion.sub_scale, `${prefix}.sub_scale`, errors);
+  }
+};
+
+// `partial` skips the required-field checks so the same rules can be used for updates
+export const validateRubricData = (data: any, partial = false): string[] => {
+  const errors: string[] = [];
+
+  if (!partial || data.name !== undefined) {
+    if (!isNonEmptyString(data.name)) {
+      errors.push('Name is required and must be a non-empty string');
+    }
+  }
+
+  if (data.description !== undefined && data.description !== null && typeof data.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  if (!partial || data.criteria !== undefined) {
+    if (!Array.isArray(data.criteria) || data.criteria.length === 0) {
+      errors.push('criteria must be a non-empty array');
+    } else {
+      data.criteria.forEach((criterion: any, index: number) => validateCriterion(criterion, `criteria[${index}]`, errors));
+
+      // Keys become metric_type / area_type values, including `${shot}_${sub}` for
+      // sub-criteria, so none of them may collide
+      const metricKeys = data.criteria.flatMap((criterion: any) => [
+        criterion?.key,
+        ...(Array.isArray(criterion?.sub_criteria) ? criterion.sub_criteria.map((sub: any) => `${criterion.key}_${sub?.key}`) : []),
+      ]);
+      const duplicates = metricKeys.filter((key: string, index: number) => metricKeys.indexOf(key) !== index);
+      if (duplicates.length > 0) {
+        errors.push(`Criterion keys must be unique: ${Array.from(new Set(duplicates)).join(', ')}`);
+      }
+    }
+  }
+
+  for (const field of ['batches', 'specializations']) {
+    if (data[field] !== undefined && !isStringArray(data[field])) {
+      errors.push(`${field} must be an array of strings`);
+    }
+  }
+
+  if (data.is_default !== undefined && typeof data.is_default !== 'boolean') {
+    errors.push('is_default must be a boolean');
+  }
+
+  return errors;
+};
@@ -0,0 +1,291 @@
+// server/schedule.ts - schedule validation, occurrence expansion, venue clashes and iCalendar feeds
+import { TIME_PATTERN } from './batches';
+import { SESSION_STATUSES, WEEKDAYS } from '../shared/schema';
+import type { Batch, ScheduleEntry, ScheduleTemplate, Session, Weekday } from '../shared/schema';
+
+// Longest range GET /api/schedule returns at once
+export const MAX_SCHEDULE_DAYS = 400;
+// Templates without an end are checked for clashes this far ahead
+export const CLASH_HORIZON_DAYS = 365;
+// Calendar feeds cover recent weeks and the months ahead
+export const FEED_PAST_DAYS = 56;
+export const FEED_FUTURE_DAYS = 182;
+// Feed times are local ("floating"); calendar apps that honour X-WR-TIMEZONE place them in this zone
+const SCHEDULE_TIMEZONE = process.env.SCHEDULE_TIMEZONE;
+
+const isValidDate = (value: any) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+const isTime = (value: any) => typeof value === 'string' && TIME_PATTERN.test(value);
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isOptionalString = (value: any) => value === undefined || value === null || typeof value === 'string';
+
+export const addDays = (date: string, days: number) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+
+export const weekdayOf = (date: string): Weekday => WEEKDAYS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7];
+
+const validatePlace = (data: any, errors: string[]) => {
+  for (const field of ['venue', 'net']) {
+    if (!isOptionalString(data[field])) {
+      errors.push(`${field} must be a string`);
+    }
+  }
+  for (const field of ['coaches', 'focus_areas']) {
+    if (data[field] !== undefined && !isStringArray(data[field])) {
+      errors.push(`${field} must be an array of strings`);
+    }
+  }
+};
+
+// `partial` is for updates, which only carry the fields being changed
+export function validateTemplateData(data: any, partial = false): string[] {
+  const errors: string[] = [];
+
+  if (!partial && (typeof data.batch_id !== 'string' || data.batch_id.length === 0)) {
+    errors.push('batch_id is required');
+  }
+
+  if ((!partial || data.name !== undefined) && (typeof data.name !== 'string' || data.name.trim().length === 0)) {
+    errors.push('name is required and must be a non-empty string');
+  }
+
+  if (!partial || data.days !== undefined) {
+    if (!Array.isArray(data.days) || data.days.length === 0 || !data.days.every((day: any) => WEEKDAYS.includes(day))) {
+      errors.push(`days must be a non-empty list of: ${WEEKDAYS.join(', ')}`);
+    }
+  }
+
+  for (const field of ['start_time', 'end_time']) {
+    if ((!partial || data[field] !== undefined) && !isTime(data[field])) {
+      errors.push(`${field} is required in HH:MM format`);
+    }
+  }
+
+  if ((!partial || data.starts_on !== undefined) && !isValidDate(data.starts_on)) {
+    errors.push('starts_on is required in YYYY-MM-DD format');
+  }
+
+  if (data.ends_on !== undefined && data.ends_on !== null && !isValidDate(data.ends_on)) {
+    errors.push('ends_on must be in YYYY-MM-DD format');
+  }
+
+  validatePlace(data, errors);
+  return errors;
+}
+
+// The scheduling fields of a session; the rest is checked with the session itself
+export function validateSessionSchedule(data: any): string[] {
+  const errors: string[] = [];
+
+  if (!isOptionalString(data.batch_id)) {
+    errors.push('batch_id must be a batch id');
+  }
+
+  for (const field of ['start_time', 'end_time']) {
+    if (data[field] !== undefined && data[field] !== null && !isTime(data[field])) {
+      errors.push(`${field} must be in HH:MM format`);
+    }
+  }
+
+  if (data.status !== undefined && !SESSION_STATUSES.includes(data.status)) {
+    errors.push(`status must be one of: ${SESSION_STATUSES.join(', ')}`);
+  }
+
+  if (!isOptionalString(data.cancel_reason)) {
+    errors.push('cancel_reason must be a string');
+  }
+
+  validatePlace(data, errors);
+  return errors;
+}
+
+// Checked once the stored values are merged in, since an update may change only one side
+export function checkTimes(start: string | null | undefined, end: string | null | undefined): string | null {
+  if (!start && !end) {
+    return null;
+  }
+  if (!start || !end) {
+    return 'start_time and end_time must be set together';
+  }
+  return end > start ? null : 'end_time must be after start_time';
+}
+
+export function checkTemplateDates(startsOn: string, endsOn: string | null | undefined): string | null {
+  return endsOn && endsOn < startsOn ? 'ends_on must not be before starts_on' : null;
+}
+
+export const isTemplateOccurrence = (template: ScheduleTemplate, date: string) =>
+  date >= template.starts_on && (!template.ends_on || date <= template.ends_on) && template.days.includes(weekdayOf(date));
+
+const coachesFor = (own: string[] | undefined, batch: Batch | undefined) =>
+  own && own.length > 0 ? own : batch?.coaches ?? [];
+
+export function sessionEntry(session: Session, batch?: Batch): ScheduleEntry {
+  return {
+    key: session.id,
+    session_id: session.id,
+    template_id: session.template_id ?? null,
+    batch_id: session.batch_id ?? null,
+    name: session.name,
+    date: session.date,
+    start_time: session.start_time ?? null,
+    end_time: session.end_time ?? null,
+    venue: session.venue ?? null,
+    net: session.net ?? null,
+    coaches: coachesFor(session.coaches, batch),
+    status: session.status ?? 'scheduled',
+    cancel_reason: session.cancel_reason ?? null,
+  };
+}
+
+export function occurrenceEntry(template: ScheduleTemplate, date: string, batch?: Batch): ScheduleEntry {
+  return {
+    key: `${template.id}:${date}`,
+    session_id: null,
+    template_id: template.id,
+    batch_id: template.batch_id,
+    name: template.name,
+    date,
+    start_time: template.start_time,
+    end_time: template.end_time,
+    venue: template.venue ?? null,
+    net: template.net ?? null,
+    coaches: coachesFor(template.coaches, batch),
+    status: 'scheduled',
+    cancel_reason: null,
+  };
+}
+
+// Every session and template occurrence from `from` to `to`, by date and time. A
+// session saved for an occurrence (same template and date) takes its place.
+export function expandSchedule(
+  templates: ScheduleTemplate[],
+  sessions: Session[],
+  batches: Batch[],
+  from: string,
+  to: string
+): ScheduleEntry[] {
+  const batchById = new Map(batches.map(batch => [batch.id, batch]));
+  const entries = sessions
+    .filter(session => session.date >= from && session.date <= to)
+    .map(session => sessionEntry(session, batchById.get(session.batch_id ?? '')));
+  const saved = new Set(entries.filter(entry => entry.template_id).map(entry => `${entry.template_id}:${entry.date}`));
+
+  for (const template of templates) {
+    const last = template.ends_on && template.ends_on < to ? template.ends_on : to;
+    for (let date = template.starts_on > from ? template.starts_on : from; date <= last; date = addDays(date, 1)) {
+      if (template.days.includes(weekdayOf(date)) && !saved.has(`${template.id}:${date}`)) {
+        entries.push(occurrenceEntry(template, date, batchById.get(template.batch_id)));
+      }
+    }
+  }
+
+  return entries.sort((a, b) =>
+    a.date.localeCompare(b.date) || (a.start_time ?? '').localeCompare(b.start_time ?? '') || a.name.localeCompare(b.name));
+}
+
+const samePlace = (a: ScheduleEntry, b: ScheduleEntry) =>
+  !!a.venue && !!b.venue && a.venue.trim().toLowerCase() === b.venue.trim().toLowerCase() &&
+  // No net means the whole venue
+  (!a.net || !b.net || a.net.trim().toLowerCase() === b.net.trim().toLowerCase());
+
+const overlaps = (a: ScheduleEntry, b: ScheduleEntry) =>
+  !!a.start_time && !!a.end_time && !!b.start_time && !!b.end_time &&
+  a.start_time < b.end_time && b.start_time < a.end_time;
+
+// The first booked entry using the same venue and net at the same time as one of
+// the candidates. Cancelled entries never clash.
+export function findClash(candidates: ScheduleEntry[], booked: ScheduleEntry[]): ScheduleEntry | null {
+  const bookedByDate = new Map<string, ScheduleEntry[]>();
+  for (const entry of booked) {
+    if (entry.status !== 'cancelled') {
+      bookedByDate.set(entry.date, [...(bookedByDate.get(entry.date) ?? []), entry]);
+    }
+  }
+
+  for (const candidate of candidates) {
+    if (candidate.status === 'cancelled') continue;
+    const clash = (bookedByDate.get(candidate.date) ?? []).find(entry => samePlace(candidate, entry) && overlaps(candidate, entry));
+    if (clash) {
+      return clash;
+    }
+  }
+  return null;
+}
+
+export const describeClash = (clash: ScheduleEntry) =>
+  `${clash.venue}${clash.net ? ` (${clash.net})` : ''} is booked for "${clash.name}" on ${clash.date} ${clash.start_time}-${clash.end_time}`;
+
+// Text values escaped as RFC 5545 requires
+const icsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+
+const icsDateTime = (date: string, time: string) => `${icsDate(date)}T${time.replace(':', '')}00`;
+
+export function toICalendar(entries: ScheduleEntry[], calendarName: string, batches: Batch[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const batchById = new Map(batches.map(batch => [batch.id, batch]));
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Cricket Coach Portal//Training Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(calendarName)}`,
+    ...(SCHEDULE_TIMEZONE ? [`X-WR-TIMEZONE:${SCHEDULE_TIMEZONE}`] : []),
+  ];
+
+  for (const entry of entries) {
+    const batch = entry.batch_id ? batchById.get(entry.batch_id) : undefined;
+    const description = [
+      batch && `Batch: ${batch.name}`,
+      entry.coaches.length > 0 && `Coaches: ${entry.coaches.join(', ')}`,
+      entry.cancel_reason && `Cancelled: ${entry.cancel_reason}`,
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      // Occurrences keep their UID once saved as a session, so calendar apps update the event
+      `UID:${entry.template_id ? `${entry.template_id}-${entry.date}` : entry.key}@cricket-coach-portal`,
+      `DTSTAMP:${stamp}`,
+      ...(entry.start_time && entry.end_time
+        ? [`DTSTART:${icsDateTime(entry.date, entry.start_time)}`, `DTEND:${icsDateTime(entry.date, entry.end_time)}`]
+        : [`DTSTART;VALUE=DATE:${icsDate(entry.date)}`, `DTEND;VALUE=DATE:${icsDate(addDays(entry.date, 1))}`]),
+      `SUMMARY:${icsText(entry.status === 'cancelled' ? `Cancelled: ${entry.name}` : entry.name)}`,
+      ...(entry.venue ? [`LOCATION:${icsText(entry.net ? `${entry.venue}, ${entry.net}` : entry.venue)}`] : []),
+      ...(description ? [`DESCRIPTION:${icsText(description)}`] : []),
+      `STATUS:${entry.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
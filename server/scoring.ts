@@ -0,0 +1,217 @@
+// server/scoring.ts - overall ratings for assessments (1-5 stars) and players (0-10)
+//
+// Each rated criterion is normalised to 0-1 on its rubric scale and combined using
+// the rubric weights. A player's rating is the average of their assessment scores,
+// weighted so that an assessment's influence halves every RATING_HALF_LIFE_WEEKS.
+import type {
+  Assessment, AssessmentScore, CriterionScore, PerformanceMetric, Player, ProblemArea,
+  RatingBreakdown, RubricCriterion, RubricScale, RubricTemplate,
+} from '../shared/schema';
+import { storage } from './storage';
+import { getRubricById, resolvePlayerRubric } from './rubrics';
+
+export const SCORING_CONFIG = {
+  halfLifeWeeks: Number(process.env.RATING_HALF_LIFE_WEEKS) || 4,
+  // Share of a shot's score that comes from its technical areas rather than its overall rating
+  subCriteriaShare: 0.5,
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const STAR_SCALE: RubricScale = { min: 1, max: 5 };
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Rating on a scale -> 0-1. A rating of 0 means "not rated" and would come out as the
+// bottom of the scale, so scoreCriterion leaves those out before calling this.
+export function normaliseRating(rating: number, scale: RubricScale): number {
+  return Math.min(1, Math.max(0, (rating - scale.min) / (scale.max - scale.min)));
+}
+
+export const scoreToStars = (score: number) => round(1 + score * 4);
+export const scoreToPlayerRating = (score: number) => round(score * 10);
+export const starsToPlayerRating = (stars: number) => scoreToPlayerRating(normaliseRating(stars, STAR_SCALE));
+export const playerRatingToStars = (rating: number) => scoreToStars(rating / 10);
+
+const weightedAverage = (items: { value: number; weight: number }[]): number | null => {
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight <= 0) {
+    return null;
+  }
+  return items.reduce((sum, item) => sum + item.value * item.weight, 0) / totalWeight;
+};
+
+export const assessmentDate = (assessment: Assessment) =>
+  assessment.week_start || assessment.session_date || assessment.created_at || new Date().toISOString();
+
+function scoreCriterion(
+  criterion: RubricCriterion,
+  metrics: PerformanceMetric[],
+  problemAreas: ProblemArea[],
+): Omit<CriterionScore, 'contribution'> | null {
+  // General criteria are problem areas; older assessments stored them as metrics
+  const ownRating = criterion.group === 'general'
+    ? (problemAreas.find(area => area.area_type === criterion.key) ?? metrics.find(metric => metric.metric_type === criterion.key))?.rating
+    : metrics.find(metric => metric.metric_type === criterion.key)?.rating;
+
+  const subScale = criterion.sub_scale ?? STAR_SCALE;
+  // Metrics written one at a time can still hold a 0 ("not rated") for a technical area
+  const subRatings = (criterion.sub_criteria ?? [])
+    .map(sub => ({ ...sub, rating: metrics.find(metric => metric.metric_type === `${criterion.key}_${sub.key}`)?.rating ?? 0 }))
+    .filter(sub => sub.rating > 0);
+
+  const ownScore = ownRating && ownRating > 0 ? normaliseRating(ownRating, criterion.scale) : null;
+  const subScore = weightedAverage(subRatings.map(sub => ({ value: normaliseRating(sub.rating, subScale), weight: sub.weight })));
+
+  let score: number | null;
+  if (ownScore !== null && subScore !== null) {
+    score = ownScore * (1 - SCORING_CONFIG.subCriteriaShare) + subScore * SCORING_CONFIG.subCriteriaShare;
+  } else {
+    score = ownScore ?? subScore;
+  }
+  if (score === null) {
+    return null;
+  }
+
+  return {
+    key: criterion.key,
+    name: criterion.name,
+    weight: criterion.weight,
+    rating: ownScore !== null ? ownRating : undefined,
+    sub_ratings: subRatings,
+    score: round(score, 3),
+  };
+}
+
+// Assessments created before rubrics only have the four category ratings
+function scoreLegacyCategories(assessment: Assessment): Omit<CriterionScore, 'contribution'>[] {
+  const categories: [keyof Assessment, string][] = [
+    ['technique_rating', 'Technique'],
+    ['fitness_rating', 'Fitness'],
+    ['game_awareness_rating', 'Game Awareness'],
+    ['mental_strength_rating', 'Mental Strength'],
+  ];
+
+  return categories
+    .filter(([key]) => Number(assessment[key]) > 0)
+    .map(([key, name]) => ({
+      key,
+      name,
+      weight: 1,
+      rating: Number(assessment[key]),
+      sub_ratings: [],
+      score: round(normaliseRating(Number(assessment[key]), STAR_SCALE), 3),
+    }));
+}
+
+export function scoreAssessment(
+  assessment: Assessment,
+  rubric: RubricTemplate,
+  metrics: PerformanceMetric[],
+  problemAreas: ProblemArea[],
+  now: Date = new Date(),
+): AssessmentScore {
+  let criteria = rubric.criteria
+    .map(criterion => scoreCriterion(criterion, metrics, problemAreas))
+    .filter((criterion): criterion is Omit<CriterionScore, 'contribution'> => criterion !== null);
+  if (criteria.length === 0) {
+    criteria = scoreLegacyCategories(assessment);
+  }
+
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const score = weightedAverage(criteria.map(criterion => ({ value: criterion.score, weight: criterion.weight })));
+  const ageWeeks = Math.max(0, (now.getTime() - new Date(assessmentDate(assessment)).getTime()) / WEEK_MS);
+
+  return {
+    assessment_id: assessment.id,
+    date: assessmentDate(assessment),
+    rubric_id: rubric.id,
+    score: score === null ? null : round(score, 3),
+    overall_rating: score === null ? 0 : scoreToStars(score),
+    age_weeks: round(ageWeeks, 1),
+    recency_weight: round(0.5 ** (ageWeeks / SCORING_CONFIG.halfLifeWeeks), 3),
+    share: 0,
+    criteria: criteria.map(criterion => ({
+      ...criterion,
+      contribution: totalWeight > 0 ? round(criterion.weight / totalWeight, 3) : 0,
+    })),
+  };
+}
+
+// Scores every assessment for the player with the rubric it was recorded against
+export async function buildRatingBreakdown(player: Player, now: Date = new Date()): Promise<RatingBreakdown> {
+  const assessments = await storage.getPlayerAssessments(player.id);
+  const playerRubric = await resolvePlayerRubric(player);
+
+  const scores = await Promise.all(assessments.map(async assessment => {
+    const [rubric, metrics, problemAreas] = await Promise.all([
+      assessment.rubric_id ? getRubricById(assessment.rubric_id) : Promise.resolve(null),
+      storage.getAssessmentMetrics(assessment.id),
+      storage.getProblemAreas(assessment.id),
+    ]);
+    return scoreAssessment(assessment, rubric ?? playerRubric, metrics, problemAreas, now);
+  }));
+
+  const rated = scores.filter(score => score.score !== null);
+  const totalRecency = rated.reduce((sum, score) => sum + score.recency_weight, 0);
+  rated.forEach(score => {
+    score.share = totalRecency > 0 ? round(score.recency_weight / totalRecency, 3) : 0;
+  });
+  const playerScore = weightedAverage(rated.map(score => ({ value: score.score!, weight: score.recency_weight })));
+
+  return {
+    player_id: player.id,
+    overall_rating: playerScore === null ? 0 : scoreToPlayerRating(playerScore),
+    total_assessments: assessments.length,
+    half_life_weeks: SCORING_CONFIG.halfLifeWeeks,
+    assessments: scores.sort((a, b) => b.date.localeCompare(a.date)),
+  };
+}
+
+// Writes the computed ratings back to the assessments and the player
+export async function recomputePlayerRatings(playerId: string): Promise<void> {
+  const player = await storage.getPlayer(playerId);
+  if (!player) {
+    return;
+  }
+
+  const breakdown = await buildRatingBreakdown(player);
+  const assessments = await storage.getPlayerAssessments(playerId);
+
+  for (const score of breakdown.assessments) {
+    const assessment = assessments.find(item => item.id === score.assessment_id);
+    if (assessment && assessment.overall_rating !== score.overall_rating) {
+      await storage.updateAssessment(score.assessment_id, { overall_rating: score.overall_rating });
+    }
+  }
+
+  await storage.updatePlayerRating(playerId, {
+    overall_rating: breakdown.overall_rating,
+    total_assessments: breakdown.total_assessments,
+  });
+}
+
+// Rubric weights feed into every score, so editing a template rescores everyone
+export async function recomputeAllPlayerRatings(): Promise<void> {
+  try {
+    const players = await storage.getPlayers();
+    for (const player of players) {
+      await recomputePlayerRatings(player.id);
+    }
+  } catch (error) {
+    console.error('Error recomputing ratings:', error);
+  }
+}
+
+// Called after anything that changes an assessment. A failed recompute is logged
+// rather than failing the change that triggered it.
+export async function recomputeRatingsForAssessment(assessmentId: string): Promise<void> {
+  try {
+    const assessment = await storage.getAssessment(assessmentId);
+    if (assessment) {
+      await recomputePlayerRatings(assessment.player_id);
+    }
+  } catch (error) {
+    console.error('Error recomputing ratings:', error);
+  }
+}
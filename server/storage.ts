@@ -1,12 +1,23 @@
-// server/storage.ts - CORRECTED VERSION
-import { supabase, TABLES } from './supabase';
-import { Player, Assessment, Video, Session } from '../shared/schema';
+// server/storage.ts - storage interface and backend selection
+import {
+  Player, PlayerRatingUpdate, AssessmentInsert, AssessmentUpdate, Assessment, FullAssessmentInsert, VideoInsert, VideoUpdate, Video, VideoSearchQuery, VideoSearchResult, VideoProcessingStatus, SessionInsert, Session, SessionRecording, SessionRecordingInsert,
+  PerformanceMetric, PerformanceMetricInsert, PerformanceMetricUpdate,
+  ProblemArea, ProblemAreaInsert, ProblemAreaUpdate, AssessmentDraft, AssessmentDraftUpsert,
+  RubricTemplate, RubricTemplateInsert, RubricTemplateUpdate, Note, NoteInsert, NoteUpdate,
+  Annotation, AnnotationInsert, AnnotationUpdate, Drawing, DrawingInsert, VideoBookmark, VideoBookmarkInsert,
+  Batch, BatchInsert, BatchUpdate, BatchMembership, SessionUpdate, ScheduleTemplate, ScheduleTemplateInsert, ScheduleTemplateUpdate, AttendanceRecord, AttendanceUpsert,
+  Drill, DrillInsert, DrillUpdate, PracticePlan, PracticePlanInsert, PracticePlanUpdate, DrillCompletion, DrillCompletionInsert,
+} from '../shared/schema';
+import { SupabaseStorage } from './supabaseStorage';
+import { hasSupabaseConfig } from './supabase';
+import { PgStorage } from './pgStorage';
+import { MemStorage } from './memoryStorage';
 
 // Interface matching your EXACT Supabase table structure
-interface CreatePlayerData {
+export interface CreatePlayerData {
   name: string;
   age?: number;
-  batting_style?: string;  
+  batting_style?: string;
   bowling_style?: string;
   specialization?: string;
   photo_url?: string | null; // Allow null values
@@ -14,227 +25,184 @@ interface CreatePlayerData {
   dob?: string | null; // Date string in YYYY-MM-DD format
   height?: number | null; // Height in cm
   weight?: number | null; // Weight in kg
-  batch?: string | null; // Manually added field
+  batch?: string | null; // batch name, kept in step with batch_id
+  batch_id?: string | null;
   position?: string | null; // Manually added field
-  // overall_rating and total_assessments are auto-calculated by triggers
+  // overall_rating and total_assessments are computed by server/scoring.ts
 }
 
-export class SupabaseStorage {
-  
-  // PLAYER METHODS
-  async getPlayers(): Promise<Player[]> {
-    const { data, error } = await supabase
-      .from(TABLES.PLAYERS)
-      .select('*')
-      .order('created_at', { ascending: false });
-    
-    if (error) {
-      console.error('Error fetching players:', error);
-      return [];
-    }
-    
-    return data || [];
-  }
-
-  async getPlayer(id: string): Promise<Player | null> {
-    const { data, error } = await supabase
-      .from(TABLES.PLAYERS)
-      .select('*')
-      .eq('id', id)
-      .single();
-    
-    if (error) {
-      console.error('Error fetching player:', error);
-      return null;
-    }
-    
-    return data;
-  }
-  
-  async createPlayer(playerData: CreatePlayerData): Promise<Player> {
-    console.log('Data being inserted into Supabase:', playerData);
-
-    // Let Supabase handle ID generation and timestamps
-    const { data, error } = await supabase
-      .from(TABLES.PLAYERS)
-      .insert([playerData])
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Supabase insertion error:', error);
-      console.error('Error details:', JSON.stringify(error, null, 2));
-      throw new Error(`Failed to create player: ${error.message}`);
-    }
-
-    return data;
-  }
-
-  async updatePlayer(id: string, updates: Partial<CreatePlayerData>): Promise<Player | null> {
-    const { data, error } = await supabase
-      .from(TABLES.PLAYERS)
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error updating player:', error);
-      return null;
-    }
-
-    return data;
-  }
-
-  // ASSESSMENT METHODS
-  async getPlayerAssessments(playerId: string): Promise<Assessment[]> {
-    const { data, error } = await supabase
-      .from(TABLES.ASSESSMENTS)
-      .select('*')
-      .eq('player_id', playerId)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching assessments:', error);
-      return [];
-    }
-
-    return data || [];
-  }
-
-  async createAssessment(assessment: Omit<Assessment, 'id' | 'created_at'>): Promise<Assessment> {
-    // Let Supabase handle ID generation and timestamps
-    const { data, error } = await supabase
-      .from(TABLES.ASSESSMENTS)
-      .insert([assessment])
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating assessment:', error);
-      throw new Error(`Failed to create assessment: ${error.message}`);
-    }
-
-    return data;
-  }
-
-  // VIDEO METHODS
-  async getPlayerVideos(playerId: string): Promise<Video[]> {
-    const { data, error } = await supabase
-      .from(TABLES.VIDEOS)
-      .select('*')
-      .eq('player_id', playerId)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching videos:', error);
-      return [];
-    }
-
-    return data || [];
-  }
-
-  async createVideo(video: Omit<Video, 'id' | 'created_at'>): Promise<Video> {
-    // Let Supabase handle ID generation and timestamps
-    const { data, error } = await supabase
-      .from(TABLES.VIDEOS)
-      .insert([video])
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating video:', error);
-      throw new Error(`Failed to create video: ${error.message}`);
-    }
-
-    return data;
-  }
-
-  // SESSION METHODS
-  async getSessions(): Promise<Session[]> {
-    const { data, error } = await supabase
-      .from(TABLES.SESSIONS)
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching sessions:', error);
-      return [];
-    }
-
-    return data || [];
-  }
-
-  async createSession(session: Omit<Session, 'id' | 'created_at'>): Promise<Session> {
-    // Let Supabase handle ID generation and timestamps
-    const { data, error } = await supabase
-      .from(TABLES.SESSIONS)
-      .insert([session])
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating session:', error);
-      throw new Error(`Failed to create session: ${error.message}`);
-    }
-
-    return data;
-  }
-
-  // FILE UPLOAD METHOD
-  async uploadFile(file: Buffer, fileName: string, contentType: string): Promise<string> {
-    const filePath = `uploads/${Date.now()}-${fileName}`;
-    
-    const { data, error } = await supabase.storage
-      .from('cricket-files')
-      .upload(filePath, file, {
-        contentType,
-        duplex: 'half'
-      });
-
-    if (error) {
-      console.error('Error uploading file:', error);
-      throw new Error(`Failed to upload file: ${error.message}`);
-    }
-
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from('cricket-files')
-      .getPublicUrl(filePath);
-
-    return publicUrl;
-  }
-
-  // Additional utility methods
-  async deletePlayer(id: string): Promise<boolean> {
-    const { error } = await supabase
-      .from(TABLES.PLAYERS)
-      .delete()
-      .eq('id', id);
-
-    if (error) {
-      console.error('Error deleting player:', error);
-      return false;
-    }
-
-    return true;
-  }
+// Every backend (Supabase, local Postgres, in-memory) implements this contract.
+// Reads resolve to an empty list / null on failure, writes throw.
+export interface IStorage {
+  // Players
+  getPlayers(): Promise<Player[]>;
+  getPlayer(id: string): Promise<Player | null>;
+  createPlayer(playerData: CreatePlayerData): Promise<Player>;
+  updatePlayer(id: string, updates: Partial<CreatePlayerData>): Promise<Player | null>;
+  deletePlayer(id: string): Promise<boolean>;
+  searchPlayers(searchTerm: string): Promise<Player[]>;
+  updatePlayerRating(id: string, rating: PlayerRatingUpdate): Promise<Player | null>;
+
+  // Assessments
+  getPlayerAssessments(playerId: string): Promise<Assessment[]>;
+  getAssessment(id: string): Promise<Assessment | null>;
+  createAssessment(assessment: AssessmentInsert): Promise<Assessment>;
+  updateAssessment(id: string, updates: AssessmentUpdate): Promise<Assessment | null>;
+  // Saves the assessment, its problem areas and metrics atomically
+  createFullAssessment(data: FullAssessmentInsert): Promise<Assessment>;
+
+  // Assessment metrics and problem areas
+  getAssessmentMetrics(assessmentId: string): Promise<PerformanceMetric[]>;
+  getMetric(id: string): Promise<PerformanceMetric | null>;
+  createMetric(metric: PerformanceMetricInsert): Promise<PerformanceMetric>;
+  updateMetric(id: string, updates: PerformanceMetricUpdate): Promise<PerformanceMetric | null>;
+  deleteMetric(id: string): Promise<PerformanceMetric | null>; // the deleted row, null when there was none
+
+  getProblemAreas(assessmentId: string): Promise<ProblemArea[]>;
+  getProblemArea(id: string): Promise<ProblemArea | null>;
+  createProblemArea(problemArea: ProblemAreaInsert): Promise<ProblemArea>;
+  updateProblemArea(id: string, updates: ProblemAreaUpdate): Promise<ProblemArea | null>;
+  deleteProblemArea(id: string): Promise<ProblemArea | null>; // the deleted row, null when there was none
+
+  // Rubric templates
+  getRubrics(): Promise<RubricTemplate[]>;
+  getRubric(id: string): Promise<RubricTemplate | null>;
+  createRubric(rubric: RubricTemplateInsert): Promise<RubricTemplate>;
+  updateRubric(id: string, updates: RubricTemplateUpdate): Promise<RubricTemplate | null>;
+  deleteRubric(id: string): Promise<boolean>;
+
+  // Assessment drafts - one per player and coach
+  getAssessmentDraft(playerId: string, coach: string): Promise<AssessmentDraft | null>;
+  saveAssessmentDraft(draft: AssessmentDraftUpsert): Promise<AssessmentDraft>;
+  deleteAssessmentDraft(playerId: string, coach: string): Promise<boolean>;
+  // Removes drafts last saved before the given ISO timestamp, returns how many
+  deleteExpiredAssessmentDrafts(updatedBefore: string): Promise<number>;
+
+  // Coach notes
+  getPlayerNotes(playerId: string): Promise<Note[]>;
+  getNote(id: string): Promise<Note | null>;
+  createNote(note: NoteInsert): Promise<Note>;
+  updateNote(id: string, updates: NoteUpdate): Promise<Note | null>;
+  deleteNote(id: string): Promise<boolean>;
+
+  // Annotations
+  getVideoAnnotations(videoId: string): Promise<Annotation[]>; // in timestamp order
+  getAnnotation(id: string): Promise<Annotation | null>;
+  createAnnotation(annotation: AnnotationInsert): Promise<Annotation>;
+  updateAnnotation(id: string, updates: AnnotationUpdate): Promise<Annotation | null>;
+  deleteAnnotation(id: string): Promise<boolean>;
+
+  // Drawings
+  getVideoDrawings(videoId: string): Promise<Drawing[]>; // in timestamp order
+  getDrawing(id: string): Promise<Drawing | null>;
+  createDrawing(drawing: DrawingInsert): Promise<Drawing>;
+  deleteDrawing(id: string): Promise<boolean>;
+
+  // Video bookmarks
+  getVideoBookmarks(videoId: string): Promise<VideoBookmark[]>; // in start order
+  getVideoBookmark(id: string): Promise<VideoBookmark | null>;
+  createVideoBookmark(bookmark: VideoBookmarkInsert): Promise<VideoBookmark>;
+  deleteVideoBookmark(id: string): Promise<boolean>;
+
+  // Videos
+  getPlayerVideos(playerId: string): Promise<Video[]>;
+  // Reference clips (videos with no player), newest first
+  getReferenceVideos(): Promise<Video[]>;
+  // Clips cut from the session's recordings, newest first
+  getSessionVideos(sessionId: string): Promise<Video[]>;
+  getVideo(id: string): Promise<Video | null>;
+  createVideo(video: VideoInsert): Promise<Video>;
+  updateVideo(id: string, updates: VideoUpdate): Promise<Video | null>;
+  deleteVideo(id: string): Promise<boolean>;
+  // Oldest first, e.g. to resume media processing after a restart
+  getVideosByProcessingStatus(statuses: VideoProcessingStatus[]): Promise<Video[]>;
+  // Filtered, sorted page of videos with facet counts (see server/videoSearch.ts)
+  searchVideos(search: VideoSearchQuery): Promise<VideoSearchResult>;
+
+  // Sessions
+  getSessions(): Promise<Session[]>;
+  getSession(id: string): Promise<Session | null>;
+  createSession(session: SessionInsert): Promise<Session>;
+  updateSession(id: string, updates: SessionUpdate): Promise<Session | null>;
+  // Sessions dated from `from` to `to` (inclusive), by date and start time
+  getSessionsBetween(from: string, to: string): Promise<Session[]>;
+
+  // Recurring schedule templates, oldest first
+  getScheduleTemplates(): Promise<ScheduleTemplate[]>;
+  getScheduleTemplate(id: string): Promise<ScheduleTemplate | null>;
+  createScheduleTemplate(template: ScheduleTemplateInsert): Promise<ScheduleTemplate>;
+  updateScheduleTemplate(id: string, updates: ScheduleTemplateUpdate): Promise<ScheduleTemplate | null>;
+  // Sessions saved for its occurrences are kept, without the link
+  deleteScheduleTemplate(id: string): Promise<boolean>;
+
+  // Batches, by name
+  getBatches(): Promise<Batch[]>;
+  getBatch(id: string): Promise<Batch | null>;
+  createBatch(batch: BatchInsert): Promise<Batch>;
+  updateBatch(id: string, updates: BatchUpdate): Promise<Batch | null>;
+  deleteBatch(id: string): Promise<boolean>;
+
+  // Batch membership history, latest first
+  getBatchMemberships(batchId: string): Promise<BatchMembership[]>;
+  getPlayerBatchMemberships(playerId: string): Promise<BatchMembership[]>;
+  // Ends the player's current membership on `date` and starts one in the batch (none
+  // when null), updating the player's batch_id and batch name together
+  movePlayerToBatch(playerId: string, batchId: string | null, date: string, movedBy?: string): Promise<Player | null>;
+
+  // Attendance, one record per session and player
+  getSessionAttendance(sessionId: string): Promise<AttendanceRecord[]>;
+  getPlayerAttendance(playerId: string): Promise<AttendanceRecord[]>;
+  getAttendanceForSessions(sessionIds: string[]): Promise<AttendanceRecord[]>;
+  // Adds or replaces the records for each session and player, all or none
+  saveAttendance(records: AttendanceUpsert[]): Promise<AttendanceRecord[]>;
+  deleteAttendance(sessionId: string, playerId: string): Promise<boolean>;
+
+  // Drill library, by name
+  getDrills(): Promise<Drill[]>;
+  getDrill(id: string): Promise<Drill | null>;
+  createDrill(drill: DrillInsert): Promise<Drill>;
+  updateDrill(id: string, updates: DrillUpdate): Promise<Drill | null>;
+  deleteDrill(id: string): Promise<boolean>;
+
+  // Practice plans, latest start first. Deleting a plan deletes its completions.
+  getPracticePlans(): Promise<PracticePlan[]>;
+  getPracticePlan(id: string): Promise<PracticePlan | null>;
+  createPracticePlan(plan: PracticePlanInsert): Promise<PracticePlan>;
+  updatePracticePlan(id: string, updates: PracticePlanUpdate): Promise<PracticePlan | null>;
+  deletePracticePlan(id: string): Promise<boolean>;
+
+  // Drills done under a plan, latest first
+  getDrillCompletions(planId: string): Promise<DrillCompletion[]>;
+  createDrillCompletion(completion: DrillCompletionInsert): Promise<DrillCompletion>;
+  deleteDrillCompletion(id: string): Promise<boolean>;
+
+  // Session recordings, newest first
+  getSessionRecordings(sessionId: string): Promise<SessionRecording[]>;
+  createSessionRecording(recording: SessionRecordingInsert): Promise<SessionRecording>;
+}
 
-  async searchPlayers(searchTerm: string): Promise<Player[]> {
-    const { data, error } = await supabase
-      .from(TABLES.PLAYERS)
-      .select('*')
-      .or(`name.ilike.%${searchTerm}%,specialization.ilike.%${searchTerm}%,batting_style.ilike.%${searchTerm}%,bowling_style.ilike.%${searchTerm}%`)
-      .order('name');
-    
-    if (error) {
-      console.error('Error searching players:', error);
-      return [];
-    }
-    
-    return data || [];
+// Pick the backend from STORAGE_DRIVER (defaults to Supabase):
+//   supabase - remote Supabase project (SUPABASE_URL / SUPABASE_ANON_KEY)
+//   postgres - local Postgres database (DATABASE_URL)
+//   memory   - in-process storage, data is lost on restart
+export function createStorage(driver: string = process.env.STORAGE_DRIVER || 'supabase'): IStorage {
+  switch (driver) {
+    case 'supabase':
+      if (!hasSupabaseConfig()) {
+        throw new Error('SUPABASE_URL and SUPABASE_ANON_KEY must be set when STORAGE_DRIVER=supabase');
+      }
+      return new SupabaseStorage();
+    case 'postgres':
+      if (!process.env.DATABASE_URL) {
+        throw new Error('DATABASE_URL must be set when STORAGE_DRIVER=postgres');
+      }
+      return new PgStorage(process.env.DATABASE_URL);
+    case 'memory':
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected supabase, postgres or memory)`);
   }
 }
 
 // Export a single instance
-export const storage = new SupabaseStorage();
\ No newline at end of file
+export const storage = createStorage();
@@ -0,0 +1,1567 @@
+// server/supabaseStorage.ts
+import { getSupabase, TABLES } from './supabase';
+import {
+  Player, PlayerRatingUpdate, AssessmentInsert, AssessmentUpdate, Assessment, FullAssessmentInsert, VideoInsert, VideoUpdate, Video, VideoSearchQuery, VideoSearchResult, VideoProcessingStatus, SessionInsert, Session, SessionRecording, SessionRecordingInsert,
+  PerformanceMetric, PerformanceMetricInsert, PerformanceMetricUpdate,
+  ProblemArea, ProblemAreaInsert, ProblemAreaUpdate, AssessmentDraft, AssessmentDraftUpsert,
+  RubricTemplate, RubricTemplateInsert, RubricTemplateUpdate, Note, NoteInsert, NoteUpdate,
+  Annotation, AnnotationInsert, AnnotationUpdate, Drawing, DrawingInsert,
+  VideoBookmark, VideoBookmarkInsert, Batch, BatchInsert, BatchUpdate, BatchMembership, SessionUpdate, ScheduleTemplate, ScheduleTemplateInsert, ScheduleTemplateUpdate, AttendanceRecord, AttendanceUpsert,
+  Drill, DrillInsert, DrillUpdate, PracticePlan, PracticePlanInsert, PracticePlanUpdate, DrillCompletion, DrillCompletionInsert, VIDEO_TAG_FIELDS,
+} from '../shared/schema';
+import type { IStorage, CreatePlayerData } from './storage';
+import { NULLABLE_SORT_FIELDS, countVideoFacets, dayAfter, emptyVideoSearchResult, toVideoPage } from './videoSearch';
+
+// PostgREST filter values containing commas or parentheses must be quoted
+const filterValue = (value: string | number) =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/(["\\])/g, '\\$1')}"`;
+
+export class SupabaseStorage implements IStorage {
+  
+  // PLAYER METHODS
+  async getPlayers(): Promise<Player[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PLAYERS)
+      .select('*')
+      .order('created_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching players:', error);
+      return [];
+    }
+    
+    return data || [];
+  }
+
+  async getPlayer(id: string): Promise<Player | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PLAYERS)
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error) {
+      console.error('Error fetching player:', error);
+      return null;
+    }
+    
+    return data;
+  }
+  
+  async createPlayer(playerData: CreatePlayerData): Promise<Player> {
+    console.log('Data being inserted into Supabase:', playerData);
+
+    // Let Supabase handle ID generation and timestamps
+    const { data, error } = await getSupabase()
+      .from(TABLES.PLAYERS)
+      .insert([playerData])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Supabase insertion error:', error);
+      console.error('Error details:', JSON.stringify(error, null, 2));
+      throw new Error(`Failed to create player: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updatePlayer(id: string, updates: Partial<CreatePlayerData>): Promise<Player | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PLAYERS)
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating player:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async updatePlayerRating(id: string, rating: PlayerRatingUpdate): Promise<Player | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PLAYERS)
+      .update(rating)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating player rating:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  // ASSESSMENT METHODS
+  async getPlayerAssessments(playerId: string): Promise<Assessment[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ASSESSMENTS)
+      .select('*')
+      .eq('player_id', playerId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching assessments:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getAssessment(id: string): Promise<Assessment | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ASSESSMENTS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching assessment:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createAssessment(assessment: AssessmentInsert): Promise<Assessment> {
+    // Let Supabase handle ID generation and timestamps
+    const { data, error } = await getSupabase()
+      .from(TABLES.ASSESSMENTS)
+      .insert([assessment])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating assessment:', error);
+      throw new Error(`Failed to create assessment: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateAssessment(id: string, updates: AssessmentUpdate): Promise<Assessment | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ASSESSMENTS)
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating assessment:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createFullAssessment(fullAssessment: FullAssessmentInsert): Promise<Assessment> {
+    // create_full_assessment (migrations/0003) runs the inserts in a single transaction
+    const { data: assessmentId, error } = await getSupabase()
+      .rpc('create_full_assessment', { payload: fullAssessment });
+
+    if (error) {
+      console.error('Error creating full assessment:', error);
+      throw new Error(`Failed to create assessment: ${error.message}`);
+    }
+
+    const assessment = await this.getAssessment(assessmentId);
+    if (!assessment) {
+      throw new Error('Failed to create assessment: saved assessment could not be loaded');
+    }
+
+    return assessment;
+  }
+
+  // METRIC METHODS
+  async getAssessmentMetrics(assessmentId: string): Promise<PerformanceMetric[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PERFORMANCE_METRICS)
+      .select('*')
+      .eq('assessment_id', assessmentId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching metrics:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getMetric(id: string): Promise<PerformanceMetric | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PERFORMANCE_METRICS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching metric:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createMetric(metric: PerformanceMetricInsert): Promise<PerformanceMetric> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PERFORMANCE_METRICS)
+      .insert([metric])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating metric:', error);
+      throw new Error(`Failed to create metric: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateMetric(id: string, updates: PerformanceMetricUpdate): Promise<PerformanceMetric | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PERFORMANCE_METRICS)
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating metric:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async deleteMetric(id: string): Promise<PerformanceMetric | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PERFORMANCE_METRICS)
+      .delete()
+      .eq('id', id)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to delete metric: ${error.message}`);
+    }
+
+    return data?.[0] || null;
+  }
+
+  // PROBLEM AREA METHODS
+  async getProblemAreas(assessmentId: string): Promise<ProblemArea[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PROBLEM_AREAS)
+      .select('*')
+      .eq('assessment_id', assessmentId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching problem areas:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getProblemArea(id: string): Promise<ProblemArea | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PROBLEM_AREAS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching problem area:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createProblemArea(problemArea: ProblemAreaInsert): Promise<ProblemArea> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PROBLEM_AREAS)
+      .insert([problemArea])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating problem area:', error);
+      throw new Error(`Failed to create problem area: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateProblemArea(id: string, updates: ProblemAreaUpdate): Promise<ProblemArea | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PROBLEM_AREAS)
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating problem area:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async deleteProblemArea(id: string): Promise<ProblemArea | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PROBLEM_AREAS)
+      .delete()
+      .eq('id', id)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to delete problem area: ${error.message}`);
+    }
+
+    return data?.[0] || null;
+  }
+
+  // RUBRIC TEMPLATE METHODS
+  async getRubrics(): Promise<RubricTemplate[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.RUBRIC_TEMPLATES)
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching rubrics:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getRubric(id: string): Promise<RubricTemplate | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.RUBRIC_TEMPLATES)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching rubric:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createRubric(rubric: RubricTemplateInsert): Promise<RubricTemplate> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.RUBRIC_TEMPLATES)
+      .insert([rubric])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating rubric:', error);
+      throw new Error(`Failed to create rubric: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateRubric(id: string, updates: RubricTemplateUpdate): Promise<RubricTemplate | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.RUBRIC_TEMPLATES)
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating rubric:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async deleteRubric(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.RUBRIC_TEMPLATES)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting rubric:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // ASSESSMENT DRAFT METHODS
+  async getAssessmentDraft(playerId: string, coach: string): Promise<AssessmentDraft | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ASSESSMENT_DRAFTS)
+      .select('*')
+      .eq('player_id', playerId)
+      .eq('coach', coach)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching assessment draft:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async saveAssessmentDraft(draft: AssessmentDraftUpsert): Promise<AssessmentDraft> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ASSESSMENT_DRAFTS)
+      .upsert({ ...draft, updated_at: new Date().toISOString() }, { onConflict: 'player_id,coach' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving assessment draft:', error);
+      throw new Error(`Failed to save assessment draft: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteAssessmentDraft(playerId: string, coach: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.ASSESSMENT_DRAFTS)
+      .delete()
+      .eq('player_id', playerId)
+      .eq('coach', coach);
+
+    if (error) {
+      console.error('Error deleting assessment draft:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  async deleteExpiredAssessmentDrafts(updatedBefore: string): Promise<number> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ASSESSMENT_DRAFTS)
+      .delete()
+      .lt('updated_at', updatedBefore)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting expired assessment drafts:', error);
+      return 0;
+    }
+
+    return data?.length || 0;
+  }
+
+  // NOTE METHODS
+  async getPlayerNotes(playerId: string): Promise<Note[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.NOTES)
+      .select('*')
+      .eq('player_id', playerId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching notes:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getNote(id: string): Promise<Note | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.NOTES)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching note:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createNote(note: NoteInsert): Promise<Note> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.NOTES)
+      .insert([note])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating note:', error);
+      throw new Error(`Failed to create note: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateNote(id: string, updates: NoteUpdate): Promise<Note | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.NOTES)
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating note:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async deleteNote(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.NOTES)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting note:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // ANNOTATION METHODS
+  async getVideoAnnotations(videoId: string): Promise<Annotation[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ANNOTATIONS)
+      .select('*')
+      .eq('video_id', videoId)
+      .order('timestamp', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching annotations:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getAnnotation(id: string): Promise<Annotation | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ANNOTATIONS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching annotation:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createAnnotation(annotation: AnnotationInsert): Promise<Annotation> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ANNOTATIONS)
+      .insert([annotation])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating annotation:', error);
+      throw new Error(`Failed to create annotation: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateAnnotation(id: string, updates: AnnotationUpdate): Promise<Annotation | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ANNOTATIONS)
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating annotation:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async deleteAnnotation(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.ANNOTATIONS)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting annotation:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // DRAWING METHODS
+  async getVideoDrawings(videoId: string): Promise<Drawing[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.DRAWINGS)
+      .select('*')
+      .eq('video_id', videoId)
+      .order('timestamp', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching drawings:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getDrawing(id: string): Promise<Drawing | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.DRAWINGS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching drawing:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createDrawing(drawing: DrawingInsert): Promise<Drawing> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.DRAWINGS)
+      .insert([drawing])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating drawing:', error);
+      throw new Error(`Failed to create drawing: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteDrawing(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.DRAWINGS)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting drawing:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // VIDEO BOOKMARK METHODS
+  async getVideoBookmarks(videoId: string): Promise<VideoBookmark[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.VIDEO_BOOKMARKS)
+      .select('*')
+      .eq('video_id', videoId)
+      .order('start', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching video bookmarks:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getVideoBookmark(id: string): Promise<VideoBookmark | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.VIDEO_BOOKMARKS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching video bookmark:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createVideoBookmark(bookmark: VideoBookmarkInsert): Promise<VideoBookmark> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.VIDEO_BOOKMARKS)
+      .insert([bookmark])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating video bookmark:', error);
+      throw new Error(`Failed to create video bookmark: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteVideoBookmark(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.VIDEO_BOOKMARKS)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting video bookmark:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // VIDEO METHODS
+  async getPlayerVideos(playerId: string): Promise<Video[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.VIDEOS)
+      .select('*')
+      .eq('player_id', playerId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching videos:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getReferenceVideos(): Promise<Video[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.VIDEOS)
+      .select('*')
+      .is('player_id', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching reference videos:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getSessionVideos(sessionId: string): Promise<Video[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.VIDEOS)
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching session videos:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getVideo(id: string): Promise<Video | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.VIDEOS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching video:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createVideo(video: VideoInsert): Promise<Video> {
+    // Let Supabase handle ID generation and timestamps
+    const { data, error } = await getSupabase()
+      .from(TABLES.VIDEOS)
+      .insert([video])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating video:', error);
+      throw new Error(`Failed to create video: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateVideo(id: string, updates: VideoUpdate): Promise<Video | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.VIDEOS)
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating video:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async getVideosByProcessingStatus(statuses: VideoProcessingStatus[]): Promise<Video[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.VIDEOS)
+      .select('*')
+      .in('processing_status', statuses)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching videos by processing status:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async deleteVideo(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.VIDEOS)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting video:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Applies every search filter except the tag filters, which are added when
+  // withTags is set. Takes and returns a Supabase filter builder.
+  private applyVideoFilters<Q>(query: Q, search: VideoSearchQuery, withTags: boolean): Q {
+    let filtered: any = query;
+    // Reference clips (no player) are listed separately
+    filtered = filtered.not('player_id', 'is', null);
+    if (search.player_ids) filtered = filtered.in('player_id', search.player_ids);
+    if (search.from) filtered = filtered.gte('created_at', `${search.from}T00:00:00.000Z`);
+    if (search.to) filtered = filtered.lt('created_at', dayAfter(search.to));
+    if (search.min_duration !== undefined) filtered = filtered.gte('duration', search.min_duration);
+    if (search.max_duration !== undefined) filtered = filtered.lte('duration', search.max_duration);
+    if (search.min_quality !== undefined) filtered = filtered.gte('quality_rating', search.min_quality);
+    if (search.max_quality !== undefined) filtered = filtered.lte('quality_rating', search.max_quality);
+
+    if (withTags) {
+      for (const field of VIDEO_TAG_FIELDS) {
+        const values = search.tags?.[field];
+        if (values) filtered = filtered.in(field, values);
+      }
+    }
+    return filtered;
+  }
+
+  // Rows strictly after the cursor in (sort value, id) order; missing numbers sort lowest
+  private videoCursorFilter(search: VideoSearchQuery): string | null {
+    if (!search.cursor) return null;
+
+    const column = search.sort;
+    const { value, id } = search.cursor;
+    const [op, nullable] = [search.order === 'asc' ? 'gt' : 'lt', NULLABLE_SORT_FIELDS.includes(column)];
+
+    if (value === null) {
+      const sameValue = `and(${column}.is.null,id.${op}.${id})`;
+      return search.order === 'asc' ? `${column}.not.is.null,${sameValue}` : sameValue;
+    }
+
+    const conditions = [`${column}.${op}.${filterValue(value)}`, `and(${column}.eq.${filterValue(value)},id.${op}.${id})`];
+    if (nullable && search.order === 'desc') {
+      conditions.push(`${column}.is.null`);
+    }
+    return conditions.join(',');
+  }
+
+  async searchVideos(search: VideoSearchQuery): Promise<VideoSearchResult> {
+    // Facets count tag values over everything matching the other filters.
+    // Subject to the project's max rows setting (1000 by default).
+    const { data: facetRows, error: facetError } = await this.applyVideoFilters(
+      getSupabase().from(TABLES.VIDEOS).select(VIDEO_TAG_FIELDS.join(',')), search, false
+    );
+
+    const { count, error: countError } = await this.applyVideoFilters(
+      getSupabase().from(TABLES.VIDEOS).select('id', { count: 'exact', head: true }), search, true
+    );
+
+    const ascending = search.order === 'asc';
+    let pageQuery = this.applyVideoFilters(getSupabase().from(TABLES.VIDEOS).select('*'), search, true);
+    const cursorFilter = this.videoCursorFilter(search);
+    if (cursorFilter) {
+      pageQuery = pageQuery.or(cursorFilter);
+    }
+    const { data, error } = await pageQuery
+      .order(search.sort, { ascending, nullsFirst: ascending })
+      .order('id', { ascending })
+      .limit(search.limit + 1);
+
+    if (facetError || countError || error) {
+      console.error('Error searching videos:', facetError || countError || error);
+      return emptyVideoSearchResult();
+    }
+
+    return {
+      ...toVideoPage(data || [], search),
+      total: count || 0,
+      facets: countVideoFacets((facetRows || []) as unknown as Video[], search.tags),
+    };
+  }
+
+  // SESSION METHODS
+  async getSessions(): Promise<Session[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.SESSIONS)
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching sessions:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.SESSIONS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching session:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createSession(session: SessionInsert): Promise<Session> {
+    // Let Supabase handle ID generation and timestamps
+    const { data, error } = await getSupabase()
+      .from(TABLES.SESSIONS)
+      .insert([session])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating session:', error);
+      throw new Error(`Failed to create session: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateSession(id: string, updates: SessionUpdate): Promise<Session | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.SESSIONS)
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating session:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async getSessionsBetween(from: string, to: string): Promise<Session[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.SESSIONS)
+      .select('*')
+      .gte('date', from)
+      .lte('date', to)
+      .order('date', { ascending: true })
+      .order('start_time', { ascending: true, nullsFirst: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching sessions:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  // SCHEDULE TEMPLATE METHODS
+  async getScheduleTemplates(): Promise<ScheduleTemplate[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.SCHEDULE_TEMPLATES)
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching schedule templates:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getScheduleTemplate(id: string): Promise<ScheduleTemplate | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.SCHEDULE_TEMPLATES)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching schedule template:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createScheduleTemplate(template: ScheduleTemplateInsert): Promise<ScheduleTemplate> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.SCHEDULE_TEMPLATES)
+      .insert([template])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating schedule template:', error);
+      throw new Error(`Failed to create schedule template: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateScheduleTemplate(id: string, updates: ScheduleTemplateUpdate): Promise<ScheduleTemplate | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.SCHEDULE_TEMPLATES)
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating schedule template:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async deleteScheduleTemplate(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.SCHEDULE_TEMPLATES)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting schedule template:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // BATCH METHODS
+  async getBatches(): Promise<Batch[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.BATCHES)
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching batches:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getBatch(id: string): Promise<Batch | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.BATCHES)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching batch:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createBatch(batch: BatchInsert): Promise<Batch> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.BATCHES)
+      .insert([batch])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating batch:', error);
+      throw new Error(`Failed to create batch: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateBatch(id: string, updates: BatchUpdate): Promise<Batch | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.BATCHES)
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating batch:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async deleteBatch(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.BATCHES)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting batch:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // BATCH MEMBERSHIP METHODS
+  async getBatchMemberships(batchId: string): Promise<BatchMembership[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.BATCH_MEMBERSHIPS)
+      .select('*')
+      .eq('batch_id', batchId)
+      .order('joined_on', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching batch memberships:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getPlayerBatchMemberships(playerId: string): Promise<BatchMembership[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.BATCH_MEMBERSHIPS)
+      .select('*')
+      .eq('player_id', playerId)
+      .order('joined_on', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching player batch memberships:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async movePlayerToBatch(playerId: string, batchId: string | null, date: string, movedBy?: string): Promise<Player | null> {
+    // move_player_to_batch (migrations/0016) makes the change in a single transaction
+    const { error } = await getSupabase().rpc('move_player_to_batch', {
+      p_player_id: playerId,
+      p_batch_id: batchId,
+      p_date: date,
+      p_moved_by: movedBy ?? null,
+    });
+
+    if (error) {
+      console.error('Error moving player to batch:', error);
+      throw new Error(`Failed to move player: ${error.message}`);
+    }
+
+    return this.getPlayer(playerId);
+  }
+
+  // ATTENDANCE METHODS
+  async getSessionAttendance(sessionId: string): Promise<AttendanceRecord[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ATTENDANCE)
+      .select('*')
+      .eq('session_id', sessionId);
+
+    if (error) {
+      console.error('Error fetching session attendance:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getPlayerAttendance(playerId: string): Promise<AttendanceRecord[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.ATTENDANCE)
+      .select('*')
+      .eq('player_id', playerId);
+
+    if (error) {
+      console.error('Error fetching player attendance:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getAttendanceForSessions(sessionIds: string[]): Promise<AttendanceRecord[]> {
+    if (sessionIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await getSupabase()
+      .from(TABLES.ATTENDANCE)
+      .select('*')
+      .in('session_id', sessionIds);
+
+    if (error) {
+      console.error('Error fetching attendance:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async saveAttendance(records: AttendanceUpsert[]): Promise<AttendanceRecord[]> {
+    if (records.length === 0) {
+      return [];
+    }
+
+    const updatedAt = new Date().toISOString();
+    const { data, error } = await getSupabase()
+      .from(TABLES.ATTENDANCE)
+      .upsert(
+        records.map(record => ({ arrival_time: null, reason: null, recorded_by: null, ...record, updated_at: updatedAt })),
+        { onConflict: 'session_id,player_id' }
+      )
+      .select();
+
+    if (error) {
+      console.error('Error saving attendance:', error);
+      throw new Error(`Failed to save attendance: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async deleteAttendance(sessionId: string, playerId: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.ATTENDANCE)
+      .delete()
+      .eq('session_id', sessionId)
+      .eq('player_id', playerId);
+
+    if (error) {
+      console.error('Error deleting attendance:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // DRILL METHODS
+  async getDrills(): Promise<Drill[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.DRILLS)
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching drills:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getDrill(id: string): Promise<Drill | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.DRILLS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching drill:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createDrill(drill: DrillInsert): Promise<Drill> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.DRILLS)
+      .insert([drill])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating drill:', error);
+      throw new Error(`Failed to create drill: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateDrill(id: string, updates: DrillUpdate): Promise<Drill | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.DRILLS)
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating drill:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async deleteDrill(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.DRILLS)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting drill:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // PRACTICE PLAN METHODS
+  async getPracticePlans(): Promise<PracticePlan[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PRACTICE_PLANS)
+      .select('*')
+      .order('starts_on', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching practice plans:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async getPracticePlan(id: string): Promise<PracticePlan | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PRACTICE_PLANS)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching practice plan:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async createPracticePlan(plan: PracticePlanInsert): Promise<PracticePlan> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PRACTICE_PLANS)
+      .insert([plan])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating practice plan:', error);
+      throw new Error(`Failed to create practice plan: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updatePracticePlan(id: string, updates: PracticePlanUpdate): Promise<PracticePlan | null> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PRACTICE_PLANS)
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating practice plan:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async deletePracticePlan(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.PRACTICE_PLANS)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting practice plan:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // DRILL COMPLETION METHODS
+  async getDrillCompletions(planId: string): Promise<DrillCompletion[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.DRILL_COMPLETIONS)
+      .select('*')
+      .eq('plan_id', planId)
+      .order('completed_on', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching drill completions:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async createDrillCompletion(completion: DrillCompletionInsert): Promise<DrillCompletion> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.DRILL_COMPLETIONS)
+      .insert([completion])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating drill completion:', error);
+      throw new Error(`Failed to create drill completion: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteDrillCompletion(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.DRILL_COMPLETIONS)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting drill completion:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // SESSION RECORDING METHODS
+  async getSessionRecordings(sessionId: string): Promise<SessionRecording[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.SESSION_RECORDINGS)
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching session recordings:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async createSessionRecording(recording: SessionRecordingInsert): Promise<SessionRecording> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.SESSION_RECORDINGS)
+      .insert([recording])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating session recording:', error);
+      throw new Error(`Failed to create session recording: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Additional utility methods
+  async deletePlayer(id: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from(TABLES.PLAYERS)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting player:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  async searchPlayers(searchTerm: string): Promise<Player[]> {
+    const { data, error } = await getSupabase()
+      .from(TABLES.PLAYERS)
+      .select('*')
+      .or(`name.ilike.%${searchTerm}%,specialization.ilike.%${searchTerm}%,batting_style.ilike.%${searchTerm}%,bowling_style.ilike.%${searchTerm}%`)
+      .order('name');
+    
+    if (error) {
+      console.error('Error searching players:', error);
+      return [];
+    }
+    
+    return data || [];
+  }
+}
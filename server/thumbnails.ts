@@ -0,0 +1,79 @@
+// server/thumbnails.ts - poster frames and hover-scrub sprite strips for uploaded videos
+import fs from 'fs';
+import path from 'path';
+import { storage } from './storage';
+import { fileKeyFromUrl, fileKeys, saveFile } from './fileStorage';
+import { enqueueMediaJob, probeMedia, runFfmpeg, withWorkingCopy } from './media';
+import { VIDEO_SPRITE_FRAMES } from '../shared/schema';
+import type { Video } from '../shared/schema';
+
+const POSTER_WIDTH = 640;
+const SPRITE_FRAME_WIDTH = 160;
+
+// The poster is taken a little way in, past any fade-in or the coach stepping away
+// from the camera, but never later than this many seconds
+const MAX_POSTER_OFFSET_SECONDS = 3;
+
+// Extracts the poster and sprite from a working copy of the video stored under
+// `key` (see withWorkingCopy) and stores them next to it. Returns their URLs.
+export async function extractThumbnails(
+  key: string,
+  input: string,
+  dir: string,
+  duration: number | null,
+): Promise<Pick<Video, 'thumbnail_url' | 'sprite_url'>> {
+  const poster = path.join(dir, 'poster.jpg');
+  const sprite = path.join(dir, 'sprite.jpg');
+
+  const posterOffset = duration ? Math.min(duration * 0.1, MAX_POSTER_OFFSET_SECONDS) : 0;
+  await runFfmpeg([
+    '-ss', posterOffset.toFixed(2), '-i', input,
+    '-frames:v', '1', '-vf', `scale='min(${POSTER_WIDTH},iw)':-2`, '-q:v', '3',
+    poster,
+  ]);
+
+  // Frames evenly spaced across the video, tiled into a single row. Without a
+  // duration one frame a second is taken and the strip may end early.
+  const frameRate = duration ? `${VIDEO_SPRITE_FRAMES}/${duration.toFixed(3)}` : '1';
+  await runFfmpeg([
+    '-i', input,
+    '-vf', `fps=${frameRate},scale=${SPRITE_FRAME_WIDTH}:-2,tile=${VIDEO_SPRITE_FRAMES}x1`,
+    '-frames:v', '1', '-q:v', '5',
+    sprite,
+  ]);
+
+  return {
+    thumbnail_url: await storeImage(fileKeys.videoPoster(key), poster),
+    sprite_url: await storeImage(fileKeys.videoSprite(key), sprite),
+  };
+}
+
+async function storeImage(key: string, file: string): Promise<string> {
+  return saveFile(key, await fs.promises.readFile(file), 'image/jpeg');
+}
+
+// Regenerates just the poster and sprite for a video and saves their URLs on it.
+// Videos not kept in a file store (legacy /uploads links, YouTube) are skipped.
+export async function generateThumbnails(video: Video): Promise<Video | null> {
+  const key = fileKeyFromUrl(video.file_url);
+  if (!key) {
+    return null;
+  }
+
+  const thumbnails = await withWorkingCopy(key, async (input, dir) => {
+    const duration = video.duration || (await probeMedia(input)).duration;
+    return extractThumbnails(key, input, dir, duration);
+  });
+  return storage.updateVideo(video.id, thumbnails);
+}
+
+// Queues thumbnail regeneration behind any other media jobs
+export function queueThumbnails(video: Video): void {
+  enqueueMediaJob(`thumbnails for video ${video.id}`, async () => {
+    // The video may have been changed or deleted while it waited
+    const current = await storage.getVideo(video.id);
+    if (current) {
+      await generateThumbnails(current);
+    }
+  });
+}
@@ -0,0 +1,214 @@
+// server/videoProcessing.ts - media pipeline for new videos: cut clips from their session
+// recording, probe the upload, transcode it to H.264 MP4 renditions that play in every
+// browser, then extract thumbnails
+import fs from 'fs';
+import path from 'path';
+import { storage } from './storage';
+import { fileKeyFromUrl, fileKeys, fileStore, saveFile } from './fileStorage';
+import { enqueueMediaJob, probeMedia, runFfmpeg, withWorkingCopy } from './media';
+import type { MediaProbe } from './media';
+import { extractThumbnails } from './thumbnails';
+import type { Video, VideoProcessingStatus } from '../shared/schema';
+
+const PLAYBACK_MAX_HEIGHT = 1080;
+const PREVIEW_MAX_HEIGHT = 360;
+
+// Videos in these stages when the server stopped are picked up again at startup
+const UNFINISHED_STAGES: VideoProcessingStatus[] = ['queued', 'cutting', 'probing', 'transcoding', 'thumbnails'];
+
+// Height capped at `maxHeight`, dimensions rounded to even numbers as H.264 requires
+const scaleTo = (maxHeight: number) => `scale=-2:'min(${maxHeight},trunc(ih/2)*2)'`;
+
+const H264_ARGS = ['-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p', '-movflags', '+faststart'];
+const PLAYBACK_ARGS = ['-vf', scaleTo(PLAYBACK_MAX_HEIGHT), ...H264_ARGS, '-crf', '23', '-c:a', 'aac', '-b:a', '128k'];
+
+// MP4 uploads that are already H.264 in 4:2:0 play everywhere and are used as they are
+function isWebReady(key: string, probe: MediaProbe): boolean {
+  return ['.mp4', '.m4v'].includes(path.extname(key)) && probe.codec === 'h264' && probe.pix_fmt === 'yuv420p';
+}
+
+async function storeRendition(key: string, file: string): Promise<string> {
+  const { size } = await fs.promises.stat(file);
+  return saveFile(key, fs.createReadStream(file), 'video/mp4', size);
+}
+
+// A clip has no file of its own until it has been cut from its session recording
+async function isUncutClip(video: Video, key: string): Promise<boolean> {
+  return !!video.source_url && !(await fileStore.head(key));
+}
+
+// Cuts the clip's segment out of `source` (a working copy of its session recording)
+// straight into the playback format, and stores it as the clip's file
+async function cutClip(video: Video, key: string, source: string, dir: string): Promise<void> {
+  const start = video.clip_start ?? 0;
+  const length = (video.clip_end ?? 0) - start;
+  if (length <= 0) {
+    throw new Error('The clip has no length');
+  }
+
+  const output = path.join(dir, `clip-${video.id}.mp4`);
+  await runFfmpeg([
+    '-ss', start.toFixed(3), '-i', source, '-t', length.toFixed(3),
+    '-map', '0:v:0', '-map', '0:a:0?', ...PLAYBACK_ARGS,
+    output,
+  ]);
+
+  const { size } = await fs.promises.stat(output);
+  await saveFile(key, fs.createReadStream(output), 'video/mp4', size);
+  await fs.promises.rm(output, { force: true });
+  await storage.updateVideo(video.id, { file_size: size });
+}
+
+function sourceKeyOf(video: Video): string {
+  const sourceKey = fileKeyFromUrl(video.source_url);
+  if (!sourceKey) {
+    throw new Error('The clip\'s session recording is not a stored file');
+  }
+  return sourceKey;
+}
+
+async function setStatus(video: Video, status: VideoProcessingStatus): Promise<void> {
+  await storage.updateVideo(video.id, { processing_status: status });
+}
+
+// Runs the whole pipeline for one video, recording each stage on the video so the
+// client can follow along with GET /api/videos/:id/processing. Videos not kept in a
+// file store (legacy /uploads links, YouTube) are skipped.
+export async function processVideo(video: Video): Promise<void> {
+  const key = fileKeyFromUrl(video.file_url);
+  if (!key) {
+    return;
+  }
+
+  try {
+    if (await isUncutClip(video, key)) {
+      await setStatus(video, 'cutting');
+      await withWorkingCopy(sourceKeyOf(video), (source, dir) => cutClip(video, key, source, dir));
+    }
+
+    await withWorkingCopy(key, async (input, dir) => {
+      await setStatus(video, 'probing');
+      const probe = await probeMedia(input);
+      if (!probe.codec) {
+        throw new Error('The file has no video stream');
+      }
+
+      await setStatus(video, 'transcoding');
+      let playbackUrl = video.file_url;
+      let playbackFile = input;
+      if (!isWebReady(key, probe)) {
+        playbackFile = path.join(dir, 'playback.mp4');
+        await runFfmpeg([
+          '-i', input, '-map', '0:v:0', '-map', '0:a:0?', ...PLAYBACK_ARGS,
+          playbackFile,
+        ]);
+        playbackUrl = await storeRendition(fileKeys.videoRendition(key, 'playback'), playbackFile);
+      }
+
+      const preview = path.join(dir, 'preview.mp4');
+      await runFfmpeg([
+        '-i', playbackFile, '-map', '0:v:0', '-map', '0:a:0?',
+        '-vf', scaleTo(PREVIEW_MAX_HEIGHT), ...H264_ARGS, '-b:v', '400k', '-maxrate', '500k', '-bufsize', '1000k',
+        '-c:a', 'aac', '-b:a', '64k', '-ac', '1',
+        preview,
+      ]);
+      const previewUrl = await storeRendition(fileKeys.videoRendition(key, 'preview'), preview);
+
+      // Browser recordings rarely state their duration or frame rate; the MP4 ffmpeg
+      // wrote does
+      const playbackProbe = playbackFile === input ? probe : await probeMedia(playbackFile);
+      const duration = probe.duration ?? playbackProbe.duration;
+      await storage.updateVideo(video.id, {
+        duration: duration ?? undefined,
+        width: probe.width,
+        height: probe.height,
+        fps: probe.fps ?? playbackProbe.fps,
+        codec: probe.codec,
+        playback_url: playbackUrl,
+        preview_url: previewUrl,
+        processing_status: 'thumbnails',
+      });
+
+      const thumbnails = await extractThumbnails(key, playbackFile, dir, duration);
+      await storage.updateVideo(video.id, { ...thumbnails, processing_status: 'ready', processing_error: null });
+    });
+  } catch (error) {
+    await storage.updateVideo(video.id, { processing_status: 'failed', processing_error: (error as Error).message });
+    throw error;
+  }
+}
+
+// Marks a new or re-submitted video as queued and processes it behind any other media jobs
+export async function queueVideoProcessing(video: Video): Promise<Video | null> {
+  const queued = await storage.updateVideo(video.id, { processing_status: 'queued', processing_error: null });
+  enqueueMediaJob(`processing for video ${video.id}`, async () => {
+    // The video may have been deleted while it waited
+    const current = await storage.getVideo(video.id);
+    if (current) {
+      await processVideo(current);
+    }
+  });
+  return queued;
+}
+
+// Queues new clips of one session recording. The recording is copied once and every
+// clip cut from it, then each clip is processed like any other video.
+export async function queueClips(clips: Video[]): Promise<Video[]> {
+  if (clips.length === 0) {
+    return [];
+  }
+
+  const sourceKey = sourceKeyOf(clips[0]);
+  const queued = await Promise.all(clips.map(clip => storage.updateVideo(clip.id, { processing_status: 'queued', processing_error: null })));
+
+  enqueueMediaJob(`clips from ${sourceKey}`, async () => {
+    const cut: string[] = [];
+    try {
+      await withWorkingCopy(sourceKey, async (source, dir) => {
+        for (const clip of clips) {
+          // Clips deleted while they waited are skipped
+          const current = await storage.getVideo(clip.id);
+          if (!current) continue;
+
+          try {
+            await setStatus(current, 'cutting');
+            await cutClip(current, fileKeyFromUrl(current.file_url)!, source, dir);
+            cut.push(current.id);
+          } catch (error) {
+            console.error(`Error cutting clip ${clip.id}:`, (error as Error).message);
+            await storage.updateVideo(clip.id, { processing_status: 'failed', processing_error: (error as Error).message });
+          }
+        }
+      });
+    } catch (error) {
+      // The recording itself couldn't be read; none of the clips can be cut
+      for (const clip of clips) {
+        await storage.updateVideo(clip.id, { processing_status: 'failed', processing_error: (error as Error).message });
+      }
+      throw error;
+    }
+
+    for (const id of cut) {
+      const current = await storage.getVideo(id);
+      if (!current) continue;
+      try {
+        await processVideo(current);
+      } catch (error) {
+        console.error(`Error processing clip ${id}:`, (error as Error).message);
+      }
+    }
+  });
+
+  return queued.map((video, index) => video || clips[index]);
+}
+
+// Re-queues videos whose processing was cut short by a restart
+export async function resumeVideoProcessing(): Promise<void> {
+  const videos = await storage.getVideosByProcessingStatus(UNFINISHED_STAGES);
+  for (const video of videos) {
+    await queueVideoProcessing(video);
+  }
+  if (videos.length > 0) {
+    console.log(`Resumed processing for ${videos.length} video(s)`);
+  }
+}
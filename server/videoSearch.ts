@@ -0,0 +1,204 @@
+// server/videoSearch.ts - query parsing, cursors and facet counting for GET /api/videos
+import { VIDEO_TAG_FIELDS, VIDEO_TAG_OPTIONS } from '../shared/schema';
+import type {
+  Video, VideoFacets, VideoSearchCursor, VideoSearchQuery, VideoSearchResult, VideoSortField, VideoTagField, VideoTags,
+} from '../shared/schema';
+
+export const VIDEO_SORT_FIELDS: VideoSortField[] = ['created_at', 'duration', 'quality_rating', 'title'];
+export const DEFAULT_VIDEO_PAGE_SIZE = 24;
+export const MAX_VIDEO_PAGE_SIZE = 100;
+
+// Sort fields that may be null; nulls sort below every value
+export const NULLABLE_SORT_FIELDS: VideoSortField[] = ['duration', 'quality_rating'];
+
+const isValidDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+// Repeated parameters (?shot_type=A&shot_type=B) and comma-separated lists are both accepted
+const listParam = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+
+export function encodeCursor(video: Video, sort: VideoSortField): string {
+  const cursor: VideoSearchCursor = { value: video[sort] ?? null, id: video.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): VideoSearchCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return cursor && typeof cursor.id === 'string' && 'value' in cursor ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// Everything except player_id and batch, which the route resolves to player ids
+export function parseVideoSearchParams(params: Record<string, unknown>): { search: VideoSearchQuery; errors: string[] } {
+  const errors: string[] = [];
+  const search: VideoSearchQuery = {
+    sort: 'created_at',
+    order: 'desc',
+    limit: DEFAULT_VIDEO_PAGE_SIZE,
+  };
+
+  const tags: VideoSearchQuery['tags'] = {};
+  for (const field of VIDEO_TAG_FIELDS) {
+    const values = listParam(params[field]);
+    const options: readonly string[] = VIDEO_TAG_OPTIONS[field];
+    const invalid = values.filter(value => !options.includes(value));
+    if (invalid.length > 0) {
+      errors.push(`${field} must be one of: ${options.join(', ')}`);
+    } else if (values.length > 0) {
+      tags[field] = values;
+    }
+  }
+  if (Object.keys(tags).length > 0) {
+    search.tags = tags;
+  }
+
+  for (const field of ['from', 'to'] as const) {
+    const value = params[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || !isValidDate(value)) {
+      errors.push(`${field} must be a date in YYYY-MM-DD format`);
+    } else {
+      search[field] = value;
+    }
+  }
+  if (search.from && search.to && search.to < search.from) {
+    errors.push('to must not be before from');
+  }
+
+  for (const field of ['min_duration', 'max_duration', 'min_quality', 'max_quality'] as const) {
+    const value = params[field];
+    if (value === undefined) continue;
+    const number = Number(value);
+    if (typeof value !== 'string' || value.trim() === '' || isNaN(number) || number < 0) {
+      errors.push(`${field} must be a non-negative number`);
+    } else {
+      search[field] = number;
+    }
+  }
+
+  if (params.sort !== undefined) {
+    if (!VIDEO_SORT_FIELDS.includes(params.sort as VideoSortField)) {
+      errors.push(`sort must be one of: ${VIDEO_SORT_FIELDS.join(', ')}`);
+    } else {
+      search.sort = params.sort as VideoSortField;
+    }
+  }
+
+  if (params.order !== undefined) {
+    if (params.order !== 'asc' && params.order !== 'desc') {
+      errors.push('order must be asc or desc');
+    } else {
+      search.order = params.order;
+    }
+  }
+
+  if (params.limit !== undefined) {
+    const limit = Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_VIDEO_PAGE_SIZE) {
+      errors.push(`limit must be an integer between 1 and ${MAX_VIDEO_PAGE_SIZE}`);
+    } else {
+      search.limit = limit;
+    }
+  }
+
+  if (params.cursor !== undefined) {
+    const cursor = typeof params.cursor === 'string' ? decodeCursor(params.cursor) : null;
+    if (!cursor) {
+      errors.push('cursor is invalid');
+    } else {
+      search.cursor = cursor;
+    }
+  }
+
+  return { search, errors };
+}
+
+// The day after a YYYY-MM-DD date, so `to` can be applied as created_at < next day
+export function dayAfter(date: string): string {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString();
+}
+
+export function matchesTagFilters(video: VideoTags, tags: VideoSearchQuery['tags'] = {}, except?: VideoTagField): boolean {
+  return VIDEO_TAG_FIELDS.every(field => {
+    const values = tags[field];
+    return field === except || !values || values.includes(video[field] as string);
+  });
+}
+
+// `rows` must already match every filter except the tag filters
+export function countVideoFacets(rows: VideoTags[], tags: VideoSearchQuery['tags'] = {}): VideoFacets {
+  const facets = Object.fromEntries(VIDEO_TAG_FIELDS.map(field => [field, {}])) as VideoFacets;
+
+  for (const row of rows) {
+    for (const field of VIDEO_TAG_FIELDS) {
+      const value = row[field];
+      if (value && matchesTagFilters(row, tags, field)) {
+        facets[field][value] = (facets[field][value] || 0) + 1;
+      }
+    }
+  }
+
+  return facets;
+}
+
+export function emptyVideoSearchResult(): VideoSearchResult {
+  return { videos: [], total: 0, next_cursor: null, facets: countVideoFacets([]) };
+}
+
+// Cuts a page of limit + 1 rows down to the limit and works out the next cursor
+export function toVideoPage(rows: Video[], search: VideoSearchQuery): Pick<VideoSearchResult, 'videos' | 'next_cursor'> {
+  const videos = rows.slice(0, search.limit);
+  const hasMore = rows.length > search.limit;
+  return {
+    videos,
+    next_cursor: hasMore ? encodeCursor(videos[videos.length - 1], search.sort) : null,
+  };
+}
+
+// In-process search used by MemStorage; same semantics as the SQL version
+const sortValue = (video: Video, sort: VideoSortField) => video[sort] ?? null;
+
+// Plain code-point order, which matches how Postgres orders UUIDs
+const compareIds = (a: string, b: string) => (a === b ? 0 : a < b ? -1 : 1);
+
+function compareSortValues(a: string | number | null, b: string | number | null): number {
+  if (a === b) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  return a < b ? -1 : 1;
+}
+
+export function compareVideos(a: Video, b: Video, search: VideoSearchQuery): number {
+  const direction = search.order === 'asc' ? 1 : -1;
+  const bySort = compareSortValues(sortValue(a, search.sort), sortValue(b, search.sort));
+  return direction * (bySort !== 0 ? bySort : compareIds(a.id, b.id));
+}
+
+export function isAfterCursor(video: Video, search: VideoSearchQuery): boolean {
+  if (!search.cursor) return true;
+  const direction = search.order === 'asc' ? 1 : -1;
+  const bySort = compareSortValues(sortValue(video, search.sort), search.cursor.value);
+  return direction * (bySort !== 0 ? bySort : compareIds(video.id, search.cursor.id)) > 0;
+}
+
+export function matchesBaseFilters(video: Video, search: VideoSearchQuery): boolean {
+  const created = video.created_at || '';
+  // Reference clips (no player) are listed separately
+  return !!video.player_id &&
+    (!search.player_ids || search.player_ids.includes(video.player_id)) &&
+    (!search.from || created >= `${search.from}T00:00:00.000Z`) &&
+    (!search.to || created < dayAfter(search.to)) &&
+    (search.min_duration === undefined || (video.duration ?? -1) >= search.min_duration) &&
+    (search.max_duration === undefined || (video.duration ?? Infinity) <= search.max_duration) &&
+    (search.min_quality === undefined || (video.quality_rating ?? -1) >= search.min_quality) &&
+    (search.max_quality === undefined || (video.quality_rating ?? Infinity) <= search.max_quality);
+}
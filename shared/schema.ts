@@ -14,11 +14,56 @@ export interface Player {
   dob?: string; // DATE type from PostgreSQL comes as string in JavaScript
   height?: number; // DECIMAL(5,2) 
   weight?: number; // DECIMAL(5,2)
-  batch?: string; // Manually added field
+  batch?: string; // name of the player's batch, kept in step with batch_id
+  batch_id?: string | null; // changed only by moving the player (POST /api/batches/:id/players)
   position?: string; // Manually added field
   created_at?: string;
 }
 
+export const BATCH_LEVELS = ['Beginner', 'Intermediate', 'Advanced', 'Elite'] as const;
+export type BatchLevel = typeof BATCH_LEVELS[number];
+
+export const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+// A weekly training slot; times are 24-hour HH:MM
+export interface BatchTimetableSlot {
+  day: Weekday;
+  start: string;
+  end: string;
+}
+
+export interface Batch {
+  id: string;
+  name: string; // unique, ignoring case
+  age_group?: string | null; // e.g. U15
+  level?: BatchLevel | null;
+  coaches: string[]; // TEXT[]
+  rubric_id?: string | null; // template for the batch's assessments, ahead of any other assignment
+  timetable: BatchTimetableSlot[]; // JSONB
+  capacity?: number | null; // most players at once; no limit when null
+  created_at: string;
+  updated_at: string;
+}
+
+// A player's time in a batch. left_on stays null while they are in it.
+export interface BatchMembership {
+  id: string;
+  player_id: string;
+  batch_id: string;
+  joined_on: string; // DATE
+  left_on?: string | null; // DATE
+  moved_by?: string | null; // coach who made the change
+  created_at: string;
+}
+
+// Returned by GET /api/batches/:id/players
+export interface BatchRosterEntry {
+  player: Player;
+  joined_on: string | null;
+  latest_assessment: Assessment | null;
+}
+
 export interface Assessment {
   id: string;
   player_id: string;
@@ -29,22 +74,375 @@ export interface Assessment {
   overall_rating: number;
   notes?: string;
   session_date?: string; // DATE type comes as string
+  week_start?: string; // DATE - Monday of the assessed week
+  week_end?: string; // DATE
+  rubric_id?: string; // rubric template used, 'default' for the built-in one
+  created_at?: string;
+}
+
+// General-area ratings (bat_connect, foot_movement, ...) and shot-specific ratings
+// (cover_drive, cover_drive_hands_grip, ...) recorded against an assessment
+export interface PerformanceMetric {
+  id: string;
+  assessment_id: string;
+  metric_type: string;
+  rating: number; // 1-5 stars, or 1 (Needs Work) / 2 (Good) for shot sub-areas
+  value?: string;
+  notes?: string;
+  video_url?: string;
+  created_at?: string;
+}
+
+export interface ProblemArea {
+  id: string;
+  assessment_id: string;
+  area_type: string;
+  rating: number; // 1-5 stars
+  notes?: string;
   created_at?: string;
 }
 
-export interface Video {
+// A recording of a training session, stored under sessions/<id>/recordings/.
+// Per-player clips cut from it are videos with its file_url as source_url.
+export interface SessionRecording {
   id: string;
+  session_id: string;
+  title: string;
+  file_url: string;
+  file_size?: number | null;
+  duration?: number | null; // seconds, as timed while recording
+  created_at: string;
+}
+
+// Rubric templates define what an assessment rates. General criteria are saved
+// as problem areas (area_type = key), shot criteria as metrics (metric_type = key)
+// with one extra metric per sub-criterion (metric_type = `${key}_${sub.key}`).
+export interface RubricScale {
+  min: number; // lowest rating, 0 always means "not rated"
+  max: number;
+  labels?: { value: number; label: string }[]; // e.g. 1 = Needs Work, 2 = Good
+  pass_mark?: number; // ratings at or above this are shown as Good
+}
+
+export interface RubricSubCriterion {
+  key: string; // e.g. hands_grip
+  name: string;
+  weight: number;
+}
+
+export interface RubricCriterion {
+  key: string; // e.g. bat_connect, cover_drive
+  name: string;
+  group: 'general' | 'shot';
+  weight: number; // relative importance when combining ratings
+  color?: string; // chart line colour
+  scale: RubricScale;
+  sub_criteria?: RubricSubCriterion[]; // shot criteria only
+  sub_scale?: RubricScale;
+}
+
+export interface RubricTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  criteria: RubricCriterion[]; // JSONB
+  batches?: string[]; // TEXT[] - batches this template is assigned to
+  specializations?: string[]; // TEXT[] - e.g. Batsman, Spin Bowler
+  is_default?: boolean; // used when nothing more specific is assigned
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Returned by GET /api/players/:id/rating-breakdown. Scores are 0-1 before
+// being mapped onto the 1-5 star (assessment) or 0-10 (player) scale.
+export interface CriterionScore {
+  key: string;
+  name: string;
+  weight: number;
+  rating?: number; // the criterion's own rating, if rated
+  sub_ratings: { key: string; name: string; weight: number; rating: number }[];
+  score: number;
+  contribution: number; // share of the assessment score, 0-1
+}
+
+export interface AssessmentScore {
+  assessment_id: string;
+  date: string; // week_start, falling back to session date / created_at
+  rubric_id: string;
+  score: number | null; // null when nothing was rated
+  overall_rating: number; // 1-5 stars, 0 when unrated
+  age_weeks: number;
+  recency_weight: number;
+  share: number; // share of the player's rating, 0-1
+  criteria: CriterionScore[];
+}
+
+export interface RatingBreakdown {
   player_id: string;
+  overall_rating: number; // 0-10
+  total_assessments: number;
+  half_life_weeks: number;
+  assessments: AssessmentScore[]; // newest first
+}
+
+// Request body for POST /api/players/:id/assessments/full - the whole
+// assessment form, saved all-or-nothing
+export interface ShotAssessmentSubmission {
+  shot_type: string; // rubric criterion key, e.g. cover_drive
+  rating: number; // 1-5 stars
+  notes?: string;
+  video_url?: string;
+  areas: { id: string; rating: number; notes?: string }[]; // e.g. hands_grip, 1 = Needs Work, 2 = Good
+}
+
+export interface FullAssessmentSubmission {
+  coach?: string; // when set, this coach's draft for the player is discarded on save
+  rubric_id?: string; // rubric template the form was rendered from
+  notes?: string;
+  week_start: string;
+  week_end: string;
+  problem_areas: { area_type: string; rating: number; notes?: string }[];
+  shot_assessments: ShotAssessmentSubmission[];
+}
+
+// Autosaved state of the assessment form. Everything is optional because the
+// coach may be part way through; current_shot is the shot not yet added.
+export interface AssessmentDraftData {
+  notes?: string;
+  problem_areas?: { area_type: string; rating: number; notes?: string }[];
+  shot_assessments?: ShotAssessmentSubmission[];
+  current_shot?: ShotAssessmentSubmission;
+}
+
+export interface AssessmentDraft {
+  id: string;
+  player_id: string;
+  coach: string; // coach name, one draft per player and coach
+  data: AssessmentDraftData; // JSONB
+  created_at?: string;
+  updated_at?: string;
+}
+
+// An assessment with its metrics and problem areas, as returned by the API
+export type FullAssessment = Assessment & {
+  metrics: PerformanceMetric[];
+  problem_areas: ProblemArea[];
+};
+
+// Coach notes. Profile notes are about the player in general, assessment and
+// video notes are attached to one assessment or video.
+export type NoteType = 'profile' | 'assessment' | 'video';
+
+export interface NoteRevision {
+  body: string;
+  type: NoteType;
+  edited_at: string; // when this version was replaced
+}
+
+export interface Note {
+  id: string;
+  player_id: string;
+  assessment_id?: string | null;
+  video_id?: string | null;
+  author: string; // coach name, only the author may edit the note
+  type: NoteType;
+  body: string;
+  history: NoteRevision[]; // JSONB - earlier versions, oldest first
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Coach comments pinned to a moment in a video, e.g. "0:03.4 - head falls to off side"
+export interface Annotation {
+  id: string;
+  video_id: string;
+  timestamp: number; // seconds into the video
+  duration?: number | null; // seconds the comment covers, if more than a moment
+  author: string; // coach name, only the author may edit the annotation
+  text: string;
+  criterion?: string | null; // rubric criterion or sub-criterion key, e.g. head_stability
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Telestration: shapes a coach draws over a paused frame, replayed when playback
+// reaches that frame. Points are fractions of the frame's width and height (0-1),
+// so drawings line up at any player size.
+export const DRAWING_TOOLS = ['pen', 'line', 'arrow', 'angle', 'circle'] as const;
+export type DrawingTool = typeof DRAWING_TOOLS[number];
+
+export interface DrawingPoint {
+  x: number;
+  y: number;
+}
+
+// pen: the stroke's points; line and arrow: start and end; angle: one arm's end,
+// the vertex and the other arm's end; circle: centre and a point on the edge
+export interface DrawingShape {
+  tool: DrawingTool;
+  points: DrawingPoint[];
+  color: string; // #rrggbb
+}
+
+export interface Drawing {
+  id: string;
+  video_id: string;
+  timestamp: number; // seconds into the video
+  author: string; // coach name, only the author may delete the drawing
+  shapes: DrawingShape[];
+  created_at?: string;
+}
+
+// A named stretch of a video, saved from an A-B loop, e.g. "Front foot stride"
+export interface VideoBookmark {
+  id: string;
+  video_id: string;
+  name: string;
+  start: number; // seconds into the video
+  end: number;
+  author: string; // coach name, only the author may delete the bookmark
+  created_at?: string;
+}
+
+// Structured video tags. Each field only accepts the values listed here
+// (checked by the API), null clears a tag.
+export const VIDEO_TAG_OPTIONS = {
+  shot_type: ['Cover Drive', 'Straight Drive', 'Off Drive', 'Pull Shot', 'Cut Shot', 'Sweep Shot', 'Defensive Block', 'Miscellaneous'],
+  ball_length: ['Yorker', 'Full', 'Good', 'Short'],
+  ball_speed: ['Fast', 'Medium', 'Slow'],
+  bat_connect: ['Middle', 'Edge', 'Bottom', 'Missed'],
+  footwork: ['Good', 'Average', 'Poor'],
+  reaction_time: ['Fast', 'Average', 'Slow'],
+  bat_swing: ['Good', 'Average', 'Poor'],
+  session_slot: ['Morning', 'Afternoon', 'Evening'],
+} as const;
+
+export type VideoTagField = keyof typeof VIDEO_TAG_OPTIONS;
+export const VIDEO_TAG_FIELDS = Object.keys(VIDEO_TAG_OPTIONS) as VideoTagField[];
+export type VideoTags = { [K in VideoTagField]?: (typeof VIDEO_TAG_OPTIONS)[K][number] | null };
+
+// Batting hands, as in Player.batting_style
+export const BATTING_HANDS = ['Right Hand', 'Left Hand'] as const;
+export type BattingHand = typeof BATTING_HANDS[number];
+
+export interface Video extends VideoTags {
+  id: string;
+  player_id: string | null; // null for reference clips, which belong to no player
   title: string;
   file_url: string;
   file_size?: number; // BIGINT
-  duration?: number; // REAL type
-  tags?: string[]; // TEXT[] array
+  duration?: number; // REAL type - seconds, probed after upload
+  tags?: string[]; // TEXT[] array - free-text labels
   technique_focus?: string;
   quality_rating?: number;
+  thumbnail_url?: string | null; // poster frame, generated after upload
+  sprite_url?: string | null; // VIDEO_SPRITE_FRAMES frames side by side, for hover-scrub previews
+  // Probed from the uploaded file
+  width?: number | null;
+  height?: number | null;
+  fps?: number | null;
+  codec?: string | null;
+  // H.264 MP4 renditions that play everywhere, including Safari / iOS
+  playback_url?: string | null;
+  preview_url?: string | null; // low bitrate
+  processing_status?: VideoProcessingStatus | null; // null for videos added before processing existed
+  processing_error?: string | null;
+  // Clips cut from a session recording: the recording and the segment, in seconds
+  session_id?: string | null;
+  source_url?: string | null;
+  clip_start?: number | null;
+  clip_end?: number | null;
+  // Reference clips: the batting hand the model technique is played with, null suits both
+  handedness?: BattingHand | null;
   created_at?: string;
 }
 
+// Stages of the media pipeline (server/videoProcessing.ts), in order
+export const VIDEO_PROCESSING_STAGES = ['queued', 'cutting', 'probing', 'transcoding', 'thumbnails', 'ready', 'failed'] as const;
+export type VideoProcessingStatus = (typeof VIDEO_PROCESSING_STAGES)[number];
+
+// GET /api/videos/:id/processing
+export type VideoProcessingJob = Pick<Video,
+  'id' | 'processing_status' | 'processing_error' | 'duration' | 'width' | 'height' | 'fps' | 'codec' |
+  'thumbnail_url' | 'sprite_url' | 'playback_url' | 'preview_url'>;
+
+// Frames in a video's sprite strip, evenly spaced across the video
+export const VIDEO_SPRITE_FRAMES = 10;
+
+// GET /api/videos - filtered search over all videos. Tag filters match any of
+// the listed values; ranges are inclusive.
+export type VideoSortField = 'created_at' | 'duration' | 'quality_rating' | 'title';
+
+export interface VideoSearchQuery {
+  player_ids?: string[]; // player_id and batch filters, resolved to players
+  tags?: { [K in VideoTagField]?: string[] };
+  from?: string; // YYYY-MM-DD, recorded on or after
+  to?: string; // YYYY-MM-DD, recorded on or before
+  min_duration?: number; // seconds
+  max_duration?: number;
+  min_quality?: number;
+  max_quality?: number;
+  sort: VideoSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: VideoSearchCursor;
+}
+
+// Position after the last video of a page; missing durations and ratings sort lowest
+export interface VideoSearchCursor {
+  value: string | number | null;
+  id: string;
+}
+
+// Matching videos per tag value. Each tag's counts ignore that tag's own filter,
+// so a dropdown shows how many clips every option would give.
+export type VideoFacets = { [K in VideoTagField]: Record<string, number> };
+
+export interface VideoSearchResult {
+  videos: Video[];
+  total: number; // across all pages
+  next_cursor: string | null;
+  facets: VideoFacets;
+}
+
+// Resumable uploads (POST /api/uploads). An upload for a player becomes a Video
+// when it completes; an upload for a session only stores the recording.
+export interface UploadInit {
+  file_name: string;
+  content_type: string;
+  size: number; // bytes
+  player_id?: string;
+  session_id?: string;
+  video?: Pick<VideoUpdate, 'title' | 'technique_focus' | 'quality_rating' | 'tags'> & VideoTags;
+}
+
+export interface UploadSession extends UploadInit {
+  id: string;
+  key: string; // where the file is stored on completion
+  chunk_size: number; // every chunk but the last has exactly this many bytes
+  offset: number; // bytes received so far
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UploadCompletion {
+  file_url: string;
+  size: number;
+  video?: Video;
+}
+
+// POST /api/sessions/:id/clips - segments of a session recording to cut into player videos
+export type ClipSegment = Pick<VideoUpdate, 'title' | 'technique_focus' | 'quality_rating' | 'tags'> & VideoTags & {
+  player_id: string;
+  start: number; // seconds into the recording
+  end: number;
+};
+
+export interface ClipRequest {
+  source_url: string; // the session recording, as returned when its upload completed
+  clips: ClipSegment[];
+}
+
 export interface Session {
   id: string;
   name: string;
@@ -53,18 +451,229 @@ export interface Session {
   duration_minutes?: number;
   focus_areas?: string[]; // TEXT[] array
   notes?: string;
+  // Scheduling. A session with template_id is one occurrence of a recurring
+  // template (on its date) that was changed or cancelled.
+  batch_id?: string | null;
+  template_id?: string | null;
+  start_time?: string | null; // HH:MM
+  end_time?: string | null;
+  venue?: string | null;
+  net?: string | null; // net or pitch at the venue; none books the whole venue
+  coaches?: string[]; // TEXT[] - the batch's coaches when empty
+  status?: SessionStatus; // 'scheduled' for sessions added before scheduling existed
+  cancel_reason?: string | null;
   created_at?: string;
 }
 
+// Attendance at a session. Present and late count as attended; excused absences
+// are left out of attendance percentages.
+export const ATTENDANCE_STATUSES = ['present', 'late', 'absent', 'excused'] as const;
+export type AttendanceStatus = typeof ATTENDANCE_STATUSES[number];
+
+export interface AttendanceRecord {
+  id: string;
+  session_id: string;
+  player_id: string; // one record per session and player
+  status: AttendanceStatus;
+  arrival_time?: string | null; // HH:MM
+  reason?: string | null; // e.g. why they were late or absent
+  recorded_by?: string | null; // coach who took attendance
+  created_at: string;
+  updated_at: string;
+}
+
+// GET /api/sessions/:id/attendance - the session batch's current players and
+// anyone already recorded, by name
+export interface AttendanceSheetEntry {
+  player: Player;
+  record: AttendanceRecord | null;
+}
+
+export interface AttendanceSummary {
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  percentage: number | null; // attended / (recorded - excused), null when nothing counts
+}
+
+// GET /api/players/:id/attendance
+export interface PlayerAttendance {
+  player_id: string;
+  summary: AttendanceSummary;
+  records: (AttendanceRecord & { session: Pick<Session, 'id' | 'name' | 'date'> })[]; // latest first
+}
+
+// GET /api/batches/:id/attendance - the batch's sessions between two dates
+export interface BatchAttendanceReport {
+  batch_id: string;
+  from: string;
+  to: string;
+  sessions: (Pick<Session, 'id' | 'name' | 'date' | 'start_time'> & { summary: AttendanceSummary })[];
+  players: { player: Pick<Player, 'id' | 'name'>; summary: AttendanceSummary }[]; // by name
+  summary: AttendanceSummary;
+}
+
+export const SESSION_STATUSES = ['scheduled', 'cancelled'] as const;
+export type SessionStatus = typeof SESSION_STATUSES[number];
+
+// A weekly recurring session for a batch, e.g. nets Mon/Wed/Fri 06:00-08:00.
+// Occurrences are worked out from it when the schedule is read, so it has no end
+// unless ends_on is set.
+export interface ScheduleTemplate {
+  id: string;
+  batch_id: string;
+  name: string;
+  days: Weekday[]; // TEXT[]
+  start_time: string; // HH:MM
+  end_time: string;
+  venue?: string | null;
+  net?: string | null;
+  coaches: string[]; // TEXT[] - the batch's coaches when empty
+  focus_areas?: string[];
+  starts_on: string; // DATE - first day it runs
+  ends_on?: string | null; // DATE - last day it runs
+  created_at: string;
+  updated_at: string;
+}
+
+// One item on the calendar (GET /api/schedule): a saved session, or an
+// occurrence of a template that has no session of its own yet
+export interface ScheduleEntry {
+  key: string; // the session id, or `${template_id}:${date}`
+  session_id: string | null;
+  template_id: string | null;
+  batch_id: string | null;
+  name: string;
+  date: string; // YYYY-MM-DD
+  start_time: string | null; // null for all-day sessions
+  end_time: string | null;
+  venue: string | null;
+  net: string | null;
+  coaches: string[];
+  status: SessionStatus;
+  cancel_reason: string | null;
+}
+
+// A practice drill in the coaches' library
+export interface Drill {
+  id: string;
+  name: string;
+  description?: string | null;
+  video_id?: string | null; // demo clip from the reference library
+  target_criteria: string[]; // TEXT[] - rubric criterion or sub-criterion keys, e.g. weight_transfer
+  equipment: string[]; // TEXT[]
+  duration_minutes?: number | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PracticePlanItem {
+  drill_id: string;
+  target: number; // times to do the drill over the plan
+  notes?: string | null;
+}
+
+// Drills assigned to one player, or to everyone in a batch, between two dates
+export interface PracticePlan {
+  id: string;
+  name: string;
+  player_id: string | null; // exactly one of player_id and batch_id
+  batch_id: string | null;
+  starts_on: string; // DATE
+  ends_on: string; // DATE
+  items: PracticePlanItem[]; // JSONB
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A player doing one of the plan's drills on a day; at most one per drill and day
+export interface DrillCompletion {
+  id: string;
+  plan_id: string;
+  drill_id: string;
+  player_id: string;
+  completed_on: string; // DATE
+  recorded_by?: string | null;
+  created_at: string;
+}
+
+// GET /api/players/:id/practice-plans - a plan with the player's progress on it
+export interface PracticePlanProgress {
+  plan: PracticePlan;
+  items: (PracticePlanItem & { drill: Drill | null; completions: DrillCompletion[]; done: number })[];
+  done: number; // completions counted up to each item's target
+  target: number;
+  percentage: number; // 0-100
+}
+
+// GET /api/practice-plans/:id/players - how far each assigned player has got
+export interface PracticePlanPlayerProgress {
+  player: Pick<Player, 'id' | 'name'>;
+  done: number;
+  target: number;
+  percentage: number;
+}
+
+// GET /api/assessments/:id/drill-suggestions - a criterion rated below its pass
+// mark, with the drills that target it
+export interface DrillSuggestion {
+  criterion: string; // e.g. cover_drive or weight_transfer
+  name: string; // e.g. "Weight Transfer to Front Foot (Cover Drive)"
+  rating: number;
+  drills: Drill[];
+}
+
 // Additional utility types for database operations
 export type PlayerInsert = Omit<Player, 'id' | 'created_at' | 'overall_rating' | 'total_assessments'>;
 export type PlayerUpdate = Partial<PlayerInsert>;
+// Written by the scoring engine (server/scoring.ts), not by clients
+export type PlayerRatingUpdate = Required<Pick<Player, 'overall_rating' | 'total_assessments'>>;
 
 export type AssessmentInsert = Omit<Assessment, 'id' | 'created_at'>;
 export type AssessmentUpdate = Partial<AssessmentInsert>;
 
+export type PerformanceMetricInsert = Omit<PerformanceMetric, 'id' | 'created_at'>;
+export type PerformanceMetricUpdate = Partial<Omit<PerformanceMetricInsert, 'assessment_id'>>;
+
+export type ProblemAreaInsert = Omit<ProblemArea, 'id' | 'created_at'>;
+export type ProblemAreaUpdate = Partial<Omit<ProblemAreaInsert, 'assessment_id'>>;
+
+export interface FullAssessmentInsert {
+  assessment: AssessmentInsert;
+  problem_areas: Omit<ProblemAreaInsert, 'assessment_id'>[];
+  metrics: Omit<PerformanceMetricInsert, 'assessment_id'>[];
+}
+
+export type RubricTemplateInsert = Omit<RubricTemplate, 'id' | 'created_at' | 'updated_at'>;
+export type RubricTemplateUpdate = Partial<RubricTemplateInsert>;
+
+export type BatchInsert = Omit<Batch, 'id' | 'created_at' | 'updated_at'>;
+export type BatchUpdate = Partial<BatchInsert>;
+
+export type AssessmentDraftUpsert = Pick<AssessmentDraft, 'player_id' | 'coach' | 'data'>;
+
+export type NoteInsert = Omit<Note, 'id' | 'created_at' | 'updated_at' | 'history'>;
+export type NoteUpdate = Partial<Pick<Note, 'body' | 'type' | 'history'>>;
+export type AnnotationInsert = Omit<Annotation, 'id' | 'created_at' | 'updated_at'>;
+export type AnnotationUpdate = Partial<Pick<Annotation, 'timestamp' | 'duration' | 'text' | 'criterion'>>;
+export type DrawingInsert = Omit<Drawing, 'id' | 'created_at'>;
+export type VideoBookmarkInsert = Omit<VideoBookmark, 'id' | 'created_at'>;
+
 export type VideoInsert = Omit<Video, 'id' | 'created_at'>;
 export type VideoUpdate = Partial<VideoInsert>;
 
 export type SessionInsert = Omit<Session, 'id' | 'created_at'>;
-export type SessionUpdate = Partial<SessionInsert>;
\ No newline at end of file
+export type SessionUpdate = Partial<SessionInsert>;
+export type AttendanceUpsert = Pick<AttendanceRecord, 'session_id' | 'player_id' | 'status' | 'arrival_time' | 'reason' | 'recorded_by'>;
+export type ScheduleTemplateInsert = Omit<ScheduleTemplate, 'id' | 'created_at' | 'updated_at'>;
+export type ScheduleTemplateUpdate = Partial<ScheduleTemplateInsert>;
+export type SessionRecordingInsert = Omit<SessionRecording, 'id' | 'created_at'>;
+export type DrillInsert = Omit<Drill, 'id' | 'created_at' | 'updated_at'>;
+export type DrillUpdate = Partial<DrillInsert>;
+export type PracticePlanInsert = Omit<PracticePlan, 'id' | 'created_at' | 'updated_at'>;
+export type PracticePlanUpdate = Partial<PracticePlanInsert>;
+export type DrillCompletionInsert = Omit<DrillCompletion, 'id' | 'created_at'>;
\ No newline at end of file